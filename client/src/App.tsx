@@ -73,8 +73,7 @@ function Router() {
         <Route path="/explore" component={Explore} />
         <Route path="/auth" component={Landing} />
         <Route path="/how-it-works" component={HowItWorks} />
-        <Route path="/chat/:favorId" component={Chat} />
-        <Route path="/negotiate/:favorId" component={Chat} />
+        <Route path="/chat/:chatRoomId" component={Chat} />
         <Route path="/user/:userId" component={UserProfile} />
         <Route path="/favor/:favorId" component={FavorDetail} />
         <Route path="/onboarding" component={OnboardingPage} />
@@ -1,27 +1,25 @@
 import { Button } from "@/components/ui/button";
-import { Grid, Wrench, Car, Dog, Package, Truck, Settings } from "lucide-react";
+import { Grid } from "lucide-react";
+import { useCategories } from "@/hooks/use-categories";
+import { categoryIcon } from "@/lib/categoryIcons";
 
 interface CategoryFiltersProps {
   selectedCategory: string;
   onCategoryChange: (category: string) => void;
-  availableCategories: string[];
+  /** Only show these category names; all categories when omitted */
+  availableCategories?: string[];
 }
 
 export default function CategoryFilters({ selectedCategory, onCategoryChange, availableCategories }: CategoryFiltersProps) {
-  const allCategories = [
-    { name: 'All', icon: Grid, color: 'bg-gray-500' },
-    { name: 'Handyman', icon: Wrench, color: 'bg-blue-500' },
-    { name: 'Ride', icon: Car, color: 'bg-green-500' },
-    { name: 'Moving', icon: Truck, color: 'bg-yellow-500' },
-    { name: 'Plumbing', icon: Package, color: 'bg-orange-500' },
-    { name: 'Pet Care', icon: Dog, color: 'bg-red-500' },
-    { name: 'Others', icon: Settings, color: 'bg-purple-500' },
-  ];
+  const { data: taxonomy = [] } = useCategories();
 
-  // Filter to only show categories that exist in the data
-  const categories = allCategories.filter(cat => 
-    cat.name === 'All' || availableCategories.includes(cat.name)
-  );
+  // In taxonomy order
+  const categories = [
+    { name: 'All', icon: Grid, color: '#6b7280' },
+    ...taxonomy
+      .filter(cat => !availableCategories || availableCategories.includes(cat.name))
+      .map(cat => ({ name: cat.name, icon: categoryIcon(cat.icon), color: cat.color })),
+  ];
 
   return (
     <div className="flex space-x-2 sm:space-x-3 overflow-x-auto pb-2 scrollbar-hide">
@@ -40,7 +38,10 @@ export default function CategoryFilters({ selectedCategory, onCategoryChange, av
                 : 'border-slate-600 text-slate-400 hover:border-slate-500 hover:text-slate-300 bg-slate-800/50'
             }`}
           >
-            <div className={`w-6 h-6 sm:w-8 sm:h-8 ${isSelected ? 'bg-favr-blue' : category.color} rounded-lg flex items-center justify-center mb-1`}>
+            <div
+              className={`w-6 h-6 sm:w-8 sm:h-8 ${isSelected ? 'bg-favr-blue' : ''} rounded-lg flex items-center justify-center mb-1`}
+              style={isSelected ? undefined : { backgroundColor: category.color }}
+            >
               <Icon className="w-3 h-3 sm:w-4 sm:h-4 text-white" />
             </div>
             <span className="text-xs font-medium">{category.name}</span>
@@ -2,13 +2,13 @@ import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Star, CheckCircle2, Euro } from "lucide-react";
+import { Star, CheckCircle2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { trackEvent } from "@/lib/analytics";
+import { formatMoney } from "@shared/money";
 import { motion } from "framer-motion";
 
 interface CompletionModalProps {
@@ -16,9 +16,14 @@ interface CompletionModalProps {
   onClose: () => void;
   favorId: number;
   favorTitle: string;
-  originalPrice: string;
+  originalPriceCents: number;
+  /** Set once a counter-offer was accepted in chat; completion no longer changes the price */
+  negotiatedPriceCents?: number | null;
+  currency: string;
   isHelper: boolean;
   userId: number;
+  /** "review" rates the other participant of an already completed favor */
+  mode?: "complete" | "review";
 }
 
 export function CompletionModal({ 
@@ -26,32 +31,44 @@ export function CompletionModal({
   onClose, 
   favorId, 
   favorTitle, 
-  originalPrice, 
+  originalPriceCents, 
+  negotiatedPriceCents,
+  currency,
   isHelper, 
-  userId 
+  userId,
+  mode = "complete"
 }: CompletionModalProps) {
+  const isReview = mode === "review";
   const [rating, setRating] = useState(5);
   const [review, setReview] = useState("");
-  const [negotiatedPrice, setNegotiatedPrice] = useState(originalPrice);
+  const agreedPriceCents = negotiatedPriceCents ?? originalPriceCents;
   const [showSuccess, setShowSuccess] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const completeFavorMutation = useMutation({
     mutationFn: async () => {
+      if (isReview) {
+        return apiRequest("POST", `/api/favors/${favorId}/reviews`, {
+          rating,
+          comment: review.trim() || undefined
+        });
+      }
       return apiRequest("POST", `/api/favors/${favorId}/complete`, {
-        negotiatedPrice: negotiatedPrice !== originalPrice ? negotiatedPrice : undefined,
-        rating
+        rating,
+        comment: review.trim() || undefined
       });
     },
     onSuccess: () => {
-      trackEvent('favor_completed', 'completion', 'favor_completion_success', favorId);
+      trackEvent(isReview ? 'favor_reviewed' : 'favor_completed', 'completion', isReview ? 'favor_review_success' : 'favor_completion_success', favorId);
       setShowSuccess(true);
       
       // Invalidate relevant queries
       queryClient.invalidateQueries({ queryKey: ["/api/favors"] });
       queryClient.invalidateQueries({ queryKey: [`/api/favors/${favorId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/favors/${favorId}/reviews`] });
       queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/stats`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/points`] });
       
       setTimeout(() => {
         onClose();
@@ -60,8 +77,10 @@ export function CompletionModal({
     },
     onError: (error) => {
       toast({
-        title: "Completion Failed",
-        description: "Unable to mark favor as completed. Please try again.",
+        title: isReview ? "Review Failed" : "Completion Failed",
+        description: isReview
+          ? "Unable to submit your review. Please try again."
+          : "Unable to mark favor as completed. Please try again.",
         variant: "destructive",
       });
     },
@@ -80,7 +99,9 @@ export function CompletionModal({
             >
               <CheckCircle2 className="w-16 h-16 text-green-500 mx-auto" />
             </motion.div>
-            <h2 className="text-2xl font-bold text-green-400 mb-2">Favor Completed!</h2>
+            <h2 className="text-2xl font-bold text-green-400 mb-2">
+              {isReview ? "Review Submitted!" : "Favor Completed!"}
+            </h2>
             <p className="text-slate-300">
               {isHelper ? "Great job helping out!" : "Thanks for using Favr!"}
             </p>
@@ -98,7 +119,7 @@ export function CompletionModal({
       <DialogContent className="bg-slate-800 border-slate-700 text-white max-w-md">
         <DialogHeader>
           <DialogTitle className="text-xl font-bold text-center">
-            Mark Favor Complete
+            {isReview ? "Leave a Review" : "Mark Favor Complete"}
           </DialogTitle>
         </DialogHeader>
         
@@ -106,32 +127,25 @@ export function CompletionModal({
           <div className="text-center">
             <h3 className="font-semibold text-lg mb-2">{favorTitle}</h3>
             <p className="text-sm text-slate-400">
-              {isHelper 
-                ? "Mark this favor as completed and rate your experience" 
+              {isReview
+                ? `Rate your experience with the ${isHelper ? "requester" : "helper"}`
                 : "Confirm the favor was completed and rate the helper"
               }
             </p>
           </div>
 
           {/* Final Price */}
+          {!isReview && (
           <div>
-            <Label className="text-slate-300 mb-2 block">Final Price</Label>
-            <div className="relative">
-              <Euro className="absolute left-3 top-3 w-4 h-4 text-slate-400" />
-              <Input
-                type="number"
-                value={negotiatedPrice.replace('€', '')}
-                onChange={(e) => setNegotiatedPrice(`${e.target.value}`)}
-                className="pl-10 bg-slate-700 border-slate-600 text-white"
-                placeholder="Final agreed price"
-              />
-            </div>
-            {negotiatedPrice !== originalPrice && (
+            <Label className="text-slate-300 mb-2 block">Agreed Price</Label>
+            <div className="text-2xl font-bold text-white">{formatMoney(agreedPriceCents, currency)}</div>
+            {agreedPriceCents !== originalPriceCents && (
               <p className="text-xs text-blue-400 mt-1">
-                Price changed from original {originalPrice}
+                Agreed in chat, originally {formatMoney(originalPriceCents, currency)}
               </p>
             )}
           </div>
+          )}
 
           {/* Rating */}
           <div>
@@ -168,7 +182,7 @@ export function CompletionModal({
               onChange={(e) => setReview(e.target.value)}
               placeholder={
                 isHelper 
-                  ? "How was your experience helping with this favor?" 
+                  ? "How was your experience with the requester?" 
                   : "How was your experience with the helper?"
               }
               className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400"
@@ -190,7 +204,9 @@ export function CompletionModal({
               disabled={completeFavorMutation.isPending}
               className="flex-1 bg-green-600 hover:bg-green-700 text-white"
             >
-              {completeFavorMutation.isPending ? "Completing..." : "Complete Favor"}
+              {completeFavorMutation.isPending
+                ? (isReview ? "Submitting..." : "Completing...")
+                : (isReview ? "Submit Review" : "Complete Favor")}
             </Button>
           </div>
         </div>
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { HandCoins } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { trackEvent } from "@/lib/analytics";
+import { formatMoney, parseMoney, toMajorUnits } from "@shared/money";
+import type { CounterOfferDetails } from "@shared/schema";
+
+const EXPIRY_OPTIONS: Array<{ minutes: number; label: string }> = [
+  { minutes: 60, label: "1 hour" },
+  { minutes: 6 * 60, label: "6 hours" },
+  { minutes: 24 * 60, label: "24 hours" },
+  { minutes: 3 * 24 * 60, label: "3 days" },
+];
+
+const STATUS_LABELS: Record<CounterOfferDetails["status"] | "expired", string> = {
+  pending: "Waiting for an answer",
+  accepted: "Accepted",
+  declined: "Declined",
+  superseded: "Replaced by a newer counter-offer",
+  expired: "Expired",
+};
+
+function formatExpiry(iso: string): string {
+  const expiresAt = new Date(iso);
+  const time = `${String(expiresAt.getHours()).padStart(2, "0")}:${String(expiresAt.getMinutes()).padStart(2, "0")}`;
+  return expiresAt.toDateString() === new Date().toDateString()
+    ? `Expires at ${time}`
+    : `Expires ${expiresAt.toLocaleDateString()} ${time}`;
+}
+
+// Everything the answer changes: the favor's agreed price before acceptance lives on the helper's offer
+function invalidatePrice(favorId: number) {
+  queryClient.invalidateQueries({ queryKey: [`/api/favors/${favorId}`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/favors/${favorId}/offers`] });
+}
+
+interface CounterOfferCardProps {
+  messageId: string;
+  counterOffer: CounterOfferDetails;
+  favorId: number;
+  isMe: boolean;
+  partnerName: string;
+  onAnswered: () => void;
+}
+
+/** A counter-offer in the chat; its recipient accepts or declines it while it's open */
+export function CounterOfferCard({ messageId, counterOffer, favorId, isMe, partnerName, onAnswered }: CounterOfferCardProps) {
+  const { toast } = useToast();
+  // The server checks expiry when answering; the card only needs to stop offering the buttons
+  const expired = counterOffer.status === "pending" && new Date(counterOffer.expiresAt) <= new Date();
+  const status = expired ? "expired" : counterOffer.status;
+
+  const answerMutation = useMutation({
+    mutationFn: async (decision: "accept" | "decline") => {
+      await apiRequest("POST", `/api/chat/messages/${messageId}/${decision}`, {});
+      return decision;
+    },
+    onSuccess: (decision) => {
+      trackEvent(decision === "accept" ? "counter_offer_accepted" : "counter_offer_declined", "engagement", "chat_interface", favorId);
+      invalidatePrice(favorId);
+      onAnswered();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to answer counter-offer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className={`flex ${isMe ? "justify-end" : "justify-start"}`}>
+      <div className="w-64 bg-slate-800 border border-slate-600 rounded-2xl p-3">
+        <div className="flex items-center gap-1 text-xs text-slate-400">
+          <HandCoins className="w-3 h-3" />
+          {isMe ? "Your counter-offer" : `Counter-offer from ${partnerName}`}
+        </div>
+        <div className="text-xl font-bold text-white mt-1">{formatMoney(counterOffer.amountCents, counterOffer.currency)}</div>
+        <div className={`text-xs mt-1 ${status === "accepted" ? "text-green-400" : status === "pending" ? "text-blue-300" : "text-slate-500"}`}>
+          {status === "pending" ? formatExpiry(counterOffer.expiresAt) : STATUS_LABELS[status]}
+        </div>
+        {status === "pending" && !isMe && (
+          <div className="flex gap-2 mt-3">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => answerMutation.mutate("decline")}
+              disabled={answerMutation.isPending}
+              className="flex-1 border-slate-600 text-slate-300"
+            >
+              Decline
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => answerMutation.mutate("accept")}
+              disabled={answerMutation.isPending}
+              className="flex-1 bg-green-600 hover:bg-green-700 text-white"
+            >
+              {answerMutation.isPending && answerMutation.variables === "accept" ? "Accepting..." : "Accept"}
+            </Button>
+          </div>
+        )}
+        {status === "pending" && isMe && (
+          <div className="text-xs text-slate-400 mt-1">{STATUS_LABELS.pending}</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface CounterOfferFormProps {
+  chatRoomId: number;
+  favorId: number;
+  currency: string;
+  currentPriceCents: number;
+  onClose: () => void;
+  onSent: () => void;
+}
+
+/** Proposes a price in the chat, replacing any counter-offer still open in it */
+export function CounterOfferForm({ chatRoomId, favorId, currency, currentPriceCents, onClose, onSent }: CounterOfferFormProps) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState(toMajorUnits(currentPriceCents));
+  const [expiresInMinutes, setExpiresInMinutes] = useState(String(24 * 60));
+  const amountCents = parseMoney(amount);
+
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/chat/rooms/${chatRoomId}/counter-offers`, {
+        amountCents,
+        expiresInMinutes: parseInt(expiresInMinutes),
+      });
+    },
+    onSuccess: () => {
+      trackEvent("counter_offer_sent", "engagement", "chat_interface", favorId);
+      onSent();
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send counter-offer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="px-6 py-3 bg-slate-800 border-t border-slate-700 space-y-2">
+      <div className="text-sm font-medium text-white">Propose a price</div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs text-slate-400">Amount ({currency})</label>
+          <Input
+            type="number"
+            min={0}
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="bg-slate-700 border-slate-600 text-white"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-slate-400">Valid for</label>
+          <Select value={expiresInMinutes} onValueChange={setExpiresInMinutes}>
+            <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map(option => (
+                <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {amountCents === null && (
+        <p className="text-xs text-red-400">Enter an amount above zero with at most two decimals</p>
+      )}
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={onClose} className="flex-1 border-slate-600 text-slate-300">
+          Cancel
+        </Button>
+        <Button
+          onClick={() => proposeMutation.mutate()}
+          disabled={amountCents === null || proposeMutation.isPending}
+          className="flex-1 bg-favr-blue hover:bg-blue-600 text-white"
+        >
+          {proposeMutation.isPending ? "Sending..." : "Send counter-offer"}
+        </Button>
+      </div>
+    </div>
+  );
+}
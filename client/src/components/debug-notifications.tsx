@@ -50,7 +50,7 @@ export default function DebugNotifications() {
   const checkSubscription = async () => {
     try {
       const response = await fetch('/api/notifications/subscriptions', {
-        headers: { 'user-id': '1' }
+        credentials: 'include'
       });
       const result = await response.json();
       addLog(`📊 Server subscriptions: ${JSON.stringify(result, null, 2)}`);
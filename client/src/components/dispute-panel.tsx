@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { trackEvent } from "@/lib/analytics";
+import type { Dispute, FavorWithPoster } from "@shared/schema";
+
+type DisputeView = Pick<
+  Dispute,
+  "status" | "reason" | "openedBy" | "requesterStatement" | "helperStatement" | "resolution" | "resolutionNote"
+>;
+
+interface DisputePanelProps {
+  favor: FavorWithPoster;
+  userId: number;
+}
+
+/** Dispute status for the two participants, and the entry point to open one */
+export function DisputePanel({ favor, userId }: DisputePanelProps) {
+  const { toast } = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [reason, setReason] = useState("");
+  const [statement, setStatement] = useState("");
+
+  const isRequester = favor.posterId === String(userId);
+  const hasDispute = ["disputed", "completed", "cancelled"].includes(favor.status);
+
+  const { data: dispute } = useQuery<DisputeView>({
+    queryKey: [`/api/favors/${favor.id}/dispute`],
+    enabled: hasDispute,
+    retry: false,
+  });
+
+  const onSuccess = (event: string) => () => {
+    trackEvent(event, "disputes", "favor_detail", favor.id);
+    queryClient.invalidateQueries({ queryKey: [`/api/favors/${favor.id}/dispute`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/favors/${favor.id}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/favors"] });
+    setShowForm(false);
+    setStatement("");
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const openMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/favors/${favor.id}/dispute`, {
+        reason: reason.trim(),
+        statement: statement.trim() || undefined,
+      });
+    },
+    onSuccess: onSuccess("dispute_opened"),
+    onError,
+  });
+
+  const statementMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/favors/${favor.id}/dispute/statement`, { statement: statement.trim() });
+    },
+    onSuccess: onSuccess("dispute_statement_added"),
+    onError,
+  });
+
+  if (dispute) {
+    const myStatement = isRequester ? dispute.requesterStatement : dispute.helperStatement;
+    const theirStatement = isRequester ? dispute.helperStatement : dispute.requesterStatement;
+
+    if (dispute.status === "resolved") {
+      const completed = dispute.resolution === "complete";
+      return (
+        <div className="bg-slate-700/50 border border-slate-600 rounded-xl p-4 mb-6">
+          <div className="flex items-center gap-2 mb-1">
+            {completed ? <CheckCircle2 className="w-4 h-4 text-green-400" /> : <XCircle className="w-4 h-4 text-red-400" />}
+            <span className="font-medium text-white">
+              Dispute resolved: {completed ? "favor completed" : "favor cancelled and refunded"}
+            </span>
+          </div>
+          {dispute.resolutionNote && <p className="text-sm text-slate-300">{dispute.resolutionNote}</p>}
+        </div>
+      );
+    }
+
+    return (
+      <div className="bg-orange-500/10 border border-orange-500/30 rounded-xl p-4 mb-6">
+        <div className="flex items-center gap-2 mb-2">
+          <AlertTriangle className="w-4 h-4 text-orange-400" />
+          <span className="font-medium text-white">Under review</span>
+        </div>
+        <p className="text-sm text-slate-300 mb-3">
+          This favor and any payment are on hold while our team reviews the dispute.
+        </p>
+        <div className="text-sm text-slate-400 space-y-1 mb-3">
+          <div>Reason: <span className="text-slate-200">{dispute.reason}</span></div>
+          <div>Your statement: {myStatement ? "submitted" : "missing"}</div>
+          <div>Other party's statement: {theirStatement ? "submitted" : "waiting"}</div>
+        </div>
+        {!myStatement && (
+          <div className="space-y-2">
+            <Textarea
+              value={statement}
+              onChange={(e) => setStatement(e.target.value)}
+              placeholder="Tell us what happened..."
+              className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+              maxLength={5000}
+            />
+            <Button
+              onClick={() => statementMutation.mutate()}
+              disabled={!statement.trim() || statementMutation.isPending}
+              className="w-full bg-favr-blue hover:bg-blue-600 text-white"
+            >
+              {statementMutation.isPending ? "Submitting..." : "Submit statement"}
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // No dispute yet: participants of an accepted or recently completed favor can open one
+  if (favor.status !== "accepted" && favor.status !== "completed") {
+    return null;
+  }
+
+  if (!showForm) {
+    return (
+      <div className="mb-6">
+        <Button
+          variant="ghost"
+          onClick={() => setShowForm(true)}
+          className="text-orange-400 hover:text-orange-300 p-0 h-auto text-sm"
+        >
+          <AlertTriangle className="w-4 h-4 mr-1" />
+          Report a problem with this favor
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-700/50 border border-slate-600 rounded-xl p-4 mb-6 space-y-2">
+      <div className="font-medium text-white">Open a dispute</div>
+      <p className="text-xs text-slate-400">
+        The favor and any payment will be frozen until our team has reviewed both sides and the chat.
+      </p>
+      <Input
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="What went wrong?"
+        className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+        maxLength={500}
+      />
+      <Textarea
+        value={statement}
+        onChange={(e) => setStatement(e.target.value)}
+        placeholder="Details (optional)"
+        className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+        maxLength={5000}
+      />
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => setShowForm(false)} className="flex-1 border-slate-600 text-slate-300">
+          Cancel
+        </Button>
+        <Button
+          onClick={() => openMutation.mutate()}
+          disabled={!reason.trim() || openMutation.isPending}
+          className="flex-1 bg-orange-600 hover:bg-orange-700 text-white"
+        >
+          {openMutation.isPending ? "Submitting..." : "Open dispute"}
+        </Button>
+      </div>
+    </div>
+  );
+}
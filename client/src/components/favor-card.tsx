@@ -1,11 +1,10 @@
 import { MapPin, Star, Clock, User } from "lucide-react";
 import { LikeButton, BookmarkButton, InteractiveCard } from "./micro-interactions";
 import { calculateFavorExpiration, getUrgencyColor } from "@/lib/favorExpiration";
-import { getPrivateAddress } from "@shared/locationUtils";
-import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import { trackEvent } from "@/lib/analytics";
 import type { FavorWithPoster } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 
 interface FavorCardProps {
   favor: FavorWithPoster;
@@ -13,19 +12,12 @@ interface FavorCardProps {
 }
 
 export default function FavorCard({ favor, onClick }: FavorCardProps) {
-  const { user } = useAuth();
   const [, setLocation] = useLocation();
-  const expirationInfo = calculateFavorExpiration(
-    typeof favor.createdAt === 'string' ? favor.createdAt : favor.createdAt?.toISOString() || new Date().toISOString(), 
-    favor.timeframe
-  );
+  const expirationInfo = calculateFavorExpiration(favor);
   const urgencyColor = getUrgencyColor(expirationInfo.urgencyLevel);
 
-  // Determine if current user is the owner of this favor
-  const isOwner = user?.id?.toString() === favor.posterId?.toString();
-  
-  // Get appropriate address based on ownership
-  const displayAddress = isOwner ? favor.address : getPrivateAddress(favor.address);
+  // The API sends only an area label to viewers who may not see the exact address
+  const displayAddress = favor.address;
   
   const getAreaName = (address: string) => {
     if (!address) return "Nearby";
@@ -97,13 +89,15 @@ export default function FavorCard({ favor, onClick }: FavorCardProps) {
           </div>
           <div className="flex items-center justify-between">
             <span className="text-favr-blue font-semibold text-sm sm:text-base">
-              €{favor.price}
+              {formatMoney(favor.priceCents, favor.currency)}
               {favor.isNegotiable && <span className="text-xs text-slate-400 ml-1 hidden sm:inline">(negotiable)</span>}
             </span>
-            <div className="flex items-center space-x-1">
-              <Star className="w-3 h-3 text-yellow-400 fill-current" />
-              <span className="text-xs text-slate-400">{favor.rating}</span>
-            </div>
+            {Number(favor.posterRating) > 0 && (
+              <div className="flex items-center space-x-1">
+                <Star className="w-3 h-3 text-yellow-400 fill-current" />
+                <span className="text-xs text-slate-400">{Number(favor.posterRating).toFixed(1)}</span>
+              </div>
+            )}
           </div>
           
           {/* Time-based expiration info */}
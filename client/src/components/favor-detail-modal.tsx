@@ -3,42 +3,54 @@ import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Star, Calendar, MapPin, ArrowRight, MessageCircle, DollarSign, User } from "lucide-react";
 import { useLocation } from "wouter";
-import { createPrivacyAwareLocation, getPrivateAddress } from "@shared/locationUtils";
+import { createPrivacyAwareLocation } from "@shared/locationUtils";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
 import { trackEvent } from "@/lib/analytics";
 import { calculateFavorExpiration } from "@/lib/favorExpiration";
-import type { FavorWithPoster } from "@shared/schema";
+import { DisputePanel } from "@/components/dispute-panel";
+import { OfferPanel } from "@/components/offer-panel";
+import type { FavorImage, FavorWithPoster } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 
 interface FavorDetailModalProps {
   favor: FavorWithPoster;
   isOpen: boolean;
   onClose: () => void;
+  /** Repost immediately if the favor is the user's and expired (the expiry notification's one-tap action) */
+  autoRepost?: boolean;
 }
 
-export default function FavorDetailModal({ favor, isOpen, onClose }: FavorDetailModalProps) {
+export default function FavorDetailModal({ favor, isOpen, onClose, autoRepost }: FavorDetailModalProps) {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   
   // Calculate expiration info
-  const expirationInfo = calculateFavorExpiration(
-    typeof favor.createdAt === 'string' ? favor.createdAt : favor.createdAt?.toISOString() || new Date().toISOString(),
-    favor.timeframe
-  );
+  const expirationInfo = calculateFavorExpiration(favor);
+
+  // Uploaded photos; favors posted before photo uploads only have imageUrl
+  const { data: images = [] } = useQuery<FavorImage[]>({
+    queryKey: [`/api/favors/${favor.id}/images`],
+    enabled: isOpen,
+  });
+  const [selectedImage, setSelectedImage] = useState(0);
+  const shownImageUrl = images[selectedImage]?.url ?? images[0]?.url ?? favor.imageUrl;
 
   const acceptMutation = useMutation({
     mutationFn: async () => {
-      return apiRequest("POST", `/api/favors/${favor.id}/accept`, {});
+      const response = await apiRequest("POST", `/api/favors/${favor.id}/accept`, {});
+      return response.json() as Promise<{ chatRoomId: number }>;
     },
-    onSuccess: () => {
+    onSuccess: ({ chatRoomId }) => {
       toast({
         title: "Favor Accepted",
         description: "Chat room created! You can now message the poster.",
       });
-      setLocation(`/chat/${favor.id}`);
+      setLocation(`/chat/${chatRoomId}`);
       onClose();
     },
     onError: (error: any) => {
@@ -50,22 +62,22 @@ export default function FavorDetailModal({ favor, isOpen, onClose }: FavorDetail
     }
   });
 
-  const negotiateMutation = useMutation({
+  const repostMutation = useMutation({
     mutationFn: async () => {
-      return apiRequest("POST", `/api/favors/${favor.id}/negotiate`, {});
+      return apiRequest("POST", `/api/favors/${favor.id}/repost`, {});
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/favors"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/favors/${favor.id}`] });
       toast({
-        title: "Negotiation Started",
-        description: "Chat room created! You can now discuss terms.",
+        title: "Favor Reposted",
+        description: "Your favor is visible to helpers again.",
       });
-      setLocation(`/chat/${favor.id}`);
-      onClose();
     },
     onError: (error: any) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to start negotiation",
+        description: error.message || "Failed to repost favor",
         variant: "destructive",
       });
     }
@@ -80,13 +92,9 @@ export default function FavorDetailModal({ favor, isOpen, onClose }: FavorDetail
     acceptMutation.mutate();
   };
 
-  const handleNegotiate = () => {
-    if (!user) {
-      setLocation('/auth');
-      onClose();
-      return;
-    }
-    negotiateMutation.mutate();
+  const openChat = (chatRoomId: number) => {
+    setLocation(`/chat/${chatRoomId}`);
+    onClose();
   };
 
   const categoryColors: Record<string, string> = {
@@ -109,10 +117,17 @@ export default function FavorDetailModal({ favor, isOpen, onClose }: FavorDetail
     address: favor.address
   };
   
-  const privacyLocation = createPrivacyAwareLocation(locationData, isOwner);
+  const privacyLocation = createPrivacyAwareLocation(locationData, favor.locationApproximate !== false);
 
-  // Use shared privacy function for consistent neighborhood display
-  const areaName = getPrivateAddress(favor.address);
+  const canRepost = isOwner && favor.status === "expired";
+  const autoReposted = useRef(false);
+  useEffect(() => {
+    if (autoRepost && canRepost && !autoReposted.current) {
+      autoReposted.current = true;
+      trackEvent("favor_reposted", "engagement", "expiry_notification", favor.id);
+      repostMutation.mutate();
+    }
+  }, [autoRepost, canRepost]);
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -124,17 +139,34 @@ export default function FavorDetailModal({ favor, isOpen, onClose }: FavorDetail
             <div className="w-10 h-1 bg-slate-600 rounded-full mx-auto mb-6"></div>
             
             {/* Favor Image */}
-            {favor.imageUrl && (
+            {shownImageUrl && (
               <div className="relative mb-4">
                 <img 
-                  src={favor.imageUrl}
+                  src={shownImageUrl}
                   alt={favor.title}
                   className="w-full h-48 rounded-xl object-cover"
                 />
-                <div className="absolute top-3 right-3 bg-white rounded-full px-3 py-1 flex items-center space-x-1">
-                  <Star className="w-4 h-4 text-favr-orange fill-current" />
-                  <span className="text-sm font-medium">{favor.rating}</span>
-                </div>
+                {images.length > 1 && (
+                  <div className="flex gap-2 mt-2">
+                    {images.map((image, index) => (
+                      <button
+                        key={image.id}
+                        type="button"
+                        onClick={() => setSelectedImage(index)}
+                        aria-label={`Show photo ${index + 1}`}
+                        className={`rounded-lg overflow-hidden border-2 ${index === selectedImage ? "border-favr-blue" : "border-transparent"}`}
+                      >
+                        <img src={image.thumbnailUrl} alt="" className="w-14 h-14 object-cover" />
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {Number(favor.posterRating) > 0 && (
+                  <div className="absolute top-3 right-3 bg-white rounded-full px-3 py-1 flex items-center space-x-1">
+                    <Star className="w-4 h-4 text-favr-orange fill-current" />
+                    <span className="text-sm font-medium">{Number(favor.posterRating).toFixed(1)}</span>
+                  </div>
+                )}
               </div>
             )}
 
@@ -217,16 +249,26 @@ export default function FavorDetailModal({ favor, isOpen, onClose }: FavorDetail
               </Button>
             </div>
 
+            {/* Dispute status (participants only) */}
+            {user && (isOwner || favor.helperId === user.id) && (
+              <DisputePanel favor={favor} userId={user.id} />
+            )}
+
+            {/* Competing offers: the poster's list, or the helper's own offer */}
+            {user && !expirationInfo.isExpired && (
+              <OfferPanel favor={favor} userId={user.id} onOpenChat={openChat} />
+            )}
+
             {/* Price & CTA */}
             <div className="flex items-center justify-between">
               <div>
                 <div className="text-2xl font-bold text-white">
-                  €{favor.price}
+                  {formatMoney(favor.priceCents, favor.currency)}
                   {favor.isNegotiable && <span className="text-sm text-slate-400 ml-2">(negotiable)</span>}
                 </div>
                 <div className="text-sm text-slate-400">Total price</div>
               </div>
-              {!isOwner && (
+              {!isOwner && favor.status === "available" && !expirationInfo.isExpired && (
                 <div className="flex space-x-2">
                   <Button 
                     onClick={handleAccept}
@@ -242,19 +284,21 @@ export default function FavorDetailModal({ favor, isOpen, onClose }: FavorDetail
                       </>
                     )}
                   </Button>
-                  {favor.isNegotiable && (
-                    <Button 
-                      onClick={handleNegotiate}
-                      disabled={negotiateMutation.isPending}
-                      variant="outline"
-                      className="border-favr-blue text-favr-blue px-6 py-3 rounded-xl font-medium hover:bg-favr-blue hover:text-white"
-                    >
-                      {negotiateMutation.isPending ? "Starting..." : "Negotiate"}
-                    </Button>
-                  )}
                 </div>
               )}
-              {isOwner && (
+              {!isOwner && expirationInfo.isExpired && (
+                <div className="text-sm text-slate-400">This favor has expired</div>
+              )}
+              {canRepost && (
+                <Button
+                  onClick={() => repostMutation.mutate()}
+                  disabled={repostMutation.isPending || repostMutation.isSuccess}
+                  className="bg-favr-blue text-white px-6 py-3 rounded-xl font-medium hover:bg-blue-600"
+                >
+                  {repostMutation.isPending ? "Reposting..." : repostMutation.isSuccess ? "Reposted" : "Repost"}
+                </Button>
+              )}
+              {isOwner && !canRepost && (
                 <div className="text-center">
                   <div className="text-sm text-slate-400">This is your favor</div>
                   <div className="text-xs text-slate-500 mt-1">You cannot accept your own favor</div>
@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { Search, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { FavorSearchSort } from "@shared/schema";
+
+/** Explore filters as form values; "any"/"" mean unset (see toSearchParams) */
+export interface FavorSearchFilters {
+  q: string;
+  sort: FavorSearchSort | "default";
+  minPrice: string;
+  maxPrice: string;
+  radiusKm: string;
+  endingWithinHours: string;
+  minRating: string;
+  negotiableOnly: boolean;
+}
+
+export const DEFAULT_SEARCH_FILTERS: FavorSearchFilters = {
+  q: "",
+  sort: "default",
+  minPrice: "",
+  maxPrice: "",
+  radiusKm: "any",
+  endingWithinHours: "any",
+  minRating: "any",
+  negotiableOnly: false,
+};
+
+const SORT_LABELS: Record<FavorSearchSort, string> = {
+  relevance: "Best match",
+  newest: "Newest",
+  nearest: "Nearest",
+  price_asc: "Price: low to high",
+  price_desc: "Price: high to low",
+  ending_soon: "Ending soon",
+};
+
+function sortUnavailable(sort: FavorSearchSort, q: string, hasLocation: boolean): boolean {
+  return (sort === "relevance" && !q.trim()) || (sort === "nearest" && !hasLocation);
+}
+
+/** Query string for GET /api/favors/search; the server picks the sort when it's left on default */
+export function toSearchParams(filters: FavorSearchFilters, extra: { category?: string; near?: { latitude: number; longitude: number } | null }): string {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.set("q", filters.q.trim());
+  if (extra.category) params.set("category", extra.category);
+  if (extra.near) {
+    params.set("lat", extra.near.latitude.toFixed(5));
+    params.set("lng", extra.near.longitude.toFixed(5));
+    if (filters.radiusKm !== "any") params.set("radiusKm", filters.radiusKm);
+  }
+  if (filters.sort !== "default" && !sortUnavailable(filters.sort, filters.q, !!extra.near)) params.set("sort", filters.sort);
+  if (filters.minPrice) params.set("minPrice", filters.minPrice);
+  // While the range is being typed it can be upside down for a moment; the server would reject it
+  if (filters.maxPrice && !(Number(filters.minPrice) > Number(filters.maxPrice))) params.set("maxPrice", filters.maxPrice);
+  if (filters.endingWithinHours !== "any") params.set("endingWithinHours", filters.endingWithinHours);
+  if (filters.minRating !== "any") params.set("minRating", filters.minRating);
+  if (filters.negotiableOnly) params.set("negotiable", "true");
+  return params.toString();
+}
+
+interface FavorSearchBarProps {
+  filters: FavorSearchFilters;
+  onChange: (filters: FavorSearchFilters) => void;
+  hasLocation: boolean;
+}
+
+export default function FavorSearchBar({ filters, onChange, hasLocation }: FavorSearchBarProps) {
+  const [query, setQuery] = useState(filters.q);
+
+  // Search as the user types, without a request per keystroke
+  useEffect(() => {
+    if (query === filters.q) return;
+    const timeoutId = setTimeout(() => onChange({ ...filters, q: query }), 300);
+    return () => clearTimeout(timeoutId);
+  }, [query, filters, onChange]);
+
+  const update = (changes: Partial<FavorSearchFilters>) => onChange({ ...filters, ...changes });
+
+  const activeFilterCount = [
+    filters.minPrice,
+    filters.maxPrice,
+    filters.radiusKm !== "any",
+    filters.endingWithinHours !== "any",
+    filters.minRating !== "any",
+    filters.negotiableOnly,
+  ].filter(Boolean).length;
+
+  // A sort the current search can't use falls back to the server's default
+  const sort = filters.sort !== "default" && sortUnavailable(filters.sort, filters.q, hasLocation) ? "default" : filters.sort;
+
+  return (
+    <div className="flex items-center gap-2 mb-4">
+      <div className="relative flex-1">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search favors"
+          className="pl-9 bg-slate-800 border-slate-600 text-white placeholder:text-slate-400"
+        />
+      </div>
+
+      <Select value={sort} onValueChange={(value) => update({ sort: value as FavorSearchFilters["sort"] })}>
+        <SelectTrigger className="w-36 bg-slate-800 border-slate-600 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="default">Recommended</SelectItem>
+          {(Object.keys(SORT_LABELS) as FavorSearchSort[]).map(option => (
+            <SelectItem key={option} value={option} disabled={sortUnavailable(option, filters.q, hasLocation)}>
+              {SORT_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="icon" aria-label="Filters" className="relative bg-slate-800 border-slate-600 text-slate-300 hover:text-white hover:bg-slate-700">
+            <SlidersHorizontal className="w-4 h-4" />
+            {activeFilterCount > 0 && (
+              <span className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-favr-blue text-[10px] font-bold leading-4 text-white text-center">
+                {activeFilterCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 space-y-4 bg-slate-800 border-slate-600 text-white">
+          <div>
+            <div className="text-xs font-medium text-slate-300 mb-1">Price (€)</div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                placeholder="Min"
+                value={filters.minPrice}
+                onChange={(e) => update({ minPrice: e.target.value })}
+                className="bg-slate-900 border-slate-600 text-white"
+              />
+              <span className="text-slate-500">–</span>
+              <Input
+                type="number"
+                min={0}
+                placeholder="Max"
+                value={filters.maxPrice}
+                onChange={(e) => update({ maxPrice: e.target.value })}
+                className="bg-slate-900 border-slate-600 text-white"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs font-medium text-slate-300 mb-1">Distance</div>
+            <Select value={filters.radiusKm} onValueChange={(radiusKm) => update({ radiusKm })} disabled={!hasLocation}>
+              <SelectTrigger className="bg-slate-900 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any distance</SelectItem>
+                {["1", "2", "5", "10", "25"].map(km => (
+                  <SelectItem key={km} value={km}>Within {km} km</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <div className="text-xs font-medium text-slate-300 mb-1">Ending</div>
+            <Select value={filters.endingWithinHours} onValueChange={(endingWithinHours) => update({ endingWithinHours })}>
+              <SelectTrigger className="bg-slate-900 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any time</SelectItem>
+                <SelectItem value="24">Within 24 hours</SelectItem>
+                <SelectItem value="72">Within 3 days</SelectItem>
+                <SelectItem value="168">Within a week</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <div className="text-xs font-medium text-slate-300 mb-1">Poster rating</div>
+            <Select value={filters.minRating} onValueChange={(minRating) => update({ minRating })}>
+              <SelectTrigger className="bg-slate-900 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any rating</SelectItem>
+                <SelectItem value="3">3+ stars</SelectItem>
+                <SelectItem value="4">4+ stars</SelectItem>
+                <SelectItem value="4.5">4.5+ stars</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-300">Negotiable only</span>
+            <Switch checked={filters.negotiableOnly} onCheckedChange={(negotiableOnly) => update({ negotiableOnly })} />
+          </div>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...DEFAULT_SEARCH_FILTERS, q: filters.q, sort: filters.sort })}
+            disabled={activeFilterCount === 0}
+            className="w-full text-slate-300 hover:text-white hover:bg-slate-700"
+          >
+            Clear filters
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -4,7 +4,8 @@ import { RefreshCw } from "lucide-react";
 import { createPrivacyAwareLocation } from "@shared/locationUtils";
 import { useAuth } from "@/hooks/use-auth";
 import { calculateFavorExpiration } from "@/lib/favorExpiration";
-import type { Favor } from "@shared/schema";
+import type { FavorWithPoster } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 
 declare global {
   interface Window {
@@ -13,8 +14,8 @@ declare global {
 }
 
 interface MapViewProps {
-  favors: Favor[];
-  onFavorClick: (favor: Favor) => void;
+  favors: FavorWithPoster[];
+  onFavorClick: (favor: FavorWithPoster) => void;
 }
 
 export default function MapView({ favors, onFavorClick }: MapViewProps) {
@@ -151,14 +152,8 @@ export default function MapView({ favors, onFavorClick }: MapViewProps) {
     clearMarkers();
 
     favors.forEach(favor => {
-      // Determine if current user is the owner of this favor
-      const isOwner = user?.id?.toString() === favor.posterId?.toString();
-      
       // Calculate expiration info
-      const expirationInfo = calculateFavorExpiration(
-        typeof favor.createdAt === 'string' ? favor.createdAt : favor.createdAt?.toISOString() || new Date().toISOString(),
-        favor.timeframe
-      );
+      const expirationInfo = calculateFavorExpiration(favor);
       
       // Get privacy-aware location
       const locationData = {
@@ -167,7 +162,8 @@ export default function MapView({ favors, onFavorClick }: MapViewProps) {
         address: favor.address
       };
       
-      const privacyLocation = createPrivacyAwareLocation(locationData, isOwner);
+      // The API already sent the public pin unless this user may see the exact spot
+      const privacyLocation = createPrivacyAwareLocation(locationData, favor.locationApproximate !== false);
       
       // Create Airbnb-style favor preview card
       const markerElement = document.createElement('div');
@@ -192,7 +188,7 @@ export default function MapView({ favors, onFavorClick }: MapViewProps) {
                style="width: 100%; height: 60px; object-fit: cover; border-radius: 8px 8px 0 0;" 
                onerror="this.src='data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTQwIiBoZWlnaHQ9IjYwIiB2aWV3Qm94PSIwIDAgMTQwIDYwIiBmaWxsPSJub25lIiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciPgo8cmVjdCB3aWR0aD0iMTQwIiBoZWlnaHQ9IjYwIiBmaWxsPSIjRjNGNEY2Ii8+CjxwYXRoIGQ9Ik03MCAzMEM3NC45NzA2IDMwIDc5IDM0LjAyOTQgNzkgMzlDNzkgNDMuOTcwNiA3NC45NzA2IDQ4IDcwIDQ4Qzc4LjMwNzggNDggNjYuNTg2OSA0Ny4zNDU0IDY1LjI1IDQ2LjIzNTRWNDVINzBWNDJINjJWMzBINjVWMzIuNTE0QzY2LjU4NjkgMzEuNDA0NiA2OC4zMDc4IDMwIDcwIDMwWiIgZmlsbD0iIzlDQTRBRiIvPgo8L3N2Zz4K'" />
           <div style="position: absolute; top: 4px; right: 4px; background: white; border-radius: 3px; padding: 1px 4px; font-size: 9px; font-weight: 600; color: #059669;">
-            €${favor.price}
+            ${formatMoney(favor.priceCents, favor.currency)}
           </div>
         </div>
         <div style="padding: 6px;">
@@ -187,7 +187,7 @@ export default function MessagesCenter({ isOpen, onClose }: MessagesCenterProps)
   };
 
   const handleConversationClick = (c: ConversationUI) => {
-    window.location.href = `/chat/${c.favorId}`;
+    window.location.href = `/chat/${c.chatRoomId}`;
   };
 
   const markNotificationRead = (id: string) => {
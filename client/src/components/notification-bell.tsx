@@ -0,0 +1,106 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Bell, CheckCheck } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { InAppNotification } from "@shared/schema";
+
+export const INBOX_QUERY_KEY = ["/api/notifications/inbox"];
+
+export interface InboxResponse {
+  notifications: InAppNotification[];
+  unreadCount: number;
+}
+
+/** Header bell with the in-app inbox; the unread count is kept fresh by use-global-chat */
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+
+  const { data } = useQuery<InboxResponse>({
+    queryKey: INBOX_QUERY_KEY,
+  });
+
+  const unreadCount = data?.unreadCount ?? 0;
+  const notifications = data?.notifications ?? [];
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("POST", `/api/notifications/inbox/${id}/read`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: INBOX_QUERY_KEY }),
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/notifications/inbox/read-all"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: INBOX_QUERY_KEY }),
+  });
+
+  const openNotification = (notification: InAppNotification) => {
+    if (!notification.readAt) markReadMutation.mutate(notification.id);
+    if (notification.url) setLocation(notification.url);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : "Notifications"}
+          className="relative w-8 h-8 sm:w-10 sm:h-10 rounded-full text-white hover:bg-slate-600 flex-shrink-0"
+        >
+          <Bell className="w-4 h-4 sm:w-5 sm:h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-[10px] font-bold leading-[1.1rem] text-white text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0 bg-slate-800 border-slate-600 text-white">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+          <span className="text-sm font-semibold">Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              className="h-7 px-2 text-xs text-slate-300 hover:text-white hover:bg-slate-700"
+            >
+              <CheckCheck className="w-3.5 h-3.5 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <div className="px-4 py-8 text-center text-sm text-slate-400">You're all caught up</div>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                onClick={() => openNotification(notification)}
+                className={`w-full text-left px-4 py-3 border-b border-slate-700/60 hover:bg-slate-700/60 transition-colors ${
+                  notification.readAt ? "opacity-70" : ""
+                }`}
+              >
+                <div className="flex items-start gap-2">
+                  {!notification.readAt && <span className="mt-1.5 w-2 h-2 rounded-full bg-favr-blue flex-shrink-0" />}
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">{notification.title}</div>
+                    <div className="text-xs text-slate-300 line-clamp-2">{notification.message}</div>
+                    <div className="text-[11px] text-slate-500 mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </div>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -58,7 +58,7 @@ export function NotificationDebugPanel() {
         
         if (success) {
           addLog('🧪 Sending test notification...');
-          const testResult = await testNotifications(user.id.toString());
+          const testResult = await testNotifications();
           addLog(`Test notification sent: ${testResult}`);
           
           if (testResult) {
@@ -75,7 +75,7 @@ export function NotificationDebugPanel() {
     if (!user) return;
     
     addLog('🧪 Sending test notification...');
-    const success = await testNotifications(user.id.toString());
+    const success = await testNotifications();
     addLog(`Test result: ${success}`);
   };
 
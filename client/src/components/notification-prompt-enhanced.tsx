@@ -45,7 +45,7 @@ export default function NotificationPromptEnhanced() {
         setCurrentStep('testing');
         
         // Send test notification
-        const testSuccess = await testNotifications(user.id.toString());
+        const testSuccess = await testNotifications();
         
         if (testSuccess) {
           setCurrentStep('success');
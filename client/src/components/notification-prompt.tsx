@@ -64,11 +64,7 @@ export default function NotificationPrompt() {
         console.log('✅ Push notifications enabled');
         // send a test ping (non-fatal)
         try {
-          await fetch('/api/notifications/test', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json', 'user-id': String(user.id) },
-            body: JSON.stringify({ userId: String(user.id) }),
-          });
+          await fetch('/api/notifications/test', { method: 'POST' });
         } catch (e) {
           console.warn('Test notification failed:', e);
         }
@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { notificationService } from "@/lib/notifications";
+import { PushDevicesList, DEVICES_QUERY_KEY } from "@/components/push-devices";
+import { queryClient } from "@/lib/queryClient";
 import { Bell, BellOff, TestTube, Check, X, MessageCircle } from "lucide-react";
 
 interface NotificationSettingsProps {
@@ -62,6 +64,7 @@ export default function MessagesCenter({ isOpen, onClose }: NotificationSettings
       if (subscribed) {
         setIsSubscribed(true);
         setPermission('granted');
+        queryClient.invalidateQueries({ queryKey: DEVICES_QUERY_KEY });
         toast({
           title: "Notifications Enabled",
           description: "You'll now receive updates about your favors!",
@@ -94,6 +97,7 @@ export default function MessagesCenter({ isOpen, onClose }: NotificationSettings
       
       if (unsubscribed) {
         setIsSubscribed(false);
+        queryClient.invalidateQueries({ queryKey: DEVICES_QUERY_KEY });
         toast({
           title: "Notifications Disabled",
           description: "You won't receive push notifications anymore.",
@@ -247,6 +251,9 @@ export default function MessagesCenter({ isOpen, onClose }: NotificationSettings
             </Button>
           )}
 
+          {/* Devices receiving push */}
+          <PushDevicesList />
+
           {/* Permission Denied Message */}
           {permission === 'denied' && (
             <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
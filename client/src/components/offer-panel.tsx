@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Clock, MessageCircle, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { trackEvent } from "@/lib/analytics";
+import { formatMoney, parseMoney, toMajorUnits } from "@shared/money";
+import type { FavorOfferWithHelper, FavorWithPoster } from "@shared/schema";
+
+interface OfferPanelProps {
+  favor: FavorWithPoster;
+  userId: number;
+  onOpenChat: (chatRoomId: number) => void;
+}
+
+const STATUS_STYLES: Record<FavorOfferWithHelper["status"], string> = {
+  pending: "text-blue-300",
+  accepted: "text-green-400",
+  declined: "text-slate-500",
+};
+
+function formatEta(minutes: number | null): string | null {
+  if (!minutes) return null;
+  return minutes < 120 ? `in ${minutes} min` : `in ${Math.round(minutes / 60)} h`;
+}
+
+/** Offers on a favor: the poster compares and accepts them, a helper makes or revises their own */
+export function OfferPanel({ favor, userId, onOpenChat }: OfferPanelProps) {
+  const isPoster = favor.posterId === String(userId);
+
+  const { data: offers = [] } = useQuery<FavorOfferWithHelper[]>({
+    queryKey: [`/api/favors/${favor.id}/offers`],
+  });
+
+  if (isPoster) {
+    return <PosterOffers favor={favor} offers={offers} onOpenChat={onOpenChat} />;
+  }
+  if (favor.status !== "available" && offers.length === 0) {
+    return null;
+  }
+  return <HelperOffer favor={favor} offer={offers[0]} onOpenChat={onOpenChat} />;
+}
+
+function PosterOffers({ favor, offers, onOpenChat }: { favor: FavorWithPoster; offers: FavorOfferWithHelper[]; onOpenChat: (chatRoomId: number) => void }) {
+  const { toast } = useToast();
+
+  const acceptMutation = useMutation({
+    mutationFn: async (offerId: number) => {
+      const response = await apiRequest("POST", `/api/favors/${favor.id}/offers/${offerId}/accept`, {});
+      return response.json() as Promise<{ chatRoomId: number }>;
+    },
+    onSuccess: ({ chatRoomId }) => {
+      trackEvent("offer_accepted", "engagement", "favor_detail", favor.id);
+      queryClient.invalidateQueries({ queryKey: [`/api/favors/${favor.id}/offers`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/favors/${favor.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/favors"] });
+      toast({
+        title: "Offer accepted",
+        description: "The other helpers have been told the favor is taken.",
+      });
+      onOpenChat(chatRoomId);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to accept offer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (offers.length === 0) {
+    return favor.status === "available" ? (
+      <div className="text-sm text-slate-400 mb-6">No offers yet. Helpers' offers will show up here.</div>
+    ) : null;
+  }
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-medium text-white mb-2">Offers ({offers.length})</h3>
+      <div className="space-y-2">
+        {offers.map(offer => (
+          <div key={offer.id} className="bg-slate-700/50 border border-slate-600 rounded-xl p-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium text-white">{offer.helperName}</div>
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                  {Number(offer.helperRating) > 0 && (
+                    <span className="flex items-center gap-0.5">
+                      <Star className="w-3 h-3 text-favr-orange fill-current" />
+                      {Number(offer.helperRating).toFixed(1)}
+                    </span>
+                  )}
+                  <span>{offer.helperCompletedFavrs} completed</span>
+                  {formatEta(offer.etaMinutes) && (
+                    <span className="flex items-center gap-0.5">
+                      <Clock className="w-3 h-3" />
+                      {formatEta(offer.etaMinutes)}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="font-bold text-white">{formatMoney(offer.priceCents, favor.currency)}</div>
+                <div className={`text-xs capitalize ${STATUS_STYLES[offer.status]}`}>{offer.status}</div>
+              </div>
+            </div>
+            {offer.note && <p className="text-sm text-slate-300 mt-2">{offer.note}</p>}
+            <div className="flex gap-2 mt-3">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onOpenChat(offer.chatRoomId)}
+                className="flex-1 border-slate-600 text-slate-300"
+              >
+                <MessageCircle className="w-4 h-4 mr-1" />
+                Chat
+              </Button>
+              {offer.status === "pending" && favor.status === "available" && (
+                <Button
+                  size="sm"
+                  onClick={() => acceptMutation.mutate(offer.id)}
+                  disabled={acceptMutation.isPending}
+                  className="flex-1 bg-favr-blue hover:bg-blue-600 text-white"
+                >
+                  {acceptMutation.isPending && acceptMutation.variables === offer.id ? "Accepting..." : "Accept"}
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function HelperOffer({ favor, offer, onOpenChat }: { favor: FavorWithPoster; offer?: FavorOfferWithHelper; onOpenChat: (chatRoomId: number) => void }) {
+  const { toast } = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [price, setPrice] = useState(toMajorUnits(offer?.priceCents ?? favor.priceCents));
+  const [etaMinutes, setEtaMinutes] = useState(offer?.etaMinutes ? String(offer.etaMinutes) : "");
+  const [note, setNote] = useState(offer?.note ?? "");
+
+  const priceCents = favor.isNegotiable ? parseMoney(price) : favor.priceCents;
+  const eta = etaMinutes ? parseInt(etaMinutes) : null;
+  const etaValid = eta === null || (Number.isInteger(eta) && eta > 0);
+
+  // Start from the current offer, which may have loaded after the first render
+  const openForm = () => {
+    setPrice(toMajorUnits(offer?.priceCents ?? favor.priceCents));
+    setEtaMinutes(offer?.etaMinutes ? String(offer.etaMinutes) : "");
+    setNote(offer?.note ?? "");
+    setShowForm(true);
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/favors/${favor.id}/offers`, {
+        priceCents,
+        etaMinutes: eta,
+        note: note.trim() || null,
+      });
+      return response.json() as Promise<FavorOfferWithHelper>;
+    },
+    onSuccess: (submitted) => {
+      trackEvent(offer ? "offer_revised" : "offer_submitted", "engagement", "favor_detail", favor.id);
+      queryClient.invalidateQueries({ queryKey: [`/api/favors/${favor.id}/offers`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"] });
+      setShowForm(false);
+      toast({
+        title: offer ? "Offer updated" : "Offer sent",
+        description: "The poster can now compare it and chat with you.",
+      });
+      onOpenChat(submitted.chatRoomId);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send offer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!showForm) {
+    return (
+      <div className="mb-6">
+        {offer && (
+          <div className="flex items-center justify-between bg-slate-700/50 border border-slate-600 rounded-xl p-3 mb-2">
+            <div>
+              <div className="text-sm text-slate-400">Your offer</div>
+              <div className="font-bold text-white">{formatMoney(offer.priceCents, favor.currency)}</div>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className={`text-xs capitalize ${STATUS_STYLES[offer.status]}`}>{offer.status}</span>
+              <Button variant="ghost" size="icon" aria-label="Open chat" onClick={() => onOpenChat(offer.chatRoomId)} className="text-slate-300">
+                <MessageCircle className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+        {favor.status === "available" && (!offer || offer.status === "pending") && (
+          <Button
+            variant="outline"
+            onClick={openForm}
+            className="w-full border-favr-blue text-favr-blue hover:bg-favr-blue hover:text-white"
+          >
+            {offer ? "Update your offer" : "Make an offer"}
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-700/50 border border-slate-600 rounded-xl p-4 mb-6 space-y-2">
+      <div className="font-medium text-white">{offer ? "Update your offer" : "Make an offer"}</div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs text-slate-400">Price ({favor.currency})</label>
+          <Input
+            type="number"
+            min={0}
+            step="0.01"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            disabled={!favor.isNegotiable}
+            className="bg-slate-700 border-slate-600 text-white"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-slate-400">Can start in (minutes)</label>
+          <Input
+            type="number"
+            min={1}
+            placeholder="Optional"
+            value={etaMinutes}
+            onChange={(e) => setEtaMinutes(e.target.value)}
+            className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+          />
+        </div>
+      </div>
+      {!favor.isNegotiable && <p className="text-xs text-slate-400">The price of this favor is fixed.</p>}
+      <Textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="A note for the poster (optional)"
+        className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+        maxLength={500}
+      />
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => setShowForm(false)} className="flex-1 border-slate-600 text-slate-300">
+          Cancel
+        </Button>
+        <Button
+          onClick={() => submitMutation.mutate()}
+          disabled={priceCents === null || !etaValid || submitMutation.isPending}
+          className="flex-1 bg-favr-blue hover:bg-blue-600 text-white"
+        >
+          {submitMutation.isPending ? "Sending..." : offer ? "Update offer" : "Send offer"}
+        </Button>
+      </div>
+    </div>
+  );
+}
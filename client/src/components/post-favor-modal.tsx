@@ -8,14 +8,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Switch } from "@/components/ui/switch";
-import { X, Upload, Calendar as CalendarIcon, MapPin, Wrench, Car, Dog, Package, Truck, Settings, Info } from "lucide-react";
+import { X, Upload, Calendar as CalendarIcon, MapPin, Info } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation as useUserLocation } from "@/hooks/use-location";
 import { useAuth } from "@/hooks/use-auth";
+import { useCategories } from "@/hooks/use-categories";
 import { useLocation } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { trackEvent } from "@/lib/analytics";
-import type { InsertFavor } from "@shared/schema";
+import { categoryIcon } from "@/lib/categoryIcons";
+import { IMAGE_CONTENT_TYPES, MAX_FAVOR_IMAGES, MAX_IMAGE_BYTES, type Favor, type InsertFavor } from "@shared/schema";
+import { CURRENCIES, currencyForCountry, formatMoney, parseMoney, type Currency } from "@shared/money";
+import type { GeocodedPlace } from "@shared/locationUtils";
 import { format } from "date-fns";
 
 // Extend Window interface for favor coordinates
@@ -47,43 +51,29 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
   
   // Form data
   const [category, setCategory] = useState(smartData?.category || "");
+  const [subcategory, setSubcategory] = useState<string | null>(null);
   const [title, setTitle] = useState(smartData?.title || "");
   const [description, setDescription] = useState(smartData?.description || "");
-  const [price, setPrice] = useState(smartData?.estimatedPrice || "");
+  const [price, setPrice] = useState(smartData?.estimatedPrice ? String(smartData.estimatedPrice) : "");
+  const [currency, setCurrency] = useState<Currency>(currencyForCountry(user?.country));
   const [isNegotiable, setIsNegotiable] = useState(smartData?.isNegotiable || false);
   const [timeframe, setTimeframe] = useState(smartData?.timeframe || "");
   const [date, setDate] = useState<Date>();
   const [address, setAddress] = useState("");
-  const [addressSuggestions, setAddressSuggestions] = useState<string[]>([]);
+  const [addressSuggestions, setAddressSuggestions] = useState<GeocodedPlace[]>([]);
 
   // Helper function to extract country from MapBox feature
-  const getCountryFromFeature = (feature: any) => {
-    const context = feature.context || [];
-    for (const item of context) {
-      if (item.id && item.id.startsWith('country.')) {
-        const shortCode = item.short_code?.toLowerCase();
-        if (shortCode === 'lu') return 'luxembourg';
-        if (shortCode === 'se') return 'sweden';
-        if (shortCode === 'de') return 'germany';
-        if (shortCode === 'fr') return 'france';
-        if (shortCode === 'be') return 'belgium';
-      }
-    }
-    return '';
-  };
   const [useCurrentLocation, setUseCurrentLocation] = useState(false);
   const [images, setImages] = useState<File[]>([]);
 
-  const categories = [
-    { name: 'Handyman', icon: Wrench, color: 'bg-orange-500' },
-    { name: 'Ride', icon: Car, color: 'bg-blue-500' },
-    { name: 'Pet Care', icon: Dog, color: 'bg-green-500' },
-    { name: 'Delivery', icon: Package, color: 'bg-purple-500' },
-    { name: 'Moving', icon: Truck, color: 'bg-red-500' },
-    { name: 'Others', icon: Settings, color: 'bg-purple-500' },
-  ];
+  // Categories offered in the user's country
+  const { data: categories = [] } = useCategories(location);
+  const selectedCategory = categories.find(cat => cat.name === category);
+  const suggestedPrice = selectedCategory?.minPriceCents != null && selectedCategory.maxPriceCents != null
+    ? `${formatMoney(selectedCategory.minPriceCents, "EUR")}–${formatMoney(selectedCategory.maxPriceCents, "EUR")}`
+    : null;
 
-  // Address suggestions using MapBox Geocoding API
+  // Address suggestions from the server's geocoder (Luxembourg results first)
   const getAddressSuggestions = async (input: string) => {
     if (input.length < 3) {
       setAddressSuggestions([]);
@@ -91,54 +81,14 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
     }
     
     try {
-      // Make two API calls: one for Luxembourg-specific, one for general
-      const luxembourgQuery = `${input} luxembourg`;
-      const [luxembourgResponse, generalResponse] = await Promise.all([
-        fetch(`https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(luxembourgQuery)}.json?access_token=${import.meta.env.VITE_MAPBOX_TOKEN}&limit=5&types=address,poi,place,locality,neighborhood&language=en&country=lu`),
-        fetch(`https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(input)}.json?access_token=${import.meta.env.VITE_MAPBOX_TOKEN}&limit=8&types=address,poi,place,locality,neighborhood&language=en${location?.latitude && location?.longitude ? `&proximity=${location.longitude},${location.latitude}` : ''}`)
-      ]);
-
-      const [luxembourgData, generalData] = await Promise.all([
-        luxembourgResponse.json(),
-        generalResponse.json()
-      ]);
-
-      let allFeatures: any[] = [];
-      
-      // Add Luxembourg results first
-      if (luxembourgData.features && luxembourgData.features.length > 0) {
-        allFeatures = [...luxembourgData.features];
-      }
-      
-      // Add general results, but filter out duplicates
-      if (generalData.features && generalData.features.length > 0) {
-        const existingIds = new Set(allFeatures.map(f => f.id));
-        const newFeatures = generalData.features.filter((f: any) => !existingIds.has(f.id));
-        allFeatures = [...allFeatures, ...newFeatures];
-      }
-
-      if (allFeatures.length > 0) {
-        // Process all features (Luxembourg results are already first)
-        const suggestions: string[] = allFeatures.slice(0, 8).map((feature: any) => {
-          let placeName = feature.matching_place_name || feature.place_name;
-          
-          // Clean up repetitive parts
-          const parts = placeName.split(', ');
-          const cleanedParts: string[] = [];
-          let lastPart = '';
-          
-          for (const part of parts) {
-            if (part.toLowerCase() !== lastPart.toLowerCase()) {
-              cleanedParts.push(part);
-              lastPart = part;
-            }
-          }
-          
-          return cleanedParts.join(', ');
-        });
-        
-        setAddressSuggestions(suggestions.slice(0, 8));
+      const params = new URLSearchParams({ q: input, limit: "8" });
+      if (location?.latitude && location?.longitude) {
+        params.set("lat", String(location.latitude));
+        params.set("lng", String(location.longitude));
       }
+      const response = await apiRequest("GET", `/api/geocode?${params}`);
+      const { results } = await response.json() as { results: GeocodedPlace[] };
+      setAddressSuggestions(results);
     } catch (error) {
       console.error('Error fetching address suggestions:', error);
       setAddressSuggestions([]);
@@ -158,6 +108,8 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
 
   const handleAddressChange = (value: string) => {
     setAddress(value);
+    // A typed address no longer matches the picked suggestion's coordinates
+    (window as any).favorPostingCoordinates = undefined;
     debouncedGetSuggestions(value);
   };
 
@@ -176,22 +128,14 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
 
       const { latitude, longitude } = position.coords;
       
-      // Use MapBox reverse geocoding to get address
-      if (import.meta.env.VITE_MAPBOX_TOKEN) {
-        const response = await fetch(
-          `https://api.mapbox.com/geocoding/v5/mapbox.places/${longitude},${latitude}.json?access_token=${import.meta.env.VITE_MAPBOX_TOKEN}&types=place,locality,neighborhood,address&language=en`
-        );
+      // Reverse geocode on the server to get an address
+      const response = await apiRequest("GET", `/api/geocode/reverse?lat=${latitude}&lng=${longitude}`);
+      const { place } = await response.json() as { place: GeocodedPlace | null };
+      if (place) {
+        setAddress(place.label);
         
-        if (response.ok) {
-          const data = await response.json();
-          if (data.features && data.features.length > 0) {
-            const addressName = data.features[0].place_name;
-            setAddress(addressName);
-            
-            // Store coordinates in a ref for later use
-            (window as any).favorPostingCoordinates = { latitude, longitude };
-          }
-        }
+        // Store coordinates in a ref for later use
+        (window as any).favorPostingCoordinates = { latitude, longitude };
       }
       
       // Fallback: use location hook if available
@@ -213,7 +157,19 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
 
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
-    setImages(prev => [...prev, ...files].slice(0, 3));
+    // The server checks again; this only saves uploading files it would turn away
+    const accepted = files.filter(file =>
+      (IMAGE_CONTENT_TYPES as readonly string[]).includes(file.type) && file.size <= MAX_IMAGE_BYTES
+    );
+    if (accepted.length < files.length) {
+      toast({
+        title: "Some photos were skipped",
+        description: `Photos must be JPEG, PNG or WebP and at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`,
+        variant: "destructive",
+      });
+    }
+    setImages(prev => [...prev, ...accepted].slice(0, MAX_FAVOR_IMAGES));
+    event.target.value = "";
   };
 
   const removeImage = (index: number) => {
@@ -224,20 +180,40 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
     mutationFn: async (data: InsertFavor) => {
       console.log('Sending favor data:', data);
       const response = await apiRequest("POST", "/api/favors", data);
-      return response.json();
+      const favor: Favor = await response.json();
+      if (images.length === 0) {
+        return { photosFailed: false };
+      }
+
+      // Photos go up once the favor exists; a failure there shouldn't undo the post
+      const form = new FormData();
+      images.forEach(image => form.append("images", image));
+      try {
+        await apiRequest("POST", `/api/favors/${favor.id}/images`, form);
+        return { photosFailed: false };
+      } catch (error) {
+        console.error('Error uploading favor photos:', error);
+        return { photosFailed: true };
+      }
     },
-    onSuccess: () => {
+    onSuccess: ({ photosFailed }) => {
       // Track successful favor posting
-      trackEvent('favor_posted', 'engagement', category, parseFloat(price) || 0);
+      trackEvent('favor_posted', 'engagement', category, (parseMoney(price) ?? 0) / 100);
       
       // Force refresh all favor-related data immediately
       queryClient.invalidateQueries({ queryKey: ["/api/favors"] });
       queryClient.refetchQueries({ queryKey: ["/api/favors"] });
       
-      toast({
-        title: "Favr posted!",
-        description: "Your request has been published and people nearby can now help you.",
-      });
+      toast(photosFailed
+        ? {
+            title: "Favr posted without photos",
+            description: "Your request is live, but the photos couldn't be uploaded.",
+            variant: "destructive",
+          }
+        : {
+            title: "Favr posted!",
+            description: "Your request has been published and people nearby can now help you.",
+          });
       onClose();
       resetForm();
     },
@@ -254,9 +230,11 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
   const resetForm = () => {
     setCurrentStep(1);
     setCategory("");
+    setSubcategory(null);
     setTitle("");
     setDescription("");
     setPrice("");
+    setCurrency(currencyForCountry(user?.country));
     setIsNegotiable(false);
     setTimeframe("");
     setDate(undefined);
@@ -285,10 +263,11 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
     }
 
     // Validate required fields
-    if (!price || parseFloat(price) <= 0) {
+    const priceCents = parseMoney(price);
+    if (priceCents === null) {
       toast({
         title: "Price required",
-        description: "Please enter a valid price for your favor.",
+        description: "Please enter a price above zero with at most two decimals.",
         variant: "destructive",
       });
       return;
@@ -337,7 +316,9 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
       title,
       description,
       category,
-      price,
+      subcategory,
+      priceCents,
+      currency,
       isNegotiable,
       timeframe: date ? format(date, "PPP") : timeframe,
       address,
@@ -353,7 +334,7 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
   const canProceed = () => {
     switch (currentStep) {
       case 1: return category !== "";
-      case 2: return title.trim() !== "" && description.trim() !== "" && price.trim() !== "" && parseFloat(price) > 0;
+      case 2: return title.trim() !== "" && description.trim() !== "" && parseMoney(price) !== null;
       case 3: return true; // Media is optional
       case 4: return timeframe !== "" || date !== undefined;
       case 5: return address.trim() !== "";
@@ -369,13 +350,16 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
             <h3 className="text-lg font-semibold text-white mb-4">What type of help do you need?</h3>
             <div className="grid grid-cols-2 gap-3">
               {categories.map((cat) => {
-                const Icon = cat.icon;
+                const Icon = categoryIcon(cat.icon);
                 const isSelected = category === cat.name;
                 
                 return (
                   <Button
-                    key={cat.name}
-                    onClick={() => setCategory(cat.name)}
+                    key={cat.slug}
+                    onClick={() => {
+                      setCategory(cat.name);
+                      setSubcategory(null);
+                    }}
                     variant="outline"
                     className={`flex flex-col items-center p-4 h-auto border-2 transition-all ${
                       isSelected 
@@ -383,7 +367,10 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
                         : 'border-slate-600 text-slate-400 hover:border-favr-blue hover:text-white hover:bg-slate-700 bg-slate-800/50'
                     }`}
                   >
-                    <div className={`w-8 h-8 ${isSelected ? 'bg-favr-blue' : cat.color} rounded-lg flex items-center justify-center mb-2`}>
+                    <div
+                      className={`w-8 h-8 ${isSelected ? 'bg-favr-blue' : ''} rounded-lg flex items-center justify-center mb-2`}
+                      style={isSelected ? undefined : { backgroundColor: cat.color }}
+                    >
                       <Icon className="w-4 h-4 text-white" />
                     </div>
                     <span className="text-sm font-medium">{cat.name}</span>
@@ -391,6 +378,28 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
                 );
               })}
             </div>
+            {selectedCategory && selectedCategory.subcategories.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm text-slate-400">More specifically (optional)</p>
+                <div className="flex flex-wrap gap-2">
+                  {selectedCategory.subcategories.map((sub) => (
+                    <Button
+                      key={sub.slug}
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setSubcategory(subcategory === sub.name ? null : sub.name)}
+                      className={`border ${
+                        subcategory === sub.name
+                          ? 'border-favr-blue bg-favr-blue/20 text-favr-blue'
+                          : 'border-slate-600 text-slate-400 hover:text-white hover:bg-slate-700 bg-slate-800/50'
+                      }`}
+                    >
+                      {sub.name}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         );
 
@@ -416,14 +425,26 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
               />
             </div>
             <div className="grid grid-cols-2 gap-3">
-              <div>
+              <div className="flex gap-2">
                 <Input
                   type="number"
-                  placeholder="Price (€)"
+                  min={0}
+                  step="0.01"
+                  placeholder={suggestedPrice ? `Price (usually ${suggestedPrice})` : "Price"}
                   value={price}
                   onChange={(e) => setPrice(e.target.value)}
                   className="bg-slate-800 border-slate-600 text-white placeholder:text-slate-400"
                 />
+                <Select value={currency} onValueChange={(value) => setCurrency(value as Currency)}>
+                  <SelectTrigger className="w-20 shrink-0 bg-slate-800 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map(code => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               <div className="flex items-center space-x-2 bg-slate-800 border border-slate-600 rounded-lg px-3 py-2">
                 <Switch
@@ -444,7 +465,7 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
               <input
                 type="file"
                 multiple
-                accept="image/*"
+                accept={IMAGE_CONTENT_TYPES.join(",")}
                 onChange={handleImageUpload}
                 className="hidden"
                 id="image-upload"
@@ -452,7 +473,7 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
               <label htmlFor="image-upload" className="cursor-pointer">
                 <Upload className="w-8 h-8 text-slate-400 mx-auto mb-2" />
                 <p className="text-slate-400">Tap to add photos</p>
-                <p className="text-xs text-slate-500 mt-1">Up to 3 photos</p>
+                <p className="text-xs text-slate-500 mt-1">Up to {MAX_FAVOR_IMAGES} photos</p>
               </label>
             </div>
             
@@ -554,14 +575,16 @@ export default function PostFavorModal({ isOpen, onClose, smartData }: PostFavor
                       <button
                         key={index}
                         onClick={() => {
-                          setAddress(suggestion);
+                          setAddress(suggestion.label);
                           setAddressSuggestions([]);
+                          // Post the favor at the chosen place rather than at the user's GPS position
+                          (window as any).favorPostingCoordinates = { latitude: suggestion.latitude, longitude: suggestion.longitude };
                         }}
                         className="w-full px-3 py-2 text-left text-white hover:bg-slate-700 text-sm transition-colors first:rounded-t-lg last:rounded-b-lg border-b border-slate-700 last:border-b-0"
                       >
                         <div className="flex items-center">
                           <MapPin className="w-3 h-3 mr-2 text-slate-400" />
-                          {suggestion}
+                          {suggestion.label}
                         </div>
                       </button>
                     ))}
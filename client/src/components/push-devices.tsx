@@ -0,0 +1,74 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Monitor, Smartphone, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { PushDevice } from "@shared/schema";
+
+type PushDeviceView = Pick<PushDevice, "id" | "platform" | "label" | "os" | "browser" | "userAgent" | "lastSeenAt" | "createdAt">;
+
+export const DEVICES_QUERY_KEY = ["/api/notifications/devices"];
+
+/** Every browser/app receiving push for the signed-in user, with a revoke button per device */
+export function PushDevicesList() {
+  const { toast } = useToast();
+
+  const { data: devices = [], isLoading } = useQuery<PushDeviceView[]>({
+    queryKey: DEVICES_QUERY_KEY,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/notifications/devices/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: DEVICES_QUERY_KEY });
+      toast({ title: "Device removed", description: "It won't receive push notifications anymore.", duration: 3000 });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to remove device", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) return null;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium text-sm text-gray-700">Your devices</h4>
+      {devices.length === 0 ? (
+        <p className="text-xs text-gray-500">No device is receiving push notifications yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {devices.map(device => {
+            const Icon = device.os === "ios" || device.os === "android" ? Smartphone : Monitor;
+            return (
+              <div key={device.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <Icon className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate" title={device.userAgent ?? undefined}>
+                      {device.label}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {device.platform === "onesignal" ? "OneSignal" : "Web Push"} · last seen{" "}
+                      {formatDistanceToNow(new Date(device.lastSeenAt), { addSuffix: true })}
+                    </div>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove ${device.label}`}
+                  onClick={() => revokeMutation.mutate(device.id)}
+                  disabled={revokeMutation.isPending}
+                  className="text-gray-400 hover:text-red-500 flex-shrink-0"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
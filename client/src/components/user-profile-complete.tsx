@@ -6,6 +6,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
 import { 
   User, 
   Star, 
@@ -30,7 +31,18 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import type { User as UserType, Favor } from "@shared/schema";
+import type { User as UserType, Favor, ReviewWithRater } from "@shared/schema";
+import { formatMoney } from "@shared/money";
+
+interface UserPoints {
+  points: number;
+  level: number;
+  title: string;
+  nextLevelPoints: number;
+  progress: number;
+  milestones: { title: string; unlockedAt: string | null }[];
+  history: { id: number; points: number; description: string; createdAt: string | null }[];
+}
 
 interface UserProfileProps {
   isOpen: boolean;
@@ -38,7 +50,7 @@ interface UserProfileProps {
 }
 
 export default function UserProfile({ isOpen, onClose }: UserProfileProps) {
-  const { user } = useAuth();
+  const { user, logout } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [deleteConfirm, setDeleteConfirm] = useState<{ favorId: number; title: string } | null>(null);
@@ -51,13 +63,29 @@ export default function UserProfile({ isOpen, onClose }: UserProfileProps) {
     enabled: isOpen && !!user,
   });
 
+  // Fresh rating aggregates and the reviews behind them
+  const { data: profileUser } = useQuery<UserType>({
+    queryKey: [`/api/users/${user?.id}`],
+    enabled: isOpen && !!user,
+  });
+
+  const { data: reviews } = useQuery<ReviewWithRater[]>({
+    queryKey: [`/api/users/${user?.id}/reviews`],
+    enabled: isOpen && !!user,
+  });
+
+  const { data: pointsData } = useQuery<UserPoints>({
+    queryKey: [`/api/users/${user?.id}/points`],
+    enabled: isOpen && !!user,
+  });
+
+  const totalRatings = profileUser?.totalRatings ?? user?.totalRatings ?? 0;
+  const averageRating = parseFloat(profileUser?.averageRating ?? user?.averageRating ?? "0");
+
   // Notification settings mutation
   const updateNotificationsMutation = useMutation({
     mutationFn: async (enabled: boolean) => {
-      const response = await apiRequest("POST", "/api/notifications/settings", {
-        userId: user?.id.toString(),
-        enabled
-      });
+      const response = await apiRequest("POST", "/api/notifications/settings", { enabled });
       return response.json();
     },
     onSuccess: (data) => {
@@ -84,13 +112,13 @@ export default function UserProfile({ isOpen, onClose }: UserProfileProps) {
   const deleteFavorMutation = useMutation({
     mutationFn: async (favorId: number) => {
       const response = await apiRequest("DELETE", `/api/favors/${favorId}`);
-      return response.json();
+      return response.json() as Promise<{ cancelled: boolean }>;
     },
-    onSuccess: () => {
-      toast({
-        title: "Favor deleted successfully",
-        description: "Your favor has been removed from the platform.",
-      });
+    onSuccess: ({ cancelled }) => {
+      // A favor someone already took on is cancelled rather than deleted
+      toast(cancelled
+        ? { title: "Favor cancelled", description: "A helper had already taken it on, so it was cancelled and any payment refunded." }
+        : { title: "Favor deleted successfully", description: "Your favor has been removed from the platform." });
       // Force refresh all favor-related queries
       queryClient.invalidateQueries({ queryKey: ["/api/favors"] });
       queryClient.invalidateQueries({ queryKey: [`/api/favors/user/${user?.id}`] });
@@ -133,7 +161,7 @@ export default function UserProfile({ isOpen, onClose }: UserProfileProps) {
             <h4 className="font-semibold text-white text-sm">{favor.title}</h4>
             <div className="flex items-center space-x-2">
               <Badge variant="secondary" className="bg-slate-700 text-slate-300">
-                €{favor.price}
+                {formatMoney(favor.priceCents, favor.currency)}
               </Badge>
               {showDelete && (
                 <Button
@@ -199,7 +227,11 @@ export default function UserProfile({ isOpen, onClose }: UserProfileProps) {
               <p className="text-slate-400 text-sm">{user.bio || "Favr community member"}</p>
               <div className="flex items-center mt-1">
                 <Star className="w-4 h-4 text-favr-orange fill-current mr-1" />
-                <span className="text-sm text-slate-300">4.8 (12 reviews)</span>
+                <span className="text-sm text-slate-300">
+                  {totalRatings > 0
+                    ? `${averageRating.toFixed(1)} (${totalRatings} ${totalRatings === 1 ? "review" : "reviews"})`
+                    : "No reviews yet"}
+                </span>
               </div>
             </div>
           </div>
@@ -215,16 +247,49 @@ export default function UserProfile({ isOpen, onClose }: UserProfileProps) {
               <div className="text-xs text-slate-400">Completed</div>
             </div>
             <div className="text-center">
-              <div className="text-2xl font-bold text-favr-orange">156</div>
+              <div className="text-2xl font-bold text-favr-orange">{pointsData?.points ?? user.favrPoints}</div>
               <div className="text-xs text-slate-400">Points</div>
             </div>
           </div>
 
+          {/* Level & recent points */}
+          {pointsData && (
+            <div className="p-3 bg-slate-800/50 rounded-lg border border-slate-700 space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white font-medium">
+                  Level {pointsData.level} · {pointsData.title}
+                </span>
+                <span className="text-slate-400">
+                  {pointsData.points}/{pointsData.nextLevelPoints}
+                </span>
+              </div>
+              <Progress value={pointsData.progress} className="h-2" />
+              {pointsData.milestones.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {pointsData.milestones.slice(-4).map((milestone) => (
+                    <Badge key={milestone.title} variant="secondary" className="bg-slate-700 text-favr-orange text-xs">
+                      <Trophy className="w-3 h-3 mr-1" />
+                      {milestone.title}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {pointsData.history.slice(0, 3).map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between text-xs">
+                  <span className="text-slate-400">{entry.description}</span>
+                  <span className={entry.points >= 0 ? "text-green-400" : "text-red-400"}>
+                    {entry.points >= 0 ? `+${entry.points}` : entry.points}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
 
 
           {/* Favors Tabs */}
           <Tabs defaultValue="posted" className="w-full">
-            <TabsList className="grid w-full grid-cols-2 bg-slate-800">
+            <TabsList className="grid w-full grid-cols-3 bg-slate-800">
               <TabsTrigger 
                 value="posted" 
                 className="data-[state=active]:bg-favr-blue data-[state=active]:text-white"
@@ -237,6 +302,12 @@ export default function UserProfile({ isOpen, onClose }: UserProfileProps) {
               >
                 Completed
               </TabsTrigger>
+              <TabsTrigger 
+                value="reviews" 
+                className="data-[state=active]:bg-favr-blue data-[state=active]:text-white"
+              >
+                Reviews
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="posted" className="mt-4 space-y-3">
@@ -266,6 +337,40 @@ export default function UserProfile({ isOpen, onClose }: UserProfileProps) {
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="reviews" className="mt-4 space-y-3">
+              {reviews && reviews.length > 0 ? (
+                reviews.map((review) => (
+                  <Card key={review.id} className="bg-slate-800 border-slate-700">
+                    <CardContent className="p-4">
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="font-semibold text-white text-sm">{review.raterName}</span>
+                        <div className="flex items-center">
+                          {[1, 2, 3, 4, 5].map((star) => (
+                            <Star
+                              key={star}
+                              className={`w-3 h-3 ${star <= review.rating ? "text-favr-orange fill-current" : "text-slate-600"}`}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                      {review.favorTitle && (
+                        <p className="text-xs text-slate-500 mb-1">{review.favorTitle}</p>
+                      )}
+                      {review.comment && (
+                        <p className="text-slate-300 text-sm">{review.comment}</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))
+              ) : (
+                <div className="text-center py-8">
+                  <Star className="w-12 h-12 text-slate-600 mx-auto mb-3" />
+                  <h3 className="text-lg font-semibold text-slate-300 mb-2">No reviews yet</h3>
+                  <p className="text-slate-500 text-sm">Reviews from completed favors will appear here</p>
+                </div>
+              )}
+            </TabsContent>
           </Tabs>
 
           {/* Settings Section */}
@@ -397,7 +502,8 @@ export default function UserProfile({ isOpen, onClose }: UserProfileProps) {
             <Button
               variant="destructive"
               className="w-full bg-red-600 hover:bg-red-700 text-white"
-              onClick={() => {
+              onClick={async () => {
+                await logout();
                 localStorage.clear();
                 window.location.href = '/';
               }}
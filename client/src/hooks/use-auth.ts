@@ -1,69 +1,45 @@
-import { useState, useEffect } from 'react';
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import type { User } from '@shared/schema';
+import { queryClient, getQueryFn } from '@/lib/queryClient';
 
-interface AuthState {
-  user: User | null;
-  isAuthenticated: boolean;
-  loading: boolean;
-}
+const AUTH_QUERY_KEY = ['/api/auth/me'];
 
 export function useAuth() {
-  const [authState, setAuthState] = useState<AuthState>({
-    user: null,
-    isAuthenticated: false,
-    loading: true,
+  // The session cookie is the credential; the server tells us who we are
+  const { data: user, isLoading } = useQuery<User | null>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
   });
 
   useEffect(() => {
-    // Check for stored user data on app load
-    const storedUser = localStorage.getItem('favr_user');
-    if (storedUser) {
-      try {
-        const user = JSON.parse(storedUser);
-        setAuthState({
-          user,
-          isAuthenticated: true,
-          loading: false,
-        });
-      } catch (error) {
-        localStorage.removeItem('favr_user');
-        setAuthState({
-          user: null,
-          isAuthenticated: false,
-          loading: false,
-        });
-      }
-    } else {
-      setAuthState({
-        user: null,
-        isAuthenticated: false,
-        loading: false,
-      });
-    }
+    // Older builds cached the whole user object here; it is no longer trusted
+    localStorage.removeItem('favr_user');
   }, []);
 
   const login = (userData: User) => {
-    setAuthState({
-      user: userData,
-      isAuthenticated: true,
-      loading: false,
-    });
-    localStorage.setItem('favr_user', JSON.stringify(userData));
+    queryClient.setQueryData(AUTH_QUERY_KEY, userData);
     localStorage.setItem('currentUserId', userData.id.toString());
   };
 
-  const logout = () => {
-    setAuthState({
-      user: null,
-      isAuthenticated: false,
-      loading: false,
-    });
-    localStorage.removeItem('favr_user');
+  const logout = async () => {
+    try {
+      await fetch('/api/auth/signout', { method: 'POST', credentials: 'include' });
+    } catch (error) {
+      console.error('Sign out request failed:', error);
+    }
+    localStorage.removeItem('currentUserId');
+    queryClient.clear();
+    queryClient.setQueryData(AUTH_QUERY_KEY, null);
   };
 
   return {
-    ...authState,
+    user: user ?? null,
+    isAuthenticated: !!user,
+    loading: isLoading,
     login,
     logout,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CategoryWithSubcategories } from "@shared/schema";
+
+/** The category taxonomy from the server, limited to the country at `near` when given */
+export function useCategories(near?: { latitude: number; longitude: number } | null) {
+  // Two decimals is plenty to pick a country and keeps the cache key stable while the GPS jitters
+  const url = near
+    ? `/api/categories?lat=${near.latitude.toFixed(2)}&lng=${near.longitude.toFixed(2)}`
+    : "/api/categories";
+
+  return useQuery<CategoryWithSubcategories[]>({
+    queryKey: [url],
+    staleTime: 5 * 60 * 1000, // the taxonomy rarely changes
+  });
+}
@@ -1,9 +1,13 @@
 import { useEffect, useRef } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/use-auth';
+import { INBOX_QUERY_KEY, type InboxResponse } from '@/components/notification-bell';
 
 interface GlobalChatMessage {
   type: string;
+  /** notifications_unread: the user's unread inbox count, and the notification that changed it */
+  count?: number;
+  notification?: unknown;
   message?: {
     id: string;
     content: string;
@@ -38,11 +42,8 @@ export function useGlobalChat() {
         socket.onopen = () => {
           console.log('🔌 Global chat WebSocket connected');
           
-          // Register this user for global message notifications
-          socket.send(JSON.stringify({
-            type: 'register_user',
-            userId: String(user.id)
-          }));
+          // The session cookie identifies us; this just asks for the unread badge
+          socket.send(JSON.stringify({ type: 'register_user' }));
         };
 
         socket.onmessage = (event) => {
@@ -61,6 +62,17 @@ export function useGlobalChat() {
                 queryClient.invalidateQueries({ queryKey: ["/api/chat"] });
               }
             }
+
+            if (data.type === 'notifications_unread' && typeof data.count === 'number') {
+              const count = data.count;
+              queryClient.setQueryData<InboxResponse>(INBOX_QUERY_KEY, (inbox) =>
+                inbox ? { ...inbox, unreadCount: count } : inbox
+              );
+              // A new notification also changes the list
+              if (data.notification) {
+                queryClient.invalidateQueries({ queryKey: INBOX_QUERY_KEY });
+              }
+            }
           } catch (error) {
             console.error('❌ Error parsing global chat message:', error);
           }
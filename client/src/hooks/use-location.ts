@@ -1,4 +1,6 @@
 import { useState, useEffect } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type { GeocodedPlace } from "@shared/locationUtils";
 
 interface LocationData {
   latitude: number;
@@ -39,48 +41,17 @@ export function useLocation() {
         const { latitude, longitude } = position.coords;
         
         try {
-          // Use reverse geocoding to get actual full address for poster
-          const mapboxToken = import.meta.env.VITE_MAPBOX_TOKEN;
-          
-          if (!mapboxToken) {
-            console.warn("MapBox token not found, using coordinates");
-            setLocation({
-              latitude,
-              longitude,
-              address: `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`
-            });
-            setLoading(false);
-            return;
-          }
-          
-          const response = await fetch(
-            `https://api.mapbox.com/geocoding/v5/mapbox.places/${longitude},${latitude}.json?access_token=${mapboxToken}&types=address,poi,place&limit=1`
-          );
-          
-          if (response.ok) {
-            const data = await response.json();
-            let address = "Current location";
-            
-            if (data.features?.[0]) {
-              const place = data.features[0];
-              // For poster: show full address with street number
-              address = place.place_name || "Current location";
-            }
-            
-            setLocation({
-              latitude,
-              longitude,
-              address
-            });
-          } else {
-            // Fallback to coordinate display if reverse geocoding fails
-            setLocation({
-              latitude,
-              longitude,
-              address: `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`
-            });
-          }
+          // Reverse geocode on the server to get the poster's full address
+          const response = await apiRequest("GET", `/api/geocode/reverse?lat=${latitude}&lng=${longitude}`);
+          const { place } = await response.json() as { place: GeocodedPlace | null };
+
+          setLocation({
+            latitude,
+            longitude,
+            address: place?.label || "Current location"
+          });
         } catch (error) {
+          // Fallback to coordinate display if reverse geocoding fails
           console.warn("Reverse geocoding failed:", error);
           setLocation({
             latitude,
@@ -1,8 +1,9 @@
 // useChatSync.ts
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ChatMessageType, CounterOfferDetails, StoredImage } from "@shared/schema";
 
 type MessageStatus = "sent" | "delivered" | "seen";
-type MessageType = "text" | "system";
+type MessageType = ChatMessageType;
 
 export interface ChatMessageVM {
     id: string;
@@ -12,12 +13,32 @@ export interface ChatMessageVM {
     timestamp: string; // ISO
     status: MessageStatus;
     type: MessageType;
+    counterOffer?: CounterOfferDetails | null;
+    /** the image of an "image" message; content is its caption */
+    attachment?: StoredImage | null;
     isMe: boolean;
 }
 
+/**
+ * Fold the latest page into what's loaded: older pages already scrolled in are kept. A page that
+ * doesn't overlap means we missed more than a page (e.g. offline), so start over from it.
+ */
+function mergeLatestPage(prev: ChatMessageVM[], page: ChatMessageVM[]): { messages: ChatMessageVM[]; replaced: boolean } {
+    const pageIds = new Set(page.map((m) => m.id));
+    if (!prev.length || !page.length || !prev.some((m) => pageIds.has(m.id))) {
+        return { messages: page, replaced: true };
+    }
+    return { messages: [...prev.filter((m) => !pageIds.has(m.id)), ...page], replaced: false };
+}
+
+/** A message the server refused to deliver, as its moderation explained it */
+export interface BlockedMessage {
+    reason: string;
+    suggestion?: string;
+}
+
 export interface UseChatSyncOptions {
-    chatRoomId: number;          // server room id
-    favorId: number;             // favor id (for WS join)
+    chatRoomId: number;          // server room id (each helper has their own room per favor)
     currentUserId: string;       // logged in user id
     wsUrl?: string;              // optional custom ws url
 }
@@ -26,7 +47,6 @@ export interface UseChatSyncOptions {
 export function useChatSync(opts?: Partial<UseChatSyncOptions>) {
     // Pull values safely out of an optional object
     const chatRoomId = opts?.chatRoomId ?? null;
-    const favorId = opts?.favorId ?? null;
     const currentUserId = opts?.currentUserId ?? null;
     const wsUrl =
         opts?.wsUrl ??
@@ -35,22 +55,25 @@ export function useChatSync(opts?: Partial<UseChatSyncOptions>) {
             : "");
 
     // Enabled only when we have everything
-    const enabled = Boolean(chatRoomId && favorId && currentUserId);
+    const enabled = Boolean(chatRoomId && currentUserId);
 
     const [messages, setMessages] = useState<ChatMessageVM[]>([]);
     const [otherOnline, setOtherOnline] = useState<boolean>(false);
     const [otherUserId, setOtherUserId] = useState<string | null>(null);
     const [isConnected, setIsConnected] = useState<boolean>(false);
     const [isTyping, setIsTyping] = useState<boolean>(false);
+    const [hasOlder, setHasOlder] = useState<boolean>(false);
+    const [loadingOlder, setLoadingOlder] = useState<boolean>(false);
+    // The last message moderation refused, until the page has shown it
+    const [blockedMessage, setBlockedMessage] = useState<BlockedMessage | null>(null);
 
     const wsRef = useRef<WebSocket | null>(null);
     const connectingRef = useRef(false);
 
     const authHeaders = useMemo(() => {
-        const h: Record<string, string> = { "Content-Type": "application/json" };
-        if (currentUserId) h["user-id"] = currentUserId;
-        return h;
-    }, [currentUserId]);
+        // Identity comes from the session cookie; no client-supplied user id
+        return { "Content-Type": "application/json" } as Record<string, string>;
+    }, []);
 
     /* -------------------------- HTTP helpers -------------------------- */
 
@@ -86,13 +109,20 @@ export function useChatSync(opts?: Partial<UseChatSyncOptions>) {
 
     const fetchMessages = useCallback(async () => {
         if (!enabled || !chatRoomId || !currentUserId) return;
-        const data = (await getJSON(`/api/chat/messages/${chatRoomId}`)) as ChatMessageVM[] | null;
+        const data = await getJSON(`/api/chat/rooms/${chatRoomId}/messages`);
         if (!data) return;
 
-        setMessages(data);
+        const list = data.messages as ChatMessageVM[];
+        setMessages((prev) => {
+            const { messages: merged, replaced } = mergeLatestPage(prev, list);
+            if (replaced) setHasOlder(!!data.hasMore);
+            return merged;
+        });
+        if (data.otherOnline !== undefined) setOtherOnline(!!data.otherOnline);
+        if (data.otherUserId) setOtherUserId(String(data.otherUserId));
 
         // auto-ack "sent" → "delivered"
-        const toDeliver = data.filter(
+        const toDeliver = list.filter(
             (m) => m.recipientId === currentUserId && m.status === "sent"
         );
         if (toDeliver.length) {
@@ -102,13 +132,25 @@ export function useChatSync(opts?: Partial<UseChatSyncOptions>) {
         }
     }, [enabled, chatRoomId, currentUserId, getJSON, postJSON]);
 
-    const fetchPresenceMeta = useCallback(async () => {
-        if (!enabled || !favorId) return;
-        const data = await getJSON(`/api/chat/${favorId}/messages`);
-        if (!data) return;
-        if (data.otherOnline !== undefined) setOtherOnline(!!data.otherOnline);
-        if (data.otherUserId) setOtherUserId(String(data.otherUserId));
-    }, [enabled, favorId, getJSON]);
+    /** Prepend the page before the oldest loaded message (infinite scroll upwards) */
+    const loadOlder = useCallback(async () => {
+        if (!enabled || !chatRoomId || !hasOlder || loadingOlder || !messages.length) return;
+        setLoadingOlder(true);
+        try {
+            const data = await getJSON(
+                `/api/chat/rooms/${chatRoomId}/messages?before=${encodeURIComponent(messages[0].id)}`
+            );
+            if (!data) return;
+            const older = data.messages as ChatMessageVM[];
+            setMessages((prev) => {
+                const loaded = new Set(prev.map((m) => m.id));
+                return [...older.filter((m) => !loaded.has(m.id)), ...prev];
+            });
+            setHasOlder(!!data.hasMore);
+        } finally {
+            setLoadingOlder(false);
+        }
+    }, [enabled, chatRoomId, hasOlder, loadingOlder, messages, getJSON]);
 
     const markAllSeen = useCallback(async () => {
         if (!enabled || !messages.length || !currentUserId) return;
@@ -141,8 +183,9 @@ export function useChatSync(opts?: Partial<UseChatSyncOptions>) {
         ws.onopen = () => {
             setIsConnected(true);
             connectingRef.current = false;
-            ws.send(JSON.stringify({ type: "register_user", userId: currentUserId }));
-            ws.send(JSON.stringify({ type: "join_chat", favorId, userId: currentUserId }));
+            // The server knows who we are from the session cookie sent with the upgrade
+            ws.send(JSON.stringify({ type: "register_user" }));
+            ws.send(JSON.stringify({ type: "join_chat", chatRoomId }));
         };
 
         ws.onmessage = (ev) => {
@@ -150,7 +193,8 @@ export function useChatSync(opts?: Partial<UseChatSyncOptions>) {
                 const msg = JSON.parse(ev.data);
                 switch (msg.type) {
                     case "chat_history": {
-                        if (!messages.length && Array.isArray(msg.messages)) {
+                        // Latest page on (re)join; catches up on anything missed while disconnected
+                        if (Array.isArray(msg.messages)) {
                             const fromWs: ChatMessageVM[] = msg.messages.map((m: any) => ({
                                 id: String(m.id),
                                 content: String(m.content ?? ""),
@@ -159,9 +203,15 @@ export function useChatSync(opts?: Partial<UseChatSyncOptions>) {
                                 timestamp: m.timestamp ?? new Date().toISOString(),
                                 status: (m.status ?? "sent") as MessageStatus,
                                 type: (m.type ?? "text") as MessageType,
+                                counterOffer: m.counterOffer ?? null,
+                                attachment: m.attachment ?? null,
                                 isMe: String(m.senderId) === currentUserId,
                             }));
-                            setMessages(fromWs);
+                            setMessages((prev) => {
+                                const { messages: merged, replaced } = mergeLatestPage(prev, fromWs);
+                                if (replaced) setHasOlder(!!msg.hasMore);
+                                return merged;
+                            });
                         }
                         if (msg.presence?.otherOnline !== undefined) {
                             setOtherOnline(!!msg.presence.otherOnline);
@@ -181,6 +231,8 @@ export function useChatSync(opts?: Partial<UseChatSyncOptions>) {
                                 timestamp: m.timestamp ?? new Date().toISOString(),
                                 status: (m.status ?? "sent") as MessageStatus,
                                 type: (m.type ?? "text") as MessageType,
+                                counterOffer: m.counterOffer ?? null,
+                                attachment: m.attachment ?? null,
                                 isMe: String(m.senderId) === currentUserId,
                             },
                         ]);
@@ -199,11 +251,24 @@ export function useChatSync(opts?: Partial<UseChatSyncOptions>) {
                                 timestamp: m.timestamp ?? new Date().toISOString(),
                                 status: (m.status ?? "sent") as MessageStatus,
                                 type: (m.type ?? "text") as MessageType,
+                                counterOffer: m.counterOffer ?? null,
+                                attachment: m.attachment ?? null,
                                 isMe: true,
                             },
                         ]);
                         break;
                     }
+                    case "message_updated": {
+                        // A counter-offer was answered or superseded
+                        const { messageId, counterOffer } = msg;
+                        setMessages((prev) =>
+                            prev.map((m) => (m.id === messageId ? { ...m, counterOffer } : m))
+                        );
+                        break;
+                    }
+                    case "message_blocked":
+                        setBlockedMessage({ reason: msg.reason, suggestion: msg.suggestion });
+                        break;
                     case "message_seen": {
                         const { messageId } = msg;
                         setMessages((prev) =>
@@ -242,7 +307,7 @@ export function useChatSync(opts?: Partial<UseChatSyncOptions>) {
         };
 
         wsRef.current = ws;
-    }, [enabled, wsUrl, currentUserId, favorId, messages.length, otherUserId]);
+    }, [enabled, wsUrl, currentUserId, chatRoomId, otherUserId]);
 
     /* ----------------------------- API -------------------------------- */
 
@@ -256,44 +321,56 @@ export function useChatSync(opts?: Partial<UseChatSyncOptions>) {
                 ws.send(
                     JSON.stringify({
                         type: "send_message",
-                        favorId,
-                        senderId: currentUserId,
+                        chatRoomId,
                         content: trimmed,
                     })
                 );
                 return;
             }
 
-            // REST fallback
-            await postJSON(`/api/chat/${chatRoomId}/messages`, { content: trimmed });
+            // REST fallback; a 400 with a reason is a moderation block, not a failure
+            const res = await fetch("/api/chat/send", {
+                method: "POST",
+                headers: authHeaders,
+                body: JSON.stringify({ chatRoomId, content: trimmed }),
+            });
+            if (res.status === 400) {
+                const body = await res.json().catch(() => ({}));
+                if (body.reason) {
+                    setBlockedMessage({ reason: body.reason, suggestion: body.suggestion });
+                    return;
+                }
+            }
+            if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
             await fetchMessages();
         },
-        [enabled, favorId, currentUserId, postJSON, chatRoomId, fetchMessages]
+        [enabled, authHeaders, chatRoomId, fetchMessages]
     );
 
+    const clearBlockedMessage = useCallback(() => setBlockedMessage(null), []);
+
     const startTyping = useCallback(() => {
         if (!enabled) return;
         const ws = wsRef.current;
         if (ws && ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: "typing", favorId, userId: currentUserId, isTyping: true }));
+            ws.send(JSON.stringify({ type: "typing", chatRoomId, isTyping: true }));
         }
-    }, [enabled, favorId, currentUserId]);
+    }, [enabled, chatRoomId]);
 
     const stopTyping = useCallback(() => {
         if (!enabled) return;
         const ws = wsRef.current;
         if (ws && ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: "typing", favorId, userId: currentUserId, isTyping: false }));
+            ws.send(JSON.stringify({ type: "typing", chatRoomId, isTyping: false }));
         }
-    }, [enabled, favorId, currentUserId]);
+    }, [enabled, chatRoomId]);
 
     /* ---------------------------- Effects ------------------------------ */
 
     useEffect(() => {
         if (!enabled) return;
         fetchMessages();
-        fetchPresenceMeta();
-    }, [enabled, fetchMessages, fetchPresenceMeta]);
+    }, [enabled, fetchMessages]);
 
     useEffect(() => {
         if (!enabled) return;
@@ -319,11 +396,16 @@ export function useChatSync(opts?: Partial<UseChatSyncOptions>) {
         otherUserId,
         isConnected,
         isTyping,
+        hasOlder,
+        loadingOlder,
+        blockedMessage,
         // actions
         fetchMessages,
+        loadOlder,
         sendMessage,
         markAllSeen,
         startTyping,
         stopTyping,
+        clearBlockedMessage,
     };
 }
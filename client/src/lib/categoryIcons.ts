@@ -0,0 +1,28 @@
+import {
+  Box, Car, Dog, Droplets, Hammer, Home, Package, Paintbrush, Plane, Plug, Settings, ShoppingCart, Tag, Truck, Utensils, Wrench,
+  type LucideIcon,
+} from "lucide-react";
+
+// Icon names the categories table may use (server/categories.ts); anything else shows a tag
+const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  box: Box,
+  car: Car,
+  dog: Dog,
+  droplets: Droplets,
+  hammer: Hammer,
+  home: Home,
+  package: Package,
+  paintbrush: Paintbrush,
+  plane: Plane,
+  plug: Plug,
+  settings: Settings,
+  "shopping-cart": ShoppingCart,
+  tag: Tag,
+  truck: Truck,
+  utensils: Utensils,
+  wrench: Wrench,
+};
+
+export function categoryIcon(name: string): LucideIcon {
+  return CATEGORY_ICONS[name] ?? Tag;
+}
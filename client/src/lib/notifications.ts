@@ -1,4 +1,5 @@
 // Service Worker registration and notification utilities
+import { detectDevice } from "./deviceDetection";
 
 export class NotificationService {
   private swRegistration: ServiceWorkerRegistration | null = null;
@@ -124,7 +125,7 @@ export class NotificationService {
       
       if (subscription) {
         await subscription.unsubscribe();
-        await this.removeSubscriptionFromServer();
+        await this.removeSubscriptionFromServer(subscription.endpoint);
       }
       
       return true;
@@ -159,8 +160,8 @@ export class NotificationService {
         platform: "webpush",          // 👈 REQUIRED by your backend
         subscriptionData: json,       // 👈 can also be JSON.stringify(json)
         userId: currentUserId || "1", // 👈 REQUIRED
-        // any extras are fine; server ignores unknown fields
         endpoint: json?.endpoint,
+        deviceInfo: detectDevice(), // labels this device in the devices list
       }),
     });
 
@@ -176,13 +177,14 @@ export class NotificationService {
   }
 
 
-  private async removeSubscriptionFromServer() {
+  // Only this browser's device is removed; the user's other devices keep receiving push
+  private async removeSubscriptionFromServer(endpoint: string) {
     const response = await fetch('/api/notifications/unsubscribe', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ userId: this.userId })
+      body: JSON.stringify({ userId: this.userId, endpoint })
     });
 
     if (!response.ok) {
@@ -192,13 +194,8 @@ export class NotificationService {
 
   async sendTestNotification(): Promise<boolean> {
     try {
-      const response = await fetch('/api/notifications/test', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ userId: this.userId })
-      });
+      // The server pings whoever the session belongs to
+      const response = await fetch('/api/notifications/test', { method: 'POST' });
 
       const result = await response.json();
       return result.success;
@@ -71,10 +71,7 @@ export class OneSignalNotificationService {
         try {
           await fetch('/api/notifications/onesignal-test', {
             method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ userId })
+            credentials: 'include',
           });
         } catch (testError) {
           console.log('Test notification failed (but subscription succeeded):', testError);
@@ -12,23 +12,15 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  // Get user ID for proper identification
-  const storedUser = localStorage.getItem('favr_user');
-  const headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
-  
-  if (storedUser) {
-    try {
-      const user = JSON.parse(storedUser);
-      headers['user-id'] = user.id?.toString() || '1';
-    } catch (error) {
-      console.error('Error parsing stored user:', error);
-    }
-  }
+  // Identity comes from the session cookie sent with credentials.
+  // FormData (file uploads) goes as is: the browser sets the multipart Content-Type with its boundary
+  const isForm = data instanceof FormData;
+  const headers: Record<string, string> = data && !isForm ? { "Content-Type": "application/json" } : {};
 
   const res = await fetch(url, {
     method,
     headers,
-    body: data ? JSON.stringify(data) : undefined,
+    body: isForm ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
@@ -42,22 +34,8 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    // Get user ID for proper identification in GET requests
-    const storedUser = localStorage.getItem('favr_user');
-    const headers: Record<string, string> = {};
-    
-    if (storedUser) {
-      try {
-        const user = JSON.parse(storedUser);
-        headers['user-id'] = user.id?.toString() || '1';
-      } catch (error) {
-        console.error('Error parsing stored user:', error);
-      }
-    }
-
     const res = await fetch(queryKey[0] as string, {
       credentials: "include",
-      headers,
     });
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
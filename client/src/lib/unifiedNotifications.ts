@@ -271,16 +271,10 @@ class UnifiedNotificationService {
     }
   }
 
-  async testNotification(userId: string): Promise<boolean> {
+  async testNotification(): Promise<boolean> {
     try {
-      const res = await fetch("/api/notifications/test", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "user-id": userId, // harmless; server ignores header for this endpoint
-        },
-        body: JSON.stringify({ userId }), // server expects just userId
-      });
+      // The server pings whoever the session belongs to
+      const res = await fetch("/api/notifications/test", { method: "POST" });
       const json = await res.json();
       return Boolean(json?.success);
     } catch (e) {
@@ -306,9 +300,8 @@ class UnifiedNotificationService {
         platform: subscription.platform,            // "onesignal" | "webpush"
         subscriptionData: subscription.subscriptionId, // stringified sub or onesignal id
         userId: subscription.userId,
-        // endpoint/deviceInfo are extra; backend currently ignores them.
         endpoint: subscription.endpoint,
-        deviceInfo: this.device,
+        deviceInfo: this.device, // platform/browser label this device in the devices list
       }),
     });
 
@@ -339,6 +332,6 @@ export async function subscribeToNotifications(userId: string): Promise<boolean>
   return !!sub;
 }
 
-export async function testNotifications(userId: string): Promise<boolean> {
-  return unifiedNotificationService.testNotification(userId);
+export async function testNotifications(): Promise<boolean> {
+  return unifiedNotificationService.testNotification();
 }
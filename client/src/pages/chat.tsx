@@ -1,31 +1,50 @@
 // Chat.tsx
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
 import { useRoute, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ArrowLeft, Send, CheckCircle2 } from "lucide-react";
+import { ArrowLeft, Send, CheckCircle2, Star, HandCoins, ImagePlus } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { trackEvent } from "@/lib/analytics";
 import { CompletionModal } from "@/components/completion-modal";
-import type { FavorWithPoster } from "@shared/schema";
+import { CounterOfferCard, CounterOfferForm } from "@/components/counter-offer";
+import { IMAGE_CONTENT_TYPES, MAX_IMAGE_BYTES, type FavorWithPoster, type Rating } from "@shared/schema";
 import { useChatSync } from "@/hooks/useChatSync";
 
-export default function Chat() {
-  const [, chatParams] = useRoute("/chat/:favorId");
-  const [, negoParams] = useRoute("/negotiate/:favorId");
-  const favorParam = chatParams?.favorId ?? negoParams?.favorId;
-  const isNegotiation = Boolean(negoParams?.favorId);
+/** GET /api/chat/rooms/:id/messages, minus the messages useChatSync keeps */
+interface ChatRoomDetails {
+  chatRoomId: number;
+  favorId: number;
+  isActive: boolean;
+  otherUserId: string;
+  otherUserName: string;
+}
 
-  const favorId = Number(favorParam);
-  const validFavorId = Number.isFinite(favorId) && favorId > 0 ? favorId : null;
+export default function Chat() {
+  const [, params] = useRoute("/chat/:chatRoomId");
+  const roomId = Number(params?.chatRoomId);
+  const chatRoomId = Number.isFinite(roomId) && roomId > 0 ? roomId : null;
 
   const { user } = useAuth();
   const [, setLocation] = useLocation();
+  const { toast } = useToast();
 
-  const [chatRoomId, setChatRoomId] = useState<number | null>(null);
   const [showCompletionModal, setShowCompletionModal] = useState(false);
+  const [showCounterOfferForm, setShowCounterOfferForm] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messageListRef = useRef<HTMLDivElement>(null);
+  // Scroll height before older messages were prepended, to keep the view where it was
+  const heightBeforeOlderRef = useRef<number | null>(null);
+
+  // Which favor the room belongs to and who is on the other side (each helper has their own room)
+  const { data: room } = useQuery<ChatRoomDetails>({
+    queryKey: [`/api/chat/rooms/${chatRoomId}/messages`],
+    enabled: !!chatRoomId && !!user?.id,
+  });
+  const validFavorId = room?.favorId ?? null;
 
   // Favor details (for header + completion modal)
   const { data: favor } = useQuery<FavorWithPoster>({
@@ -33,28 +52,21 @@ export default function Chat() {
     enabled: !!validFavorId,
   });
 
-  // Resolve chatRoomId from favorId only when both favorId and user are ready
-  useEffect(() => {
-    let canceled = false;
-    (async () => {
-      if (!validFavorId || !user?.id) return;
-      try {
-        const res = await fetch(`/api/chat/${validFavorId}/messages`, {
-          headers: { "user-id": String(user.id) },
-        });
-        if (!res.ok) return; // bail on errors
-        const data = await res.json();
-        if (!canceled && data?.chatRoomId) {
-          setChatRoomId(Number(data.chatRoomId));
-        }
-      } catch {
-        /* ignore */
-      }
-    })();
-    return () => {
-      canceled = true;
-    };
-  }, [validFavorId, user?.id]);
+  // Reviews already left on this favor (to offer "Leave a review" once)
+  const { data: favorReviews } = useQuery<Rating[]>({
+    queryKey: [`/api/favors/${validFavorId}/reviews`],
+    enabled: !!validFavorId && favor?.status === "completed",
+  });
+
+  const isRequester = !!user && favor?.posterId === String(user.id);
+  const hasReviewed = !!user && !!favorReviews?.some((r) => r.raterId === user.id);
+  // Offer chats with helpers who weren't picked stay readable but can't complete the favor
+  const isAcceptedHelperRoom = !!favor?.helperId && !!room &&
+    (isRequester ? room.otherUserId === String(favor.helperId) : favor.helperId === user?.id);
+  const isOffer = favor?.status === "available";
+  // Mirrors the server: offers are haggled before acceptance, the agreed helper's terms after it
+  const canCounterOffer = !!favor?.isNegotiable && room?.isActive === true &&
+    (isOffer || (favor.status === "accepted" && isAcceptedHelperRoom));
 
   // Hook: unified WS + REST sync
   const {
@@ -62,26 +74,60 @@ export default function Chat() {
     otherOnline,
     otherUserId,
     isTyping,
+    hasOlder,
+    loadingOlder,
+    blockedMessage,
+    fetchMessages,
+    loadOlder,
     sendMessage,
     markAllSeen,
     startTyping,
     stopTyping,
+    clearBlockedMessage,
   } = useChatSync(
     // pass a config only when everything is known; the hook should no-op otherwise
-    chatRoomId && validFavorId && user?.id
+    chatRoomId && user?.id
       ? {
         chatRoomId,
-        favorId: validFavorId,
         currentUserId: String(user.id),
       }
       : (undefined as any)
   );
 
-  // Auto-scroll
+  useEffect(() => {
+    if (!blockedMessage) return;
+    toast({
+      title: "Message not sent",
+      description: blockedMessage.suggestion
+        ? `${blockedMessage.reason}. ${blockedMessage.suggestion}`
+        : blockedMessage.reason,
+      variant: "destructive",
+    });
+    clearBlockedMessage();
+  }, [blockedMessage, toast, clearBlockedMessage]);
+
+  // Auto-scroll when a message arrives at the bottom, not when older ones are prepended
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [lastMessageId]);
+
+  useLayoutEffect(() => {
+    const list = messageListRef.current;
+    if (!list || heightBeforeOlderRef.current === null) return;
+    list.scrollTop += list.scrollHeight - heightBeforeOlderRef.current;
+    heightBeforeOlderRef.current = null;
   }, [messages]);
 
+  const handleMessagesScroll = () => {
+    const list = messageListRef.current;
+    if (!list || list.scrollTop > 80 || !hasOlder || loadingOlder) return;
+    heightBeforeOlderRef.current = list.scrollHeight;
+    loadOlder().catch(() => {
+      heightBeforeOlderRef.current = null;
+    });
+  };
+
   const formatTime = (iso: string) => {
     try {
       const d = new Date(iso);
@@ -92,15 +138,45 @@ export default function Chat() {
   };
 
   const partnerName = useMemo(() => {
+    if (room?.otherUserName) return room.otherUserName;
     if (!favor || !user) return "Partner";
     const isUserPoster = String(user.id) === String(favor.posterId);
-    return isUserPoster
-      ? favor.helperName || favor.helperFirstName || "Helper"
-      : favor.posterFirstName || favor.posterName || "Poster";
-  }, [favor, user]);
+    return isUserPoster ? "Helper" : favor.posterFirstName || favor.posterName || "Poster";
+  }, [room, favor, user]);
+
+  const partnerId = otherUserId ?? room?.otherUserId;
+
+  // Uploaded over REST; the message itself arrives like any other through the socket
+  const sendImage = async (file: File, caption: string): Promise<boolean> => {
+    if (!chatRoomId) return false;
+    if (!(IMAGE_CONTENT_TYPES as readonly string[]).includes(file.type) || file.size > MAX_IMAGE_BYTES) {
+      toast({
+        title: "Can't send this file",
+        description: `Photos must be JPEG, PNG or WebP and at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    const form = new FormData();
+    form.append("image", file);
+    if (caption) form.append("caption", caption);
+    try {
+      await apiRequest("POST", `/api/chat/rooms/${chatRoomId}/images`, form);
+      trackEvent("chat_image_sent", "engagement", "chat_interface", validFavorId ?? undefined);
+      void fetchMessages();
+      return true;
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send image",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
 
   // Loading / invalid state
-  if (!validFavorId || !user) {
+  if (!chatRoomId || !user) {
     return (
       <div className="w-full bg-slate-900 min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -112,7 +188,8 @@ export default function Chat() {
   }
 
   return (
-    <div className="w-full bg-slate-900 min-h-screen flex flex-col">
+    // Fixed height so the message list scrolls on its own (older pages load at its top)
+    <div className="w-full bg-slate-900 h-screen flex flex-col">
       {/* Header */}
       <header className="bg-slate-800 px-6 py-4 border-b border-slate-700 w-full">
         <div className="flex items-center space-x-4">
@@ -126,16 +203,13 @@ export default function Chat() {
           </Button>
           <div className="flex-1">
             <h1 className="font-semibold text-white text-sm">
-              {isNegotiation ? `Negotiate: ${favor?.title ?? "Favor"}` : favor?.title ?? "Favor"}
+              {isOffer ? `Offer: ${favor?.title ?? "Favor"}` : favor?.title ?? "Favor"}
             </h1>
             <p className="text-xs text-slate-400">
               Chat with{" "}
               <button
                 onClick={() => {
                   trackEvent("user_profile_click", "engagement", "chat_header");
-                  const isUserPoster = String(user.id) === String(favor?.posterId);
-                  const partnerId =
-                    otherUserId ?? (isUserPoster ? favor?.helperId : favor?.posterId);
                   if (partnerId) setLocation(`/user/${partnerId}`);
                 }}
                 className="text-favr-blue hover:text-blue-300 transition-colors duration-200"
@@ -152,16 +226,40 @@ export default function Chat() {
       </header>
 
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-6 space-y-4 w-full">
+      <div ref={messageListRef} onScroll={handleMessagesScroll} className="flex-1 overflow-y-auto p-6 space-y-4 w-full">
+        {loadingOlder ? (
+          <p className="text-center text-xs text-slate-400">Loading earlier messages…</p>
+        ) : hasOlder && (
+          <div className="flex justify-center">
+            <Button variant="ghost" size="sm" onClick={handleMessagesScroll} className="text-xs text-slate-400 hover:text-white">
+              Load earlier messages
+            </Button>
+          </div>
+        )}
         {messages.length === 0 && (
           <div className="text-center py-8">
             <p className="text-slate-400 text-sm">
-              {isNegotiation ? "Start negotiating the price for this favor" : "Start your conversation about this favor"}
+              {isOffer ? "Discuss the offer for this favor" : "Start your conversation about this favor"}
             </p>
           </div>
         )}
 
-        {messages.map((msg) => (
+        {messages.map((msg) => msg.type === "system" ? (
+          // Offer updates and status changes
+          <div key={msg.id} className="flex justify-center">
+            <p className="max-w-sm text-center text-xs text-slate-400 bg-slate-800 rounded-full px-3 py-1">{msg.content}</p>
+          </div>
+        ) : msg.type === "counter_offer" && msg.counterOffer && validFavorId ? (
+          <CounterOfferCard
+            key={msg.id}
+            messageId={msg.id}
+            counterOffer={msg.counterOffer}
+            favorId={validFavorId}
+            isMe={msg.isMe}
+            partnerName={partnerName}
+            onAnswered={() => void fetchMessages()}
+          />
+        ) : (
           <div
             key={msg.id}
             className={`flex safari-message-fix ${msg.isMe ? "justify-end" : "justify-start"}`}
@@ -172,9 +270,6 @@ export default function Chat() {
                 <button
                   onClick={() => {
                     trackEvent("user_profile_click", "engagement", "chat_message");
-                    const isUserPoster = String(user.id) === String(favor?.posterId);
-                    const partnerId =
-                      otherUserId ?? (isUserPoster ? favor?.helperId : favor?.posterId);
                     if (partnerId) setLocation(`/user/${partnerId}`);
                   }}
                   className="text-xs text-slate-400 hover:text-favr-blue mb-1 transition-colors duration-200"
@@ -188,7 +283,21 @@ export default function Chat() {
                   }`}
                 style={{ display: "block", minHeight: "32px", wordBreak: "break-word" }}
               >
-                <p className="text-sm m-0 p-0">{msg.content || "[Empty message]"}</p>
+                {msg.type === "image" && msg.attachment ? (
+                  <>
+                    <a href={msg.attachment.url} target="_blank" rel="noopener noreferrer" className="block -mx-1 mb-1">
+                      <img
+                        src={msg.attachment.thumbnailUrl}
+                        alt={msg.content || "Photo"}
+                        loading="lazy"
+                        className="w-48 h-48 object-cover rounded-xl"
+                      />
+                    </a>
+                    {msg.content && <p className="text-sm m-0 p-0">{msg.content}</p>}
+                  </>
+                ) : (
+                  <p className="text-sm m-0 p-0">{msg.content || "[Empty message]"}</p>
+                )}
                 <div className={`flex items-center gap-2 mt-1 text-xs ${msg.isMe ? "text-blue-100" : "text-slate-400"}`}>
                   <span>{formatTime(msg.timestamp)}</span>
                   {msg.isMe && (
@@ -204,12 +313,12 @@ export default function Chat() {
         <div ref={messagesEndRef} />
       </div>
 
-      {/* Completion Button (only show for accepted favors) */}
-      {favor?.status === "accepted" && (
+      {/* Completion Button (only the requester can complete accepted favors) */}
+      {favor?.status === "accepted" && isRequester && isAcceptedHelperRoom && (
         <div className="px-6 py-3 bg-slate-800 border-t border-slate-700">
           <Button
             onClick={() => {
-              trackEvent("completion_modal_opened", "completion", "chat_interface", validFavorId);
+              trackEvent("completion_modal_opened", "completion", "chat_interface", validFavorId ?? undefined);
               setShowCompletionModal(true);
             }}
             className="w-full bg-green-600 hover:bg-green-700 text-white"
@@ -220,28 +329,72 @@ export default function Chat() {
         </div>
       )}
 
+      {/* Review Button (each participant reviews the other once) */}
+      {favor?.status === "completed" && isAcceptedHelperRoom && favorReviews && !hasReviewed && (
+        <div className="px-6 py-3 bg-slate-800 border-t border-slate-700">
+          <Button
+            onClick={() => {
+              trackEvent("review_modal_opened", "completion", "chat_interface", validFavorId ?? undefined);
+              setShowCompletionModal(true);
+            }}
+            className="w-full bg-favr-blue hover:bg-blue-600 text-white"
+          >
+            <Star className="w-4 h-4 mr-2" />
+            Leave a Review
+          </Button>
+        </div>
+      )}
+
+      {/* Counter-offer */}
+      {canCounterOffer && favor && (showCounterOfferForm ? (
+        <CounterOfferForm
+          chatRoomId={chatRoomId}
+          favorId={favor.id}
+          currency={favor.currency}
+          currentPriceCents={favor.negotiatedPriceCents ?? favor.priceCents}
+          onClose={() => setShowCounterOfferForm(false)}
+          onSent={() => void fetchMessages()}
+        />
+      ) : (
+        <div className="px-6 pt-3 bg-slate-800 border-t border-slate-700">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowCounterOfferForm(true)}
+            className="border-slate-600 text-slate-300 hover:text-white"
+          >
+            <HandCoins className="w-4 h-4 mr-2" />
+            Propose a price
+          </Button>
+        </div>
+      ))}
+
       {/* Composer */}
       <ChatComposer
-        disabled={!chatRoomId}
-        placeholder={isNegotiation ? "Make your offer..." : "Type a message..."}
+        disabled={room?.isActive === false}
+        placeholder={room?.isActive === false ? "This chat is read-only" : isOffer ? "Ask about the offer..." : "Type a message..."}
         onSend={async (text) => {
           await sendMessage(text);
         }}
+        onSendImage={sendImage}
         onFocusSeen={() => markAllSeen()}
         onTypingStart={() => startTyping()}
         onTypingStop={() => stopTyping()}
       />
 
       {/* Completion Modal */}
-      {showCompletionModal && favor && user && (
+      {showCompletionModal && favor && validFavorId && user && (
         <CompletionModal
           isOpen={showCompletionModal}
           onClose={() => setShowCompletionModal(false)}
           favorId={validFavorId}
           favorTitle={favor.title}
-          originalPrice={favor.price}
+          originalPriceCents={favor.priceCents}
+          negotiatedPriceCents={favor.negotiatedPriceCents}
+          currency={favor.currency}
           isHelper={favor.helperId === user.id}
           userId={user.id}
+          mode={favor.status === "completed" ? "review" : "complete"}
         />
       )}
     </div>
@@ -252,6 +405,7 @@ function ChatComposer({
   disabled,
   placeholder,
   onSend,
+  onSendImage,
   onFocusSeen,
   onTypingStart,
   onTypingStop,
@@ -259,14 +413,50 @@ function ChatComposer({
   disabled?: boolean;
   placeholder?: string;
   onSend: (text: string) => Promise<void> | void;
+  /** the typed text goes along as the caption */
+  onSendImage: (file: File, caption: string) => Promise<boolean>;
   onFocusSeen: () => void;
   onTypingStart: () => void;
   onTypingStop: () => void;
 }) {
   const [message, setMessage] = useState("");
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImagePicked = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const caption = message.trim();
+    setUploading(true);
+    try {
+      if ((await onSendImage(file, caption)) && caption) setMessage("");
+    } finally {
+      setUploading(false);
+      onTypingStop();
+    }
+  };
+
   return (
     <div className="p-6 border-t border-slate-700 bg-slate-800 w-full">
       <div className="flex space-x-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMAGE_CONTENT_TYPES.join(",")}
+          onChange={handleImagePicked}
+          className="hidden"
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="Send a photo"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || uploading}
+          className="text-slate-400 hover:text-white min-h-[44px]"
+        >
+          <ImagePlus className="h-5 w-5" />
+        </Button>
         <Input
           type="text"
           autoComplete="off"
@@ -33,9 +33,7 @@ export default function EditProfile() {
 
   const updateMutation = useMutation({
     mutationFn: async (data: Partial<User>) => {
-      return await apiRequest("PATCH", `/api/users/${currentUser?.id}`, data, {
-        'user-id': String(currentUser?.id)
-      });
+      return await apiRequest("PATCH", `/api/users/${currentUser?.id}`, data);
     },
     onSuccess: () => {
       toast({
@@ -56,9 +54,7 @@ export default function EditProfile() {
 
   const deleteMutation = useMutation({
     mutationFn: async () => {
-      return await apiRequest("DELETE", `/api/users/${currentUser?.id}`, {}, {
-        'user-id': String(currentUser?.id)
-      });
+      return await apiRequest("DELETE", `/api/users/${currentUser?.id}`);
     },
     onSuccess: () => {
       toast({
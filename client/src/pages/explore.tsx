@@ -1,21 +1,29 @@
-import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect, useMemo } from "react";
+import { useQuery, useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
 import { ArrowLeft, List, Map, Plus, Search, MessageCircle, User, Home, Compass } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import FavorCard from "@/components/favor-card";
 import MapView from "@/components/map-view-fixed";
 import CategoryFilters from "@/components/category-filters";
+import FavorSearchBar, { DEFAULT_SEARCH_FILTERS, toSearchParams, type FavorSearchFilters } from "@/components/favor-search-bar";
 import FavorDetailModal from "@/components/favor-detail-modal";
 import PostFavorModal from "@/components/post-favor-modal";
 import MessagesCenter from "@/components/messages-center";
 import UserProfile from "@/components/user-profile-complete";
-import type { Favor } from "@shared/schema";
+import type { Favor, FavorWithPoster } from "@shared/schema";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useLocation as useUserLocation } from "@/hooks/use-location";
+import { apiRequest } from "@/lib/queryClient";
 import { useGlobalChat } from "@/hooks/use-global-chat";
 import { useToast } from "@/hooks/use-toast";
 
+interface FavorSearchPage {
+  favors: FavorWithPoster[];
+  nextCursor: string | null;
+}
+
 export default function ExplorePage() {
   const [, setLocation] = useLocation();
   const { user } = useAuth();
@@ -27,6 +35,8 @@ export default function ExplorePage() {
   const [showFavorDetail, setShowFavorDetail] = useState(false);
   const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
   const [selectedCategory, setSelectedCategory] = useState('All');
+  const [searchFilters, setSearchFilters] = useState<FavorSearchFilters>(DEFAULT_SEARCH_FILTERS);
+  const { location: userLocation } = useUserLocation();
   const [showPostFavor, setShowPostFavor] = useState(false);
   const [showMessagesCenter, setShowMessagesCenter] = useState(false);
   const [showUserProfile, setShowUserProfile] = useState(false);
@@ -73,13 +83,38 @@ export default function ExplorePage() {
     testAPI();
   }, []);
 
-  const { data: favors = [], isLoading, error, isError } = useQuery<Favor[]>({
-    queryKey: ["/api/favors"],
+  // Searching, filtering and sorting happen on the server; both views show the pages loaded so far
+  const searchParams = useMemo(() => toSearchParams(searchFilters, {
+    category: selectedCategory === 'All' ? undefined : selectedCategory,
+    near: userLocation,
+  }), [searchFilters, selectedCategory, userLocation]);
+
+  const {
+    data,
+    isLoading,
+    error,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/favors/search", searchParams],
+    queryFn: async ({ pageParam }): Promise<FavorSearchPage> => {
+      const params = new URLSearchParams(searchParams);
+      if (pageParam) params.set("cursor", pageParam);
+      const response = await apiRequest("GET", `/api/favors/search?${params}`);
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    placeholderData: keepPreviousData,
     retry: 1,
     retryDelay: 500,
     staleTime: 30000,
   });
 
+  const favors = useMemo(() => data?.pages.flatMap(page => page.favors) ?? [], [data]);
+
   // Fetch unread message count for the message icon badge
   const { data: userConversations } = useQuery({
     queryKey: ["/api/chat/conversations"],
@@ -93,10 +128,6 @@ export default function ExplorePage() {
 
   console.log('Query state:', { isLoading, isError, hasData: !!favors.length, error: error?.message });
 
-  const filteredFavors = favors.filter(favor => 
-    selectedCategory === 'All' || favor.category === selectedCategory
-  );
-
   const handleFavorClick = (favor: Favor) => {
     setSelectedFavor(favor);
     setShowFavorDetail(true);
@@ -297,10 +328,15 @@ export default function ExplorePage() {
             </div>
           </div>
 
+          <FavorSearchBar
+            filters={searchFilters}
+            onChange={setSearchFilters}
+            hasLocation={!!userLocation}
+          />
+
           <CategoryFilters 
             selectedCategory={selectedCategory}
             onCategoryChange={setSelectedCategory}
-            availableCategories={Array.from(new Set(favors.map(f => f.category)))}
           />
         </div>
       </div>
@@ -311,7 +347,7 @@ export default function ExplorePage() {
           <div className="px-4 sm:px-6 lg:px-8 pb-4 sm:pb-6">
             <div className="container-responsive">
               <div className="space-y-3 sm:space-y-4">
-              {filteredFavors.map((favor) => (
+              {favors.map((favor) => (
                 <FavorCard 
                   key={favor.id} 
                   favor={favor} 
@@ -319,8 +355,21 @@ export default function ExplorePage() {
                 />
               ))}
             </div>
+
+            {hasNextPage && (
+              <div className="flex justify-center pt-4">
+                <Button
+                  variant="outline"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  className="border-slate-600 text-slate-300 hover:text-white hover:bg-slate-800 bg-slate-900"
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load more"}
+                </Button>
+              </div>
+            )}
             
-            {filteredFavors.length === 0 && (
+            {favors.length === 0 && (
               <div className="text-center py-12 sm:py-16">
                 <div className="w-12 h-12 sm:w-16 sm:h-16 bg-slate-800 rounded-full flex items-center justify-center mx-auto mb-4">
                   <Plus className="w-6 h-6 sm:w-8 sm:h-8 text-slate-400" />
@@ -352,7 +401,7 @@ export default function ExplorePage() {
         ) : (
           <div className="h-[calc(100vh-220px)] w-full">
             <MapView 
-              favors={filteredFavors} 
+              favors={favors} 
               onFavorClick={handleFavorClick}
             />
           </div>
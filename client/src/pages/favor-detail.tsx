@@ -10,6 +10,8 @@ export default function FavorDetail() {
   const params = useParams();
   const [, setLocation] = useLocation();
   const favorId = params.favorId ? parseInt(params.favorId) : null;
+  // Set by the expiry notification's "repost" action
+  const autoRepost = new URLSearchParams(window.location.search).get('repost') === '1';
   const [selectedFavor, setSelectedFavor] = useState<Favor | null>(null);
 
   // Fetch the specific favor
@@ -90,6 +92,7 @@ export default function FavorDetail() {
           favor={selectedFavor}
           isOpen={true}
           onClose={() => setLocation('/')}
+          autoRepost={autoRepost}
         />
       </div>
     </div>
@@ -17,6 +17,7 @@ import { useLocation as useRouterLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { useGlobalChat } from "@/hooks/use-global-chat";
+import { NotificationBell } from "@/components/notification-bell";
 import { trackEvent } from "@/lib/analytics";
 import { notificationService } from "@/lib/notifications";
 
@@ -138,6 +139,7 @@ export default function HomePage() {
                     <div className="text-sm font-medium text-white">Hi, {user.firstName}!</div>
                     <div className="text-xs text-slate-300">Welcome back</div>
                   </div>
+                  <NotificationBell />
                   <Button 
                     variant="ghost"
                     size="icon"
@@ -1,7 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useParams, useLocation } from "wouter";
-import { getPrivateAddress } from "@shared/locationUtils";
 import { ArrowLeft, Star, MapPin, Clock, Calendar, Shield, Award, MessageCircle, Info, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -92,12 +91,8 @@ export default function UserProfile() {
 
   const handleFavorClick = (favor: FavorWithPoster) => {
     trackEvent('user_profile_favor_click', 'engagement', favor.category, favor.id);
-    // Create a privacy-aware version of the favor for the modal
-    const privacyAwareFavor = {
-      ...favor,
-      address: isOwnProfile ? favor.address : getPrivateAddress(favor.address)
-    };
-    setSelectedFavor(privacyAwareFavor);
+    // The API already replaced the address with an area label where needed
+    setSelectedFavor(favor);
     setShowFavorDetail(true);
   };
 
@@ -1,7 +1,18 @@
 import OpenAI from "openai";
 import { moderationReporter } from "./moderationReports";
+import { checkMessageRules, checkFavorRules, type RuleVerdict, type FavorPrice } from "./moderationRules";
+import { categoryService } from "./categories";
+import { formatMoney } from "@shared/money";
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Without a key the service runs on the local rules alone
+const openai = process.env.OPENAI_API_KEY ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : null;
+
+function requireOpenAI(): OpenAI {
+  if (!openai) {
+    throw new Error("OPENAI_API_KEY is not configured");
+  }
+  return openai;
+}
 
 export interface ModerationResult {
   isAppropriate: boolean;
@@ -18,10 +29,39 @@ export interface DisputeAnalysis {
   evidence: string[];
 }
 
+// Unoverturned blocks in the strike window before moderation gets stricter
+const STRICT_STRIKES = 2;
+const RESTRICTED_STRIKES = 5;
+
 export class AIModerationService {
-  // Content moderation for chat messages
-  async moderateMessage(message: string, context?: { senderName?: string; favorTitle?: string }): Promise<ModerationResult> {
+  // Content moderation for chat messages: local rules first, then OpenAI; rules alone when OpenAI is unavailable
+  async moderateMessage(
+    message: string,
+    context?: { senderName?: string; favorTitle?: string; userId?: string; favorId?: number }
+  ): Promise<ModerationResult> {
+    const rules = checkMessageRules(message);
+    const strikes = await this.getStrikes(context?.userId);
+    const logBlock = (result: ModerationResult, action: string) => moderationReporter.logEvent({
+      type: 'chat_blocked',
+      severity: result.severity,
+      userId: context?.userId,
+      favorId: context?.favorId,
+      content: message,
+      issues: result.issues,
+      action,
+      confidence: result.confidence
+    });
+
+    // Obvious cases never reach the AI
+    if (rules.decision === 'block') {
+      const result = this.ruleResult(rules, strikes);
+      logBlock(result, 'blocked_by_rules');
+      return result;
+    }
+
     try {
+      const openai = requireOpenAI();
+
       // First use OpenAI's built-in moderation
       const moderation = await openai.moderations.create({
         input: message
@@ -36,28 +76,20 @@ export class AIModerationService {
           .filter(([_, value]) => value)
           .map(([key, _]) => key);
 
-        // Log to moderation reporter
-        moderationReporter.logEvent({
-          type: 'chat_blocked',
-          severity: 'high',
-          content: message,
-          issues,
-          action: 'blocked_by_openai_moderation',
-          confidence: 0.95
-        });
-
-        return {
+        const result: ModerationResult = {
           isAppropriate: false,
           severity: 'high',
-          issues,
+          issues: [...issues, ...rules.issues],
           confidence: 0.95
         };
+        logBlock(result, 'blocked_by_openai_moderation');
+        return result;
       }
 
       // Use GPT for context-aware analysis
-      const contextPrompt = context
+      const contextPrompt = (context
         ? `Context: Message about favor "${context.favorTitle}" from user "${context.senderName}"`
-        : "General chat message";
+        : "General chat message") + this.strikePrompt(strikes) + this.rulePrompt(rules);
 
       const response = await openai.chat.completions.create({
         model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
@@ -83,29 +115,52 @@ Respond with JSON: { "isAppropriate": boolean, "severity": "low"|"medium"|"high"
 
       const analysis = JSON.parse(response.choices[0].message.content || '{}');
 
-      return {
+      const result = this.applyStrikePolicy({
         isAppropriate: analysis.isAppropriate ?? true,
         severity: analysis.severity ?? 'low',
-        issues: analysis.issues ?? [],
+        issues: [...(analysis.issues ?? []), ...rules.issues],
         suggestion: analysis.suggestion,
         confidence: analysis.confidence ?? 0.7
-      };
+      }, strikes);
+
+      if (!result.isAppropriate) {
+        logBlock(result, strikes >= STRICT_STRIKES ? 'blocked_strict_repeat_offender' : 'blocked_by_ai_review');
+      }
+      return result;
 
     } catch (error) {
-      console.error("AI moderation error:", error);
-      // Fail open - allow message but log for review
-      return {
-        isAppropriate: true,
-        severity: 'low',
-        issues: ['moderation_system_error'],
-        confidence: 0.1
-      };
+      console.error("AI moderation error, using rule-based fallback:", error);
+      const result = this.ruleResult(rules, strikes);
+      if (!result.isAppropriate) {
+        logBlock(result, 'blocked_by_rules_fallback');
+      }
+      return result;
     }
   }
 
-  // Content validation for favor posts
-  async validateFavorPost(title: string, description: string, category: string, price: string): Promise<ModerationResult> {
+  // Content validation for favor posts: local rules first, then OpenAI; rules alone when OpenAI is unavailable
+  async validateFavorPost(title: string, description: string, category: string, price: FavorPrice | null, userId?: string): Promise<ModerationResult> {
+    const rules = checkFavorRules({ title, description, price }, await categoryService.priceRange(category));
+    const strikes = await this.getStrikes(userId);
+    const logBlock = (result: ModerationResult, action: string) => moderationReporter.logEvent({
+      type: 'favor_blocked',
+      severity: result.severity,
+      userId,
+      content: `${title}\n${description}`,
+      issues: result.issues,
+      action,
+      confidence: result.confidence
+    });
+
+    if (rules.decision === 'block') {
+      const result = this.ruleResult(rules, strikes);
+      logBlock(result, 'blocked_by_rules');
+      return result;
+    }
+
     try {
+      const openai = requireOpenAI();
+
       const response = await openai.chat.completions.create({
         model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
         messages: [
@@ -122,7 +177,7 @@ Respond with JSON: { "isAppropriate": boolean, "severity": "low"|"medium"|"high"
           },
           {
             role: "user",
-            content: `Title: "${title}"\nDescription: "${description}"\nCategory: ${category}\nPrice: ${price}`
+            content: `Title: "${title}"\nDescription: "${description}"\nCategory: ${category}\nPrice: ${price ? formatMoney(price.cents, price.currency) : "none"}${this.strikePrompt(strikes)}${this.rulePrompt(rules)}`
           }
         ],
         response_format: { type: "json_object" }
@@ -130,25 +185,139 @@ Respond with JSON: { "isAppropriate": boolean, "severity": "low"|"medium"|"high"
 
       const analysis = JSON.parse(response.choices[0].message.content || '{}');
 
-      return {
+      const result = this.applyStrikePolicy({
         isAppropriate: analysis.isAppropriate ?? true,
         severity: analysis.severity ?? 'low',
-        issues: analysis.issues ?? [],
+        issues: [...(analysis.issues ?? []), ...rules.issues],
         suggestion: analysis.suggestion,
         confidence: analysis.confidence ?? 0.7
-      };
+      }, strikes);
+
+      if (!result.isAppropriate) {
+        logBlock(result, strikes >= STRICT_STRIKES ? 'blocked_strict_repeat_offender' : 'blocked_by_ai_review');
+      }
+      return result;
 
     } catch (error) {
-      console.error("Favor validation error:", error);
-      return {
-        isAppropriate: true,
+      console.error("Favor validation error, using rule-based fallback:", error);
+      const result = this.ruleResult(rules, strikes);
+      if (!result.isAppropriate) {
+        logBlock(result, 'blocked_by_rules_fallback');
+      }
+      return result;
+    }
+  }
+
+  // Uploaded images (favor photos, chat images): OpenAI's image moderation; allowed when it's unavailable,
+  // as there are no local rules for pixels. `image` is the re-encoded upload, so no metadata leaves the server.
+  async moderateImage(
+    image: Buffer,
+    contentType: string,
+    context: { kind: 'chat' | 'favor'; userId?: string; favorId?: number; caption?: string; storageKey?: string }
+  ): Promise<ModerationResult> {
+    const allowed: ModerationResult = { isAppropriate: true, severity: 'low', issues: [], confidence: 0.5 };
+    const content = `[image]${context.storageKey ? ` ${context.storageKey}` : ''}${context.caption ? ` ${context.caption}` : ''}`;
+    // Uploads aren't held up when the check can't run, but an admin gets to look at the image instead
+    const allowUnchecked = (reason: string) => {
+      moderationReporter.logEvent({
+        type: 'image_unchecked',
         severity: 'low',
-        issues: ['validation_system_error'],
-        confidence: 0.1
+        userId: context.userId,
+        favorId: context.favorId,
+        content,
+        issues: [reason],
+        action: 'image_allowed_pending_review',
+        confidence: 0
+      });
+      return allowed;
+    };
+    if (!openai) return allowUnchecked('moderation_unavailable');
+
+    try {
+      const moderation = await openai.moderations.create({
+        model: "omni-moderation-latest",
+        input: [
+          { type: "image_url", image_url: { url: `data:${contentType};base64,${image.toString("base64")}` } },
+          ...(context.caption ? [{ type: "text" as const, text: context.caption }] : []),
+        ],
+      });
+
+      const { flagged, categories } = moderation.results[0];
+      if (!flagged) {
+        return { ...allowed, confidence: 0.9 };
+      }
+
+      const result: ModerationResult = {
+        isAppropriate: false,
+        severity: 'high',
+        issues: Object.entries(categories).filter(([_, value]) => value).map(([key, _]) => key),
+        confidence: 0.95
       };
+      moderationReporter.logEvent({
+        type: context.kind === 'chat' ? 'chat_blocked' : 'favor_blocked',
+        severity: result.severity,
+        userId: context.userId,
+        favorId: context.favorId,
+        content,
+        issues: result.issues,
+        action: 'image_blocked_by_openai_moderation',
+        confidence: result.confidence
+      });
+      return result;
+
+    } catch (error) {
+      console.error("Image moderation error, allowing upload for review:", error);
+      return allowUnchecked('moderation_error');
+    }
+  }
+
+  // Strike lookups hit the database; moderation keeps working without them
+  private async getStrikes(userId?: string): Promise<number> {
+    if (!userId) return 0;
+    try {
+      return await moderationReporter.getStrikeCount(userId);
+    } catch (error) {
+      console.error("Strike lookup failed:", error);
+      return 0;
     }
   }
 
+  // The deterministic decision from the local rules (also used when OpenAI is unavailable)
+  private ruleResult(rules: RuleVerdict, strikes: number): ModerationResult {
+    return this.applyStrikePolicy({
+      isAppropriate: rules.decision !== 'block',
+      severity: rules.severity,
+      issues: rules.issues,
+      suggestion: rules.suggestion,
+      confidence: rules.decision === 'clean' ? 0.5 : 0.8
+    }, strikes);
+  }
+
+  private rulePrompt(rules: RuleVerdict): string {
+    return rules.issues.length > 0
+      ? `\n\nAutomated checks flagged: ${rules.issues.join(', ')}`
+      : "";
+  }
+
+  private strikePrompt(strikes: number): string {
+    return strikes >= STRICT_STRIKES
+      ? `\n\nNote: this user has ${strikes} recent moderation strikes. Apply stricter scrutiny.`
+      : "";
+  }
+
+  // Repeat offenders lose the benefit of the doubt: flagged issues block even when the model allowed them
+  private applyStrikePolicy(result: ModerationResult, strikes: number): ModerationResult {
+    if (result.isAppropriate && result.issues.length > 0) {
+      const blocks =
+        strikes >= RESTRICTED_STRIKES ||
+        (strikes >= STRICT_STRIKES && result.severity !== 'low');
+      if (blocks) {
+        return { ...result, isAppropriate: false, issues: [...result.issues, 'repeat_offender'] };
+      }
+    }
+    return result;
+  }
+
   // Analyze chat history for dispute resolution
   async analyzeDispute(
     favorTitle: string,
@@ -160,7 +329,7 @@ Respond with JSON: { "isAppropriate": boolean, "severity": "low"|"medium"|"high"
         .map(msg => `[${msg.timestamp.toISOString()}] ${msg.sender}: ${msg.message}`)
         .join('\n');
 
-      const response = await openai.chat.completions.create({
+      const response = await requireOpenAI().chat.completions.create({
         model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
         messages: [
           {
@@ -215,7 +384,7 @@ ${chatText}`
   // Suggest improved communication
   async suggestBetterMessage(originalMessage: string, context: string): Promise<string | null> {
     try {
-      const response = await openai.chat.completions.create({
+      const response = await requireOpenAI().chat.completions.create({
         model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
         messages: [
           {
@@ -0,0 +1,277 @@
+// Image uploads for favor posts and chat: validated, re-encoded without metadata, thumbnailed and moderated before storage
+import sharp from "sharp";
+import { randomUUID } from "crypto";
+import { db } from "./db";
+import {
+  favorImages,
+  favors,
+  IMAGE_CONTENT_TYPES,
+  MAX_FAVOR_IMAGES,
+  MAX_IMAGE_BYTES,
+  type FavorImage,
+  type StoredImage,
+} from "@shared/schema";
+import { and, asc, eq, sql } from "drizzle-orm";
+import { storage } from "./storage";
+import { fileStorage, type FileStorage } from "./fileStorage";
+import { aiModerationService } from "./aiModeration";
+import { databaseChatService, chatAttachmentUrl, type ChatMessagePayload } from "./databaseChatService";
+
+export class AttachmentError extends Error {
+  constructor(message: string, public readonly status: 400 | 403 | 404 | 409 | 413 | 415 = 400) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+/** The parts of a multer file the service needs */
+export interface UploadedFile {
+  buffer: Buffer;
+  mimetype: string;
+  size: number;
+}
+
+const MAX_DIMENSION = 1600;
+const THUMBNAIL_DIMENSION = 400;
+// A small file can still decode to a huge bitmap
+const MAX_INPUT_PIXELS = 40_000_000;
+const DECODABLE_FORMATS = ["jpeg", "png", "webp"];
+const OUTPUT_CONTENT_TYPE = "image/webp";
+// The file names storeImage writes: a UUID, optionally with _thumb
+const STORED_FILE_NAME = /^[0-9a-f-]{36}(_thumb)?\.webp$/;
+
+export function isImageContentType(type: string): boolean {
+  return (IMAGE_CONTENT_TYPES as readonly string[]).includes(type);
+}
+
+interface PreparedImage {
+  image: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+}
+
+async function prepareImage(file: UploadedFile): Promise<PreparedImage> {
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new AttachmentError(`Images can be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB`, 413);
+  }
+  if (!isImageContentType(file.mimetype)) {
+    throw new AttachmentError("Only JPEG, PNG and WebP images are supported", 415);
+  }
+
+  // The declared type is the client's word; check what the bytes are
+  const format = await sharp(file.buffer, { limitInputPixels: MAX_INPUT_PIXELS })
+    .metadata()
+    .then(metadata => metadata.format as string | undefined, () => undefined);
+  if (!format || !DECODABLE_FORMATS.includes(format)) {
+    throw new AttachmentError("The file is not a supported image", 415);
+  }
+
+  try {
+    // rotate() applies the EXIF orientation; re-encoding without withMetadata() drops EXIF (and its GPS position) and XMP
+    const source = sharp(file.buffer, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+    const { data: image, info } = await source
+      .clone()
+      .resize(MAX_DIMENSION, MAX_DIMENSION, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 82 })
+      .toBuffer({ resolveWithObject: true });
+    const thumbnail = await source
+      .clone()
+      .resize(THUMBNAIL_DIMENSION, THUMBNAIL_DIMENSION, { fit: "cover" })
+      .webp({ quality: 70 })
+      .toBuffer();
+    return { image, thumbnail, width: info.width, height: info.height };
+  } catch (error) {
+    console.error("Image processing failed:", error);
+    throw new AttachmentError("The image could not be processed", 400);
+  }
+}
+
+type ModerationContext = Parameters<typeof aiModerationService.moderateImage>[2];
+
+export class AttachmentService {
+  constructor(private files: FileStorage) {}
+
+  /** Photos of a favor in display order */
+  async listFavorImages(favorId: number): Promise<FavorImage[]> {
+    return await db
+      .select()
+      .from(favorImages)
+      .where(eq(favorImages.favorId, favorId))
+      .orderBy(asc(favorImages.position), asc(favorImages.id));
+  }
+
+  /** The poster adds photos to their favor, up to MAX_FAVOR_IMAGES in total */
+  async addFavorImages(favorId: number, userId: string, files: UploadedFile[]): Promise<FavorImage[]> {
+    const favor = await storage.getFavor(favorId);
+    if (!favor) {
+      throw new AttachmentError("Favor not found", 404);
+    }
+    if (favor.posterId !== userId) {
+      throw new AttachmentError("Only the poster can add photos", 403);
+    }
+    if (files.length === 0) {
+      throw new AttachmentError("No images uploaded", 400);
+    }
+    const tooMany = new AttachmentError(`A favor can have at most ${MAX_FAVOR_IMAGES} photos`, 409);
+    if ((await this.listFavorImages(favorId)).length + files.length > MAX_FAVOR_IMAGES) {
+      throw tooMany;
+    }
+
+    // One at a time: every image is decoded in memory
+    const stored: StoredImage[] = [];
+    try {
+      for (const file of files) {
+        stored.push(await this.storeImage(file, `favors/${favorId}`, { kind: "favor", userId, favorId }));
+      }
+
+      await db.transaction(async (tx) => {
+        // Locked so concurrent uploads can't both fit under the limit
+        await tx.select({ id: favors.id }).from(favors).where(eq(favors.id, favorId)).for("update");
+        const [{ count }] = await tx
+          .select({ count: sql<number>`count(*)::int` })
+          .from(favorImages)
+          .where(eq(favorImages.favorId, favorId));
+        if (count + stored.length > MAX_FAVOR_IMAGES) {
+          throw tooMany;
+        }
+
+        await tx.insert(favorImages).values(stored.map((image, index) => ({ favorId, position: count + index, ...image })));
+        await this.syncCover(tx, favorId);
+      });
+    } catch (error) {
+      await this.discard(stored);
+      throw error;
+    }
+    return await this.listFavorImages(favorId);
+  }
+
+  async removeFavorImage(favorId: number, imageId: number, userId: string): Promise<void> {
+    const favor = await storage.getFavor(favorId);
+    if (!favor) {
+      throw new AttachmentError("Favor not found", 404);
+    }
+    if (favor.posterId !== userId) {
+      throw new AttachmentError("Only the poster can remove photos", 403);
+    }
+
+    const image = await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(favorImages)
+        .where(and(eq(favorImages.id, imageId), eq(favorImages.favorId, favorId)))
+        .returning();
+      if (deleted) {
+        await this.syncCover(tx, favorId);
+      }
+      return deleted;
+    });
+    if (!image) {
+      throw new AttachmentError("Photo not found", 404);
+    }
+    await this.discard([image]);
+  }
+
+  /** An image message in a chat room; the caption is the message content */
+  async sendChatImage(chatRoomId: number, senderId: string, file: UploadedFile, caption = ""): Promise<ChatMessagePayload> {
+    const room = await databaseChatService.getChatRoomById(chatRoomId);
+    if (!room) {
+      throw new AttachmentError("Chat room not found", 404);
+    }
+    if (senderId !== room.requesterId && senderId !== room.helperId) {
+      throw new AttachmentError("Unauthorized to post in this chat", 403);
+    }
+    if (!room.isActive) {
+      throw new AttachmentError("Chat is no longer active", 409);
+    }
+
+    const image = await this.storeImage(file, `chat/${room.id}`, {
+      kind: "chat",
+      userId: senderId,
+      favorId: room.favorId,
+      caption: caption || undefined,
+    }, key => chatAttachmentUrl(room.id, key));
+    const message = await databaseChatService.saveChatMessage({
+      chatRoomId: room.id,
+      senderId,
+      recipientId: senderId === room.requesterId ? room.helperId : room.requesterId,
+      content: caption,
+      type: "image",
+      attachment: image,
+    });
+    databaseChatService.pushMessageToRoom(room.id, message);
+    return message;
+  }
+
+  /** An image (or its thumbnail) sent in a chat room, for the room's participants only */
+  async readChatImage(chatRoomId: number, fileName: string, userId: string): Promise<Buffer> {
+    const room = await databaseChatService.getChatRoomById(chatRoomId);
+    if (!room || (userId !== room.requesterId && userId !== room.helperId)) {
+      throw new AttachmentError("Image not found", 404);
+    }
+    const image = STORED_FILE_NAME.test(fileName) ? await this.files.get(`chat/${room.id}/${fileName}`) : null;
+    if (!image) {
+      throw new AttachmentError("Image not found", 404);
+    }
+    return image;
+  }
+
+  // Storage keys are random and never reused, so stored objects can be cached forever
+  private async storeImage(
+    file: UploadedFile,
+    prefix: string,
+    moderation: ModerationContext,
+    url: (key: string) => string = key => this.files.url(key)
+  ): Promise<StoredImage> {
+    const prepared = await prepareImage(file);
+
+    const id = randomUUID();
+    const storageKey = `${prefix}/${id}.webp`;
+    const thumbnailKey = `${prefix}/${id}_thumb.webp`;
+    const verdict = await aiModerationService.moderateImage(prepared.image, OUTPUT_CONTENT_TYPE, { ...moderation, storageKey });
+    if (!verdict.isAppropriate) {
+      throw new AttachmentError("This image isn't allowed", 400);
+    }
+
+    await this.files.put(storageKey, prepared.image, OUTPUT_CONTENT_TYPE);
+    try {
+      await this.files.put(thumbnailKey, prepared.thumbnail, OUTPUT_CONTENT_TYPE);
+    } catch (error) {
+      await this.files.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+
+    return {
+      url: url(storageKey),
+      thumbnailUrl: url(thumbnailKey),
+      storageKey,
+      thumbnailKey,
+      width: prepared.width,
+      height: prepared.height,
+    };
+  }
+
+  /** Delete stored files whose rows are gone; best effort, as a leftover object only costs storage */
+  async discard(images: StoredImage[]): Promise<void> {
+    const results = await Promise.allSettled(
+      images.flatMap(image => [this.files.delete(image.storageKey), this.files.delete(image.thumbnailKey)])
+    );
+    results.forEach(result => {
+      if (result.status === "rejected") console.error("Failed to delete stored image:", result.reason);
+    });
+  }
+
+  // favors.imageUrl mirrors the first photo, so cards and map popups need no extra query
+  private async syncCover(tx: Transaction, favorId: number): Promise<void> {
+    const [first] = await tx
+      .select({ url: favorImages.url })
+      .from(favorImages)
+      .where(eq(favorImages.favorId, favorId))
+      .orderBy(asc(favorImages.position), asc(favorImages.id))
+      .limit(1);
+    await tx.update(favors).set({ imageUrl: first?.url ?? null }).where(eq(favors.id, favorId));
+  }
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const attachmentService = new AttachmentService(fileStorage);
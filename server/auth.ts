@@ -0,0 +1,152 @@
+// auth.ts
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const HASH_PREFIX = "scrypt";
+const KEY_LENGTH = 64;
+
+declare module "express-session" {
+  interface SessionData {
+    userId?: number;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Authenticated caller, resolved from the session by `authenticate` */
+      userId?: string;
+    }
+  }
+}
+
+// ---------- Password hashing ----------
+
+/** Hash a password as `scrypt$<salt>$<hash>` (hex encoded) */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${HASH_PREFIX}$${salt}$${derived.toString("hex")}`;
+}
+
+/** Rows created before hashing was introduced still hold the raw password */
+export function isHashedPassword(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`) && stored.split("$").length === 3;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isHashedPassword(stored)) {
+    // Legacy plaintext row: constant-time compare, caller re-hashes on success
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const [, salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash, "hex");
+  const derived = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return derived.length === expected.length && timingSafeEqual(derived, expected);
+}
+
+/** Strip the password hash before sending a user to the client */
+export function toPublicUser(user: User): Omit<User, "password"> {
+  const { password: _, ...publicUser } = user;
+  return publicUser;
+}
+
+// ---------- Sessions ----------
+
+let sessionMiddleware: RequestHandler | null = null;
+
+/** Session middleware, shared with the WebSocket upgrade handler */
+export function getSessionMiddleware(): RequestHandler {
+  if (sessionMiddleware) return sessionMiddleware;
+
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const PgStore = connectPg(session);
+  sessionMiddleware = session({
+    secret: secret || "favr-dev-session-secret",
+    store: new PgStore({
+      conString: process.env.DATABASE_URL,
+      tableName: "sessions",
+      createTableIfMissing: true,
+      ttl: SESSION_TTL_MS / 1000,
+    }),
+    name: "favr.sid",
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL_MS,
+    },
+  });
+  return sessionMiddleware;
+}
+
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(getSessionMiddleware());
+  app.use(authenticate);
+}
+
+/** Resolve the caller from the session; never trusts client-supplied ids */
+export function authenticate(req: Request, _res: Response, next: NextFunction) {
+  const sessionUserId = req.session?.userId;
+  req.userId = sessionUserId ? String(sessionUserId) : undefined;
+  next();
+}
+
+/** Reject requests without a signed-in session */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.userId) {
+    return res.status(401).json({ error: "User not authenticated" });
+  }
+  next();
+}
+
+/** Staff-only routes; the flag is read fresh so revoking it takes effect immediately */
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.userId) {
+    return res.status(401).json({ error: "User not authenticated" });
+  }
+  try {
+    const user = await storage.getUser(parseInt(req.userId));
+    if (!user?.isAdmin) {
+      return res.status(403).json({ error: "Admin access required" });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function signIn(req: Request, userId: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // Rotate the session id on sign in to prevent fixation
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      req.session.userId = userId;
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+export function signOut(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((err) => (err ? reject(err) : resolve()));
+  });
+}
@@ -0,0 +1,132 @@
+// Favor category taxonomy: rows in the categories table, seeded with the defaults below and cached briefly in memory
+import { db } from "./db";
+import { categories, type Category, type CategoryWithSubcategories } from "@shared/schema";
+import { asc } from "drizzle-orm";
+
+interface CategorySeed {
+  slug: string;
+  name: string;
+  icon: string;
+  color: string;
+  minPriceCents?: number;
+  maxPriceCents?: number;
+  countries?: string[];
+  subcategories?: Array<{ slug: string; name: string; icon?: string }>;
+}
+
+// The set the app shipped with; prices are the old moderation ranges in EUR
+export const DEFAULT_CATEGORIES: CategorySeed[] = [
+  {
+    slug: "handyman", name: "Handyman", icon: "wrench", color: "#f97316", minPriceCents: 1000, maxPriceCents: 50000,
+    subcategories: [
+      { slug: "handyman-plumbing", name: "Plumbing", icon: "droplets" },
+      { slug: "handyman-electrical", name: "Electrical", icon: "plug" },
+      { slug: "handyman-assembly", name: "Furniture assembly", icon: "hammer" },
+      { slug: "handyman-painting", name: "Painting", icon: "paintbrush" },
+    ],
+  },
+  {
+    slug: "ride", name: "Ride", icon: "car", color: "#3b82f6", minPriceCents: 300, maxPriceCents: 15000,
+    subcategories: [
+      { slug: "ride-airport", name: "Airport transfer", icon: "plane" },
+      { slug: "ride-errand", name: "Errand run" },
+    ],
+  },
+  {
+    slug: "pet-care", name: "Pet Care", icon: "dog", color: "#22c55e", minPriceCents: 500, maxPriceCents: 20000,
+    subcategories: [
+      { slug: "pet-care-walking", name: "Dog walking" },
+      { slug: "pet-care-sitting", name: "Pet sitting", icon: "home" },
+    ],
+  },
+  {
+    slug: "delivery", name: "Delivery", icon: "package", color: "#a855f7", minPriceCents: 300, maxPriceCents: 10000,
+    subcategories: [
+      { slug: "delivery-groceries", name: "Groceries", icon: "shopping-cart" },
+      { slug: "delivery-parcel", name: "Parcel pickup" },
+    ],
+  },
+  {
+    slug: "moving", name: "Moving", icon: "truck", color: "#ef4444", minPriceCents: 2000, maxPriceCents: 100000,
+    subcategories: [
+      { slug: "moving-packing", name: "Packing", icon: "box" },
+      { slug: "moving-heavy-lifting", name: "Heavy lifting" },
+    ],
+  },
+  { slug: "food", name: "Food", icon: "utensils", color: "#eab308", minPriceCents: 300, maxPriceCents: 10000 },
+  { slug: "others", name: "Others", icon: "settings", color: "#6b7280", minPriceCents: 100, maxPriceCents: 50000 },
+];
+
+function seedRows(): Array<typeof categories.$inferInsert> {
+  return DEFAULT_CATEGORIES.flatMap((category, index) => [
+    {
+      slug: category.slug,
+      name: category.name,
+      icon: category.icon,
+      color: category.color,
+      minPriceCents: category.minPriceCents ?? null,
+      maxPriceCents: category.maxPriceCents ?? null,
+      countries: category.countries ?? [],
+      sortOrder: index,
+    },
+    ...(category.subcategories ?? []).map((sub, subIndex) => ({
+      slug: sub.slug,
+      name: sub.name,
+      parentSlug: category.slug,
+      icon: sub.icon ?? category.icon,
+      color: category.color,
+      sortOrder: subIndex,
+    })),
+  ]);
+}
+
+/** An empty country list means everywhere; when the country is unknown nothing is filtered out */
+function availableIn(category: Category, countryCode?: string | null): boolean {
+  return !countryCode || category.countries.length === 0 || category.countries.includes(countryCode.toLowerCase());
+}
+
+export class CategoryService {
+  private readonly TTL_MS = 60 * 1000;
+  private cache: { expiresAt: number; rows: Category[] } | null = null;
+
+  /** Inserts default categories that are missing by slug; edited rows are left alone */
+  async seedDefaults(): Promise<number> {
+    const inserted = await db
+      .insert(categories)
+      .values(seedRows())
+      .onConflictDoNothing({ target: categories.slug })
+      .returning({ id: categories.id });
+    if (inserted.length > 0) this.cache = null;
+    return inserted.length;
+  }
+
+  /** Active top-level categories available in a country, each with its active subcategories */
+  async list(countryCode?: string | null): Promise<CategoryWithSubcategories[]> {
+    const rows = (await this.rows()).filter(row => row.isActive && availableIn(row, countryCode));
+    return rows
+      .filter(row => !row.parentSlug)
+      .map(category => ({ ...category, subcategories: rows.filter(row => row.parentSlug === category.slug) }));
+  }
+
+  /** A top-level category by slug or name ("pet-care" or "Pet Care"), inactive ones included */
+  async find(slugOrName: string): Promise<Category | undefined> {
+    const needle = slugOrName.trim().toLowerCase();
+    return (await this.rows()).find(row => !row.parentSlug && (row.slug === needle || row.name.toLowerCase() === needle));
+  }
+
+  /** Suggested range in cents, or null when the category has none */
+  async priceRange(name: string): Promise<{ minCents: number; maxCents: number } | null> {
+    const category = await this.find(name);
+    if (category?.minPriceCents == null || category.maxPriceCents == null) return null;
+    return { minCents: category.minPriceCents, maxCents: category.maxPriceCents };
+  }
+
+  private async rows(): Promise<Category[]> {
+    if (this.cache && this.cache.expiresAt > Date.now()) return this.cache.rows;
+    const rows = await db.select().from(categories).orderBy(asc(categories.sortOrder), asc(categories.name));
+    this.cache = { expiresAt: Date.now() + this.TTL_MS, rows };
+    return rows;
+  }
+}
+
+export const categoryService = new CategoryService();
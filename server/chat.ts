@@ -147,6 +147,8 @@ export class ChatService {
       const moderation = await aiModerationService.moderateMessage(content, {
         senderName: senderId,
         favorTitle: `Favor #${favorId}`,
+        userId: senderId,
+        favorId,
       });
 
       if (!moderation.isAppropriate) {
@@ -0,0 +1,166 @@
+// Counter-offers inside a chat: a priced proposal with an expiry that the other participant accepts or declines.
+// Accepting one is what sets the agreed price, so nothing is typed in at completion time.
+import { db } from "./db";
+import {
+  chatMessages,
+  chatRooms,
+  favorOffers,
+  favors,
+  type ChatRoom,
+  type CounterOfferDetails,
+  type CounterOfferInput,
+  type Favor,
+} from "@shared/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { formatMoney } from "@shared/money";
+import { storage } from "./storage";
+import { paymentService } from "./payments";
+import { databaseChatService, type ChatMessagePayload } from "./databaseChatService";
+
+export class CounterOfferError extends Error {
+  constructor(message: string, public readonly status: 400 | 403 | 404 | 409 = 400) {
+    super(message);
+    this.name = "CounterOfferError";
+  }
+}
+
+export type CounterOfferDecision = "accept" | "decline";
+
+export class CounterOfferService {
+  /** Proposes a price in a chat room; an earlier proposal still open in the room is superseded */
+  async propose(chatRoomId: number, senderId: string, input: CounterOfferInput): Promise<ChatMessagePayload> {
+    const room = await databaseChatService.getChatRoomById(chatRoomId);
+    if (!room) {
+      throw new CounterOfferError("Chat room not found", 404);
+    }
+    if (senderId !== room.requesterId && senderId !== room.helperId) {
+      throw new CounterOfferError("Only participants can make counter-offers", 403);
+    }
+    if (!room.isActive) {
+      throw new CounterOfferError("Chat is no longer active", 409);
+    }
+    const favor = await storage.getFavor(room.favorId);
+    if (!favor) {
+      throw new CounterOfferError("Favor not found", 404);
+    }
+    this.assertPriceCanChange(favor, room);
+
+    const superseded = await db
+      .update(chatMessages)
+      .set({ counterOffer: sql`jsonb_set(${chatMessages.counterOffer}, '{status}', '"superseded"')` })
+      .where(and(
+        eq(chatMessages.chatRoomId, room.id),
+        eq(chatMessages.messageType, "counter_offer"),
+        sql`${chatMessages.counterOffer}->>'status' = 'pending'`
+      ))
+      .returning({ id: chatMessages.id, counterOffer: chatMessages.counterOffer });
+    superseded.forEach(({ id, counterOffer }) => {
+      if (counterOffer) databaseChatService.pushCounterOfferUpdate(room.id, id, counterOffer);
+    });
+
+    const counterOffer: CounterOfferDetails = {
+      amountCents: input.amountCents,
+      currency: favor.currency,
+      expiresAt: new Date(Date.now() + input.expiresInMinutes * 60 * 1000).toISOString(),
+      status: "pending",
+    };
+    const message = await databaseChatService.saveChatMessage({
+      chatRoomId: room.id,
+      senderId,
+      recipientId: senderId === room.requesterId ? room.helperId : room.requesterId,
+      content: `Counter-offer: ${formatMoney(counterOffer.amountCents, counterOffer.currency)}`,
+      type: "counter_offer",
+      counterOffer,
+    });
+    databaseChatService.pushMessageToRoom(room.id, message);
+    return message;
+  }
+
+  /**
+   * Accepting writes the price in the same transaction that closes the counter-offer: the helper's
+   * offer while the favor is still open, the favor's negotiated price (and unpaid escrow) once accepted
+   */
+  async respond(messageId: string, userId: string, decision: CounterOfferDecision): Promise<CounterOfferDetails> {
+    const { room, favor, counterOffer } = await db.transaction(async (tx) => {
+      const [message] = await tx.select().from(chatMessages).where(eq(chatMessages.id, messageId)).for("update");
+      if (!message || message.messageType !== "counter_offer" || !message.counterOffer) {
+        throw new CounterOfferError("Counter-offer not found", 404);
+      }
+      if (message.recipientId !== userId) {
+        throw new CounterOfferError("Only the other participant can answer this counter-offer", 403);
+      }
+      if (message.counterOffer.status === "superseded") {
+        throw new CounterOfferError("This counter-offer was replaced by a newer one", 409);
+      }
+      if (message.counterOffer.status !== "pending") {
+        throw new CounterOfferError("This counter-offer has already been answered", 409);
+      }
+      if (new Date(message.counterOffer.expiresAt) <= new Date()) {
+        throw new CounterOfferError("This counter-offer has expired", 409);
+      }
+
+      const [room] = await tx.select().from(chatRooms).where(eq(chatRooms.id, message.chatRoomId));
+      // Locked so accepting the favor can't interleave with the price change
+      const [favor] = await tx.select().from(favors).where(eq(favors.id, room.favorId)).for("update");
+      const { amountCents } = message.counterOffer;
+
+      if (decision === "accept") {
+        this.assertPriceCanChange(favor, room);
+        if (favor.status === "available") {
+          const [offer] = await tx
+            .update(favorOffers)
+            .set({ priceCents: amountCents, updatedAt: new Date() })
+            .where(and(
+              eq(favorOffers.favorId, favor.id),
+              eq(favorOffers.helperId, parseInt(room.helperId)),
+              eq(favorOffers.status, "pending")
+            ))
+            .returning({ id: favorOffers.id });
+          if (!offer) {
+            throw new CounterOfferError("There is no open offer in this chat to update", 409);
+          }
+        } else {
+          await tx
+            .update(favors)
+            .set({ negotiatedPriceCents: amountCents === favor.priceCents ? null : amountCents })
+            .where(eq(favors.id, favor.id));
+          if (!(await paymentService.repricePendingEscrow(tx, favor.id, amountCents, favor.countryCode))) {
+            throw new CounterOfferError("The payment is already held, so the price can no longer change", 409);
+          }
+        }
+      }
+
+      const counterOffer: CounterOfferDetails = {
+        ...message.counterOffer,
+        status: decision === "accept" ? "accepted" : "declined",
+        respondedAt: new Date().toISOString(),
+      };
+      await tx.update(chatMessages).set({ counterOffer }).where(eq(chatMessages.id, messageId));
+      return { room, favor, counterOffer };
+    });
+
+    databaseChatService.pushCounterOfferUpdate(room.id, messageId, counterOffer);
+    const amount = formatMoney(counterOffer.amountCents, counterOffer.currency);
+    await databaseChatService.postSystemMessage(
+      room.id,
+      decision === "decline"
+        ? `Counter-offer of ${amount} declined.`
+        : favor.status === "available"
+          ? `Counter-offer of ${amount} accepted. It is now the price of this offer.`
+          : `Counter-offer of ${amount} accepted. It is now the agreed price for this favor.`
+    );
+    return counterOffer;
+  }
+
+  // Before acceptance the price belongs to the helper's offer; after it, to the favor until the requester pays
+  private assertPriceCanChange(favor: Favor, room: ChatRoom): void {
+    if (!favor.isNegotiable) {
+      throw new CounterOfferError("The price of this favor is not negotiable", 409);
+    }
+    if (favor.status === "available") return;
+    if (favor.status === "accepted" && room.helperId === String(favor.helperId)) return;
+    throw new CounterOfferError("The price of this favor can no longer change", 409);
+  }
+}
+
+export const counterOfferService = new CounterOfferService();
@@ -1,24 +1,71 @@
 // databaseChatService.ts
 import { WebSocketServer, WebSocket } from "ws";
-import type { Server } from "http";
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, Response } from "express";
 import { db } from "./db";
-import { chatRooms, chatMessages, users as usersTbl, favors as favorsTbl } from "@shared/schema";
-import { eq, and, or, desc, asc } from "drizzle-orm";
+import { chatRooms, chatMessages, users as usersTbl, favors as favorsTbl, CHAT_PAGE_SIZE, chatHistoryQuerySchema } from "@shared/schema";
+import { eq, and, or, desc, asc, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import type {
   ChatRoom as DbChatRoom,
   ChatMessage as DbChatMessage,
+  ChatHistoryQuery,
+  ChatMessageType,
+  CounterOfferDetails,
   InsertChatRoom,
+  StoredImage,
   InsertChatMessage,
 } from "@shared/schema";
 import { sendNotification } from "./unifiedNotificationService";
+import { inAppNotificationService } from "./inAppNotifications";
+import { getSessionMiddleware } from "./auth";
+import { aiModerationService, type ModerationResult } from "./aiModeration";
 
 type MessageStatus = "sent" | "delivered" | "seen";
-type MessageType = "text" | "system";
+type MessageType = ChatMessageType;
+
+/** A message as REST responses and socket events carry it */
+export interface ChatMessagePayload {
+  id: string;
+  chatRoomId: number;
+  senderId: string;
+  recipientId: string;
+  content: string;
+  status: MessageStatus;
+  type: MessageType;
+  timestamp: string;
+  counterOffer?: CounterOfferDetails;
+  /** the image of an "image" message, whose content is the caption */
+  attachment?: StoredImage;
+}
+
+/** Chat images are only served to the room's participants, through GET /api/chat/rooms/:id/attachments/:file */
+export function chatAttachmentUrl(chatRoomId: number, storageKey: string): string {
+  return `/api/chat/rooms/${chatRoomId}/attachments/${storageKey.split("/").pop()}`;
+}
+
+export interface ChatMessagePage {
+  messages: DbChatMessage[];
+  hasMore: boolean;
+}
+
+/** A row of GET /api/chat/conversations, before presence is added */
+export interface ConversationSummary {
+  chatRoomId: number;
+  favorId: number;
+  favorTitle: string;
+  otherUserId: string;
+  otherUserName: string;
+  lastMessage: string | null;
+  lastMessageAt: Date | null;
+  unreadCount: number;
+}
 
 interface ChatParticipant {
   userId: string;
-  ws?: WebSocket;
-  isOnline: boolean;
+  /** the user's sockets that joined this room (several tabs or devices) */
+  sockets: Set<WebSocket>;
   lastSeen: Date;
 }
 
@@ -38,54 +85,77 @@ export class DatabaseChatService {
   /** live presence in currently active rooms (chatRoomId -> room state) */
   private activeChatRooms: Map<number, ActiveChatRoom> = new Map();
 
-  /** global connections for users (userId -> ws), used for cross-room events/badges */
-  private userConnections: Map<string, WebSocket> = new Map();
+  /** every open socket of each user (userId -> sockets), used for cross-room events/badges */
+  private userConnections: Map<string, Set<WebSocket>> = new Map();
 
   initialize(server: Server) {
-    this.wss = new WebSocketServer({ server, path: "/ws" });
-
-    this.wss.on("connection", (ws) => {
-      console.log("Chat WebSocket connection established");
-
-      ws.on("message", async (message) => {
-        try {
-          const data = JSON.parse(message.toString());
-          await this.handleMessage(ws, data);
-        } catch (error) {
-          console.error("Error handling WebSocket message:", error);
-          ws.send(JSON.stringify({ type: "error", message: "Invalid message format" }));
+    this.wss = new WebSocketServer({ noServer: true });
+    const sessionMiddleware = getSessionMiddleware();
+
+    // Same session cookie as the REST API; the socket belongs to that user for its whole life
+    server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (new URL(req.url ?? "", "http://localhost").pathname !== "/ws") return;
+
+      sessionMiddleware(req as Request, {} as Response, () => {
+        const userId = (req as Request).session?.userId;
+        if (!userId) {
+          socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+          socket.destroy();
+          return;
         }
+        this.wss!.handleUpgrade(req, socket, head, (ws) => {
+          this.handleConnection(ws, String(userId));
+        });
       });
+    });
 
-      ws.on("close", () => {
-        this.handleDisconnection(ws);
-      });
+    console.log("Database Chat service initialized with WebSocket support");
+  }
 
-      ws.on("error", (error) => {
-        console.error("WebSocket error:", error);
-      });
+  private handleConnection(ws: WebSocket, userId: string) {
+    console.log(`Chat WebSocket connection established for user ${userId}`);
+    this.addUserSocket(userId, ws);
+
+    ws.on("message", async (message) => {
+      try {
+        const data = JSON.parse(message.toString());
+        await this.handleMessage(ws, userId, data);
+      } catch (error) {
+        console.error("Error handling WebSocket message:", error);
+        ws.send(JSON.stringify({ type: "error", message: "Invalid message format" }));
+      }
     });
 
-    console.log("Database Chat service initialized with WebSocket support");
+    ws.on("close", () => {
+      this.handleDisconnection(ws, userId);
+    });
+
+    ws.on("error", (error) => {
+      console.error("WebSocket error:", error);
+    });
   }
 
   // ---------- WebSocket message dispatcher ----------
-  private async handleMessage(ws: WebSocket, message: any) {
+  // `userId` is the socket's authenticated user; any userId/senderId in the payload is ignored
+  private async handleMessage(ws: WebSocket, userId: string, message: any) {
     switch (message.type) {
       case "register_user":
-        await this.handleRegisterUser(ws, message);
+        await this.handleRegisterUser(ws, userId);
         break;
       case "join_chat":
-        await this.handleJoinChat(ws, message);
+        await this.handleJoinChat(ws, userId, message);
+        break;
+      case "load_history":
+        await this.handleLoadHistory(ws, userId, message);
         break;
       case "send_message":
-        await this.handleSendMessage(ws, message);
+        await this.handleSendMessage(ws, userId, message);
         break;
       case "mark_seen":
-        await this.handleMarkSeen(ws, message);
+        await this.handleMarkSeen(ws, userId, message);
         break;
       case "typing":
-        await this.handleTyping(ws, message);
+        await this.handleTyping(ws, userId, message);
         break;
       default:
         ws.send(JSON.stringify({ type: "error", message: "Unknown message type" }));
@@ -93,53 +163,56 @@ export class DatabaseChatService {
   }
 
   // ---------- Presence / registration ----------
-  /** private async handleRegisterUser(ws: WebSocket, data: { userId: string }) {
-    const { userId } = data;
-    try {
-      this.userConnections.set(userId, ws);
-      console.log(`🔌 User ${userId} registered for global chat notifications`);
-      ws.send(
-        JSON.stringify({
-          type: "user_registered",
-          message: "Successfully registered for notifications",
-        })
-      );
-    } catch (error) {
-      console.error("Error registering user:", error);
-      ws.send(JSON.stringify({ type: "error", message: "Failed to register for notifications" }));
-    }
-  } */
-
-  private async handleRegisterUser(ws: WebSocket, data: { userId?: string }) {
-    const userId = (data?.userId ?? "").toString().trim();
-    if (!userId) {
-      console.warn("register_user called without userId; ignoring");
-      ws.send(JSON.stringify({ type: "error", message: "userId required" }));
-      return;
-    }
-    this.userConnections.set(userId, ws);
-    console.log(`🔌 User ${userId} registered for global chat notifications`);
-    ws.send(JSON.stringify({ type: "user_registered", message: "Successfully registered for notifications" }));
+  private addUserSocket(userId: string, ws: WebSocket) {
+    const sockets = this.userConnections.get(userId) ?? new Set<WebSocket>();
+    sockets.add(ws);
+    this.userConnections.set(userId, sockets);
   }
 
+  /** Sockets are registered on connect; this only confirms it and seeds the inbox badge */
+  private async handleRegisterUser(ws: WebSocket, userId: string) {
+    ws.send(JSON.stringify({ type: "user_registered", message: "Successfully registered for notifications" }));
+
+    // Later changes are pushed by inAppNotificationService
+    await inAppNotificationService.pushUnreadCount(parseInt(userId));
+  }
 
   /** public helper for routes */
   isUserOnline(userId: string): boolean {
-    const ws = this.userConnections.get(userId);
-    return !!ws && ws.readyState === WebSocket.OPEN;
+    const sockets = this.userConnections.get(userId);
+    return !!sockets && Array.from(sockets).some((ws) => ws.readyState === WebSocket.OPEN);
   }
 
-  // ---------- Join room / history ----------
-  private async handleJoinChat(ws: WebSocket, data: { favorId: number; userId: string }) {
-    const { favorId, userId } = data;
+  /** Public: send an event to every socket the user has open */
+  sendToUser(userId: string, payload: any) {
+    this.userConnections.get(userId)?.forEach((ws) => this.send(ws, payload));
+  }
 
+  private send(ws: WebSocket, payload: any) {
+    if (ws.readyState !== WebSocket.OPEN) return;
     try {
-      const chatRoom = await this.getChatRoomByFavorId(favorId);
+      ws.send(JSON.stringify(payload));
+    } catch (e) {
+      console.error("WS send failed:", e);
+    }
+  }
+
+  /** The room if the user is one of its two participants */
+  private async getRoomForParticipant(chatRoomId: number, userId: string): Promise<DbChatRoom | null> {
+    const chatRoom = await this.getChatRoomById(Number(chatRoomId));
+    if (!chatRoom || (userId !== chatRoom.requesterId && userId !== chatRoom.helperId)) return null;
+    return chatRoom;
+  }
+
+  // ---------- Join room / history ----------
+  private async handleJoinChat(ws: WebSocket, userId: string, data: { chatRoomId: number }) {
+    try {
+      const chatRoom = await this.getChatRoomById(Number(data.chatRoomId));
       if (!chatRoom) {
         ws.send(
           JSON.stringify({
             type: "error",
-            message: "Chat room not found. Accept or negotiate the favor first.",
+            message: "Chat room not found. Accept the favor or make an offer first.",
           })
         );
         return;
@@ -167,33 +240,27 @@ export class DatabaseChatService {
 
       const participant = activeRoom.participants.get(userId) || {
         userId,
-        isOnline: false,
+        sockets: new Set<WebSocket>(),
         lastSeen: new Date(),
       };
 
-      participant.ws = ws;
-      participant.isOnline = true;
+      participant.sockets.add(ws);
       participant.lastSeen = new Date();
       activeRoom.participants.set(userId, participant);
-      this.userConnections.set(userId, ws);
 
       // Send chat history + presence snapshot
-      const messages = await this.getChatMessages(chatRoom.id);
+      const otherUserId = userId === chatRoom.requesterId ? chatRoom.helperId : chatRoom.requesterId;
+      // Latest page only; older pages come from load_history or the REST endpoint
+      const page = (await this.getChatMessagePage(chatRoom.id, {}))!;
       const historyData = {
         type: "chat_history",
-        messages: messages.map((msg) => ({
-          id: String(msg.id),
-          content: String(msg.content || ""),
-          senderId: String(msg.senderId),
-          recipientId: String(msg.recipientId),
-          timestamp: msg.createdAt?.toISOString() || new Date().toISOString(),
-          status: (msg.status || "sent") as MessageStatus,
-          type: (msg.messageType || "text") as MessageType,
-        })),
+        chatRoomId: chatRoom.id,
+        messages: page.messages.map((msg) => this.toPayload(msg)),
+        hasMore: page.hasMore,
         presence: {
           me: userId,
-          otherUserId: userId === chatRoom.requesterId ? chatRoom.helperId : chatRoom.requesterId,
-          otherOnline: this.isUserOnline(userId === chatRoom.requesterId ? chatRoom.helperId : chatRoom.requesterId),
+          otherUserId,
+          otherOnline: this.isUserOnline(otherUserId),
         },
       };
 
@@ -205,24 +272,55 @@ export class DatabaseChatService {
       // Mark any of their incoming 'sent' messages as delivered on join (and broadcast those)
       await this.markUndeliveredAsDelivered(chatRoom.id, userId);
 
-      console.log(`User ${userId} joined chat room ${chatRoom.id} for favor ${favorId}`);
+      console.log(`User ${userId} joined chat room ${chatRoom.id} for favor ${chatRoom.favorId}`);
     } catch (error) {
       console.error("Error joining chat:", error);
       ws.send(JSON.stringify({ type: "error", message: "Failed to join chat" }));
     }
   }
 
+  // ---------- History pages (WS) ----------
+  private async handleLoadHistory(ws: WebSocket, userId: string, data: { chatRoomId: number } & Record<string, unknown>) {
+    try {
+      const chatRoom = await this.getRoomForParticipant(data.chatRoomId, userId);
+      if (!chatRoom) {
+        ws.send(JSON.stringify({ type: "error", message: "Unauthorized to access this chat" }));
+        return;
+      }
+      const query = chatHistoryQuerySchema.safeParse({ before: data.before, after: data.after, limit: data.limit });
+      if (!query.success) {
+        ws.send(JSON.stringify({ type: "error", message: "Invalid history query" }));
+        return;
+      }
+      const page = await this.getChatMessagePage(chatRoom.id, query.data);
+      if (!page) {
+        ws.send(JSON.stringify({ type: "error", message: "Unknown message cursor" }));
+        return;
+      }
+
+      ws.send(JSON.stringify({
+        type: "chat_history_page",
+        chatRoomId: chatRoom.id,
+        before: query.data.before ?? null,
+        after: query.data.after ?? null,
+        messages: page.messages.map((msg) => this.toPayload(msg)),
+        hasMore: page.hasMore,
+      }));
+    } catch (error) {
+      console.error("Error loading chat history:", error);
+      ws.send(JSON.stringify({ type: "error", message: "Failed to load chat history" }));
+    }
+  }
+
   // ---------- Send message (WS path) ----------
-  private async handleSendMessage(
-    ws: WebSocket,
-    data: { favorId: number; senderId: string; content: string }
-  ) {
-    const { favorId, senderId, content } = data;
+  private async handleSendMessage(ws: WebSocket, senderId: string, data: { chatRoomId: number; content: string }) {
+    const content = String(data.content ?? "").trim();
+    if (!content) return;
 
     try {
-      const chatRoom = await this.getChatRoomByFavorId(favorId);
+      const chatRoom = await this.getRoomForParticipant(data.chatRoomId, senderId);
       if (!chatRoom) {
-        ws.send(JSON.stringify({ type: "error", message: "Chat room not found" }));
+        ws.send(JSON.stringify({ type: "error", message: "Unauthorized to post in this chat" }));
         return;
       }
       if (!chatRoom.isActive) {
@@ -230,6 +328,17 @@ export class DatabaseChatService {
         return;
       }
 
+      const moderation = await this.moderate(chatRoom, senderId, content);
+      if (!moderation.isAppropriate) {
+        ws.send(JSON.stringify({
+          type: "message_blocked",
+          reason: moderation.issues.join(", "),
+          suggestion: moderation.suggestion,
+          severity: moderation.severity,
+        }));
+        return;
+      }
+
       const recipientId = chatRoom.requesterId === senderId ? chatRoom.helperId : chatRoom.requesterId;
 
       // Save (push notifications handled inside saveChatMessage if recipient is offline)
@@ -241,7 +350,7 @@ export class DatabaseChatService {
         type: "text",
       });
 
-      // Broadcast to all in-room participants + recipient's global socket
+      // Broadcast to all in-room participants + recipient's global sockets
       this.pushMessageToRoom(chatRoom.id, message);
 
       // Confirm to sender on this socket
@@ -255,17 +364,17 @@ export class DatabaseChatService {
   }
 
   // ---------- Mark seen (WS) ----------
-  private async handleMarkSeen(_ws: WebSocket, data: { favorId: number; userId: string; messageId: string }) {
-    const { favorId, userId, messageId } = data;
+  private async handleMarkSeen(_ws: WebSocket, userId: string, data: { chatRoomId: number; messageId: string }) {
+    const { chatRoomId, messageId } = data;
     try {
-      const chatRoom = await this.getChatRoomByFavorId(favorId);
+      const chatRoom = await this.getRoomForParticipant(chatRoomId, userId);
       if (!chatRoom) return;
 
       // Only recipient can mark seen
       await db
         .update(chatMessages)
         .set({ status: "seen" })
-        .where(and(eq(chatMessages.id, messageId), eq(chatMessages.recipientId, userId)));
+        .where(and(eq(chatMessages.id, messageId), eq(chatMessages.chatRoomId, chatRoom.id), eq(chatMessages.recipientId, userId)));
 
       // Notify the sender
       this.broadcastToRoom(chatRoom.id, { type: "message_seen", messageId, seenBy: userId }, userId);
@@ -275,12 +384,11 @@ export class DatabaseChatService {
   }
 
   // ---------- Typing ----------
-  private async handleTyping(_ws: WebSocket, data: { favorId: number; userId: string; isTyping: boolean }) {
-    const { favorId, userId, isTyping } = data;
+  private async handleTyping(_ws: WebSocket, userId: string, data: { chatRoomId: number; isTyping: boolean }) {
     try {
-      const chatRoom = await this.getChatRoomByFavorId(favorId);
+      const chatRoom = await this.getRoomForParticipant(data.chatRoomId, userId);
       if (chatRoom) {
-        this.broadcastToRoom(chatRoom.id, { type: "typing", userId, isTyping }, userId);
+        this.broadcastToRoom(chatRoom.id, { type: "typing", userId, isTyping: !!data.isTyping }, userId);
       }
     } catch (error) {
       console.error("Error handling typing indicator:", error);
@@ -288,88 +396,72 @@ export class DatabaseChatService {
   }
 
   // ---------- Presence / disconnection ----------
-  private handleDisconnection(ws: WebSocket) {
-    console.log("Chat WebSocket disconnected");
-
-    // Guard: ensure maps weren’t clobbered
-    if (!(this.activeChatRooms instanceof Map)) this.activeChatRooms = new Map();
-    if (!(this.userConnections instanceof Map)) this.userConnections = new Map();
-
-    // Remove from active chat rooms and broadcast user_offline
-    for (const [roomId, room] of this.activeChatRooms) {
-      for (const [userId, participant] of room.participants) {
-        if (participant.ws === ws) {
-          participant.isOnline = false;
-          participant.ws = undefined;
-          participant.lastSeen = new Date();
-          room.participants.set(userId, participant);
-
-          this.broadcastToRoom(
-            roomId,
-            { type: "user_offline", userId, lastSeen: participant.lastSeen },
-            userId
-          );
-        }
-      }
-    }
+  private handleDisconnection(ws: WebSocket, userId: string) {
+    console.log(`Chat WebSocket disconnected for user ${userId}`);
 
-    // Remove from global user connections
-    for (const [userId, userWs] of this.userConnections) {
-      if (userWs === ws) {
-        this.userConnections.delete(userId);
-        console.log(`User ${userId} disconnected from global chat notifications`);
-        break;
+    // Leave the rooms this socket joined; the user goes offline there with their last socket
+    this.activeChatRooms.forEach((room, roomId) => {
+      const participant = room.participants.get(userId);
+      if (!participant?.sockets.delete(ws)) return;
+
+      participant.lastSeen = new Date();
+      if (participant.sockets.size === 0) {
+        this.broadcastToRoom(
+          roomId,
+          { type: "user_offline", userId, lastSeen: participant.lastSeen },
+          userId
+        );
       }
+    });
+
+    const sockets = this.userConnections.get(userId);
+    sockets?.delete(ws);
+    if (sockets?.size === 0) {
+      this.userConnections.delete(userId);
+      console.log(`User ${userId} disconnected from global chat notifications`);
     }
   }
 
   // ---------- Broadcasting ----------
-  private broadcastToRoom(chatRoomId: number, payload: any, excludeUserId?: string) {
+  /** Sends to every in-room socket and returns them, so callers can skip those sockets elsewhere */
+  private broadcastToRoom(chatRoomId: number, payload: any, excludeUserId?: string): Set<WebSocket> {
+    const delivered = new Set<WebSocket>();
     const room = this.activeChatRooms.get(chatRoomId);
-    if (!room) return;
+    if (!room) return delivered;
 
     room.participants.forEach((participant, uid) => {
-      if (
-        participant.ws &&
-        participant.isOnline &&
-        uid !== excludeUserId &&
-        participant.ws.readyState === WebSocket.OPEN
-      ) {
-        try {
-          participant.ws.send(JSON.stringify(payload));
-        } catch (e) {
-          console.error("WS send failed:", e);
-        }
-      }
+      if (uid === excludeUserId) return;
+      participant.sockets.forEach((ws) => {
+        this.send(ws, payload);
+        delivered.add(ws);
+      });
     });
+    return delivered;
   }
 
-  /** Public: push a just-saved message to a room + recipient global socket */
-  pushMessageToRoom(
-    chatRoomId: number,
-    message: {
-      id: string;
-      chatRoomId: number;
-      senderId: string;
-      recipientId: string;
-      content: string;
-      status: MessageStatus;
-      type: MessageType;
-      timestamp: string;
-    }
-  ) {
+  /** Public: moderate a text message before it is saved; blocks are logged against the sender as strikes */
+  async moderate(chatRoom: DbChatRoom, senderId: string, content: string): Promise<ModerationResult> {
+    const [favor] = await db
+      .select({ title: favorsTbl.title })
+      .from(favorsTbl)
+      .where(eq(favorsTbl.id, chatRoom.favorId));
+    return aiModerationService.moderateMessage(content, {
+      senderName: (await this.getUserFirstName(senderId)) ?? undefined,
+      favorTitle: favor?.title ?? `Favor #${chatRoom.favorId}`,
+      userId: senderId,
+      favorId: chatRoom.favorId,
+    });
+  }
+
+  /** Public: push a just-saved message to a room + recipient global sockets */
+  pushMessageToRoom(chatRoomId: number, message: ChatMessagePayload) {
     // In-room broadcast
-    this.broadcastToRoom(chatRoomId, { type: "new_message", message });
+    const delivered = this.broadcastToRoom(chatRoomId, { type: "new_message", message });
 
-    // Also send to recipient's global connection (badge/unread in other tabs)
-    const recipientGlobal = this.userConnections.get(message.recipientId);
-    if (recipientGlobal && recipientGlobal.readyState === WebSocket.OPEN) {
-      try {
-        recipientGlobal.send(JSON.stringify({ type: "new_message", message }));
-      } catch (e) {
-        console.error("Global WS send failed:", e);
-      }
-    }
+    // Also send to the recipient's other sockets (badge/unread in other tabs)
+    this.userConnections.get(message.recipientId)?.forEach((ws) => {
+      if (!delivered.has(ws)) this.send(ws, { type: "new_message", message });
+    });
   }
 
   // ---------- Notifications ----------
@@ -412,7 +504,7 @@ export class DatabaseChatService {
           chatId: chatRoomId,
           favorId,
           icon: "/icons/chat.png",
-          url: `/chat/${favorId}`, // deep-link for your SW/SPA
+          url: `/chat/${chatRoomId}`, // deep-link for your SW/SPA
         }
       );
 
@@ -427,13 +519,13 @@ export class DatabaseChatService {
 
   // ---------- DB helpers (used by REST & WS) ----------
 
-  /** Create chat room if not exists */
+  /** Create the helper's chat room on a favor if not exists */
   async createChatRoom(
     favorId: number,
     requesterId: string,
     helperId: string
   ): Promise<DbChatRoom> {
-    const existing = await this.getChatRoomByFavorId(favorId);
+    const existing = await this.getChatRoomForHelper(favorId, helperId.toString());
     if (existing) return existing;
 
     const newChatRoom: InsertChatRoom = {
@@ -443,19 +535,15 @@ export class DatabaseChatService {
       isActive: true,
     };
 
-    const [room] = await db.insert(chatRooms).values(newChatRoom).returning();
+    const [room] = await db
+      .insert(chatRooms)
+      .values(newChatRoom)
+      .onConflictDoNothing({ target: [chatRooms.favorId, chatRooms.helperId] })
+      .returning();
+    // Lost a race with a concurrent request for the same helper
+    if (!room) return (await this.getChatRoomForHelper(favorId, newChatRoom.helperId))!;
 
-    // Add a system message
-    const sys: InsertChatMessage = {
-      id: `sys_${Date.now()}`,
-      chatRoomId: room.id,
-      senderId: "system",
-      recipientId: "",
-      content: "Chat started! You can now communicate about this favor.",
-      messageType: "system",
-      status: "delivered",
-    };
-    await db.insert(chatMessages).values(sys);
+    await this.insertSystemMessage(room.id, "Chat started! You can now communicate about this favor.");
 
     console.log(
       `Created chat room ${room.id} for favor ${favorId} between ${newChatRoom.requesterId} and ${newChatRoom.helperId}`
@@ -463,8 +551,13 @@ export class DatabaseChatService {
     return room;
   }
 
-  async getChatRoomByFavorId(favorId: number): Promise<DbChatRoom | null> {
-    const rows = await db.select().from(chatRooms).where(eq(chatRooms.favorId, favorId)).limit(1);
+  /** The conversation between a favor's poster and one helper (several helpers can make offers) */
+  async getChatRoomForHelper(favorId: number, helperId: string): Promise<DbChatRoom | null> {
+    const rows = await db
+      .select()
+      .from(chatRooms)
+      .where(and(eq(chatRooms.favorId, favorId), eq(chatRooms.helperId, helperId)))
+      .limit(1);
     return rows[0] || null;
   }
 
@@ -517,33 +610,132 @@ export class DatabaseChatService {
       .orderBy(asc(chatMessages.createdAt));
   }
 
-  async getUserChatRooms(userId: string): Promise<DbChatRoom[]> {
-    const rooms = await db
+  /**
+   * A page of a room's history in chronological order. Without a cursor it's the latest messages;
+   * `before`/`after` are message ids in the room. `hasMore` tells whether more exist in that direction.
+   * Null when the cursor isn't a message of this room.
+   */
+  async getChatMessagePage(chatRoomId: number, query: ChatHistoryQuery): Promise<ChatMessagePage | null> {
+    const cursorId = query.before ?? query.after;
+    if (cursorId) {
+      const [cursor] = await db
+        .select({ id: chatMessages.id })
+        .from(chatMessages)
+        .where(and(eq(chatMessages.id, cursorId), eq(chatMessages.chatRoomId, chatRoomId)));
+      if (!cursor) return null;
+    }
+
+    // Compared in SQL so the cursor keeps created_at's full precision; id breaks ties
+    const cursorPosition = sql`(select c.created_at, c.id from chat_messages c where c.id = ${cursorId})`;
+    const forward = !!query.after;
+    const limit = query.limit ?? CHAT_PAGE_SIZE;
+
+    const rows = await db
       .select()
+      .from(chatMessages)
+      .where(and(
+        eq(chatMessages.chatRoomId, chatRoomId),
+        query.before ? sql`(${chatMessages.createdAt}, ${chatMessages.id}) < ${cursorPosition}` : undefined,
+        query.after ? sql`(${chatMessages.createdAt}, ${chatMessages.id}) > ${cursorPosition}` : undefined
+      ))
+      .orderBy(
+        forward ? asc(chatMessages.createdAt) : desc(chatMessages.createdAt),
+        forward ? asc(chatMessages.id) : desc(chatMessages.id)
+      )
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    return { messages: forward ? page : page.reverse(), hasMore };
+  }
+
+  /** The user's rooms, most recent activity first, with last message and unread count worked out in SQL */
+  async getConversations(userId: string): Promise<ConversationSummary[]> {
+    const lastMessage = alias(chatMessages, "last_message");
+    const unread = alias(chatMessages, "unread");
+    const latestInRoom = (column: SQL | typeof lastMessage.createdAt) =>
+      db
+        .select({ value: column })
+        .from(lastMessage)
+        .where(eq(lastMessage.chatRoomId, chatRooms.id))
+        .orderBy(desc(lastMessage.createdAt), desc(lastMessage.id))
+        .limit(1);
+    const otherUserId = sql<string>`case when ${chatRooms.requesterId} = ${userId} then ${chatRooms.helperId} else ${chatRooms.requesterId} end`;
+    const lastMessageAt = sql<Date | null>`(${latestInRoom(lastMessage.createdAt)})`.mapWith(chatMessages.createdAt);
+
+    const rows = await db
+      .select({
+        chatRoomId: chatRooms.id,
+        favorId: chatRooms.favorId,
+        favorTitle: favorsTbl.title,
+        otherUserId,
+        otherFirstName: usersTbl.firstName,
+        otherLastName: usersTbl.lastName,
+        lastMessage: sql<string | null>`(${latestInRoom(
+          sql`case when ${lastMessage.messageType} = 'image' and ${lastMessage.content} = '' then 'Photo' else ${lastMessage.content} end`
+        )})`,
+        lastMessageAt,
+        unreadCount: sql<number>`(${db
+          .select({ count: sql`count(*)::int` })
+          .from(unread)
+          .where(and(
+            eq(unread.chatRoomId, chatRooms.id),
+            eq(unread.recipientId, userId),
+            sql`${unread.status} is distinct from 'seen'`
+          ))})`.mapWith(Number),
+      })
       .from(chatRooms)
+      .leftJoin(favorsTbl, eq(favorsTbl.id, chatRooms.favorId))
+      .leftJoin(usersTbl, sql`${usersTbl.id}::text = ${otherUserId}`)
       .where(or(eq(chatRooms.requesterId, userId), eq(chatRooms.helperId, userId)))
-      .orderBy(desc(chatRooms.createdAt));
-    return rooms;
+      .orderBy(sql`coalesce(${lastMessageAt}, ${chatRooms.createdAt}) desc`);
+
+    return rows.map(({ otherFirstName, otherLastName, favorTitle, ...row }) => ({
+      ...row,
+      favorTitle: favorTitle ?? `Favor #${row.favorId}`,
+      otherUserName: otherFirstName
+        ? `${otherFirstName}${otherLastName ? ` ${otherLastName.charAt(0)}.` : ""}`
+        : `User ${row.otherUserId}`,
+    }));
   }
 
-  async deactivateChatRoom(favorId: number) {
-    const room = await this.getChatRoomByFavorId(favorId);
+  async deactivateChatRoom(chatRoomId: number, reason = "This favor has been completed. Chat is now read-only.") {
+    const room = await this.getChatRoomById(chatRoomId);
     if (!room) return;
 
     await db.update(chatRooms).set({ isActive: false }).where(eq(chatRooms.id, room.id));
+    await this.postSystemMessage(room.id, reason);
 
+    this.broadcastToRoom(room.id, { type: "chat_deactivated", message: "Chat is now read-only" });
+  }
+
+  /** Save a system notice (offer updates, status changes) and show it to whoever is in the room */
+  async postSystemMessage(chatRoomId: number, content: string) {
+    const message = await this.insertSystemMessage(chatRoomId, content);
+    this.broadcastToRoom(chatRoomId, { type: "new_message", message });
+  }
+
+  private async insertSystemMessage(chatRoomId: number, content: string): Promise<ChatMessagePayload> {
     const sys: InsertChatMessage = {
-      id: `sys_${Date.now()}`,
-      chatRoomId: room.id,
+      id: `sys_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      chatRoomId,
       senderId: "system",
       recipientId: "",
-      content: "This favor has been completed. Chat is now read-only.",
+      content,
       messageType: "system",
       status: "delivered",
     };
     await db.insert(chatMessages).values(sys);
-
-    this.broadcastToRoom(room.id, { type: "chat_deactivated", message: "Chat is now read-only" });
+    return {
+      id: sys.id,
+      chatRoomId,
+      senderId: sys.senderId,
+      recipientId: sys.recipientId,
+      content,
+      status: "delivered",
+      type: "system",
+      timestamp: new Date().toISOString(),
+    };
   }
 
   /**
@@ -557,18 +749,11 @@ export class DatabaseChatService {
     recipientId: string;
     content: string;
     type?: MessageType;
-  }): Promise<{
-    id: string;
-    chatRoomId: number;
-    senderId: string;
-    recipientId: string;
-    content: string;
-    status: MessageStatus;
-    type: MessageType;
-    timestamp: string;
-  }> {
+    counterOffer?: CounterOfferDetails;
+    attachment?: StoredImage;
+  }): Promise<ChatMessagePayload> {
     const activeRoom = this.activeChatRooms.get(input.chatRoomId);
-    const recipientOnlineInRoom = activeRoom?.participants.get(input.recipientId)?.isOnline === true;
+    const recipientOnlineInRoom = (activeRoom?.participants.get(input.recipientId)?.sockets.size ?? 0) > 0;
     const recipientOnlineGlobally = this.isUserOnline(input.recipientId);
 
     const initialStatus: MessageStatus = recipientOnlineInRoom || recipientOnlineGlobally ? "delivered" : "sent";
@@ -583,6 +768,8 @@ export class DatabaseChatService {
       content: input.content.trim(),
       messageType: input.type ?? "text",
       status: initialStatus,
+      counterOffer: input.counterOffer ?? null,
+      attachment: input.attachment ?? null,
     };
 
     await db.insert(chatMessages).values(newMessage);
@@ -599,7 +786,7 @@ export class DatabaseChatService {
         await this.sendMessageNotification(
           input.recipientId,
           input.senderId,
-          newMessage.content,
+          newMessage.content || (input.attachment ? "Sent a photo" : ""),
           input.chatRoomId,
           favorId
         );
@@ -617,11 +804,40 @@ export class DatabaseChatService {
       status: initialStatus,
       type: (newMessage.messageType as MessageType) ?? "text",
       timestamp: new Date().toISOString(),
+      ...(input.counterOffer && { counterOffer: input.counterOffer }),
+      ...(input.attachment && { attachment: input.attachment }),
     };
   }
 
-  /** Mark a single message delivered (REST) and broadcast `message_delivered` */
-  async markMessageDelivered(messageId: string): Promise<void> {
+  toPayload(msg: DbChatMessage): ChatMessagePayload {
+    return {
+      id: String(msg.id),
+      chatRoomId: msg.chatRoomId,
+      content: String(msg.content || ""),
+      senderId: String(msg.senderId),
+      recipientId: String(msg.recipientId),
+      timestamp: msg.createdAt?.toISOString() || new Date().toISOString(),
+      status: (msg.status || "sent") as MessageStatus,
+      type: (msg.messageType || "text") as MessageType,
+      ...(msg.counterOffer && { counterOffer: msg.counterOffer }),
+      // Images sent before attachments went through the API were stored with public URLs
+      ...(msg.attachment && {
+        attachment: {
+          ...msg.attachment,
+          url: chatAttachmentUrl(msg.chatRoomId, msg.attachment.storageKey),
+          thumbnailUrl: chatAttachmentUrl(msg.chatRoomId, msg.attachment.thumbnailKey),
+        },
+      }),
+    };
+  }
+
+  /** Public: tell a room a counter-offer was answered, superseded or otherwise changed */
+  pushCounterOfferUpdate(chatRoomId: number, messageId: string, counterOffer: CounterOfferDetails) {
+    this.broadcastToRoom(chatRoomId, { type: "message_updated", messageId, counterOffer });
+  }
+
+  /** Mark a message delivered to its recipient (REST) and broadcast `message_delivered`; false if the user isn't in its room */
+  async markMessageDelivered(messageId: string, userId: string): Promise<boolean> {
     // Read message first so we know which room to notify
     const [msg] = await db
       .select({
@@ -633,7 +849,9 @@ export class DatabaseChatService {
       .where(eq(chatMessages.id, messageId))
       .limit(1);
 
-    if (!msg) return;
+    if (!msg || !(await this.getRoomForParticipant(msg.chatRoomId, userId))) return false;
+    // Only the recipient's client acknowledges delivery
+    if (msg.recipientId !== userId) return true;
 
     await db.update(chatMessages).set({ status: "delivered" }).where(eq(chatMessages.id, messageId));
 
@@ -642,10 +860,11 @@ export class DatabaseChatService {
       messageId: String(messageId),
       deliveredTo: String(msg.recipientId),
     });
+    return true;
   }
 
-  /** Mark recipient's message as seen (REST) and broadcast `message_seen` */
-  async markMessageSeen(messageId: string, userId: string): Promise<void> {
+  /** Mark recipient's message as seen (REST) and broadcast `message_seen`; false if the user isn't in its room */
+  async markMessageSeen(messageId: string, userId: string): Promise<boolean> {
     // Update only if this user is the recipient
     const [msg] = await db
       .select({
@@ -657,14 +876,13 @@ export class DatabaseChatService {
       .where(eq(chatMessages.id, messageId))
       .limit(1);
 
-    if (!msg) return;
+    if (!msg || !(await this.getRoomForParticipant(msg.chatRoomId, userId))) return false;
+    if (msg.recipientId !== userId) return true;
 
-    await db
-      .update(chatMessages)
-      .set({ status: "seen" })
-      .where(and(eq(chatMessages.id, messageId), eq(chatMessages.recipientId, userId)));
+    await db.update(chatMessages).set({ status: "seen" }).where(eq(chatMessages.id, messageId));
 
     this.broadcastToRoom(msg.chatRoomId, { type: "message_seen", messageId, seenBy: userId });
+    return true;
   }
 
   /**
@@ -0,0 +1,269 @@
+// Dispute workflow: freeze the favor and escrow, gather both sides, get an AI recommendation, let an admin decide
+import { db } from "./db";
+import { disputes, favors, type Dispute, type DisputeTranscriptEntry } from "@shared/schema";
+import { and, eq, desc } from "drizzle-orm";
+import { storage } from "./storage";
+import { paymentService } from "./payments";
+import { databaseChatService } from "./databaseChatService";
+import { aiModerationService } from "./aiModeration";
+import { moderationReporter } from "./moderationReports";
+import { sendNotification } from "./unifiedNotificationService";
+
+export class DisputeError extends Error {
+  constructor(message: string, public readonly status: 400 | 403 | 404 | 409 = 400) {
+    super(message);
+    this.name = "DisputeError";
+  }
+}
+
+/** What the two parties see: the AI analysis and transcript are for admins only */
+export type ParticipantDisputeView = Omit<Dispute, "transcript" | "aiRecommendation" | "aiReasoning" | "aiConfidence" | "aiEvidence">;
+
+type Participant = "requester" | "helper";
+
+export class DisputeService {
+  async getDispute(favorId: number): Promise<Dispute | undefined> {
+    const [dispute] = await db.select().from(disputes).where(eq(disputes.favorId, favorId));
+    return dispute;
+  }
+
+  async listDisputes(status: "open" | "resolved" = "open"): Promise<Dispute[]> {
+    return await db
+      .select()
+      .from(disputes)
+      .where(eq(disputes.status, status))
+      .orderBy(desc(disputes.createdAt));
+  }
+
+  toParticipantView(dispute: Dispute): ParticipantDisputeView {
+    const { transcript, aiRecommendation, aiReasoning, aiConfidence, aiEvidence, ...view } = dispute;
+    return view;
+  }
+
+  // Open a dispute on an accepted favor, or a completed one while its escrow is still in the dispute window
+  async openDispute(favorId: number, userId: number, reason: string, statement?: string): Promise<Dispute> {
+    const favor = await storage.getFavor(favorId);
+    if (!favor) {
+      throw new DisputeError("Favor not found", 404);
+    }
+
+    const side = this.participantSide(favor, userId);
+    if (!side) {
+      throw new DisputeError("Only participants can dispute this favor", 403);
+    }
+
+    if (await this.getDispute(favorId)) {
+      throw new DisputeError("This favor has already been disputed", 409);
+    }
+
+    if (favor.status === "completed") {
+      const escrow = await paymentService.getEscrowForFavor(favorId);
+      if (escrow?.status === "released" || !paymentService.isWithinDisputeWindow(favor.completedAt)) {
+        throw new DisputeError("The dispute window for this favor has closed", 409);
+      }
+    }
+
+    const transcript = await this.collectTranscript(favor);
+    // The favor, its escrow and the dispute row change together or not at all
+    const dispute = await db.transaction(async (tx) => {
+      const [current] = await tx.select({ status: favors.status }).from(favors).where(eq(favors.id, favorId)).for("update");
+      // Validates the transition (FavorTransitionError); the row lock serializes concurrent openers
+      await storage.transitionFavor(favorId, "disputed", userId, reason, tx);
+      await paymentService.freezeForDispute(tx, favorId);
+
+      const [inserted] = await tx
+        .insert(disputes)
+        .values({
+          favorId,
+          openedBy: userId,
+          reason,
+          previousStatus: current.status,
+          transcript,
+          ...(statement && (side === "requester" ? { requesterStatement: statement } : { helperStatement: statement })),
+        })
+        .returning();
+      return inserted;
+    });
+
+    const otherPartyId = side === "requester" ? favor.helperId : parseInt(favor.posterId);
+    if (otherPartyId) {
+      await this.notify([otherPartyId], favorId, "A favor was disputed", `"${favor.title}" is on hold. Add your side of the story.`);
+    }
+
+    return await this.analyze(dispute, favor.title);
+  }
+
+  // Each side gets one statement; the AI recommendation is refreshed with it
+  async addStatement(favorId: number, userId: number, statement: string): Promise<Dispute> {
+    const dispute = await this.getOpenDispute(favorId);
+    const favor = await storage.getFavor(favorId);
+    const side = favor ? this.participantSide(favor, userId) : null;
+    if (!favor || !side) {
+      throw new DisputeError("Only participants can add a statement", 403);
+    }
+
+    const column = side === "requester" ? "requesterStatement" : "helperStatement";
+    if (dispute[column]) {
+      throw new DisputeError("You have already submitted your statement", 409);
+    }
+
+    const [updated] = await db
+      .update(disputes)
+      .set({ [column]: statement, transcript: await this.collectTranscript(favor) })
+      .where(eq(disputes.id, dispute.id))
+      .returning();
+
+    return await this.analyze(updated, favor.title);
+  }
+
+  /**
+   * Admin decision: "complete" restores/completes the favor and pays the helper,
+   * "cancel" cancels it and refunds the requester
+   */
+  async resolveDispute(favorId: number, adminId: number, resolution: "complete" | "cancel", note?: string): Promise<Dispute> {
+    const dispute = await this.getOpenDispute(favorId);
+
+    const { resolved, claimed } = await db.transaction(async (tx) => {
+      // Closed first: the favor can only leave "disputed" once its dispute is no longer open
+      const [closed] = await tx
+        .update(disputes)
+        .set({
+          status: "resolved",
+          resolution,
+          resolutionNote: note ?? null,
+          resolvedBy: adminId,
+          resolvedAt: new Date(),
+        })
+        .where(and(eq(disputes.id, dispute.id), eq(disputes.status, "open")))
+        .returning();
+      if (!closed) {
+        throw new DisputeError("This dispute has already been resolved", 409);
+      }
+
+      if (resolution === "complete") {
+        // A favor disputed after completion already counted towards the helper's stats
+        if (dispute.previousStatus === "completed") {
+          await storage.transitionFavor(favorId, "completed", adminId, note ?? "Dispute resolved: complete", tx);
+        } else {
+          await storage.completeFavor(favorId, adminId, undefined, tx);
+        }
+      } else {
+        await storage.cancelFavor(favorId, adminId, note ?? "Dispute resolved: cancel", tx);
+      }
+
+      // The escrow is claimed for the payout or refund together with the resolution
+      const claimed = await paymentService.settleDispute(tx, favorId, resolution === "complete" ? "release" : "refund");
+      return { resolved: closed, claimed };
+    });
+
+    // The provider can't take part in the transaction, so the money moves right after it commits;
+    // if that fails the escrow stays claimed and the auto-release job's recovery sweep retries it
+    if (claimed) {
+      await paymentService.finishClaim(claimed);
+    }
+
+    const favor = await storage.getFavor(favorId);
+    if (favor) {
+      const participants = [parseInt(favor.posterId), favor.helperId].filter((id): id is number => !!id);
+      await this.notify(
+        participants,
+        favorId,
+        "Dispute resolved",
+        resolution === "complete"
+          ? `"${favor.title}" was marked as completed.`
+          : `"${favor.title}" was cancelled and the requester refunded.`
+      );
+    }
+
+    return resolved;
+  }
+
+  // ---------- Internals ----------
+
+  private async getOpenDispute(favorId: number): Promise<Dispute> {
+    const dispute = await this.getDispute(favorId);
+    if (!dispute) {
+      throw new DisputeError("No dispute found for this favor", 404);
+    }
+    if (dispute.status !== "open") {
+      throw new DisputeError("This dispute has already been resolved", 409);
+    }
+    return dispute;
+  }
+
+  private participantSide(favor: { posterId: string; helperId: number | null }, userId: number): Participant | null {
+    if (favor.posterId === String(userId)) return "requester";
+    if (favor.helperId === userId) return "helper";
+    return null;
+  }
+
+  // The conversation with the accepted helper; other helpers' offer chats aren't part of the dispute
+  private async collectTranscript(favor: { id: number; helperId: number | null }): Promise<DisputeTranscriptEntry[]> {
+    const room = favor.helperId ? await databaseChatService.getChatRoomForHelper(favor.id, String(favor.helperId)) : null;
+    if (!room) return [];
+
+    const messages = await databaseChatService.getChatMessages(room.id);
+    const names = new Map<string, string>();
+    const transcript: DisputeTranscriptEntry[] = [];
+    for (const msg of messages) {
+      if (!names.has(msg.senderId)) {
+        names.set(msg.senderId, await databaseChatService.getUserDisplayName(msg.senderId));
+      }
+      transcript.push({
+        sender: msg.messageType === "system" ? "System" : names.get(msg.senderId)!,
+        message: msg.content,
+        timestamp: (msg.createdAt ?? new Date()).toISOString(),
+      });
+    }
+    return transcript;
+  }
+
+  private async analyze(dispute: Dispute, favorTitle: string): Promise<Dispute> {
+    const reason = [
+      `Opened by user ${dispute.openedBy}: ${dispute.reason}`,
+      dispute.requesterStatement && `Requester's statement: ${dispute.requesterStatement}`,
+      dispute.helperStatement && `Helper's statement: ${dispute.helperStatement}`,
+    ].filter(Boolean).join("\n");
+
+    const analysis = await aiModerationService.analyzeDispute(
+      favorTitle,
+      dispute.transcript.map(entry => ({ sender: entry.sender, message: entry.message, timestamp: new Date(entry.timestamp) })),
+      reason
+    );
+
+    moderationReporter.logEvent({
+      type: 'dispute_analyzed',
+      severity: analysis.recommendation === 'needs_human_review' ? 'medium' : 'low',
+      favorId: dispute.favorId,
+      content: reason,
+      issues: analysis.evidence,
+      action: `recommended_${analysis.recommendation}`,
+      confidence: analysis.confidence
+    });
+
+    const [updated] = await db
+      .update(disputes)
+      .set({
+        aiRecommendation: analysis.recommendation,
+        aiReasoning: analysis.reasoning,
+        aiConfidence: analysis.confidence,
+        aiEvidence: analysis.evidence,
+      })
+      .where(eq(disputes.id, dispute.id))
+      .returning();
+    return updated;
+  }
+
+  private async notify(userIds: number[], favorId: number, title: string, message: string) {
+    try {
+      await sendNotification(
+        { type: "users", userIds: userIds.map(String) },
+        { type: "favor", title, message, favorId }
+      );
+    } catch (error) {
+      console.error(`Failed to send dispute notification for favor ${favorId}:`, error);
+    }
+  }
+}
+
+export const disputeService = new DisputeService();
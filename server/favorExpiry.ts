@@ -0,0 +1,98 @@
+// Background sweeper: moves available favors past their expiresAt to "expired" and tells the poster
+import { db } from "./db";
+import { favors } from "@shared/schema";
+import { FavorTransitionError } from "@shared/favorStateMachine";
+import { computeFavorExpiresAt } from "@shared/favorTimeframe";
+import { and, eq, isNull, lte } from "drizzle-orm";
+import { storage } from "./storage";
+import { sendNotification } from "./unifiedNotificationService";
+
+export class FavorExpiryService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  // Favors posted before expiresAt existed get one derived from their original post time
+  async backfillExpiry(): Promise<number> {
+    const missing = await db
+      .select({ id: favors.id, timeframe: favors.timeframe, createdAt: favors.createdAt })
+      .from(favors)
+      .where(isNull(favors.expiresAt));
+
+    for (const favor of missing) {
+      await db
+        .update(favors)
+        .set({ expiresAt: computeFavorExpiresAt(favor.timeframe, favor.createdAt ?? new Date()) })
+        .where(and(eq(favors.id, favor.id), isNull(favors.expiresAt)));
+    }
+    return missing.length;
+  }
+
+  // Expire every available favor whose timeframe has run out; safe to run concurrently
+  async sweep(now: Date = new Date()): Promise<number> {
+    const due = await db
+      .select({ id: favors.id })
+      .from(favors)
+      .where(and(eq(favors.status, "available"), lte(favors.expiresAt, now)));
+
+    let expired = 0;
+    for (const { id } of due) {
+      try {
+        const favor = await storage.transitionFavor(id, "expired", null, "Timeframe elapsed");
+        expired++;
+        await this.notifyPoster(favor.id, favor.posterId, favor.title);
+      } catch (error) {
+        // Accepted or reposted since the query ran
+        if (error instanceof FavorTransitionError) continue;
+        console.error(`Expiring favor ${id} failed:`, error);
+      }
+    }
+    return expired;
+  }
+
+  startSweepJob(intervalMs = 5 * 60 * 1000) {
+    if (this.timer) return;
+
+    const run = async () => {
+      if (this.running) return;
+      this.running = true;
+      try {
+        await this.backfillExpiry();
+        const expired = await this.sweep();
+        if (expired > 0) console.log(`Expired ${expired} favor(s)`);
+      } catch (error) {
+        console.error("Favor expiry job error:", error);
+      } finally {
+        this.running = false;
+      }
+    };
+
+    this.timer = setInterval(run, intervalMs);
+    run();
+  }
+
+  stopSweepJob() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async notifyPoster(favorId: number, posterId: string, title: string) {
+    try {
+      await sendNotification(
+        { type: "users", userIds: [posterId] },
+        {
+          type: "favor",
+          title: "Your favor expired",
+          message: `"${title}" is no longer visible. Tap to repost it.`,
+          favorId,
+          // Opening this URL reposts the favor in one tap (see pages/favor-detail.tsx)
+          url: `/favor/${favorId}?repost=1`,
+          data: { action: "repost" },
+        }
+      );
+    } catch (error) {
+      console.error(`Failed to send expiry notification for favor ${favorId}:`, error);
+    }
+  }
+}
+
+export const favorExpiryService = new FavorExpiryService();
@@ -0,0 +1,146 @@
+// File storage behind uploads - a local directory by default, any S3-compatible bucket (AWS, R2, MinIO) when configured
+import { promises as fs } from "fs";
+import path from "path";
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+
+export interface FileStorage {
+  readonly name: string;
+  /** Store `body` under `key` ("favors/12/abc.webp"), replacing anything already there */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** The object's bytes, or null when there is none; for objects served through the API rather than `url` */
+  get(key: string): Promise<Buffer | null>;
+  /** Remove the object; missing keys are not an error */
+  delete(key: string): Promise<void>;
+  /** URL clients load the object from */
+  url(key: string): string;
+}
+
+// Keys are generated server-side, but never let one escape the storage root
+function assertSafeKey(key: string) {
+  if (!/^[a-z0-9][a-z0-9/_.-]*$/i.test(key) || key.split("/").includes("..")) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+/** Files under a local directory; favor photos are served by Express at `publicPath` (see registerRoutes) */
+export class LocalDiskStorage implements FileStorage {
+  readonly name = "local";
+
+  constructor(readonly directory: string, readonly publicPath = "/uploads") {}
+
+  async put(key: string, body: Buffer, _contentType: string): Promise<void> {
+    assertSafeKey(key);
+    const file = path.join(this.directory, key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    assertSafeKey(key);
+    try {
+      return await fs.readFile(path.join(this.directory, key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    assertSafeKey(key);
+    await fs.rm(path.join(this.directory, key), { force: true });
+  }
+
+  url(key: string): string {
+    return `${this.publicPath}/${key}`;
+  }
+}
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  /** Set for S3-compatible services; omitted for AWS itself */
+  endpoint?: string;
+  /** Public base URL of the bucket (or a CDN in front of it) */
+  publicUrl?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+/**
+ * An S3 bucket or S3-compatible store; favor photos (favors/) must be publicly readable at `publicUrl`,
+ * chat images (chat/) must not be - they are only served through the API
+ */
+export class S3Storage implements FileStorage {
+  readonly name = "s3";
+  private client: S3Client;
+
+  constructor(private config: S3StorageConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      // Most S3-compatible services only support path-style addressing
+      forcePathStyle: !!config.endpoint,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    assertSafeKey(key);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      // Keys are never reused, so the objects never change
+      CacheControl: "public, max-age=31536000, immutable",
+    }));
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    assertSafeKey(key);
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.config.bucket, Key: key }));
+      return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : null;
+    } catch (error) {
+      if (error instanceof Error && error.name === "NoSuchKey") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    assertSafeKey(key);
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.config.bucket, Key: key }));
+  }
+
+  url(key: string): string {
+    const base = this.config.publicUrl
+      ?? (this.config.endpoint
+        ? `${this.config.endpoint}/${this.config.bucket}`
+        : `https://${this.config.bucket}.s3.${this.config.region}.amazonaws.com`);
+    return `${base.replace(/\/+$/, "")}/${key}`;
+  }
+}
+
+/** FILE_STORAGE=s3 with S3_BUCKET etc., otherwise the local UPLOADS_DIR */
+export function createFileStorage(): FileStorage {
+  const provider = process.env.FILE_STORAGE || (process.env.S3_BUCKET ? "s3" : "local");
+  if (provider === "s3") {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error("S3_BUCKET must be set when FILE_STORAGE=s3");
+    }
+    return new S3Storage({
+      bucket,
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      publicUrl: process.env.S3_PUBLIC_URL || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+  return new LocalDiskStorage(path.resolve(process.env.UPLOADS_DIR || "uploads"));
+}
+
+export const fileStorage = createFileStorage();
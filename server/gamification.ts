@@ -6,11 +6,22 @@ interface FavrPointsAction {
   description: string;
 }
 
+export type PointsActionKey =
+  | 'FAVOR_COMPLETED' | 'FAVOR_POSTED' | 'FAVOR_ACCEPTED' | 'FIVE_STAR_RATING' | 'FOUR_STAR_RATING'
+  | 'QUICK_RESPONSE' | 'PROFILE_COMPLETE' | 'FIRST_FAVOR' | 'STREAK_WEEK'
+  | 'FAVOR_CANCELLED' | 'ONE_STAR_RATING' | 'TWO_STAR_RATING' | 'LATE_RESPONSE';
+
+export interface MilestoneUnlock {
+  title: string;
+  unlockedAt: Date | null;
+}
+
 export class GamificationService {
   // Point values for different actions
-  private readonly POINT_VALUES: Record<string, FavrPointsAction> = {
+  readonly POINT_VALUES: Record<PointsActionKey, FavrPointsAction> = {
     FAVOR_COMPLETED: { action: 'favor_completed', points: 50, description: 'Completed a favor' },
     FAVOR_POSTED: { action: 'favor_posted', points: 10, description: 'Posted a new favor' },
+    FAVOR_ACCEPTED: { action: 'favor_accepted', points: 5, description: 'Accepted a favor' },
     FIVE_STAR_RATING: { action: 'five_star_rating', points: 25, description: 'Received 5-star rating' },
     FOUR_STAR_RATING: { action: 'four_star_rating', points: 15, description: 'Received 4-star rating' },
     QUICK_RESPONSE: { action: 'quick_response', points: 5, description: 'Quick response (under 1 hour)' },
@@ -35,6 +46,28 @@ export class GamificationService {
     return { points: 0, reason: 'Normal response time' };
   }
 
+  // Ledger entry for an action; `reason` stores the stable action key
+  getPointsEntry(key: PointsActionKey): { points: number; reason: string } {
+    const { action, points } = this.POINT_VALUES[key];
+    return { points, reason: action };
+  }
+
+  // Human-readable label for a ledger reason
+  describeReason(reason: string): string {
+    const match = Object.values(this.POINT_VALUES).find(value => value.action === reason);
+    return match?.description ?? reason;
+  }
+
+  // Ledger entry for a received rating (null when the rating is worth no points)
+  getRatingPointsEntry(rating: number): { points: number; reason: string } | null {
+    const key: PointsActionKey | null =
+      rating === 5 ? 'FIVE_STAR_RATING' :
+      rating === 4 ? 'FOUR_STAR_RATING' :
+      rating === 2 ? 'TWO_STAR_RATING' :
+      rating === 1 ? 'ONE_STAR_RATING' : null;
+    return key ? this.getPointsEntry(key) : null;
+  }
+
   // Calculate rating points
   calculateRatingPoints(rating: number): { points: number; reason: string } {
     switch(rating) {
@@ -165,6 +198,28 @@ export class GamificationService {
     return achievements;
   }
 
+  // Replay the points ledger (oldest first) to date each milestone unlock
+  getMilestoneUnlocks(pointsHistory: Array<{ points: number; reason: string; createdAt: Date | null }>): MilestoneUnlock[] {
+    const unlocks: MilestoneUnlock[] = [];
+    const completedAction = this.POINT_VALUES.FAVOR_COMPLETED.action;
+    let total = 0;
+    let completed = 0;
+
+    for (const entry of pointsHistory) {
+      const oldTotal = total;
+      total = Math.max(0, total + entry.points);
+      if (entry.reason === completedAction) completed++;
+
+      // Only count favor milestones on the entry that reached them
+      const completedForCheck = entry.reason === completedAction ? completed : -1;
+      for (const title of this.checkMilestones(oldTotal, total, completedForCheck)) {
+        unlocks.push({ title, unlockedAt: entry.createdAt });
+      }
+    }
+
+    return unlocks;
+  }
+
   // Get recommended actions to earn more points
   getRecommendedActions(userStats: any): string[] {
     const recommendations: string[] = [];
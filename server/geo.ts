@@ -0,0 +1,41 @@
+// Distance helpers shared by the nearby search, saved-area alerts and the offline geocoder
+import { sql, type AnyColumn, type SQL } from "drizzle-orm";
+
+export const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.32;
+
+/** Great-circle (haversine) distance in km between a numeric lat/lng column pair and a point */
+export function distanceKmSql(latColumn: AnyColumn, lngColumn: AnyColumn, lat: number, lng: number): SQL<number> {
+  return sql<number>`(${EARTH_RADIUS_KM} * 2 * asin(least(1, sqrt(
+    power(sin(radians(${latColumn}::float8 - ${lat}) / 2), 2) +
+    cos(radians(${lat})) * cos(radians(${latColumn}::float8)) *
+    power(sin(radians(${lngColumn}::float8 - ${lng}) / 2), 2)
+  ))))`.mapWith(Number);
+}
+
+/** Great-circle (haversine) distance in km between two points, in process */
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const a = Math.sin(toRad(lat2 - lat1) / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(toRad(lng2 - lng1) / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Box around the point that contains the whole radius, for an indexed prefilter.
+ * The longitude range is omitted near the poles and across the antimeridian, where it narrows nothing down.
+ */
+export function boundingBox(lat: number, lng: number, radiusKm: number): {
+  minLat: number;
+  maxLat: number;
+  lng?: { min: number; max: number };
+} {
+  const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+  const lngDelta = latDelta / Math.cos(lat * Math.PI / 180);
+  const wraps = Math.abs(lat) + latDelta >= 90 || Math.abs(lng) + lngDelta >= 180;
+  return {
+    minLat: lat - latDelta,
+    maxLat: lat + latDelta,
+    lng: wraps ? undefined : { min: lng - lngDelta, max: lng + lngDelta },
+  };
+}
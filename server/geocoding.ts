@@ -1,80 +1,293 @@
+// Geocoding behind one interface - Mapbox when a token is configured, the bundled offline dataset everywhere else
 import fetch from 'node-fetch';
+import type { GeocodedPlace } from "@shared/locationUtils";
+import { distanceKm } from "./geo";
+import { OFFLINE_COUNTRIES, OFFLINE_PLACES, type OfflinePlace } from "./geocodingData";
 
-interface MapboxReverseGeocodeResponse {
-  features: Array<{
-    place_name: string;
-    context: Array<{
-      id: string;
-      text: string;
-    }>;
-  }>;
+export interface GeocodeOptions {
+  limit?: number;
+  /** Rank results close to this point first */
+  near?: { latitude: number; longitude: number };
+  /** Rank results in this country (ISO alpha-2) first */
+  preferCountry?: string;
 }
 
-export async function getCountryFromCoordinates(latitude: number, longitude: number): Promise<string | null> {
-  const mapboxToken = process.env.VITE_MAPBOX_TOKEN;
-  if (!mapboxToken) {
-    console.warn('VITE_MAPBOX_TOKEN not available for reverse geocoding');
-    return null;
+export interface Geocoder {
+  readonly name: string;
+  /** Places matching a full address or place name */
+  forward(query: string, options?: GeocodeOptions): Promise<GeocodedPlace[]>;
+  /** The most specific known place at a point */
+  reverse(latitude: number, longitude: number): Promise<GeocodedPlace | null>;
+  /** Suggestions while the user is still typing */
+  autocomplete(query: string, options?: GeocodeOptions): Promise<GeocodedPlace[]>;
+}
+
+/** The label shown instead of an exact address: neighborhood, else city, else country */
+export function areaLabel(place: GeocodedPlace | null): string | null {
+  return place?.area ?? place?.city ?? place?.country ?? null;
+}
+
+function placeLabel(parts: Array<string | null>): string {
+  // "Luxembourg, Luxembourg" reads as a typo
+  const cleaned: string[] = [];
+  parts.forEach(part => {
+    if (part && part.toLowerCase() !== cleaned[cleaned.length - 1]?.toLowerCase()) cleaned.push(part);
+  });
+  return cleaned.join(", ");
+}
+
+interface MapboxContext {
+  id: string; // "neighborhood.123", "place.456", "country.789", ...
+  text: string;
+  short_code?: string;
+}
+
+interface MapboxFeature extends MapboxContext {
+  place_name: string;
+  matching_place_name?: string;
+  center: [number, number];
+  properties?: { short_code?: string };
+  context?: MapboxContext[];
+}
+
+interface MapboxResponse {
+  features?: MapboxFeature[];
+  message?: string;
+}
+
+export class MapboxGeocoder implements Geocoder {
+  readonly name = "mapbox";
+  private readonly baseUrl = "https://api.mapbox.com/geocoding/v5/mapbox.places";
+
+  constructor(private readonly token: string) {}
+
+  async forward(query: string, options: GeocodeOptions = {}): Promise<GeocodedPlace[]> {
+    const features = await this.search(query, options.limit ?? 5, options, false);
+    return features.map(feature => this.toPlace(feature));
   }
 
-  try {
-    const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${longitude},${latitude}.json?access_token=${mapboxToken}&types=country`;
-    
-    const response = await fetch(url);
-    const data = await response.json() as MapboxReverseGeocodeResponse;
-    
-    if (data.features && data.features.length > 0) {
-      const country = data.features[0].text || data.features[0].place_name;
-      return country;
+  async reverse(latitude: number, longitude: number): Promise<GeocodedPlace | null> {
+    const features = await this.request(`${longitude},${latitude}`, {
+      types: "address,neighborhood,locality,place,country",
+    });
+    return features.length > 0 ? { ...this.toPlace(features[0]), latitude, longitude } : null;
+  }
+
+  async autocomplete(query: string, options: GeocodeOptions = {}): Promise<GeocodedPlace[]> {
+    const limit = options.limit ?? 8;
+    // Preferred-country results first, then everything else, like the original Luxembourg-first search
+    const [preferred, general] = await Promise.all([
+      options.preferCountry ? this.search(query, 5, { ...options, country: options.preferCountry }, true) : Promise.resolve([]),
+      this.search(query, limit, options, true),
+    ]);
+
+    const seen = new Set<string>();
+    return [...preferred, ...general]
+      .filter(feature => !seen.has(feature.id) && !!seen.add(feature.id))
+      .slice(0, limit)
+      .map(feature => this.toPlace(feature));
+  }
+
+  private search(query: string, limit: number, options: GeocodeOptions & { country?: string }, autocomplete: boolean): Promise<MapboxFeature[]> {
+    return this.request(encodeURIComponent(query), {
+      types: "address,poi,place,locality,neighborhood",
+      limit: String(limit),
+      autocomplete: String(autocomplete),
+      ...(options.country && { country: options.country }),
+      ...(options.near && { proximity: `${options.near.longitude},${options.near.latitude}` }),
+    });
+  }
+
+  private async request(path: string, params: Record<string, string>): Promise<MapboxFeature[]> {
+    const query = new URLSearchParams({ ...params, language: "en", access_token: this.token });
+    const response = await fetch(`${this.baseUrl}/${path}.json?${query}`);
+    const data = await response.json() as MapboxResponse;
+    if (!response.ok) {
+      throw new Error(`Mapbox geocoding ${response.status}: ${data.message ?? response.statusText}`);
     }
-    
-    return null;
-  } catch (error) {
-    console.error('Error reverse geocoding country:', error);
-    return null;
+    return data.features ?? [];
+  }
+
+  private toPlace(feature: MapboxFeature): GeocodedPlace {
+    const place: GeocodedPlace = {
+      label: placeLabel((feature.matching_place_name || feature.place_name).split(", ")),
+      latitude: feature.center[1],
+      longitude: feature.center[0],
+      country: null,
+      countryCode: null,
+      city: null,
+      area: null,
+    };
+
+    // The feature itself is the most specific level, its context the enclosing ones
+    const levels: MapboxContext[] = [{ ...feature, short_code: feature.properties?.short_code }, ...(feature.context ?? [])];
+    levels.forEach(level => {
+      const type = level.id.split(".")[0];
+      if (type === "neighborhood" || (type === "locality" && !place.area)) place.area = level.text;
+      if (type === "place") place.city = level.text;
+      if (type === "country") {
+        place.country = level.text;
+        place.countryCode = level.short_code?.toLowerCase() ?? null;
+      }
+    });
+    return place;
   }
 }
 
-export async function getCityAndCountryFromCoordinates(latitude: number, longitude: number): Promise<{ city: string | null; country: string | null }> {
-  const mapboxToken = process.env.VITE_MAPBOX_TOKEN;
-  if (!mapboxToken) {
-    console.warn('VITE_MAPBOX_TOKEN not available for reverse geocoding');
-    return { city: null, country: null };
+/** Bundled dataset (server/geocodingData.ts): city and neighborhood level only, no street addresses */
+export class OfflineGeocoder implements Geocoder {
+  readonly name = "offline";
+
+  async forward(query: string, options: GeocodeOptions = {}): Promise<GeocodedPlace[]> {
+    return this.match(query, options, false);
   }
 
-  try {
-    const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${longitude},${latitude}.json?access_token=${mapboxToken}&types=place,country`;
-    
-    const response = await fetch(url);
-    const data = await response.json() as MapboxReverseGeocodeResponse;
-    
-    let city: string | null = null;
-    let country: string | null = null;
-    
-    if (data.features && data.features.length > 0) {
-      for (const feature of data.features) {
-        if (feature.context) {
-          for (const context of feature.context) {
-            if (context.id.startsWith('country')) {
-              country = context.text;
-            }
-            if (context.id.startsWith('place')) {
-              city = context.text;
-            }
-          }
-        }
-        
-        // If it's a country feature directly
-        if (feature.place_name && !country) {
-          const parts = feature.place_name.split(', ');
-          country = parts[parts.length - 1];
-        }
-      }
+  async reverse(latitude: number, longitude: number): Promise<GeocodedPlace | null> {
+    return this.locate(latitude, longitude);
+  }
+
+  async autocomplete(query: string, options: GeocodeOptions = {}): Promise<GeocodedPlace[]> {
+    return this.match(query, options, true);
+  }
+
+  /** Synchronous reverse lookup, for labelling without a round trip */
+  locate(latitude: number, longitude: number): GeocodedPlace | null {
+    // Neighborhoods win over the city around them, then the closest match
+    const containing = OFFLINE_PLACES
+      .map(place => ({ place, distance: distanceKm(latitude, longitude, place.latitude, place.longitude) }))
+      .filter(({ place, distance }) => distance <= place.radiusKm)
+      .sort((a, b) => Number(!a.place.city) - Number(!b.place.city) || a.distance - b.distance);
+
+    const match = containing[0]?.place;
+    if (match) return { ...this.toPlace(match), latitude, longitude };
+
+    const countryCode = this.countryAt(latitude, longitude);
+    const country = OFFLINE_COUNTRIES.find(c => c.code === countryCode)?.name ?? null;
+    return country ? { label: country, latitude, longitude, country, countryCode, city: null, area: null } : null;
+  }
+
+  private match(query: string, options: GeocodeOptions, prefixOnly: boolean): GeocodedPlace[] {
+    const needle = normalize(query);
+    if (!needle) return [];
+
+    const matches = OFFLINE_PLACES.filter(place => {
+      const name = normalize(place.name);
+      return prefixOnly ? name.startsWith(needle) : name.includes(needle) || needle.includes(name);
+    });
+
+    const rank = (place: OfflinePlace) => [
+      normalize(place.name).startsWith(needle) ? 0 : 1,
+      options.preferCountry && place.countryCode !== options.preferCountry ? 1 : 0,
+      options.near ? distanceKm(options.near.latitude, options.near.longitude, place.latitude, place.longitude) : 0,
+    ];
+    return matches
+      .sort((a, b) => {
+        const ra = rank(a);
+        const rb = rank(b);
+        return ra[0] - rb[0] || ra[1] - rb[1] || ra[2] - rb[2];
+      })
+      .slice(0, options.limit ?? 8)
+      .map(place => this.toPlace(place));
+  }
+
+  private toPlace(place: OfflinePlace): GeocodedPlace {
+    const country = OFFLINE_COUNTRIES.find(c => c.code === place.countryCode)?.name ?? null;
+    const city = place.city ?? place.name;
+    const area = place.city ? place.name : null;
+    return {
+      label: placeLabel([area, city, country]),
+      latitude: place.latitude,
+      longitude: place.longitude,
+      country,
+      countryCode: place.countryCode,
+      city,
+      area,
+    };
+  }
+
+  // Smallest box wins, so Luxembourg beats the neighbors whose boxes overlap it
+  private countryAt(latitude: number, longitude: number): string | null {
+    const area = ([minLat, minLng, maxLat, maxLng]: number[]) => (maxLat - minLat) * (maxLng - minLng);
+    const candidates = OFFLINE_COUNTRIES
+      .filter(({ bbox: [minLat, minLng, maxLat, maxLng] }) =>
+        latitude >= minLat && latitude <= maxLat && longitude >= minLng && longitude <= maxLng)
+      .sort((a, b) => area(a.bbox) - area(b.bbox));
+    return candidates[0]?.code ?? null;
+  }
+}
+
+function normalize(value: string): string {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+}
+
+/** Keeps answers for a day: place names don't move, and every Mapbox request is billed */
+export class CachingGeocoder implements Geocoder {
+  private readonly TTL_MS = 24 * 60 * 60 * 1000;
+  private readonly MAX_ENTRIES = 1000;
+  private cache = new Map<string, { expiresAt: number; value: unknown }>();
+
+  constructor(private readonly inner: Geocoder) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  forward(query: string, options: GeocodeOptions = {}): Promise<GeocodedPlace[]> {
+    return this.cached(`forward:${query.trim().toLowerCase()}:${this.optionsKey(options)}`, () => this.inner.forward(query, options));
+  }
+
+  reverse(latitude: number, longitude: number): Promise<GeocodedPlace | null> {
+    // ~10m cells: a user's GPS jitter shouldn't cost a request each time
+    return this.cached(`reverse:${latitude.toFixed(4)},${longitude.toFixed(4)}`, () => this.inner.reverse(latitude, longitude));
+  }
+
+  autocomplete(query: string, options: GeocodeOptions = {}): Promise<GeocodedPlace[]> {
+    return this.cached(`autocomplete:${query.trim().toLowerCase()}:${this.optionsKey(options)}`, () => this.inner.autocomplete(query, options));
+  }
+
+  private optionsKey(options: GeocodeOptions): string {
+    // Proximity is a ranking hint, ~1km precision is plenty for the cache key
+    const near = options.near ? `${options.near.latitude.toFixed(2)},${options.near.longitude.toFixed(2)}` : "";
+    return `${options.limit ?? ""}:${options.preferCountry ?? ""}:${near}`;
+  }
+
+  private async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const hit = this.cache.get(key);
+    if (hit && hit.expiresAt > Date.now()) return hit.value as T;
+
+    const value = await load();
+    this.cache.delete(key);
+    if (this.cache.size >= this.MAX_ENTRIES) {
+      // Maps iterate in insertion order: drop the oldest entry
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    this.cache.set(key, { expiresAt: Date.now() + this.TTL_MS, value });
+    return value;
+  }
+}
+
+export function createGeocoder(): Geocoder {
+  const token = process.env.MAPBOX_TOKEN || process.env.VITE_MAPBOX_TOKEN;
+  const provider = process.env.GEOCODER || (token ? "mapbox" : "offline");
+  if (provider === "mapbox") {
+    if (!token) {
+      throw new Error("MAPBOX_TOKEN must be set when GEOCODER=mapbox");
     }
-    
-    return { city, country };
+    return new MapboxGeocoder(token);
+  }
+  return new OfflineGeocoder();
+}
+
+export const offlineGeocoder = new OfflineGeocoder();
+export const geocoder: Geocoder = new CachingGeocoder(createGeocoder());
+
+/** Reverse geocode with the configured provider, falling back to the offline dataset when it fails */
+export async function reverseGeocode(latitude: number, longitude: number): Promise<GeocodedPlace | null> {
+  try {
+    return await geocoder.reverse(latitude, longitude) ?? offlineGeocoder.locate(latitude, longitude);
   } catch (error) {
     console.error('Error reverse geocoding location:', error);
-    return { city: null, country: null };
+    return offlineGeocoder.locate(latitude, longitude);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,115 @@
+// Bundled place data for the offline geocoder: country bounding boxes, and cities/neighborhoods as circles
+// around their center. Coarse on purpose - enough to label areas and run tests without network access.
+
+export interface OfflineCountry {
+  code: string; // ISO 3166-1 alpha-2, lower case
+  name: string;
+  /** [minLat, minLng, maxLat, maxLng] */
+  bbox: [number, number, number, number];
+}
+
+export interface OfflinePlace {
+  name: string;
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+  /** Set for neighborhoods: the city they belong to */
+  city?: string;
+}
+
+export const OFFLINE_COUNTRIES: OfflineCountry[] = [
+  { code: "lu", name: "Luxembourg", bbox: [49.447, 5.736, 50.183, 6.531] },
+  { code: "be", name: "Belgium", bbox: [49.497, 2.546, 51.505, 6.408] },
+  { code: "nl", name: "Netherlands", bbox: [50.75, 3.358, 53.555, 7.227] },
+  { code: "de", name: "Germany", bbox: [47.27, 5.866, 55.099, 15.042] },
+  { code: "fr", name: "France", bbox: [41.333, -5.142, 51.089, 9.56] },
+  { code: "se", name: "Sweden", bbox: [55.337, 10.963, 69.06, 24.167] },
+];
+
+const luxembourgCity = (name: string, latitude: number, longitude: number): OfflinePlace =>
+  ({ name, countryCode: "lu", latitude, longitude, radiusKm: 1.2, city: "Luxembourg" });
+
+export const OFFLINE_PLACES: OfflinePlace[] = [
+  // Luxembourg City neighborhoods
+  luxembourgCity("Ville Haute", 49.6116, 6.13),
+  luxembourgCity("Gare", 49.6, 6.133),
+  luxembourgCity("Bonnevoie", 49.596, 6.139),
+  luxembourgCity("Kirchberg", 49.627, 6.16),
+  luxembourgCity("Hollerich", 49.599, 6.116),
+  luxembourgCity("Cessange", 49.588, 6.1),
+  luxembourgCity("Merl", 49.604, 6.1),
+  luxembourgCity("Belair", 49.611, 6.111),
+  luxembourgCity("Limpertsberg", 49.62, 6.122),
+  luxembourgCity("Rollingergrund", 49.619, 6.104),
+  luxembourgCity("Beggen", 49.645, 6.13),
+  luxembourgCity("Dommeldange", 49.638, 6.138),
+  luxembourgCity("Eich", 49.63, 6.132),
+  luxembourgCity("Muhlenbach", 49.628, 6.119),
+  luxembourgCity("Neudorf", 49.62, 6.162),
+  luxembourgCity("Pfaffenthal", 49.617, 6.133),
+  luxembourgCity("Weimershof", 49.624, 6.172),
+  luxembourgCity("Cents", 49.615, 6.168),
+  luxembourgCity("Hamm", 49.61, 6.175),
+  luxembourgCity("Pulvermuhl", 49.609, 6.156),
+  luxembourgCity("Clausen", 49.613, 6.142),
+  luxembourgCity("Grund", 49.608, 6.135),
+  luxembourgCity("Gasperich", 49.584, 6.124),
+
+  // Luxembourg
+  { name: "Luxembourg", countryCode: "lu", latitude: 49.6116, longitude: 6.1319, radiusKm: 6 },
+  { name: "Esch-sur-Alzette", countryCode: "lu", latitude: 49.4958, longitude: 5.9806, radiusKm: 4 },
+  { name: "Differdange", countryCode: "lu", latitude: 49.5242, longitude: 5.8914, radiusKm: 4 },
+  { name: "Dudelange", countryCode: "lu", latitude: 49.4806, longitude: 6.0875, radiusKm: 3 },
+  { name: "Sanem", countryCode: "lu", latitude: 49.5481, longitude: 5.9289, radiusKm: 3 },
+  { name: "Ettelbruck", countryCode: "lu", latitude: 49.8475, longitude: 6.1042, radiusKm: 3 },
+  { name: "Diekirch", countryCode: "lu", latitude: 49.8686, longitude: 6.1589, radiusKm: 3 },
+  { name: "Wiltz", countryCode: "lu", latitude: 49.9661, longitude: 5.9325, radiusKm: 3 },
+  { name: "Echternach", countryCode: "lu", latitude: 49.8117, longitude: 6.4217, radiusKm: 3 },
+  { name: "Mersch", countryCode: "lu", latitude: 49.7489, longitude: 6.1061, radiusKm: 3 },
+  { name: "Remich", countryCode: "lu", latitude: 49.545, longitude: 6.3667, radiusKm: 2 },
+  { name: "Grevenmacher", countryCode: "lu", latitude: 49.68, longitude: 6.44, radiusKm: 2 },
+  { name: "Strassen", countryCode: "lu", latitude: 49.6206, longitude: 6.0733, radiusKm: 2 },
+  { name: "Bertrange", countryCode: "lu", latitude: 49.6111, longitude: 6.05, radiusKm: 2 },
+  { name: "Hesperange", countryCode: "lu", latitude: 49.5689, longitude: 6.1511, radiusKm: 2 },
+
+  // Sweden
+  { name: "Stockholm", countryCode: "se", latitude: 59.3293, longitude: 18.0686, radiusKm: 15 },
+  { name: "Göteborg", countryCode: "se", latitude: 57.7089, longitude: 11.9746, radiusKm: 12 },
+  { name: "Malmö", countryCode: "se", latitude: 55.605, longitude: 13.0038, radiusKm: 10 },
+  { name: "Uppsala", countryCode: "se", latitude: 59.8586, longitude: 17.6389, radiusKm: 8 },
+  { name: "Linköping", countryCode: "se", latitude: 58.4108, longitude: 15.6214, radiusKm: 7 },
+  { name: "Västerås", countryCode: "se", latitude: 59.6099, longitude: 16.5448, radiusKm: 7 },
+  { name: "Örebro", countryCode: "se", latitude: 59.2753, longitude: 15.2134, radiusKm: 7 },
+  { name: "Norrköping", countryCode: "se", latitude: 58.5877, longitude: 16.1924, radiusKm: 7 },
+  { name: "Helsingborg", countryCode: "se", latitude: 56.0465, longitude: 12.6945, radiusKm: 7 },
+  { name: "Jönköping", countryCode: "se", latitude: 57.7826, longitude: 14.1618, radiusKm: 7 },
+  { name: "Umeå", countryCode: "se", latitude: 63.8258, longitude: 20.263, radiusKm: 7 },
+  { name: "Lund", countryCode: "se", latitude: 55.7047, longitude: 13.191, radiusKm: 5 },
+  { name: "Borås", countryCode: "se", latitude: 57.721, longitude: 12.9401, radiusKm: 6 },
+  { name: "Sundsvall", countryCode: "se", latitude: 62.3908, longitude: 17.3069, radiusKm: 6 },
+  { name: "Gävle", countryCode: "se", latitude: 60.6749, longitude: 17.1413, radiusKm: 6 },
+  { name: "Trollhättan", countryCode: "se", latitude: 58.2837, longitude: 12.2886, radiusKm: 5 },
+  { name: "Eskilstuna", countryCode: "se", latitude: 59.3666, longitude: 16.5077, radiusKm: 6 },
+  { name: "Karlstad", countryCode: "se", latitude: 59.4022, longitude: 13.5115, radiusKm: 6 },
+
+  // Neighboring countries
+  { name: "Arlon", countryCode: "be", latitude: 49.6833, longitude: 5.8167, radiusKm: 4 },
+  { name: "Liège", countryCode: "be", latitude: 50.6326, longitude: 5.5797, radiusKm: 7 },
+  { name: "Brussels", countryCode: "be", latitude: 50.8503, longitude: 4.3517, radiusKm: 10 },
+  { name: "Antwerp", countryCode: "be", latitude: 51.2194, longitude: 4.4025, radiusKm: 8 },
+  { name: "Amsterdam", countryCode: "nl", latitude: 52.3676, longitude: 4.9041, radiusKm: 10 },
+  { name: "Thionville", countryCode: "fr", latitude: 49.3579, longitude: 6.1683, radiusKm: 4 },
+  { name: "Metz", countryCode: "fr", latitude: 49.1193, longitude: 6.1757, radiusKm: 6 },
+  { name: "Nancy", countryCode: "fr", latitude: 48.6921, longitude: 6.1844, radiusKm: 6 },
+  { name: "Strasbourg", countryCode: "fr", latitude: 48.5734, longitude: 7.7521, radiusKm: 8 },
+  { name: "Paris", countryCode: "fr", latitude: 48.8566, longitude: 2.3522, radiusKm: 10 },
+  { name: "Lyon", countryCode: "fr", latitude: 45.764, longitude: 4.8357, radiusKm: 10 },
+  { name: "Trier", countryCode: "de", latitude: 49.7499, longitude: 6.6371, radiusKm: 6 },
+  { name: "Saarbrücken", countryCode: "de", latitude: 49.2402, longitude: 6.9969, radiusKm: 7 },
+  { name: "Cologne", countryCode: "de", latitude: 50.9375, longitude: 6.9603, radiusKm: 10 },
+  { name: "Frankfurt", countryCode: "de", latitude: 50.1109, longitude: 8.6821, radiusKm: 10 },
+  { name: "Munich", countryCode: "de", latitude: 48.1351, longitude: 11.582, radiusKm: 12 },
+  { name: "Hamburg", countryCode: "de", latitude: 53.5511, longitude: 9.9937, radiusKm: 12 },
+  { name: "Berlin", countryCode: "de", latitude: 52.52, longitude: 13.405, radiusKm: 20 },
+];
@@ -0,0 +1,102 @@
+// In-app inbox: stores notifications per user and pushes unread counts over the chat WebSocket
+import { db } from "./db";
+import { inAppNotifications, type InAppNotification, type OutboxNotificationPayload } from "@shared/schema";
+import { and, count, desc, eq, isNull, lt, sql, type SQL } from "drizzle-orm";
+import { databaseChatService } from "./databaseChatService";
+
+export interface InboxQuery {
+  limit?: number;
+  /** Id of the last notification of the previous page */
+  before?: number;
+  unreadOnly?: boolean;
+  /** Only notifications whose data.type matches, e.g. "new_favor" */
+  dataType?: string;
+}
+
+export class InAppNotificationService {
+  async store(userIds: string[], payload: OutboxNotificationPayload): Promise<InAppNotification[]> {
+    const recipients = userIds.map(id => parseInt(id)).filter(Number.isFinite);
+    if (recipients.length === 0) return [];
+
+    const stored = await db
+      .insert(inAppNotifications)
+      .values(recipients.map(userId => ({
+        userId,
+        type: payload.type,
+        title: payload.title,
+        message: payload.message,
+        url: payload.url ?? null,
+        favorId: payload.favorId ?? null,
+        chatId: payload.chatId ?? null,
+        data: payload.data ?? null,
+      })))
+      .returning();
+
+    for (const notification of stored) {
+      await this.pushUnreadCount(notification.userId, notification);
+    }
+    return stored;
+  }
+
+  async list(userId: number, query: InboxQuery = {}): Promise<InAppNotification[]> {
+    const conditions: SQL[] = [eq(inAppNotifications.userId, userId)];
+    if (query.before) conditions.push(lt(inAppNotifications.id, query.before));
+    if (query.unreadOnly) conditions.push(isNull(inAppNotifications.readAt));
+    if (query.dataType) conditions.push(sql`${inAppNotifications.data}->>'type' = ${query.dataType}`);
+
+    return await db
+      .select()
+      .from(inAppNotifications)
+      .where(and(...conditions))
+      .orderBy(desc(inAppNotifications.id))
+      .limit(Math.min(query.limit ?? 30, 100));
+  }
+
+  async getUnreadCount(userId: number): Promise<number> {
+    const [row] = await db
+      .select({ unread: count() })
+      .from(inAppNotifications)
+      .where(and(eq(inAppNotifications.userId, userId), isNull(inAppNotifications.readAt)));
+    return row?.unread ?? 0;
+  }
+
+  /** Returns false when the notification does not exist or belongs to someone else */
+  async markRead(userId: number, notificationId: number): Promise<boolean> {
+    const [notification] = await db
+      .select({ id: inAppNotifications.id, readAt: inAppNotifications.readAt })
+      .from(inAppNotifications)
+      .where(and(eq(inAppNotifications.id, notificationId), eq(inAppNotifications.userId, userId)));
+    if (!notification) return false;
+
+    if (!notification.readAt) {
+      await db
+        .update(inAppNotifications)
+        .set({ readAt: new Date() })
+        .where(eq(inAppNotifications.id, notificationId));
+      await this.pushUnreadCount(userId);
+    }
+    return true;
+  }
+
+  async markAllRead(userId: number): Promise<number> {
+    const updated = await db
+      .update(inAppNotifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(inAppNotifications.userId, userId), isNull(inAppNotifications.readAt)))
+      .returning({ id: inAppNotifications.id });
+    if (updated.length > 0) await this.pushUnreadCount(userId);
+    return updated.length;
+  }
+
+  /** Sends { type: "notifications_unread", count, notification? } to the user's open sockets */
+  async pushUnreadCount(userId: number, notification?: InAppNotification) {
+    try {
+      const unread = await this.getUnreadCount(userId);
+      databaseChatService.sendToUser(String(userId), { type: "notifications_unread", count: unread, notification });
+    } catch (error) {
+      console.error(`Failed to push unread notification count to user ${userId}:`, error);
+    }
+  }
+}
+
+export const inAppNotificationService = new InAppNotificationService();
@@ -2,11 +2,21 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { databaseChatService } from "./databaseChatService";
+import { setupAuth } from "./auth";
+import { paymentService } from "./payments";
+import { favorExpiryService } from "./favorExpiry";
+import { notificationDigestService } from "./notificationDigest";
+import { notificationOutboxService } from "./notificationOutbox";
+import { storage } from "./storage";
+import { categoryService } from "./categories";
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Cookie sessions; resolves req.userId for every request
+setupAuth(app);
+
 // Serve static files from attached_assets
 app.use('/attached_assets', express.static('attached_assets'));
 
@@ -41,11 +51,42 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Default category taxonomy; rows edited in the database are kept as they are. Favor validation
+  // and moderation read it, so the server does not start without it
+  try {
+    const seeded = await categoryService.seedDefaults();
+    if (seeded > 0) log(`seeded ${seeded} categor${seeded === 1 ? "y" : "ies"}`);
+  } catch (error) {
+    console.error("Category seeding failed:", error);
+    process.exit(1);
+  }
+
   const server = await registerRoutes(app);
 
   // Initialize database-backed chat service for scalability
   databaseChatService.initialize(server);
 
+  // Persisted escrow auto-release (replaces the old in-memory interval)
+  paymentService.startAutoReleaseJob();
+
+  // Move favors past their timeframe to "expired" and offer the poster a repost
+  favorExpiryService.startSweepJob();
+
+  // Deliver nearby-favor alerts held back for digests and quiet hours
+  notificationDigestService.startDigestJob();
+
+  // Push delivery with retries; also picks up rows left pending by a restart
+  notificationOutboxService.startDeliveryJob();
+
+  // Public pins and area labels for favors posted before location privacy, then their text prices
+  // as minor units - the currency follows the country the first step fills in
+  storage.backfillPublicLocations()
+    .then(count => count > 0 && log(`gave ${count} favor(s) a public location`))
+    .catch(error => console.error("Public location backfill failed:", error))
+    .then(() => storage.backfillStructuredPrices())
+    .then(count => count && count > 0 && log(`converted ${count} favor price(s) to minor units`))
+    .catch(error => console.error("Price backfill failed:", error));
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
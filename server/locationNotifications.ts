@@ -1,79 +1,151 @@
 // locationNotifications.ts
-import { storage } from "./storage";
+import { db } from "./db";
+import { alertAreas, users, type AlertArea, type AlertAreaInput, type Favor } from "@shared/schema";
+import { and, eq, gt, gte, lte, ne, or, sql, type SQL } from "drizzle-orm";
 import { sendNotification } from "./unifiedNotificationService";
-
-interface UserLocation {
-  userId: string;
-  latitude: number;
-  longitude: number;
-  lastUpdated: Date;
+import { approxEuroCents } from "@shared/money";
+import { distanceKmSql, boundingBox } from "./geo";
+import { approximateLocation } from "./locationPrivacy";
+
+export class AlertAreaError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = "AlertAreaError";
+  }
 }
 
+type FavorForAlerts = Pick<Favor, "id" | "title" | "latitude" | "longitude" | "category" | "priceCents" | "currency" | "posterId">;
+
 class LocationNotificationService {
-  private userLocations: Map<string, UserLocation> = new Map();
-  private readonly NOTIFICATION_RADIUS_KM = 25;
-
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 6371;
-    const dLat = this.deg2rad(lat2 - lat1);
-    const dLng = this.deg2rad(lng2 - lng1);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.deg2rad(lat1)) *
-      Math.cos(this.deg2rad(lat2)) *
-      Math.sin(dLng / 2) *
-      Math.sin(dLng / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+  private readonly MAX_SAVED_AREAS = 5;
+  // Upper bound of alertAreaSchema.radiusKm, used for the bounding-box prefilter
+  private readonly MAX_RADIUS_KM = 100;
+  private readonly CURRENT_LOCATION_RADIUS_KM = 25;
+  // A device location not refreshed within this window no longer receives alerts
+  private readonly CURRENT_LOCATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+  async listAlertAreas(userId: number): Promise<AlertArea[]> {
+    return await db
+      .select()
+      .from(alertAreas)
+      .where(eq(alertAreas.userId, userId))
+      .orderBy(alertAreas.createdAt);
   }
 
-  private deg2rad(deg: number): number {
-    return deg * (Math.PI / 180);
+  async createAlertArea(userId: number, input: AlertAreaInput): Promise<AlertArea> {
+    const saved = (await this.listAlertAreas(userId)).filter(area => !area.isCurrentLocation);
+    if (saved.length >= this.MAX_SAVED_AREAS) {
+      throw new AlertAreaError(`You can save up to ${this.MAX_SAVED_AREAS} alert areas`, 409);
+    }
+
+    const [area] = await db
+      .insert(alertAreas)
+      .values({
+        userId,
+        label: input.label,
+        latitude: String(input.latitude),
+        longitude: String(input.longitude),
+        radiusKm: input.radiusKm,
+        categories: input.categories,
+        minPriceCents: input.minPriceCents,
+      })
+      .returning();
+    return area;
   }
 
-  updateUserLocation(userId: string, latitude: number, longitude: number) {
-    this.userLocations.set(userId, {
-      userId,
-      latitude,
-      longitude,
-      lastUpdated: new Date(),
-    });
+  async updateAlertArea(userId: number, areaId: number, updates: Partial<AlertAreaInput>): Promise<AlertArea> {
+    const [area] = await db
+      .update(alertAreas)
+      .set({ ...this.toColumns(updates), updatedAt: new Date() })
+      .where(and(eq(alertAreas.id, areaId), eq(alertAreas.userId, userId)))
+      .returning();
+    if (!area) {
+      throw new AlertAreaError("Alert area not found", 404);
+    }
+    return area;
+  }
+
+  async deleteAlertArea(userId: number, areaId: number): Promise<void> {
+    const deleted = await db
+      .delete(alertAreas)
+      .where(and(eq(alertAreas.id, areaId), eq(alertAreas.userId, userId)))
+      .returning({ id: alertAreas.id });
+    if (deleted.length === 0) {
+      throw new AlertAreaError("Alert area not found", 404);
+    }
+  }
+
+  // The device location is one more alert area, moved on every update instead of added
+  async updateUserLocation(userId: string, latitude: number, longitude: number): Promise<AlertArea> {
+    const id = parseInt(userId);
+    const [current] = await db
+      .select()
+      .from(alertAreas)
+      .where(and(eq(alertAreas.userId, id), eq(alertAreas.isCurrentLocation, true)));
+
+    const coordinates = { latitude: String(latitude), longitude: String(longitude), updatedAt: new Date() };
+    const [area] = current
+      ? await db.update(alertAreas).set(coordinates).where(eq(alertAreas.id, current.id)).returning()
+      : await db
+          .insert(alertAreas)
+          .values({
+            ...coordinates,
+            userId: id,
+            label: "Current location",
+            radiusKm: this.CURRENT_LOCATION_RADIUS_KM,
+            isCurrentLocation: true,
+          })
+          .returning();
+
     console.log(`📍 Location updated for ${userId}: lat ${latitude}, lng ${longitude}`);
+    return area;
   }
 
-  private getUsersNearFavor(favorLat: number, favorLng: number): string[] {
-    const nearby: string[] = [];
-    for (const [userId, loc] of this.userLocations.entries()) {
-      const dist = this.calculateDistance(favorLat, favorLng, loc.latitude, loc.longitude);
-      if (dist <= this.NOTIFICATION_RADIUS_KM) {
-        nearby.push(userId);
-      }
+  // Users with notifications on and at least one area covering the favor's public pin, category and price
+  // (matching on the exact spot would let tiny areas narrow it down)
+  private async getUsersForFavor(favor: FavorForAlerts): Promise<string[]> {
+    const { approxLatitude, approxLongitude } = approximateLocation(favor.latitude, favor.longitude);
+    const lat = parseFloat(approxLatitude);
+    const lng = parseFloat(approxLongitude);
+    // Area minimums are in EUR cents
+    const priceCents = approxEuroCents(favor.priceCents, favor.currency);
+    const box = boundingBox(lat, lng, this.MAX_RADIUS_KM);
+    const staleBefore = new Date(Date.now() - this.CURRENT_LOCATION_TTL_MS);
+
+    const conditions: SQL[] = [
+      eq(users.notificationsEnabled, true),
+      ne(alertAreas.userId, parseInt(favor.posterId)),
+      gte(alertAreas.latitude, String(box.minLat)),
+      lte(alertAreas.latitude, String(box.maxLat)),
+      sql`${distanceKmSql(alertAreas.latitude, alertAreas.longitude, lat, lng)} <= ${alertAreas.radiusKm}`,
+      sql`(jsonb_array_length(${alertAreas.categories}) = 0 OR ${alertAreas.categories} ? ${favor.category})`,
+      sql`(${alertAreas.minPriceCents} IS NULL OR ${alertAreas.minPriceCents} <= ${priceCents})`,
+      or(eq(alertAreas.isCurrentLocation, false), gt(alertAreas.updatedAt, staleBefore))!,
+    ];
+    if (box.lng) {
+      conditions.push(gte(alertAreas.longitude, String(box.lng.min)), lte(alertAreas.longitude, String(box.lng.max)));
     }
-    return nearby;
+
+    const rows = await db
+      .selectDistinct({ userId: alertAreas.userId })
+      .from(alertAreas)
+      .innerJoin(users, eq(alertAreas.userId, users.id))
+      .where(and(...conditions));
+    return rows.map(row => String(row.userId));
   }
 
   /**
-   * Notify nearby users about a new favor
-   * @param favorId - Favor ID
-   * @param favorTitle - Favor title
-   * @param favorLat - Favor latitude
-   * @param favorLng - Favor longitude
-   * @param posterId - ID of user posting
-   * @param useOneSignalGeo - If true, offloads geo-filtering to OneSignal
+   * Notify users whose saved alert areas match a new favor
+   * @param favor - The new favor
+   * @param useOneSignalGeo - If true, offloads geo-filtering to OneSignal (ignores saved areas)
    */
-  async notifyNearbyUsers(
-    favorId: number,
-    favorTitle: string,
-    favorLat: number,
-    favorLng: number,
-    posterId: string,
-    useOneSignalGeo: boolean = false
-  ) {
+  async notifyNearbyUsers(favor: FavorForAlerts, useOneSignalGeo: boolean = false) {
+    const favorId = favor.id;
     try {
       const payload = {
         type: "favor" as const,
         title: "New Favor Near You!",
-        message: `"${favorTitle}" was posted in your area`,
+        message: `"${favor.title}" was posted in your area`,
         icon: "/icons/favr.png",
         favorId,
         url: `/favor/${favorId}`,
@@ -81,67 +153,47 @@ class LocationNotificationService {
       };
 
       if (useOneSignalGeo) {
-        // ✅ Let OneSignal handle location targeting
+        // ✅ Let OneSignal handle location targeting (it only gets the public pin)
+        const { approxLatitude, approxLongitude } = approximateLocation(favor.latitude, favor.longitude);
         await sendNotification(
-          { type: "location", lat: favorLat, lng: favorLng, radiusKm: this.NOTIFICATION_RADIUS_KM },
+          {
+            type: "location",
+            lat: parseFloat(approxLatitude),
+            lng: parseFloat(approxLongitude),
+            radiusKm: this.CURRENT_LOCATION_RADIUS_KM,
+          },
           payload
         );
         console.log(`📢 OneSignal geo-notification sent for favor ${favorId}`);
         return;
       }
 
-      // 🔎 Server-side filtering
-      console.log(`Looking for users near [${favorLat},${favorLng}]`);
-
-      const nearbyUsers = this.getUsersNearFavor(favorLat, favorLng);
-      const usersToNotify = nearbyUsers.filter((id) => id !== posterId.toString());
+      // 🔎 Server-side matching against saved alert areas
+      console.log(`Looking for alert areas covering [${favor.latitude},${favor.longitude}]`);
 
+      const usersToNotify = await this.getUsersForFavor(favor);
       if (usersToNotify.length === 0) {
-        console.log("⚠️ No nearby users found");
+        console.log("⚠️ No matching alert areas found");
         return;
       }
 
-      const enabledUsers = await this.filterNotificationEnabledUsers(usersToNotify);
-      if (enabledUsers.length === 0) {
-        console.log("⚠️ No enabled users for location notification");
-        return;
-      }
-
-      await sendNotification({ type: "users", userIds: enabledUsers }, payload);
-      console.log(`✅ Location notification sent to ${enabledUsers.length} users`);
+      await sendNotification({ type: "users", userIds: usersToNotify }, payload);
+      console.log(`✅ Location notification sent to ${usersToNotify.length} users`);
     } catch (error) {
       console.error("❌ Location notification error:", error);
     }
   }
 
-  async filterNotificationEnabledUsers(userIds: string[]): Promise<string[]> {
-    const enabled: string[] = [];
-    for (const id of userIds) {
-      try {
-        const user = await storage.getUser(parseInt(id));
-        if (user?.notificationsEnabled) enabled.push(id);
-      } catch (err) {
-        console.error(`⚠️ Error checking user ${id}:`, err);
-      }
-    }
-    return enabled;
-  }
-
-  cleanupOldLocations() {
-    const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000);
-    for (const [userId, loc] of this.userLocations.entries()) {
-      if (loc.lastUpdated < cutoff) this.userLocations.delete(userId);
-    }
-  }
-
-  getActiveUserCount() {
-    return this.userLocations.size;
+  private toColumns(input: Partial<AlertAreaInput>) {
+    return {
+      ...(input.label !== undefined && { label: input.label }),
+      ...(input.latitude !== undefined && { latitude: String(input.latitude) }),
+      ...(input.longitude !== undefined && { longitude: String(input.longitude) }),
+      ...(input.radiusKm !== undefined && { radiusKm: input.radiusKm }),
+      ...(input.categories !== undefined && { categories: input.categories }),
+      ...(input.minPriceCents !== undefined && { minPriceCents: input.minPriceCents }),
+    };
   }
 }
 
 export const locationNotificationService = new LocationNotificationService();
-
-// Auto-clean old locations
-setInterval(() => {
-  locationNotificationService.cleanupOldLocations();
-}, 60 * 60 * 1000);
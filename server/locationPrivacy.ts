@@ -0,0 +1,67 @@
+// Favor location privacy: everyone but the poster and the accepted helper sees a stable public pin and an area label
+import { createHmac } from "crypto";
+import { generateLocationOffset } from "@shared/locationUtils";
+import { areaLabel, offlineGeocoder } from "./geocoding";
+import type { Favor } from "@shared/schema";
+
+// Keys the offsets; without it the public pin can't be turned back into the exact spot. Its own secret,
+// so a leaked session secret doesn't also unmask locations
+function locationSecret(): string {
+  const secret = process.env.LOCATION_PRIVACY_SECRET;
+  if (!secret && process.env.NODE_ENV === "production") {
+    throw new Error("LOCATION_PRIVACY_SECRET must be set in production");
+  }
+  return secret || "favr-dev-location-secret";
+}
+
+const LOCATION_SECRET = locationSecret();
+
+type LocatedFavor = Pick<Favor, "latitude" | "longitude" | "address" | "areaLabel" | "posterId" | "helperId" | "approxLatitude" | "approxLongitude">;
+
+export type PresentedFavor<T extends LocatedFavor> = Omit<T, "approxLatitude" | "approxLongitude"> & {
+  /** latitude/longitude are the public pin and address is an area label */
+  locationApproximate: boolean;
+};
+
+/**
+ * Public pin for an exact location. Derived from the coordinates rather than drawn at random, so a
+ * favor shows the same pin on every view and several favors posted from one home can't be averaged either.
+ */
+export function approximateLocation(latitude: string | number, longitude: string | number): { approxLatitude: string; approxLongitude: string } {
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+  const digest = createHmac("sha256", LOCATION_SECRET).update(`${lat.toFixed(6)},${lng.toFixed(6)}`).digest();
+  const offset = generateLocationOffset(lat, lng, digest.readUInt32BE(0) / 2 ** 32, digest.readUInt32BE(4) / 2 ** 32);
+  return { approxLatitude: offset.lat.toFixed(6), approxLongitude: offset.lng.toFixed(6) };
+}
+
+/** The poster, and the helper once they accepted it */
+export function canSeeExactLocation(favor: Pick<Favor, "posterId" | "helperId">, viewerId: number | null): boolean {
+  if (viewerId === null) return false;
+  return favor.posterId === String(viewerId) || favor.helperId === viewerId;
+}
+
+/** The favor as the given viewer may see it */
+export function presentFavor<T extends LocatedFavor>(favor: T, viewerId: number | null): PresentedFavor<T> {
+  const { approxLatitude, approxLongitude, ...rest } = favor;
+  if (canSeeExactLocation(favor, viewerId)) {
+    return { ...rest, locationApproximate: false };
+  }
+
+  const pin = approxLatitude && approxLongitude
+    ? { approxLatitude, approxLongitude }
+    : approximateLocation(favor.latitude, favor.longitude);
+  return {
+    ...rest,
+    latitude: pin.approxLatitude,
+    longitude: pin.approxLongitude,
+    address: favor.areaLabel
+      ?? areaLabel(offlineGeocoder.locate(Number(favor.latitude), Number(favor.longitude)))
+      ?? "Unknown location",
+    locationApproximate: true,
+  };
+}
+
+export function presentFavors<T extends LocatedFavor>(favors: T[], viewerId: number | null): PresentedFavor<T>[] {
+  return favors.map(favor => presentFavor(favor, viewerId));
+}
@@ -1,10 +1,15 @@
-// AI Moderation Reporting System
-export interface ModerationEvent {
-  id: string;
-  timestamp: Date;
-  type: 'chat_blocked' | 'favor_blocked' | 'dispute_analyzed' | 'suggestion_given';
+// AI Moderation Reporting System - events persisted in moderation_events, reviewed by admins
+import { db } from "./db";
+import { moderationEvents, type ModerationEventRecord } from "@shared/schema";
+import { and, count, desc, eq, gte, inArray, lte, ne, sql, type SQL } from "drizzle-orm";
+
+export type ModerationEventType = 'chat_blocked' | 'favor_blocked' | 'dispute_analyzed' | 'suggestion_given' | 'image_unchecked';
+export type ModerationEvent = ModerationEventRecord;
+
+export interface ModerationEventInput {
+  type: ModerationEventType;
   severity: 'low' | 'medium' | 'high';
-  userId?: string;
+  userId?: string | number;
   favorId?: number;
   content: string;
   issues: string[];
@@ -12,86 +17,165 @@ export interface ModerationEvent {
   confidence: number;
 }
 
+export interface ModerationEventFilters {
+  userId?: number;
+  favorId?: number;
+  type?: ModerationEventType;
+  severity?: 'low' | 'medium' | 'high';
+  reviewStatus?: 'pending' | 'confirmed' | 'overturned';
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+// Blocks count as strikes unless an admin overturned them
+const STRIKE_TYPES: ModerationEventType[] = ['chat_blocked', 'favor_blocked'];
+const STRIKE_WINDOW_DAYS = 90;
+
 class ModerationReporter {
-  private events: ModerationEvent[] = [];
+  // Never throws: moderation must not fail the request it is moderating
+  async logEvent(event: ModerationEventInput): Promise<ModerationEvent | undefined> {
+    const userId = event.userId !== undefined ? parseInt(String(event.userId)) : NaN;
 
-  logEvent(event: Omit<ModerationEvent, 'id' | 'timestamp'>) {
-    const moderationEvent: ModerationEvent = {
-      id: `mod_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: new Date(),
-      ...event
-    };
+    try {
+      const [moderationEvent] = await db
+        .insert(moderationEvents)
+        .values({
+          ...event,
+          userId: Number.isFinite(userId) ? userId : null,
+          favorId: event.favorId ?? null,
+        })
+        .returning();
 
-    this.events.push(moderationEvent);
-    
-    // Keep only last 1000 events to avoid memory issues
-    if (this.events.length > 1000) {
-      this.events = this.events.slice(-1000);
+      // Log important events
+      if (event.severity === 'high') {
+        console.log('HIGH SEVERITY AI MODERATION EVENT:', moderationEvent);
+      }
+      return moderationEvent;
+    } catch (error) {
+      console.error('Failed to persist moderation event:', error, event);
+      return undefined;
     }
+  }
 
-    // Log important events
-    if (event.severity === 'high') {
-      console.log('HIGH SEVERITY AI MODERATION EVENT:', moderationEvent);
-    }
+  async listEvents(filters: ModerationEventFilters = {}): Promise<ModerationEvent[]> {
+    return await db
+      .select()
+      .from(moderationEvents)
+      .where(this.buildWhere(filters))
+      .orderBy(desc(moderationEvents.createdAt))
+      .limit(Math.min(filters.limit ?? 50, 200))
+      .offset(filters.offset ?? 0);
+  }
+
+  // Blocks awaiting an admin decision, oldest first
+  async getReviewQueue(limit = 50): Promise<ModerationEvent[]> {
+    return await db
+      .select()
+      .from(moderationEvents)
+      .where(and(eq(moderationEvents.reviewStatus, 'pending'), inArray(moderationEvents.type, STRIKE_TYPES)))
+      .orderBy(moderationEvents.createdAt)
+      .limit(Math.min(limit, 200));
+  }
+
+  async reviewEvent(
+    eventId: number,
+    reviewerId: number,
+    decision: 'confirmed' | 'overturned',
+    note?: string
+  ): Promise<ModerationEvent | undefined> {
+    const [reviewed] = await db
+      .update(moderationEvents)
+      .set({ reviewStatus: decision, reviewedBy: reviewerId, reviewNote: note ?? null, reviewedAt: new Date() })
+      .where(eq(moderationEvents.id, eventId))
+      .returning();
+    return reviewed;
+  }
+
+  /** Recent blocks against the user that an admin has not overturned */
+  async getStrikeCount(userId: string | number): Promise<number> {
+    const id = parseInt(String(userId));
+    if (!Number.isFinite(id)) return 0;
+
+    const since = new Date(Date.now() - STRIKE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const [row] = await db
+      .select({ strikes: count() })
+      .from(moderationEvents)
+      .where(and(
+        eq(moderationEvents.userId, id),
+        inArray(moderationEvents.type, STRIKE_TYPES),
+        ne(moderationEvents.reviewStatus, 'overturned'),
+        gte(moderationEvents.createdAt, since)
+      ));
+    return row?.strikes ?? 0;
   }
 
-  getReport(): {
+  async getReport(filters: ModerationEventFilters = {}): Promise<{
     totalEvents: number;
     eventsByType: Record<string, number>;
     eventsBySeverity: Record<string, number>;
     recentEvents: ModerationEvent[];
     topIssues: Array<{ issue: string; count: number }>;
-  } {
+  }> {
+    const where = this.buildWhere(filters);
+
+    const byType = await db
+      .select({ key: moderationEvents.type, count: count() })
+      .from(moderationEvents)
+      .where(where)
+      .groupBy(moderationEvents.type);
+
+    const bySeverity = await db
+      .select({ key: moderationEvents.severity, count: count() })
+      .from(moderationEvents)
+      .where(where)
+      .groupBy(moderationEvents.severity);
+
+    const issue = sql<string>`jsonb_array_elements_text(${moderationEvents.issues})`;
+    const topIssues = await db
+      .select({ issue, count: count() })
+      .from(moderationEvents)
+      .where(where)
+      .groupBy(sql`1`)
+      .orderBy(desc(count()))
+      .limit(10);
+
     const eventsByType: Record<string, number> = {};
+    byType.forEach(row => { eventsByType[row.key] = row.count; });
     const eventsBySeverity: Record<string, number> = {};
-    const issueCount: Record<string, number> = {};
-
-    this.events.forEach(event => {
-      // Count by type
-      eventsByType[event.type] = (eventsByType[event.type] || 0) + 1;
-      
-      // Count by severity
-      eventsBySeverity[event.severity] = (eventsBySeverity[event.severity] || 0) + 1;
-      
-      // Count issues
-      event.issues.forEach(issue => {
-        issueCount[issue] = (issueCount[issue] || 0) + 1;
-      });
-    });
-
-    // Sort issues by frequency
-    const topIssues = Object.entries(issueCount)
-      .map(([issue, count]) => ({ issue, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 10);
+    bySeverity.forEach(row => { eventsBySeverity[row.key] = row.count; });
 
     return {
-      totalEvents: this.events.length,
+      totalEvents: byType.reduce((sum, row) => sum + row.count, 0),
       eventsByType,
       eventsBySeverity,
-      recentEvents: this.events.slice(-50), // Last 50 events
+      recentEvents: await this.listEvents({ ...filters, limit: 50, offset: 0 }),
       topIssues
     };
   }
 
   // Get events for a specific user
-  getUserEvents(userId: string): ModerationEvent[] {
-    return this.events.filter(event => event.userId === userId);
+  async getUserEvents(userId: number): Promise<ModerationEvent[]> {
+    return this.listEvents({ userId, limit: 200 });
   }
 
   // Get events for a specific favor
-  getFavorEvents(favorId: number): ModerationEvent[] {
-    return this.events.filter(event => event.favorId === favorId);
+  async getFavorEvents(favorId: number): Promise<ModerationEvent[]> {
+    return this.listEvents({ favorId, limit: 200 });
   }
 
-  // Clear old events
-  cleanup(daysToKeep: number = 7) {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
-    
-    this.events = this.events.filter(event => event.timestamp > cutoffDate);
-    console.log(`Cleaned up moderation events, ${this.events.length} events remaining`);
+  private buildWhere(filters: ModerationEventFilters): SQL | undefined {
+    const conditions: SQL[] = [];
+    if (filters.userId !== undefined) conditions.push(eq(moderationEvents.userId, filters.userId));
+    if (filters.favorId !== undefined) conditions.push(eq(moderationEvents.favorId, filters.favorId));
+    if (filters.type) conditions.push(eq(moderationEvents.type, filters.type));
+    if (filters.severity) conditions.push(eq(moderationEvents.severity, filters.severity));
+    if (filters.reviewStatus) conditions.push(eq(moderationEvents.reviewStatus, filters.reviewStatus));
+    if (filters.from) conditions.push(gte(moderationEvents.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(moderationEvents.createdAt, filters.to));
+    return conditions.length ? and(...conditions) : undefined;
   }
 }
 
-export const moderationReporter = new ModerationReporter();
\ No newline at end of file
+export const moderationReporter = new ModerationReporter();
@@ -0,0 +1,192 @@
+// Local, deterministic moderation rules: run before the AI and stand in for it when OpenAI is unavailable
+import { approxEuroCents } from "@shared/money";
+
+export type RuleSeverity = 'low' | 'medium' | 'high';
+
+export interface RuleHit {
+  rule: string;
+  severity: RuleSeverity;
+  /** Hits that are never acceptable block without asking the AI */
+  blocks: boolean;
+}
+
+export interface RuleVerdict {
+  hits: RuleHit[];
+  /** "block" short-circuits the AI; "review" and "clean" still go to the AI when it is available */
+  decision: 'block' | 'review' | 'clean';
+  severity: RuleSeverity;
+  /** Issue labels as stored in ModerationEvent.issues, prefixed with "rule:" */
+  issues: string[];
+  /** Shown to the author when the rules alone decide */
+  suggestion?: string;
+}
+
+const KEYWORD_RULES: Array<{ rule: string; severity: RuleSeverity; blocks: boolean; pattern: RegExp }> = [
+  {
+    rule: 'financial_scam',
+    severity: 'high',
+    blocks: true,
+    pattern: /\b(western union|moneygram|gift ?cards?|wire (me|the money)|send (the )?money first|get rich|guaranteed (return|profit)|double your money)\b/i,
+  },
+  {
+    rule: 'crypto_payment',
+    severity: 'medium',
+    blocks: false,
+    pattern: /\b(bitcoin|btc|crypto(currency)?|usdt|ethereum)\b/i,
+  },
+  {
+    rule: 'illegal_goods',
+    severity: 'high',
+    blocks: true,
+    pattern: /\b(cocaine|heroin|meth|mdma|fake (id|passport)s?|counterfeit|unregistered (gun|weapon)s?)\b/i,
+  },
+  {
+    rule: 'harassment',
+    severity: 'high',
+    blocks: true,
+    pattern: /\b(retard(ed)?|kill yourself|kys)\b/i,
+  },
+  {
+    // Mild insults are often self-directed ("sorry, stupid question"): left to the AI or strike policy
+    rule: 'insult',
+    severity: 'medium',
+    blocks: false,
+    pattern: /\b(idiot|stupid|moron)\b/i,
+  },
+  {
+    rule: 'safety_concern',
+    severity: 'medium',
+    blocks: false,
+    pattern: /\b(come alone|alone at night|don'?t tell anyone|no questions asked)\b/i,
+  },
+  {
+    rule: 'off_platform_messenger',
+    severity: 'medium',
+    blocks: false,
+    pattern: /\b(whats ?app|telegram|signal app|wa\.me|t\.me|snapchat)\b/i,
+  },
+];
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+// Digit runs with separators; containsPhoneNumber decides whether one is shaped like a phone number
+const PHONE_PATTERN = /(?:\+|00)?\d[\d\s().-]{6,}\d/g;
+const DATE_PATTERN = /\b\d{4}-\d{1,2}-\d{1,2}\b|\b\d{1,2}[./-]\d{1,2}[./-]\d{2,4}\b|\b\d{1,2}:\d{2}\b/g;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]){11,30}\b/gi;
+
+// Typical price range of a category in EUR cents (from the categories table); far outside it is a scam or a typo
+export interface PriceRange {
+  minCents: number;
+  maxCents: number;
+}
+
+// For categories without a suggested range
+const DEFAULT_PRICE_RANGE: PriceRange = { minCents: 100, maxCents: 50000 };
+
+const RULE_SUGGESTIONS: Record<string, string> = {
+  off_platform_email: "Keep contact details in the Favr chat so both sides stay protected.",
+  off_platform_phone: "Keep contact details in the Favr chat so both sides stay protected.",
+  off_platform_messenger: "Keep the conversation in the Favr chat so both sides stay protected.",
+  off_platform_payment_iban: "Payments go through Favr escrow; please don't share bank details.",
+  crypto_payment: "Payments go through Favr escrow; please don't ask for crypto.",
+  price_outlier_extreme: "Double-check the price; it is far outside what this category usually pays.",
+  price_outlier_high: "This price is unusually high for the category.",
+  price_outlier_low: "This price is unusually low for the category.",
+};
+
+const SEVERITY_RANK: Record<RuleSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+/** ISO 13616 mod-97 check, so random alphanumeric strings are not mistaken for IBANs */
+function isValidIban(candidate: string): boolean {
+  const iban = candidate.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  // Letters become two digits (A=10 … Z=35); fold digit by digit to stay within number precision
+  const digits = rearranged.replace(/[A-Z]/g, char => String(char.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (let i = 0; i < digits.length; i++) {
+    remainder = (remainder * 10 + parseInt(digits[i])) % 97;
+  }
+  return remainder === 1;
+}
+
+function containsPhoneNumber(text: string): boolean {
+  // Dates and times look like digit runs too ("2025-08-31", "31.08.2025 14:00")
+  const withoutDates = text.replace(DATE_PATTERN, ' ');
+  return (withoutDates.match(PHONE_PATTERN) ?? []).some(match => {
+    const digits = match.replace(/\D/g, '');
+    const groups = match.trim().split(/[\s().-]+/).filter(Boolean);
+    // +352 621 123 456, 0049 30 1234567
+    if (/^(\+|00)/.test(match.trim())) return digits.length >= 8 && digits.length <= 15;
+    // National numbers start with the trunk 0: 0612 345 678, (030) 123 4567
+    if (groups[0].startsWith('0')) return digits.length >= 9 && digits.length <= 11;
+    // Luxembourg mobiles have no trunk 0 and are written in groups: 621 123 456, 691-12-34-56
+    if (digits.length === 9 && /^6[2679]\d/.test(digits) && groups[0].length === 3) return true;
+    // One unbroken run; grouped digits without a prefix ("100 200 300", "1 250 000") are amounts
+    return groups.length === 1 && digits.length >= 9 && digits.length <= 15;
+  });
+}
+
+function checkText(text: string): RuleHit[] {
+  const hits: RuleHit[] = [];
+
+  for (const { rule, severity, blocks, pattern } of KEYWORD_RULES) {
+    if (pattern.test(text)) hits.push({ rule, severity, blocks });
+  }
+
+  // Bank details are checked before phone numbers: an IBAN's digits would also match as a phone
+  const ibans = (text.match(IBAN_PATTERN) ?? []).filter(isValidIban);
+  if (ibans.length > 0) {
+    hits.push({ rule: 'off_platform_payment_iban', severity: 'high', blocks: true });
+  }
+  const withoutIbans = ibans.reduce((rest, iban) => rest.replace(iban, ''), text);
+
+  if (EMAIL_PATTERN.test(withoutIbans)) {
+    hits.push({ rule: 'off_platform_email', severity: 'medium', blocks: true });
+  }
+  if (containsPhoneNumber(withoutIbans)) {
+    hits.push({ rule: 'off_platform_phone', severity: 'medium', blocks: true });
+  }
+
+  return hits;
+}
+
+function checkPrice(price: FavorPrice | null, range: PriceRange): RuleHit[] {
+  if (!price) return [];
+  // Ranges are in EUR; other currencies are compared at a rough rate
+  const cents = approxEuroCents(price.cents, price.currency);
+
+  if (cents > range.maxCents * 10) return [{ rule: 'price_outlier_extreme', severity: 'high', blocks: true }];
+  if (cents > range.maxCents * 3) return [{ rule: 'price_outlier_high', severity: 'medium', blocks: false }];
+  if (cents < range.minCents / 2) return [{ rule: 'price_outlier_low', severity: 'low', blocks: false }];
+  return [];
+}
+
+function toVerdict(hits: RuleHit[]): RuleVerdict {
+  const severity = hits.reduce<RuleSeverity>(
+    (worst, hit) => (SEVERITY_RANK[hit.severity] > SEVERITY_RANK[worst] ? hit.severity : worst),
+    'low'
+  );
+  return {
+    hits,
+    decision: hits.some(hit => hit.blocks) ? 'block' : hits.length > 0 ? 'review' : 'clean',
+    severity,
+    issues: hits.map(hit => `rule:${hit.rule}`),
+    suggestion: hits.map(hit => RULE_SUGGESTIONS[hit.rule]).find(Boolean),
+  };
+}
+
+export function checkMessageRules(message: string): RuleVerdict {
+  return toVerdict(checkText(message));
+}
+
+export interface FavorPrice {
+  cents: number; // minor units of `currency`
+  currency: string;
+}
+
+export function checkFavorRules(favor: { title: string; description: string; price: FavorPrice | null }, priceRange?: PriceRange | null): RuleVerdict {
+  return toVerdict([
+    ...checkText(`${favor.title}\n${favor.description}`),
+    ...checkPrice(favor.price, priceRange ?? DEFAULT_PRICE_RANGE),
+  ]);
+}
@@ -0,0 +1,105 @@
+// Background job: sends held-back nearby-favor alerts as one push per user once their digest is due
+import { db } from "./db";
+import { notificationDigestItems, notificationPreferences, type NotificationPreferences } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { notificationPreferencesService, localClock } from "./notificationPreferences";
+import { sendNotification } from "./unifiedNotificationService";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class NotificationDigestService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /** Hourly digests go out an hour after the last one, daily ones at digestHour local time; never in quiet hours */
+  isDigestDue(prefs: NotificationPreferences, now: Date = new Date()): boolean {
+    if (notificationPreferencesService.isInQuietHours(prefs, now)) return false;
+    const last = prefs.lastDigestAt;
+
+    switch (prefs.digestMode) {
+      case "hourly":
+        return !last || now.getTime() - last.getTime() >= HOUR_MS;
+      case "daily": {
+        const today = localClock(now, prefs.timezone);
+        return today.hour >= prefs.digestHour && (!last || localClock(last, prefs.timezone).date !== today.date);
+      }
+      default:
+        // Digest mode off: these were only held back for quiet hours
+        return true;
+    }
+  }
+
+  async flush(now: Date = new Date()): Promise<number> {
+    const pending = await db.selectDistinct({ userId: notificationDigestItems.userId }).from(notificationDigestItems);
+
+    let sent = 0;
+    for (const { userId } of pending) {
+      try {
+        const prefs = await notificationPreferencesService.getPreferences(userId);
+        if (!this.isDigestDue(prefs, now)) continue;
+
+        // Claim the items first so an overlapping run cannot send them twice
+        const items = await db
+          .delete(notificationDigestItems)
+          .where(eq(notificationDigestItems.userId, userId))
+          .returning();
+        if (items.length === 0) continue;
+
+        await db
+          .update(notificationPreferences)
+          .set({ lastDigestAt: now })
+          .where(eq(notificationPreferences.userId, userId));
+
+        await this.sendDigest(userId, items);
+        sent++;
+      } catch (error) {
+        console.error(`Sending notification digest to user ${userId} failed:`, error);
+      }
+    }
+    return sent;
+  }
+
+  startDigestJob(intervalMs = 5 * 60 * 1000) {
+    if (this.timer) return;
+
+    const run = async () => {
+      if (this.running) return;
+      this.running = true;
+      try {
+        const sent = await this.flush();
+        if (sent > 0) console.log(`Sent ${sent} notification digest(s)`);
+      } catch (error) {
+        console.error("Notification digest job error:", error);
+      } finally {
+        this.running = false;
+      }
+    };
+
+    this.timer = setInterval(run, intervalMs);
+    run();
+  }
+
+  stopDigestJob() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async sendDigest(userId: number, items: Array<{ favorId: number | null; title: string; message: string }>) {
+    // A single held-back alert goes out as it was; more are summarized
+    const [first] = items;
+    const payload = items.length === 1
+      ? { title: first.title, message: first.message, favorId: first.favorId ?? undefined }
+      : {
+          title: `${items.length} new favors near you`,
+          message: items.slice(0, 3).map(item => item.message).join(" · ") + (items.length > 3 ? " …" : ""),
+          url: "/explore?new=true",
+        };
+
+    await sendNotification(
+      { type: "users", userIds: [String(userId)] },
+      { type: "favor", ...payload, data: { type: "favor_digest", count: items.length } }
+    );
+  }
+}
+
+export const notificationDigestService = new NotificationDigestService();
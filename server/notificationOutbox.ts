@@ -0,0 +1,189 @@
+// Durable push delivery: every notification is written to notification_outbox, then sent (and retried) by a worker
+import { db } from "./db";
+import { notificationOutbox, type NotificationOutboxEntry, type OutboxNotificationPayload } from "@shared/schema";
+import { and, asc, desc, eq, inArray, lte } from "drizzle-orm";
+import { storage } from "./storage";
+import { sendOneSignalPush } from "./oneSignalService";
+import { sendWebPush } from "./webPushService";
+import { PushDeliveryError, type PushResult } from "./pushDelivery";
+
+const MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 30 * 1000; // 30s, 1m, 2m, 4m, 8m between attempts
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+// Claimed rows are pushed this far into the future so a second worker skips them
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const BATCH_SIZE = 50;
+
+export type NotificationHistoryEntry = Pick<
+  NotificationOutboxEntry,
+  "id" | "type" | "title" | "message" | "status" | "platform" | "attempts" | "lastError" | "createdAt" | "sentAt"
+>;
+
+export class NotificationOutboxService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private rerun = false;
+
+  /** Queue one row per recipient and start delivering right away, or not before the given time */
+  async enqueue(userIds: string[], payload: OutboxNotificationPayload, notBefore?: Date): Promise<NotificationOutboxEntry[]> {
+    const recipients = userIds.map(id => parseInt(id)).filter(Number.isFinite);
+    if (recipients.length === 0) return [];
+
+    const entries = await db
+      .insert(notificationOutbox)
+      .values(recipients.map(userId => ({
+        userId,
+        type: payload.type,
+        title: payload.title,
+        message: payload.message,
+        payload,
+        ...(notBefore && { nextAttemptAt: notBefore }),
+      })))
+      .returning();
+
+    this.kick();
+    return entries;
+  }
+
+  /** Deliver every due row; returns how many were attempted */
+  async processDue(now: Date = new Date()): Promise<number> {
+    const due = db
+      .select({ id: notificationOutbox.id })
+      .from(notificationOutbox)
+      .where(and(eq(notificationOutbox.status, "pending"), lte(notificationOutbox.nextAttemptAt, now)))
+      .orderBy(asc(notificationOutbox.nextAttemptAt))
+      .limit(BATCH_SIZE)
+      .for("update", { skipLocked: true });
+
+    const claimed = await db
+      .update(notificationOutbox)
+      .set({ nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) })
+      .where(inArray(notificationOutbox.id, due))
+      .returning();
+
+    for (const entry of claimed) {
+      await this.deliver(entry);
+    }
+    return claimed.length;
+  }
+
+  async getHistory(userId: number, limit = 50): Promise<NotificationHistoryEntry[]> {
+    return await db
+      .select({
+        id: notificationOutbox.id,
+        type: notificationOutbox.type,
+        title: notificationOutbox.title,
+        message: notificationOutbox.message,
+        status: notificationOutbox.status,
+        platform: notificationOutbox.platform,
+        attempts: notificationOutbox.attempts,
+        lastError: notificationOutbox.lastError,
+        createdAt: notificationOutbox.createdAt,
+        sentAt: notificationOutbox.sentAt,
+      })
+      .from(notificationOutbox)
+      .where(eq(notificationOutbox.userId, userId))
+      .orderBy(desc(notificationOutbox.createdAt))
+      .limit(Math.min(limit, 200));
+  }
+
+  startDeliveryJob(intervalMs = 15 * 1000) {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.kick(), intervalMs);
+    this.kick();
+  }
+
+  stopDeliveryJob() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Run the worker now; a call while it is busy schedules one more pass
+  private kick() {
+    if (this.running) {
+      this.rerun = true;
+      return;
+    }
+    this.running = true;
+
+    setImmediate(async () => {
+      try {
+        do {
+          this.rerun = false;
+          await this.processDue();
+        } while (this.rerun);
+      } catch (error) {
+        console.error("Notification outbox job error:", error);
+      } finally {
+        this.running = false;
+      }
+    });
+  }
+
+  private async deliver(entry: NotificationOutboxEntry) {
+    const attempts = entry.attempts + 1;
+    const userId = String(entry.userId);
+    let platform: string | null = null;
+
+    try {
+      const devices = await storage.getPushDevices(entry.userId);
+      const oneSignalIds = devices.filter(device => device.platform === "onesignal").map(device => device.endpoint);
+      const platforms: string[] = [];
+      if (devices.some(device => device.platform === "webpush")) platforms.push("webpush");
+      if (oneSignalIds.length > 0) platforms.push("onesignal");
+      if (platforms.length === 0) {
+        // Subscribed before devices were tracked: the unified record, or a legacy web push row
+        const subscription = await storage.getUnifiedNotificationSubscription(userId);
+        platforms.push(subscription?.platform ?? "webpush");
+      }
+      platform = platforms.join(",");
+
+      // Each provider fans out to its devices; one delivery anywhere counts as sent
+      const results: PushResult[] = [];
+      let failure: unknown = null;
+      for (const target of platforms) {
+        try {
+          results.push(target === "onesignal"
+            ? await sendOneSignalPush(userId, entry.payload, oneSignalIds)
+            : await sendWebPush(userId, entry.payload));
+        } catch (error) {
+          failure = failure ?? error;
+        }
+      }
+      const result: PushResult = results.includes("delivered") ? "delivered" : "no_subscription";
+      if (result === "no_subscription" && failure) throw failure;
+
+      await db
+        .update(notificationOutbox)
+        .set({
+          status: result === "delivered" ? "sent" : "no_subscription",
+          platform,
+          attempts,
+          lastError: null,
+          sentAt: result === "delivered" ? new Date() : null,
+        })
+        .where(eq(notificationOutbox.id, entry.id));
+    } catch (error) {
+      const permanent = error instanceof PushDeliveryError && error.permanent;
+      const giveUp = permanent || attempts >= MAX_ATTEMPTS;
+      const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+      await db
+        .update(notificationOutbox)
+        .set({
+          status: giveUp ? "failed" : "pending",
+          platform,
+          attempts,
+          lastError: error instanceof Error ? error.message : String(error),
+          nextAttemptAt: new Date(Date.now() + backoff),
+        })
+        .where(eq(notificationOutbox.id, entry.id));
+
+      if (giveUp) {
+        console.error(`❌ Notification ${entry.id} to user ${userId} failed after ${attempts} attempt(s):`, error);
+      }
+    }
+  }
+}
+
+export const notificationOutboxService = new NotificationOutboxService();
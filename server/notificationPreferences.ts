@@ -0,0 +1,163 @@
+// Per-user notification rules: type/channel switches, quiet hours and digest batching of nearby-favor alerts
+import { db } from "./db";
+import {
+  users,
+  notificationPreferences,
+  notificationDigestItems,
+  NOTIFICATION_TYPES,
+  type NotificationPreferences,
+  type NotificationPreferencesInput,
+  type NotificationChannelPreferences,
+  type NotificationChannel,
+} from "@shared/schema";
+import { eq, inArray } from "drizzle-orm";
+import type { UnifiedNotificationPayload } from "./unifiedNotificationService";
+
+export type DeliveryDecision = "deliver" | "digest" | "defer" | "skip";
+
+const DEFAULT_TIMEZONE = "Europe/Luxembourg";
+
+function defaultChannels(): NotificationChannelPreferences {
+  const channels = {} as NotificationChannelPreferences;
+  NOTIFICATION_TYPES.forEach(type => { channels[type] = { push: true, in_app: true }; });
+  return channels;
+}
+
+/** Local "HH:MM" and date ("YYYY-MM-DD") of an instant in the given timezone */
+export function localClock(now: Date, timeZone: string): { time: string; date: string; hour: number } {
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now).forEach(part => { parts[part.type] = part.value; });
+  return { time: `${parts.hour}:${parts.minute}`, date: `${parts.year}-${parts.month}-${parts.day}`, hour: parseInt(parts.hour) };
+}
+
+export class NotificationPreferencesService {
+  /** Stored preferences, or the defaults for users who never changed them */
+  async getPreferences(userId: number): Promise<NotificationPreferences> {
+    const [prefs] = await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+    return prefs ?? this.defaults(userId);
+  }
+
+  async updatePreferences(userId: number, input: NotificationPreferencesInput): Promise<NotificationPreferences> {
+    const current = await this.getPreferences(userId);
+
+    const channels = { ...current.channels };
+    NOTIFICATION_TYPES.forEach(type => {
+      channels[type] = { ...current.channels[type], ...input.channels?.[type] };
+    });
+
+    const values = {
+      channels,
+      ...(input.quietHours !== undefined && {
+        quietHoursStart: input.quietHours?.start ?? null,
+        quietHoursEnd: input.quietHours?.end ?? null,
+      }),
+      ...(input.timezone !== undefined && { timezone: input.timezone }),
+      ...(input.digestMode !== undefined && { digestMode: input.digestMode }),
+      ...(input.digestHour !== undefined && { digestHour: input.digestHour }),
+      updatedAt: new Date(),
+    };
+
+    const [prefs] = await db
+      .insert(notificationPreferences)
+      .values({ ...this.defaults(userId), ...values })
+      .onConflictDoUpdate({ target: notificationPreferences.userId, set: values })
+      .returning();
+    return prefs;
+  }
+
+  isInQuietHours(prefs: NotificationPreferences, now: Date = new Date()): boolean {
+    if (!prefs.quietHoursStart || !prefs.quietHoursEnd) return false;
+    const { time } = localClock(now, prefs.timezone);
+    const start = prefs.quietHoursStart;
+    const end = prefs.quietHoursEnd;
+    // "22:00"-"07:00" wraps past midnight
+    return start <= end ? time >= start && time < end : time >= start || time < end;
+  }
+
+  /** The next instant the user's quiet hours end (to the minute; a DST change that night can shift it by an hour) */
+  quietHoursEndAfter(prefs: NotificationPreferences, now: Date = new Date()): Date {
+    const minutes = (clock: string) => parseInt(clock.slice(0, 2)) * 60 + parseInt(clock.slice(3, 5));
+    const { time } = localClock(now, prefs.timezone);
+    const wait = (minutes(prefs.quietHoursEnd ?? time) - minutes(time) + 24 * 60) % (24 * 60);
+    return new Date(Math.floor(now.getTime() / 60000) * 60000 + wait * 60000);
+  }
+
+  /**
+   * What to do with one push for one user: nearby-favor alerts are batched in digest mode
+   * and held back during quiet hours; anything else is deferred until quiet hours end
+   */
+  decide(prefs: NotificationPreferences, payload: UnifiedNotificationPayload, channel: NotificationChannel = "push", now: Date = new Date()): DeliveryDecision {
+    if (!prefs.channels[payload.type]?.[channel]) return "skip";
+
+    const quiet = this.isInQuietHours(prefs, now);
+    if (payload.data?.type === "new_favor" && (prefs.digestMode !== "off" || quiet)) return "digest";
+    return quiet ? "defer" : "deliver";
+  }
+
+  /**
+   * Split recipients for one notification: push delivery by decision (users with notifications
+   * switched off get no push) and the in-app inbox, which ignores quiet hours and digests
+   */
+  async route(userIds: string[], payload: UnifiedNotificationPayload, now: Date = new Date()): Promise<{
+    deliver: string[];
+    digest: number[];
+    deferred: { userId: string; notBefore: Date }[];
+    inApp: string[];
+  }> {
+    const ids = userIds.map(id => parseInt(id)).filter(Number.isFinite);
+    if (ids.length === 0) return { deliver: [], digest: [], deferred: [], inApp: [] };
+
+    const rows = await db
+      .select({ id: users.id, enabled: users.notificationsEnabled, prefs: notificationPreferences })
+      .from(users)
+      .leftJoin(notificationPreferences, eq(notificationPreferences.userId, users.id))
+      .where(inArray(users.id, ids));
+
+    const deliver: string[] = [];
+    const digest: number[] = [];
+    const deferred: { userId: string; notBefore: Date }[] = [];
+    const inApp: string[] = [];
+    rows.forEach(row => {
+      const prefs = row.prefs ?? this.defaults(row.id);
+      if (prefs.channels[payload.type]?.in_app !== false) inApp.push(String(row.id));
+
+      if (!row.enabled) return;
+      const decision = this.decide(prefs, payload, "push", now);
+      if (decision === "deliver") deliver.push(String(row.id));
+      if (decision === "digest") digest.push(row.id);
+      if (decision === "defer") deferred.push({ userId: String(row.id), notBefore: this.quietHoursEndAfter(prefs, now) });
+    });
+    return { deliver, digest, deferred, inApp };
+  }
+
+  async enqueueDigest(userIds: number[], payload: UnifiedNotificationPayload): Promise<void> {
+    if (userIds.length === 0) return;
+    await db.insert(notificationDigestItems).values(
+      userIds.map(userId => ({ userId, favorId: payload.favorId ?? null, title: payload.title, message: payload.message }))
+    );
+  }
+
+  private defaults(userId: number): NotificationPreferences {
+    return {
+      userId,
+      channels: defaultChannels(),
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      timezone: DEFAULT_TIMEZONE,
+      digestMode: "off",
+      digestHour: 18,
+      lastDigestAt: null,
+      updatedAt: new Date(),
+    };
+  }
+}
+
+export const notificationPreferencesService = new NotificationPreferencesService();
@@ -0,0 +1,244 @@
+// Competing offers: every helper proposes terms in their own chat room, the poster accepts one and the rest are declined
+import { db } from "./db";
+import {
+  favorOffers,
+  users,
+  type EscrowPayment,
+  type Favor,
+  type FavorOffer,
+  type FavorOfferWithHelper,
+  type SubmitOfferInput,
+} from "@shared/schema";
+import { and, asc, eq, ne } from "drizzle-orm";
+import { formatMoney } from "@shared/money";
+import { storage } from "./storage";
+import { paymentService } from "./payments";
+import { databaseChatService } from "./databaseChatService";
+import { sendNotification } from "./unifiedNotificationService";
+
+export class OfferError extends Error {
+  constructor(message: string, public readonly status: 400 | 403 | 404 | 409 = 400) {
+    super(message);
+    this.name = "OfferError";
+  }
+}
+
+export interface AcceptedFavor {
+  favor: Favor;
+  chatRoomId: number;
+  escrow: EscrowPayment | null;
+}
+
+function describeOffer(offer: Pick<FavorOffer, "priceCents" | "etaMinutes" | "note">, currency: string): string {
+  const parts = [formatMoney(offer.priceCents, currency)];
+  if (offer.etaMinutes) {
+    parts.push(offer.etaMinutes < 120
+      ? `can start in ${offer.etaMinutes} min`
+      : `can start in ${Math.round(offer.etaMinutes / 60)} h`);
+  }
+  return parts.join(" · ") + (offer.note ? ` - "${offer.note}"` : "");
+}
+
+export class OfferService {
+  /** Creates the helper's offer (and their chat room), or revises it if they already made one */
+  async submitOffer(favorId: number, helperId: number, input: SubmitOfferInput): Promise<FavorOffer> {
+    const favor = await storage.getFavor(favorId);
+    if (!favor) {
+      throw new OfferError("Favor not found", 404);
+    }
+    if (favor.posterId === String(helperId)) {
+      throw new OfferError("Cannot make an offer on your own favor", 403);
+    }
+    if (favor.status !== "available") {
+      throw new OfferError("This favor is no longer taking offers", 409);
+    }
+    if (!favor.isNegotiable && input.priceCents !== favor.priceCents) {
+      throw new OfferError("The price of this favor is not negotiable", 400);
+    }
+
+    const room = await databaseChatService.createChatRoom(favorId, favor.posterId, String(helperId));
+    const terms = {
+      priceCents: input.priceCents,
+      etaMinutes: input.etaMinutes ?? null,
+      note: input.note || null,
+    };
+    const [previous] = await db
+      .select({ id: favorOffers.id })
+      .from(favorOffers)
+      .where(and(eq(favorOffers.favorId, favorId), eq(favorOffers.helperId, helperId)));
+
+    const [offer] = await db
+      .insert(favorOffers)
+      .values({ favorId, helperId, chatRoomId: room.id, ...terms })
+      .onConflictDoUpdate({
+        target: [favorOffers.favorId, favorOffers.helperId],
+        set: { ...terms, chatRoomId: room.id, status: "pending", respondedAt: null, updatedAt: new Date() },
+      })
+      .returning();
+
+    const helperName = await databaseChatService.getUserDisplayName(String(helperId));
+    const summary = describeOffer(offer, favor.currency);
+    await databaseChatService.postSystemMessage(room.id, `${previous ? "Offer updated" : "Offer"}: ${summary}`);
+
+    try {
+      await sendNotification(
+        { type: "users", userIds: [favor.posterId] },
+        {
+          type: "chat",
+          title: `${helperName} ${previous ? "updated their offer" : "made an offer"} on "${favor.title}"`,
+          message: summary,
+          favorId,
+          chatId: room.id,
+          url: `/chat/${room.id}`,
+        }
+      );
+    } catch (error) {
+      console.error(`Failed to notify poster of offer ${offer.id}:`, error);
+    }
+    return offer;
+  }
+
+  /** The poster sees every offer on their favor, a helper only their own */
+  async listOffers(favorId: number, viewerId: number): Promise<FavorOfferWithHelper[]> {
+    const favor = await storage.getFavor(favorId);
+    if (!favor) {
+      throw new OfferError("Favor not found", 404);
+    }
+
+    const isPoster = favor.posterId === String(viewerId);
+    const rows = await db
+      .select({
+        offer: favorOffers,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        helperRating: users.averageRating,
+        helperCompletedFavrs: users.completedFavrs,
+      })
+      .from(favorOffers)
+      .innerJoin(users, eq(users.id, favorOffers.helperId))
+      .where(and(
+        eq(favorOffers.favorId, favorId),
+        isPoster ? undefined : eq(favorOffers.helperId, viewerId)
+      ))
+      .orderBy(asc(favorOffers.createdAt));
+
+    return rows.map(({ offer, firstName, lastName, helperRating, helperCompletedFavrs }) => ({
+      ...offer,
+      helperName: `${firstName}${lastName ? ` ${lastName.charAt(0)}.` : ""}`,
+      helperRating,
+      helperCompletedFavrs,
+    }));
+  }
+
+  /** The poster picks an offer: the favor is accepted at the offered price */
+  async acceptOffer(favorId: number, offerId: number, posterId: number): Promise<AcceptedFavor> {
+    const favor = await storage.getFavor(favorId);
+    if (!favor) {
+      throw new OfferError("Favor not found", 404);
+    }
+    if (favor.posterId !== String(posterId)) {
+      throw new OfferError("Only the poster can accept offers", 403);
+    }
+
+    const [offer] = await db
+      .select()
+      .from(favorOffers)
+      .where(and(eq(favorOffers.id, offerId), eq(favorOffers.favorId, favorId)));
+    if (!offer) {
+      throw new OfferError("Offer not found", 404);
+    }
+    if (offer.status !== "pending") {
+      throw new OfferError("This offer is no longer open", 409);
+    }
+
+    return await this.acceptHelper(favor, offer.helperId, offer.id);
+  }
+
+  /** A helper takes the favor as posted, without an offer */
+  async acceptAtListedPrice(favorId: number, helperId: number): Promise<AcceptedFavor> {
+    const favor = await storage.getFavor(favorId);
+    if (!favor) {
+      throw new OfferError("Favor not found", 404);
+    }
+    if (favor.posterId === String(helperId)) {
+      throw new OfferError("Cannot accept your own favor", 400);
+    }
+    return await this.acceptHelper(favor, helperId);
+  }
+
+  // The accept flow shared by both paths; the favor state machine makes sure only one helper wins
+  private async acceptHelper(favor: Favor, helperId: number, offerId?: number): Promise<AcceptedFavor> {
+    const { accepted, offeredPriceCents } = await db.transaction(async (tx) => {
+      let offeredPriceCents: number | undefined;
+      if (offerId !== undefined) {
+        // Locked and re-read so a revision sent meanwhile can't leave the escrow holding a stale price
+        const [offer] = await tx.select().from(favorOffers).where(eq(favorOffers.id, offerId)).for("update");
+        if (!offer || offer.status !== "pending") {
+          throw new OfferError("This offer is no longer open", 409);
+        }
+        offeredPriceCents = offer.priceCents;
+      }
+      const agreedPriceCents = offeredPriceCents !== undefined && offeredPriceCents !== favor.priceCents ? offeredPriceCents : undefined;
+      const accepted = await storage.acceptFavor(favor.id, helperId, agreedPriceCents, tx);
+
+      const now = new Date();
+      await tx
+        .update(favorOffers)
+        .set({ status: "accepted", respondedAt: now, updatedAt: now })
+        .where(and(eq(favorOffers.favorId, favor.id), eq(favorOffers.helperId, helperId), eq(favorOffers.status, "pending")));
+      return { accepted, offeredPriceCents };
+    });
+    const room = await databaseChatService.createChatRoom(favor.id, favor.posterId, String(helperId));
+
+    if (offeredPriceCents !== undefined) {
+      await databaseChatService.postSystemMessage(room.id, `Offer accepted at ${formatMoney(offeredPriceCents, favor.currency)}.`);
+    }
+    await this.declineOthers(accepted, helperId);
+
+    // Open the escrow the requester will fund
+    let escrow: EscrowPayment | null = null;
+    try {
+      escrow = await paymentService.onFavorAccepted(accepted);
+    } catch (error) {
+      console.error("Error creating escrow payment:", error);
+    }
+    return { favor: accepted, chatRoomId: room.id, escrow };
+  }
+
+  private async declineOthers(favor: Favor, acceptedHelperId: number): Promise<void> {
+    const now = new Date();
+    const declined = await db
+      .update(favorOffers)
+      .set({ status: "declined", respondedAt: now, updatedAt: now })
+      .where(and(
+        eq(favorOffers.favorId, favor.id),
+        eq(favorOffers.status, "pending"),
+        ne(favorOffers.helperId, acceptedHelperId)
+      ))
+      .returning();
+    if (declined.length === 0) return;
+
+    for (const offer of declined) {
+      await databaseChatService.deactivateChatRoom(
+        offer.chatRoomId,
+        "The poster accepted another offer, so this one was declined. Thanks for offering!"
+      );
+    }
+
+    try {
+      await sendNotification(
+        { type: "users", userIds: declined.map(offer => String(offer.helperId)) },
+        {
+          type: "favor",
+          title: "Offer declined",
+          message: `"${favor.title}" went to another helper`,
+          favorId: favor.id,
+        }
+      );
+    } catch (error) {
+      console.error(`Failed to notify declined helpers of favor ${favor.id}:`, error);
+    }
+  }
+}
+
+export const offerService = new OfferService();
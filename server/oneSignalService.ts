@@ -1,6 +1,7 @@
 // oneSignalService.ts
 import * as OneSignal from "@onesignal/node-onesignal";
 import { UnifiedNotificationPayload } from "./unifiedNotificationService";
+import { PushDeliveryError, isTransientStatus, type PushResult } from "./pushDelivery";
 
 const ONESIGNAL_APP_ID = process.env.ONESIGNAL_APP_ID!;
 const ONESIGNAL_API_KEY = process.env.ONESIGNAL_REST_API_KEY!;
@@ -11,42 +12,58 @@ const configuration = OneSignal.createConfiguration({
 const client = new OneSignal.DefaultApi(configuration);
 
 /**
- * Send push to a specific user by external_user_id
+ * Send push to a specific user: to the given OneSignal subscription ids (the user's registered
+ * devices) when known, otherwise to every device logged in with the user's external_user_id
  */
 export async function sendOneSignalPush(
   userId: string,
-  payload: UnifiedNotificationPayload
-) {
+  payload: UnifiedNotificationPayload,
+  subscriptionIds: string[] = []
+): Promise<PushResult> {
   if (!ONESIGNAL_APP_ID || !ONESIGNAL_API_KEY) {
     console.warn("⚠️ OneSignal not configured — cannot send iOS push");
-    return;
+    throw new PushDeliveryError("OneSignal not configured", true);
   }
 
-  try {
-    const notification = new OneSignal.Notification();
-    notification.app_id = ONESIGNAL_APP_ID;
+  const notification = new OneSignal.Notification();
+  notification.app_id = ONESIGNAL_APP_ID;
+  if (subscriptionIds.length > 0) {
+    notification.include_subscription_ids = subscriptionIds;
+  } else {
     notification.include_external_user_ids = [userId];
-    notification.headings = { en: payload.title };
-    notification.contents = { en: payload.message };
+  }
+  notification.headings = { en: payload.title };
+  notification.contents = { en: payload.message };
 
-    if (payload.url) notification.url = payload.url;
-    if (payload.data) notification.data = payload.data;
+  if (payload.url) notification.url = payload.url;
+  if (payload.data) notification.data = payload.data;
 
-    if (payload.icon) {
-      notification.chrome_web_icon = payload.icon;
-      notification.large_icon = payload.icon;
-      notification.ios_attachments = { image: payload.icon };
-    }
+  if (payload.icon) {
+    notification.chrome_web_icon = payload.icon;
+    notification.large_icon = payload.icon;
+    notification.ios_attachments = { image: payload.icon };
+  }
 
-    if (payload.badge) {
-      notification.ios_badgeType = "Increase";
-      notification.ios_badgeCount = 1;
-    }
+  if (payload.badge) {
+    notification.ios_badgeType = "Increase";
+    notification.ios_badgeCount = 1;
+  }
 
-    await client.createNotification(notification);
+  try {
+    const response = await client.createNotification(notification);
+    // OneSignal answers 200 without an id when the external user id has no subscribed device
+    if (!response.id) {
+      console.warn(`⚠️ OneSignal has no subscribed device for user ${userId}`);
+      return "no_subscription";
+    }
     console.log(`✅ OneSignal push sent to user ${userId}`);
-  } catch (err) {
+    return "delivered";
+  } catch (err: unknown) {
     console.error(`❌ OneSignal push failed for user ${userId}:`, err);
+    // HTTP errors carry the status; anything else (network, SDK) is treated as transient
+    const status = err instanceof OneSignal.ApiException ? err.code : undefined;
+    const message = err instanceof Error ? err.message : String(err);
+    throw new PushDeliveryError(`OneSignal ${status ?? "error"}: ${message}`, !isTransientStatus(status));
   }
 }
 
@@ -0,0 +1,164 @@
+// Payment providers behind the escrow service - Stripe in production, an in-process fake everywhere else
+import Stripe from "stripe";
+
+export interface AuthorizeInput {
+  escrowId: number;
+  amountCents: number;
+  currency: string;
+  requesterId: number;
+}
+
+export interface PayoutInput {
+  escrowId: number;
+  reference: string;
+  helperId: number;
+  amountCents: number;
+  currency: string;
+  /** Same key, same payout: a retried call must not pay twice */
+  idempotencyKey: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  /** Reserve the requester's funds; returns the provider reference used for later calls */
+  authorize(input: AuthorizeInput): Promise<{ reference: string }>;
+  /** Capture the held funds and pay the helper */
+  payout(input: PayoutInput): Promise<{ reference: string }>;
+  /** Return the held funds to the requester; a retry with the same key must not refund twice */
+  refund(reference: string, amountCents: number, idempotencyKey: string): Promise<void>;
+}
+
+type FakeOperation =
+  | { type: "authorize"; escrowId: number; amountCents: number; reference: string }
+  | { type: "payout"; escrowId: number; helperId: number; amountCents: number; reference: string }
+  | { type: "refund"; reference: string; amountCents: number };
+
+/**
+ * Deterministic in-process provider: references derive from the escrow id,
+ * every call is recorded (once per idempotency key), and failures can be injected for tests.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  readonly operations: FakeOperation[] = [];
+  private failures: Set<FakeOperation["type"]> = new Set();
+  private idempotencyKeys: Set<string> = new Set();
+
+  failNext(operation: FakeOperation["type"]) {
+    this.failures.add(operation);
+  }
+
+  reset() {
+    this.operations.length = 0;
+    this.failures.clear();
+    this.idempotencyKeys.clear();
+  }
+
+  async authorize(input: AuthorizeInput): Promise<{ reference: string }> {
+    this.throwIfFailing("authorize");
+    const reference = `fake_auth_${input.escrowId}`;
+    this.operations.push({ type: "authorize", escrowId: input.escrowId, amountCents: input.amountCents, reference });
+    return { reference };
+  }
+
+  async payout(input: PayoutInput): Promise<{ reference: string }> {
+    this.throwIfFailing("payout");
+    const reference = `fake_payout_${input.escrowId}`;
+    if (!this.firstUse(input.idempotencyKey)) return { reference };
+    this.operations.push({
+      type: "payout",
+      escrowId: input.escrowId,
+      helperId: input.helperId,
+      amountCents: input.amountCents,
+      reference,
+    });
+    return { reference };
+  }
+
+  async refund(reference: string, amountCents: number, idempotencyKey: string): Promise<void> {
+    this.throwIfFailing("refund");
+    if (!this.firstUse(idempotencyKey)) return;
+    this.operations.push({ type: "refund", reference, amountCents });
+  }
+
+  private firstUse(idempotencyKey: string): boolean {
+    if (this.idempotencyKeys.has(idempotencyKey)) return false;
+    this.idempotencyKeys.add(idempotencyKey);
+    return true;
+  }
+
+  private throwIfFailing(operation: FakeOperation["type"]) {
+    if (this.failures.delete(operation)) {
+      throw new Error(`Fake payment provider: ${operation} failed`);
+    }
+  }
+}
+
+/** Stripe manual-capture PaymentIntents; authorize derives its idempotency key from the escrow id, the others get theirs passed in */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = "stripe";
+  private stripe: Stripe;
+
+  constructor(secretKey: string) {
+    this.stripe = new Stripe(secretKey);
+  }
+
+  async authorize(input: AuthorizeInput): Promise<{ reference: string }> {
+    const intent = await this.stripe.paymentIntents.create(
+      {
+        amount: input.amountCents,
+        currency: input.currency.toLowerCase(),
+        capture_method: "manual",
+        transfer_group: `escrow_${input.escrowId}`,
+        metadata: { escrowId: String(input.escrowId), requesterId: String(input.requesterId) },
+      },
+      { idempotencyKey: `escrow_${input.escrowId}_authorize` }
+    );
+    return { reference: intent.id };
+  }
+
+  async payout(input: PayoutInput): Promise<{ reference: string }> {
+    // Captured by an earlier attempt whose result was never recorded (idempotency keys expire after a day)
+    const current = await this.stripe.paymentIntents.retrieve(input.reference);
+    if (current.status === "succeeded") return { reference: current.id };
+    const intent = await this.stripe.paymentIntents.capture(
+      input.reference,
+      {},
+      { idempotencyKey: input.idempotencyKey }
+    );
+    // Helper payouts settle through the transfer group once Connect accounts are onboarded
+    return { reference: intent.id };
+  }
+
+  async refund(reference: string, amountCents: number, idempotencyKey: string): Promise<void> {
+    const intent = await this.stripe.paymentIntents.retrieve(reference);
+    // Cancelled by an earlier attempt whose result was never recorded
+    if (intent.status === "canceled") return;
+    if (intent.status === "requires_capture") {
+      // Never captured: releasing the authorization is the refund
+      await this.stripe.paymentIntents.cancel(reference, {}, { idempotencyKey });
+      return;
+    }
+    await this.stripe.refunds.create(
+      { payment_intent: reference, amount: amountCents },
+      { idempotencyKey }
+    );
+  }
+}
+
+// PAYMENT_PROVIDER=stripe|fake; unset means fake, except in production where money must never be faked by accident
+export function createPaymentProvider(): PaymentProvider {
+  const provider = process.env.PAYMENT_PROVIDER;
+  if (!provider && process.env.NODE_ENV === "production") {
+    throw new Error("PAYMENT_PROVIDER must be set in production");
+  }
+  if (provider && provider !== "stripe" && provider !== "fake") {
+    throw new Error(`Unknown PAYMENT_PROVIDER: ${provider}`);
+  }
+  if (provider === "stripe") {
+    if (!process.env.STRIPE_SECRET_KEY) {
+      throw new Error("STRIPE_SECRET_KEY must be set when PAYMENT_PROVIDER=stripe");
+    }
+    return new StripePaymentProvider(process.env.STRIPE_SECRET_KEY);
+  }
+  return new FakePaymentProvider();
+}
@@ -1,157 +1,543 @@
-// Payment system with escrow functionality - prepared for Stripe/MangoPay integration
-
-interface EscrowPayment {
-  id: string;
-  favorId: number;
-  requesterId: string;
-  helperId: string;
-  amount: number;
-  serviceFee: number;
-  totalAmount: number;
-  status: 'pending' | 'held' | 'released' | 'refunded' | 'cancelled';
-  createdAt: Date;
-  releasedAt?: Date;
-  autoReleaseAt: Date;
+// Payment system with escrow functionality - persisted in Postgres, money moved through a PaymentProvider
+import { db } from "./db";
+import { escrowPayments, favors, userWallets, walletLedger, type EscrowPayment, type UserWallet, type WalletLedgerEntry, type Favor } from "@shared/schema";
+import { eq, and, or, lte, desc, sql, inArray, isNull, TransactionRollbackError } from "drizzle-orm";
+import { createPaymentProvider, type PaymentProvider } from "./paymentProviders";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface FeeRule {
+  /** Share of the favor price the requester pays on top */
+  percentage: number;
+  /** Floor in minor units of the favor's currency */
+  minimumMinor: number;
 }
 
-interface UserWallet {
-  userId: string;
-  balance: number;
-  pendingEarnings: number;
-  kycStatus: 'pending' | 'verified' | 'rejected';
-  paymentMethods: PaymentMethod[];
+// Service fee by the favor's country (ISO alpha-2); favors anywhere else use DEFAULT_FEE_RULE
+const FEE_RULES: Record<string, FeeRule> = {
+  lu: { percentage: 0.10, minimumMinor: 50 },
+  se: { percentage: 0.10, minimumMinor: 500 },
+};
+const DEFAULT_FEE_RULE: FeeRule = { percentage: 0.10, minimumMinor: 0 };
+
+export function feeRuleFor(countryCode?: string | null): FeeRule {
+  return (countryCode && FEE_RULES[countryCode.toLowerCase()]) || DEFAULT_FEE_RULE;
 }
 
-interface PaymentMethod {
-  id: string;
-  type: 'card' | 'bank_account' | 'wallet';
-  last4?: string;
-  isDefault: boolean;
+export class PaymentError extends Error {
+  constructor(message: string, public readonly status: 400 | 409 = 400) {
+    super(message);
+    this.name = "PaymentError";
+  }
 }
 
+// A favor can be funded while it is being worked on, or after completion (e.g. once a dispute is settled)
+const FUNDABLE_FAVOR_STATUSES = ["accepted", "completed"];
+
 export class PaymentService {
-  private escrowPayments: Map<string, EscrowPayment> = new Map();
-  private userWallets: Map<string, UserWallet> = new Map();
-  private readonly SERVICE_FEE_PERCENTAGE = 0.10; // 10% service fee
-  private readonly AUTO_RELEASE_HOURS = 24;
-
-  // Initialize escrow payment when favor is accepted
-  async createEscrowPayment(favorId: number, requesterId: string, helperId: string, amount: number): Promise<EscrowPayment> {
-    const serviceFee = amount * this.SERVICE_FEE_PERCENTAGE;
-    const totalAmount = amount + serviceFee;
-    
-    const escrowPayment: EscrowPayment = {
-      id: `escrow_${Date.now()}_${favorId}`,
-      favorId,
-      requesterId,
-      helperId,
-      amount,
-      serviceFee,
-      totalAmount,
-      status: 'pending',
-      createdAt: new Date(),
-      autoReleaseAt: new Date(Date.now() + this.AUTO_RELEASE_HOURS * 60 * 60 * 1000)
-    };
+  private provider: PaymentProvider;
+  private autoReleaseTimer: NodeJS.Timeout | null = null;
+  private autoReleaseRunning = false;
+  private readonly AUTO_RELEASE_HOURS = 24; // dispute window after completion
+  private readonly STALE_CLAIM_MINUTES = 15; // a provider call never takes this long
+
+  constructor(provider: PaymentProvider = createPaymentProvider()) {
+    this.provider = provider;
+  }
+
+  /** Swap the provider (tests use FakePaymentProvider) */
+  setProvider(provider: PaymentProvider) {
+    this.provider = provider;
+  }
+
+  // Initialize escrow payment when favor is accepted (one per favor; repeated calls return the existing row)
+  async createEscrowPayment(
+    favorId: number,
+    requesterId: number,
+    helperId: number,
+    amountCents: number,
+    currency = "EUR",
+    countryCode: string | null = null
+  ): Promise<EscrowPayment> {
+    const { serviceFee, totalAmount } = this.calculateFees(amountCents, countryCode);
+
+    await db
+      .insert(escrowPayments)
+      .values({
+        favorId,
+        requesterId,
+        helperId,
+        amountCents,
+        serviceFeeCents: serviceFee,
+        totalCents: totalAmount,
+        currency,
+        status: "pending",
+        provider: this.provider.name,
+      })
+      .onConflictDoNothing({ target: escrowPayments.favorId });
 
-    this.escrowPayments.set(escrowPayment.id, escrowPayment);
-    
-    // In production: Create Stripe Payment Intent or MangoPay payin
-    console.log(`Escrow payment created: ${escrowPayment.id} for favor ${favorId}`);
-    
-    return escrowPayment;
+    const escrow = await this.getEscrowForFavor(favorId);
+    console.log(`Escrow payment ready: ${escrow!.id} for favor ${favorId}`);
+    return escrow!;
   }
 
   // Hold payment in escrow (when requester pays)
-  async holdPayment(escrowId: string): Promise<boolean> {
-    const payment = this.escrowPayments.get(escrowId);
-    if (!payment || payment.status !== 'pending') {
+  async holdPayment(escrowId: number): Promise<boolean> {
+    const payment = await this.getEscrowPayment(escrowId);
+    if (!payment || payment.status !== "pending") {
       return false;
     }
+    const [favor] = await db.select({ status: favors.status }).from(favors).where(eq(favors.id, payment.favorId));
+    if (!favor || !FUNDABLE_FAVOR_STATUSES.includes(favor.status)) {
+      throw new PaymentError(`A favor that is ${favor?.status ?? "gone"} can't be paid for`, 409);
+    }
 
-    // In production: Charge the requester's payment method
-    payment.status = 'held';
-    this.escrowPayments.set(escrowId, payment);
-    
-    console.log(`Payment held in escrow: ${escrowId}`);
-    return true;
+    // Provider references are keyed on the escrow id, so a retried authorize is safe
+    const { reference } = await this.provider.authorize({
+      escrowId,
+      amountCents: payment.totalCents,
+      currency: payment.currency,
+      requesterId: payment.requesterId,
+    });
+
+    return await db.transaction(async (tx) => {
+      // Locked against a concurrent completion: onFavorCompleted only schedules escrows that are already held,
+      // so one funded after completion starts its dispute window here (or releases right away once it is over)
+      const [current] = await tx
+        .select({ status: favors.status, completedAt: favors.completedAt })
+        .from(favors)
+        .where(eq(favors.id, payment.favorId))
+        .for("update");
+      const autoReleaseAt = current?.status === "completed"
+        ? new Date(Math.max(Date.now(), (current.completedAt?.getTime() ?? 0) + this.AUTO_RELEASE_HOURS * 60 * 60 * 1000))
+        : null;
+
+      const [held] = await tx
+        .update(escrowPayments)
+        .set({ status: "held", providerReference: reference, heldAt: new Date(), ...(autoReleaseAt && { autoReleaseAt }) })
+        .where(and(eq(escrowPayments.id, escrowId), eq(escrowPayments.status, "pending")))
+        .returning();
+      if (!held) return false;
+
+      await this.appendLedger(tx, held.requesterId, held, "escrow_hold", -held.totalCents, reference);
+      await this.adjustWallet(tx, held.helperId, held.currency, { pendingCents: held.amountCents });
+
+      console.log(`Payment held in escrow: ${escrowId}`);
+      return true;
+    });
+  }
+
+  // Start the dispute window: held funds auto-release once it elapses
+  async scheduleRelease(favorId: number, hours = this.AUTO_RELEASE_HOURS): Promise<EscrowPayment | undefined> {
+    const [scheduled] = await db
+      .update(escrowPayments)
+      .set({ autoReleaseAt: new Date(Date.now() + hours * 60 * 60 * 1000) })
+      .where(and(eq(escrowPayments.favorId, favorId), eq(escrowPayments.status, "held")))
+      .returning();
+    return scheduled;
   }
 
   // Release payment to helper (when favor is completed)
-  async releasePayment(escrowId: string, releasedBy: 'requester' | 'auto' = 'requester'): Promise<boolean> {
-    const payment = this.escrowPayments.get(escrowId);
-    if (!payment || payment.status !== 'held') {
+  async releasePayment(escrowId: number, releasedBy: "requester" | "auto" | "admin" = "requester"): Promise<boolean> {
+    // Claim the row first so concurrent callers (job + requester) cannot both pay out
+    const [claimed] = await db
+      .update(escrowPayments)
+      .set({ status: "releasing", claimedAt: new Date() })
+      .where(and(eq(escrowPayments.id, escrowId), eq(escrowPayments.status, "held")))
+      .returning();
+    if (!claimed) {
       return false;
     }
 
-    // In production: Transfer funds to helper's wallet/account
-    payment.status = 'released';
-    payment.releasedAt = new Date();
-    this.escrowPayments.set(escrowId, payment);
+    let payoutReference: string;
+    try {
+      payoutReference = await this.payOutClaimed(claimed);
+    } catch (error) {
+      await db.update(escrowPayments).set({ status: "held", claimedAt: null }).where(eq(escrowPayments.id, escrowId));
+      throw error;
+    }
 
-    // Add earnings to helper's wallet
-    await this.addToWallet(payment.helperId, payment.amount);
-    
+    // If this write fails the row stays "releasing" and recoverStaleClaims finishes it
+    await this.recordRelease(claimed, payoutReference);
     console.log(`Payment released: ${escrowId} (${releasedBy})`);
     return true;
   }
 
   // Refund payment to requester (if favor is cancelled)
-  async refundPayment(escrowId: string): Promise<boolean> {
-    const payment = this.escrowPayments.get(escrowId);
-    if (!payment || payment.status !== 'held') {
+  async refundPayment(escrowId: number): Promise<boolean> {
+    // Nothing was charged yet: just close the escrow
+    const [cancelled] = await db
+      .update(escrowPayments)
+      .set({ status: "cancelled" })
+      .where(and(eq(escrowPayments.id, escrowId), eq(escrowPayments.status, "pending")))
+      .returning();
+    if (cancelled) {
+      return true;
+    }
+
+    const [claimed] = await db
+      .update(escrowPayments)
+      .set({ status: "refunding", claimedAt: new Date() })
+      .where(and(eq(escrowPayments.id, escrowId), eq(escrowPayments.status, "held")))
+      .returning();
+    if (!claimed) {
       return false;
     }
 
-    // In production: Refund to requester's original payment method
-    payment.status = 'refunded';
-    this.escrowPayments.set(escrowId, payment);
-    
+    try {
+      await this.refundClaimed(claimed);
+    } catch (error) {
+      await db.update(escrowPayments).set({ status: "held", claimedAt: null }).where(eq(escrowPayments.id, escrowId));
+      throw error;
+    }
+
+    // If this write fails the row stays "refunding" and recoverStaleClaims finishes it
+    await this.recordRefund(claimed);
     console.log(`Payment refunded: ${escrowId}`);
     return true;
   }
 
-  // Add funds to user wallet
-  async addToWallet(userId: string, amount: number): Promise<void> {
-    const wallet = this.userWallets.get(userId) || {
-      userId,
-      balance: 0,
-      pendingEarnings: 0,
-      kycStatus: 'pending',
-      paymentMethods: []
-    };
+  /**
+   * Refund as part of another change (cancelling the favor): `change` runs in the transaction that claims the
+   * escrow, so neither commits without the other. False, with nothing changed, when the escrow can't be refunded.
+   * The provider is called after the commit; if that fails the claim stays and recoverStaleClaims retries it.
+   */
+  async refundWith(escrowId: number, change: (tx: Transaction) => Promise<unknown>): Promise<boolean> {
+    let claimed: EscrowPayment | null;
+    try {
+      claimed = await db.transaction(async (tx) => {
+        await change(tx);
+        const [escrow] = await tx.select().from(escrowPayments).where(eq(escrowPayments.id, escrowId)).for("update");
+        if (escrow?.status !== "pending" && escrow?.status !== "held") {
+          tx.rollback();
+        }
+        return await this.claimRefund(tx, escrow);
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return false;
+      throw error;
+    }
+    if (claimed) await this.finishClaim(claimed);
+    return true;
+  }
+
+  /**
+   * Cancel a favor (`change`) and refund whatever its escrow holds in one transaction; a favor without a
+   * pending or held escrow is only cancelled. Like refundWith, a failed provider call is left to the recovery sweep.
+   */
+  async cancelWith<T>(favorId: number, change: (tx: Transaction) => Promise<T>): Promise<T> {
+    const { result, claimed } = await db.transaction(async (tx) => {
+      const result = await change(tx);
+      const [escrow] = await tx.select().from(escrowPayments).where(eq(escrowPayments.favorId, favorId)).for("update");
+      return { result, claimed: escrow ? await this.claimRefund(tx, escrow) : null };
+    });
+    if (claimed) await this.finishClaim(claimed);
+    return result;
+  }
+
+  // Inside the caller's transaction, on a locked row: an unfunded escrow is just closed, a held one is
+  // claimed for a refund and returned for finishClaim; any other state is left alone
+  private async claimRefund(tx: Transaction, escrow: EscrowPayment): Promise<EscrowPayment | null> {
+    if (escrow.status === "pending") {
+      await tx.update(escrowPayments).set({ status: "cancelled" }).where(eq(escrowPayments.id, escrow.id));
+      return null;
+    }
+    if (escrow.status !== "held") {
+      return null;
+    }
+    const [claimed] = await tx
+      .update(escrowPayments)
+      .set({ status: "refunding", claimedAt: new Date() })
+      .where(eq(escrowPayments.id, escrow.id))
+      .returning();
+    return claimed;
+  }
+
+  /**
+   * The provider half of a claim made inside a transaction ("releasing"/"refunding"), run once that committed.
+   * Never throws: on failure the row stays claimed and recoverStaleClaims retries it with the same idempotency key.
+   */
+  async finishClaim(claimed: EscrowPayment): Promise<void> {
+    try {
+      if (claimed.status === "releasing") {
+        await this.recordRelease(claimed, await this.payOutClaimed(claimed));
+        console.log(`Payment released: ${claimed.id}`);
+      } else {
+        await this.refundClaimed(claimed);
+        await this.recordRefund(claimed);
+        console.log(`Payment refunded: ${claimed.id}`);
+      }
+    } catch (error) {
+      console.error(`Settling escrow ${claimed.id} (${claimed.status}) failed, the recovery sweep will retry it:`, error);
+    }
+  }
+
+  // One idempotency key per claim: repeating the call for the same claim never moves money twice, while a new
+  // claim after a failed call isn't answered with that call's stored error
+  private async payOutClaimed(claimed: EscrowPayment): Promise<string> {
+    const payout = await this.provider.payout({
+      escrowId: claimed.id,
+      reference: claimed.providerReference!,
+      helperId: claimed.helperId,
+      amountCents: claimed.amountCents,
+      currency: claimed.currency,
+      idempotencyKey: this.claimKey(claimed, "payout"),
+    });
+    return payout.reference;
+  }
+
+  private async refundClaimed(claimed: EscrowPayment): Promise<void> {
+    await this.provider.refund(claimed.providerReference!, claimed.totalCents, this.claimKey(claimed, "refund"));
+  }
+
+  private claimKey(claimed: EscrowPayment, operation: "payout" | "refund"): string {
+    return `escrow_${claimed.id}_${operation}_${claimed.claimedAt?.getTime() ?? 0}`;
+  }
+
+  // Only from "releasing", so a recovery racing the original caller books the payout once
+  private async recordRelease(claimed: EscrowPayment, payoutReference: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [released] = await tx
+        .update(escrowPayments)
+        .set({ status: "released", releasedAt: new Date(), claimedAt: null })
+        .where(and(eq(escrowPayments.id, claimed.id), eq(escrowPayments.status, "releasing")))
+        .returning({ id: escrowPayments.id });
+      if (!released) return;
+
+      await this.appendLedger(tx, claimed.helperId, claimed, "escrow_release", claimed.amountCents, payoutReference);
+      await this.adjustWallet(tx, claimed.helperId, claimed.currency, {
+        balanceCents: claimed.amountCents,
+        pendingCents: -claimed.amountCents,
+      });
+    });
+  }
+
+  private async recordRefund(claimed: EscrowPayment): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [refunded] = await tx
+        .update(escrowPayments)
+        .set({ status: "refunded", refundedAt: new Date(), claimedAt: null })
+        .where(and(eq(escrowPayments.id, claimed.id), eq(escrowPayments.status, "refunding")))
+        .returning({ id: escrowPayments.id });
+      if (!refunded) return;
 
-    wallet.balance += amount;
-    this.userWallets.set(userId, wallet);
+      await this.appendLedger(tx, claimed.requesterId, claimed, "escrow_refund", claimed.totalCents, claimed.providerReference);
+      await this.adjustWallet(tx, claimed.helperId, claimed.currency, { pendingCents: -claimed.amountCents });
+    });
   }
 
-  // Check for auto-release eligible payments
-  async processAutoReleases(): Promise<void> {
-    const now = new Date();
-    
-    for (const [id, payment] of this.escrowPayments) {
-      if (payment.status === 'held' && payment.autoReleaseAt <= now) {
-        await this.releasePayment(id, 'auto');
+  // ---------- Favor lifecycle hooks ----------
+
+  async onFavorAccepted(favor: Favor): Promise<EscrowPayment | null> {
+    const amountCents = favor.negotiatedPriceCents ?? favor.priceCents;
+    if (!amountCents || !favor.helperId) return null;
+    return await this.createEscrowPayment(favor.id, parseInt(favor.posterId), favor.helperId, amountCents, favor.currency, favor.countryCode);
+  }
+
+  /**
+   * Moves a not-yet-funded escrow to a newly agreed price, inside the caller's transaction.
+   * False once the requester has paid: held money isn't re-priced.
+   */
+  async repricePendingEscrow(tx: Transaction, favorId: number, amountCents: number, countryCode: string | null): Promise<boolean> {
+    const [escrow] = await tx.select().from(escrowPayments).where(eq(escrowPayments.favorId, favorId)).for("update");
+    if (!escrow) return true;
+    if (escrow.status !== "pending") return false;
+
+    const { serviceFee, totalAmount } = this.calculateFees(amountCents, countryCode);
+    await tx
+      .update(escrowPayments)
+      .set({ amountCents, serviceFeeCents: serviceFee, totalCents: totalAmount })
+      .where(eq(escrowPayments.id, escrow.id));
+    return true;
+  }
+
+  async onFavorCompleted(favorId: number): Promise<void> {
+    await this.scheduleRelease(favorId);
+  }
+
+  // ---------- Disputes ----------
+
+  /** Completed favors can be disputed until their held funds auto-release */
+  isWithinDisputeWindow(completedAt: Date | null, now: Date = new Date()): boolean {
+    if (!completedAt) return true;
+    return now.getTime() < new Date(completedAt).getTime() + this.AUTO_RELEASE_HOURS * 60 * 60 * 1000;
+  }
+
+  // Freeze the escrow: no funding, auto-release or refund moves while a dispute is open
+  async freezeForDispute(tx: Transaction, favorId: number): Promise<EscrowPayment | undefined> {
+    const [frozen] = await tx
+      .update(escrowPayments)
+      .set({ status: "disputed", autoReleaseAt: null })
+      .where(and(eq(escrowPayments.favorId, favorId), inArray(escrowPayments.status, ["pending", "held"])))
+      .returning();
+    return frozen;
+  }
+
+  /**
+   * Settle a frozen escrow per the admin's decision, inside the transaction that resolves the dispute.
+   * Funded escrows go straight from "disputed" to a release or refund claim, returned for finishClaim
+   * once the transaction commits; a failed provider call then stays claimed for recoverStaleClaims.
+   */
+  async settleDispute(tx: Transaction, favorId: number, outcome: "release" | "refund"): Promise<EscrowPayment | null> {
+    const [frozen] = await tx
+      .select()
+      .from(escrowPayments)
+      .where(and(eq(escrowPayments.favorId, favorId), eq(escrowPayments.status, "disputed")))
+      .for("update");
+    if (!frozen) {
+      return null;
+    }
+
+    // heldAt marks funds that were actually authorized; without any, a refund closes the escrow
+    // and a release leaves it open for the requester to fund
+    if (!frozen.heldAt) {
+      await tx
+        .update(escrowPayments)
+        .set({ status: outcome === "refund" ? "cancelled" : "pending" })
+        .where(eq(escrowPayments.id, frozen.id));
+      return null;
+    }
+
+    const [claimed] = await tx
+      .update(escrowPayments)
+      .set({ status: outcome === "refund" ? "refunding" : "releasing", claimedAt: new Date() })
+      .where(eq(escrowPayments.id, frozen.id))
+      .returning();
+    return claimed;
+  }
+
+  // ---------- Auto-release job ----------
+
+  /**
+   * Finish releases and refunds left half-done: a crash, or a failed write after the provider answered,
+   * leaves the row claimed ("releasing"/"refunding"), which nothing else would ever pick up again.
+   * The provider call is repeated with the same idempotency key, then the outcome is recorded.
+   */
+  async recoverStaleClaims(now: Date = new Date()): Promise<number> {
+    const staleBefore = new Date(now.getTime() - this.STALE_CLAIM_MINUTES * 60 * 1000);
+    const stale = await db
+      .select()
+      .from(escrowPayments)
+      .where(and(
+        inArray(escrowPayments.status, ["releasing", "refunding"]),
+        // Rows claimed before claimed_at existed have none
+        or(isNull(escrowPayments.claimedAt), lte(escrowPayments.claimedAt, staleBefore))
+      ));
+
+    let recovered = 0;
+    for (const claimed of stale) {
+      try {
+        if (claimed.status === "releasing") {
+          await this.recordRelease(claimed, await this.payOutClaimed(claimed));
+        } else {
+          await this.refundClaimed(claimed);
+          await this.recordRefund(claimed);
+        }
+        recovered++;
+      } catch (error) {
+        // Stays claimed; the next run tries again
+        console.error(`Recovering escrow ${claimed.id} (${claimed.status}) failed:`, error);
       }
     }
+    return recovered;
   }
 
-  // Get payment details
-  getEscrowPayment(escrowId: string): EscrowPayment | undefined {
-    return this.escrowPayments.get(escrowId);
+  // Release every held payment whose dispute window has elapsed; safe to run concurrently
+  async processAutoReleases(now: Date = new Date()): Promise<number> {
+    const due = await db
+      .select({ id: escrowPayments.id })
+      .from(escrowPayments)
+      .where(and(eq(escrowPayments.status, "held"), lte(escrowPayments.autoReleaseAt, now)));
+
+    let released = 0;
+    for (const { id } of due) {
+      try {
+        if (await this.releasePayment(id, "auto")) released++;
+      } catch (error) {
+        console.error(`Auto-release failed for escrow ${id}:`, error);
+      }
+    }
+    return released;
   }
 
-  // Get user wallet
-  getUserWallet(userId: string): UserWallet | undefined {
-    return this.userWallets.get(userId);
+  startAutoReleaseJob(intervalMs = 15 * 60 * 1000) {
+    if (this.autoReleaseTimer) return;
+
+    const run = async () => {
+      if (this.autoReleaseRunning) return;
+      this.autoReleaseRunning = true;
+      try {
+        const recovered = await this.recoverStaleClaims();
+        if (recovered > 0) console.log(`Recovered ${recovered} stuck escrow payment(s)`);
+        const released = await this.processAutoReleases();
+        if (released > 0) console.log(`Auto-released ${released} escrow payment(s)`);
+      } catch (error) {
+        console.error("Escrow auto-release job error:", error);
+      } finally {
+        this.autoReleaseRunning = false;
+      }
+    };
+
+    this.autoReleaseTimer = setInterval(run, intervalMs);
+    // Catch up on anything that fell due while the server was down
+    run();
   }
 
-  // Calculate fees for display
-  calculateFees(amount: number): { serviceFee: number; totalAmount: number; helperReceives: number } {
-    const serviceFee = amount * this.SERVICE_FEE_PERCENTAGE;
+  stopAutoReleaseJob() {
+    if (this.autoReleaseTimer) clearInterval(this.autoReleaseTimer);
+    this.autoReleaseTimer = null;
+  }
+
+  // ---------- Queries ----------
+
+  async getEscrowPayment(escrowId: number): Promise<EscrowPayment | undefined> {
+    const [payment] = await db.select().from(escrowPayments).where(eq(escrowPayments.id, escrowId));
+    return payment;
+  }
+
+  async getEscrowForFavor(favorId: number): Promise<EscrowPayment | undefined> {
+    const [payment] = await db.select().from(escrowPayments).where(eq(escrowPayments.favorId, favorId));
+    return payment;
+  }
+
+  async getUserWallet(userId: number, currency = "EUR"): Promise<UserWallet> {
+    const [wallet] = await db
+      .select()
+      .from(userWallets)
+      .where(and(eq(userWallets.userId, userId), eq(userWallets.currency, currency)));
+    return wallet ?? {
+      userId,
+      balanceCents: 0,
+      pendingCents: 0,
+      currency,
+      kycStatus: "pending",
+      updatedAt: null,
+    };
+  }
+
+  /** Every currency the user has earned in; an empty EUR wallet for new users */
+  async getUserWallets(userId: number): Promise<UserWallet[]> {
+    const wallets = await db.select().from(userWallets).where(eq(userWallets.userId, userId));
+    return wallets.length > 0 ? wallets : [await this.getUserWallet(userId)];
+  }
+
+  async getWalletLedger(userId: number, limit = 50): Promise<WalletLedgerEntry[]> {
+    return await db
+      .select()
+      .from(walletLedger)
+      .where(eq(walletLedger.userId, userId))
+      .orderBy(desc(walletLedger.createdAt))
+      .limit(limit);
+  }
+
+  // Calculate fees for display (all values in minor units of the favor's currency)
+  calculateFees(amountCents: number, countryCode?: string | null): { serviceFee: number; totalAmount: number; helperReceives: number } {
+    const rule = feeRuleFor(countryCode);
+    const serviceFee = Math.max(Math.round(amountCents * rule.percentage), rule.minimumMinor);
     return {
       serviceFee,
-      totalAmount: amount + serviceFee,
-      helperReceives: amount
+      totalAmount: amountCents + serviceFee,
+      helperReceives: amountCents
     };
   }
 
@@ -168,11 +554,47 @@ export class PaymentService {
     console.log(`Creating MangoPay wallet for user ${userId}`);
     return `wallet_${userId}_${Date.now()}`;
   }
+
+  // ---------- Internals ----------
+
+  private async appendLedger(
+    tx: Transaction,
+    userId: number,
+    escrow: EscrowPayment,
+    type: "escrow_hold" | "escrow_release" | "escrow_refund",
+    amountCents: number,
+    providerReference: string | null
+  ) {
+    await tx.insert(walletLedger).values({
+      userId,
+      escrowId: escrow.id,
+      type,
+      amountCents,
+      currency: escrow.currency,
+      providerReference,
+    });
+  }
+
+  private async adjustWallet(
+    tx: Transaction,
+    userId: number,
+    currency: string,
+    delta: { balanceCents?: number; pendingCents?: number }
+  ) {
+    const balance = delta.balanceCents ?? 0;
+    const pending = delta.pendingCents ?? 0;
+    await tx
+      .insert(userWallets)
+      .values({ userId, currency, balanceCents: balance, pendingCents: Math.max(0, pending) })
+      .onConflictDoUpdate({
+        target: [userWallets.userId, userWallets.currency],
+        set: {
+          balanceCents: sql`${userWallets.balanceCents} + ${balance}`,
+          pendingCents: sql`GREATEST(0, ${userWallets.pendingCents} + ${pending})`,
+          updatedAt: new Date(),
+        },
+      });
+  }
 }
 
 export const paymentService = new PaymentService();
-
-// Auto-release scheduler (run every hour)
-setInterval(() => {
-  paymentService.processAutoReleases();
-}, 60 * 60 * 1000);
\ No newline at end of file
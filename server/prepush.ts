@@ -0,0 +1,92 @@
+// Runs before `drizzle-kit push`: fixes existing rows and columns so the new schema can be applied
+import { sql } from "drizzle-orm";
+import { db, pool } from "./db";
+
+// chat_rooms_favor_helper_idx allows one room per helper on a favor, but older databases can hold several.
+// The oldest room is kept; the others' messages and inbox links move into it before they are deleted
+async function dedupeChatRooms(): Promise<number> {
+  const duplicates = sql`(
+    SELECT id, keep_id FROM (
+      SELECT id, min(id) OVER (PARTITION BY favor_id, helper_id) AS keep_id FROM chat_rooms
+    ) ranked WHERE id <> keep_id
+  )`;
+
+  return await db.transaction(async (tx) => {
+    // A fresh database has nothing to fix
+    const rooms = await tx.execute(sql`SELECT to_regclass('chat_rooms') AS name`);
+    if (!rooms.rows[0]?.name) return 0;
+
+    await tx.execute(sql`
+      UPDATE chat_messages m SET chat_room_id = d.keep_id
+      FROM ${duplicates} d WHERE m.chat_room_id = d.id
+    `);
+
+    const inbox = await tx.execute(sql`SELECT to_regclass('in_app_notifications') AS name`);
+    if (inbox.rows[0]?.name) {
+      await tx.execute(sql`
+        UPDATE in_app_notifications n
+        SET chat_id = d.keep_id,
+            url = CASE WHEN n.url = '/chat/' || d.id THEN '/chat/' || d.keep_id ELSE n.url END
+        FROM ${duplicates} d WHERE n.chat_id = d.id
+      `);
+    }
+
+    // A conversation still open in any of its copies stays open
+    await tx.execute(sql`
+      UPDATE chat_rooms k SET is_active = true
+      FROM ${duplicates} d JOIN chat_rooms c ON c.id = d.id
+      WHERE k.id = d.keep_id AND c.is_active
+    `);
+
+    const deleted = await tx.execute(sql`
+      DELETE FROM chat_rooms c USING ${duplicates} d WHERE c.id = d.id RETURNING c.id
+    `);
+    return deleted.rows.length;
+  });
+}
+
+const COORDINATE = /^[-+]?\d+(\.\d+)?$/;
+
+// favors.latitude/longitude went from text to numeric(9,6). The push alters the type without a USING clause,
+// which Postgres refuses for text columns, so the cast happens here; rows that aren't coordinates stop it
+async function convertFavorCoordinates(): Promise<boolean> {
+  return await db.transaction(async (tx) => {
+    const column = await tx.execute(sql`
+      SELECT data_type FROM information_schema.columns
+      WHERE table_schema = current_schema() AND table_name = 'favors' AND column_name = 'latitude'
+    `);
+    const dataType = column.rows[0]?.data_type;
+    if (dataType !== "text" && dataType !== "character varying") return false;
+
+    const rows = await tx.execute(sql`SELECT id, latitude, longitude FROM favors`);
+    const invalid = rows.rows.filter(row => {
+      const latitude = String(row.latitude ?? "").trim();
+      const longitude = String(row.longitude ?? "").trim();
+      return !COORDINATE.test(latitude) || !COORDINATE.test(longitude)
+        || Math.abs(Number(latitude)) > 90 || Math.abs(Number(longitude)) > 180;
+    });
+    if (invalid.length > 0) {
+      throw new Error(`Favors with coordinates that aren't numbers, fix them before pushing: ${invalid.map(row => row.id).join(", ")}`);
+    }
+
+    await tx.execute(sql`
+      ALTER TABLE favors
+        ALTER COLUMN latitude TYPE numeric(9,6) USING trim(latitude)::numeric(9,6),
+        ALTER COLUMN longitude TYPE numeric(9,6) USING trim(longitude)::numeric(9,6)
+    `);
+    return true;
+  });
+}
+
+(async () => {
+  try {
+    const merged = await dedupeChatRooms();
+    if (merged > 0) console.log(`merged ${merged} duplicate chat room(s)`);
+    if (await convertFavorCoordinates()) console.log("converted favor coordinates to numeric(9,6)");
+  } catch (error) {
+    console.error("Pre-push data fix failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+})();
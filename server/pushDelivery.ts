@@ -0,0 +1,17 @@
+// Outcome of one push attempt, shared by the push providers and the notification outbox
+
+/** "no_subscription": nothing to deliver to (never subscribed, or every subscription was pruned) */
+export type PushResult = "delivered" | "no_subscription";
+
+export class PushDeliveryError extends Error {
+  /** Permanent failures (bad payload, misconfiguration) are not retried */
+  constructor(message: string, public readonly permanent: boolean = false) {
+    super(message);
+    this.name = "PushDeliveryError";
+  }
+}
+
+/** 429 and 5xx are worth retrying; other 4xx will fail the same way again */
+export function isTransientStatus(statusCode: number | undefined): boolean {
+  return !statusCode || statusCode === 429 || statusCode >= 500;
+}
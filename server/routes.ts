@@ -1,31 +1,102 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type RequestHandler } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import path from "path";
+import { storage, decodeNearbyCursor, decodeSearchCursor, DELETABLE_STATUSES } from "./storage";
 import { databaseChatService } from "./databaseChatService";
-import { insertFavorSchema } from "@shared/schema";
+import { insertFavorSchema, insertFavorSchemaFor, favorSearchSchema, insertRatingSchema, submitOfferSchema, counterOfferSchema, chatHistoryQuerySchema, IMAGE_CONTENT_TYPES, MAX_FAVOR_IMAGES, MAX_IMAGE_BYTES, openDisputeSchema, disputeStatementSchema, resolveDisputeSchema, reviewModerationEventSchema, alertAreaSchema, notificationPreferencesSchema } from "@shared/schema";
+import { FavorTransitionError, isFavorStatus, type FavorStatus } from "@shared/favorStateMachine";
 // Removed OpenAI import to save costs
 import { notificationService } from "./notifications";
 import { sendNotification } from "./unifiedNotificationService";
-import { locationNotificationService } from "./locationNotifications";
-import { getCountryFromCoordinates } from "./geocoding";
+import { locationNotificationService, AlertAreaError } from "./locationNotifications";
+import { notificationPreferencesService } from "./notificationPreferences";
+import { notificationOutboxService } from "./notificationOutbox";
+import { inAppNotificationService } from "./inAppNotifications";
+import { geocoder, offlineGeocoder, reverseGeocode, areaLabel, type GeocodeOptions } from "./geocoding";
+import { categoryService } from "./categories";
+import { currencyForCountry, isCurrency, parseMoney } from "@shared/money";
+import { presentFavor, presentFavors } from "./locationPrivacy";
 import { z } from "zod";
 import multer from "multer";
 import { aiModerationService } from "./aiModeration";
-import { moderationReporter } from "./moderationReports";
-import { getDemoModerationResults, testScenarios } from "./demoModerationResults";
-
-
-const upload = multer({ 
+import { gamificationService } from "./gamification";
+import { paymentService, PaymentError } from "./payments";
+import { moderationReporter, type ModerationEventFilters } from "./moderationReports";
+import { testScenarios } from "./demoModerationResults";
+import { disputeService, DisputeError } from "./disputes";
+import { offerService, OfferError } from "./offers";
+import { counterOfferService, CounterOfferError } from "./counterOffers";
+import { attachmentService, AttachmentError, isImageContentType } from "./attachments";
+import { fileStorage, LocalDiskStorage } from "./fileStorage";
+import { hashPassword, verifyPassword, isHashedPassword, toPublicUser, requireAuth, requireAdmin, signIn, signOut } from "./auth";
+
+
+const upload = multer({
   storage: multer.memoryStorage(),
-  limits: { fileSize: 5 * 1024 * 1024 } // 5MB limit
+  limits: { fileSize: MAX_IMAGE_BYTES, files: MAX_FAVOR_IMAGES },
+  fileFilter: (_req, file, cb) => {
+    if (isImageContentType(file.mimetype)) return cb(null, true);
+    cb(new AttachmentError(`Only ${IMAGE_CONTENT_TYPES.map(type => type.replace("image/", "").toUpperCase()).join(", ")} images are supported`, 415));
+  },
 });
 
+// Runs a multer middleware, answering its errors (too large, too many files, wrong type) the way the routes do
+function acceptUpload(middleware: RequestHandler): RequestHandler {
+  return (req, res, next) => middleware(req, res, (error?: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return error.code === "LIMIT_FILE_SIZE"
+        ? res.status(413).json({ error: `Images can be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB` })
+        : res.status(400).json({ error: error.message });
+    }
+    if (error instanceof AttachmentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    next(error);
+  });
+}
+
+// Query string → moderation event filters; unknown or malformed values are ignored
+function parseModerationFilters(query: Record<string, any>): ModerationEventFilters {
+  const int = (value: any) => (value !== undefined && Number.isFinite(parseInt(value)) ? parseInt(value) : undefined);
+  const date = (value: any) => (value && !isNaN(Date.parse(value)) ? new Date(value) : undefined);
+  const oneOf = <T extends string>(value: any, allowed: readonly T[]) => (allowed.includes(value) ? (value as T) : undefined);
+
+  return {
+    userId: int(query.userId),
+    favorId: int(query.favorId),
+    type: oneOf(query.type, ["chat_blocked", "favor_blocked", "dispute_analyzed", "suggestion_given", "image_unchecked"] as const),
+    severity: oneOf(query.severity, ["low", "medium", "high"] as const),
+    reviewStatus: oneOf(query.reviewStatus, ["pending", "confirmed", "overturned"] as const),
+    from: date(query.from),
+    to: date(query.to),
+    limit: int(query.limit),
+    offset: int(query.offset),
+  };
+}
+
+// Signed-in user id, or null for anonymous visitors
+function viewerId(req: Request): number | null {
+  return req.userId ? parseInt(req.userId) : null;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  
+  // Favor photos when they're kept on local disk; keys are never reused, so they can be cached for good.
+  // Chat images stay off this path - they go through the participant check of /api/chat/rooms/:id/attachments
+  if (fileStorage instanceof LocalDiskStorage) {
+    app.use(
+      `${fileStorage.publicPath}/favors`,
+      express.static(path.join(fileStorage.directory, "favors"), { immutable: true, maxAge: "365d", index: false })
+    );
+  }
+
   // Authentication endpoints
   app.post("/api/auth/signup", async (req, res) => {
     try {
       const { firstName, lastName, email, password } = req.body;
+
+      if (!firstName || !lastName || !email || !password) {
+        return res.status(400).json({ message: "First name, last name, email and password are required" });
+      }
       
       // Check if user already exists
       const existingUser = await storage.getUserByEmail(email);
@@ -38,12 +109,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         firstName,
         lastName,
         email,
-        password, // In production, hash this password
+        password: await hashPassword(password),
       });
+
+      await signIn(req, newUser.id);
       
       // Return user data without password
-      const { password: _, ...userWithoutPassword } = newUser;
-      res.json(userWithoutPassword);
+      res.json(toPublicUser(newUser));
     } catch (error) {
       console.error("Signup error:", error);
       res.status(500).json({ message: "Failed to create account" });
@@ -53,6 +125,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/auth/signin", async (req, res) => {
     try {
       const { email, password } = req.body;
+
+      if (!email || !password) {
+        return res.status(400).json({ message: "Email and password are required" });
+      }
       
       // Find user by email
       const user = await storage.getUserByEmail(email);
@@ -60,20 +136,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Invalid credentials" });
       }
       
-      // Check password (in production, use proper password hashing)
-      if (user.password !== password) {
+      if (!(await verifyPassword(password, user.password))) {
         return res.status(401).json({ message: "Invalid credentials" });
       }
+
+      // Upgrade accounts that still hold a plaintext password
+      if (!isHashedPassword(user.password)) {
+        await storage.updateUser(user.id, { password: await hashPassword(password) });
+      }
+
+      await signIn(req, user.id);
       
       // Return user data without password
-      const { password: _, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      res.json(toPublicUser(user));
     } catch (error) {
       console.error("Signin error:", error);
       res.status(500).json({ message: "Failed to sign in" });
     }
   });
 
+  app.post("/api/auth/signout", async (req, res) => {
+    try {
+      await signOut(req);
+      res.clearCookie("favr.sid");
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Signout error:", error);
+      res.status(500).json({ message: "Failed to sign out" });
+    }
+  });
+
+  // Current session user
+  app.get("/api/auth/me", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.userId!));
+      if (!user) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error("Session lookup error:", error);
+      res.status(500).json({ message: "Failed to load session" });
+    }
+  });
+
   // VAPID public key endpoint
   app.get("/api/vapid-public-key", (req, res) => {
     res.json({ 
@@ -81,43 +187,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  // Unified notification subscription endpoint (iPhone + Android)
-  app.post("/api/notifications/subscribe", async (req, res) => {
+  // Unified notification subscription endpoint (iPhone + Android); registers one device per browser/app
+  app.post("/api/notifications/subscribe", requireAuth, async (req, res) => {
     try {
-      const { platform, subscriptionData, userId } = req.body;
-      if (!platform || !subscriptionData || !userId) {
-        return res.status(400).json({ message: "Missing platform, subscriptionData, or userId" });
+      const { platform, subscriptionData, deviceInfo } = req.body;
+      if (!platform || !subscriptionData) {
+        return res.status(400).json({ message: "Missing platform or subscriptionData" });
       }
       if (!["onesignal", "webpush"].includes(platform)) {
         return res.status(400).json({ message: "Invalid platform" });
       }
 
-      await storage.saveUnifiedNotificationSubscription(userId, platform, subscriptionData);
-
-      // Mirror to legacy ONLY for webpush with a valid shape
-      if (platform === "webpush") {
-        try {
-          const parsed = typeof subscriptionData === "string" ? JSON.parse(subscriptionData) : subscriptionData;
-          const sub = parsed?.endpoint && parsed?.keys?.p256dh && parsed?.keys?.auth
-            ? { endpoint: parsed.endpoint, keys: parsed.keys }
-            : parsed?.subscription?.endpoint && parsed?.subscription?.keys?.p256dh && parsed?.subscription?.keys?.auth
-              ? { endpoint: parsed.subscription.endpoint, keys: parsed.subscription.keys }
-              : null;
-
-          if (sub) {
-            await storage.saveNotificationSubscription(userId, {
-              endpoint: sub.endpoint,
-              keys: { p256dh: sub.keys.p256dh, auth: sub.keys.auth },
-            });
-          } else {
-            console.warn(`webpush subscriptionData invalid for mirroring; skipping legacy insert for user ${userId}`);
-          }
-        } catch (e) {
-          console.warn(`webpush mirror parse failed for user ${userId}; skipping legacy insert`, e);
-        }
+      const device = await storage.saveUnifiedNotificationSubscription(req.userId!, platform, subscriptionData, {
+        os: typeof deviceInfo?.platform === "string" ? deviceInfo.platform : null,
+        browser: typeof deviceInfo?.browser === "string" ? deviceInfo.browser : null,
+        userAgent: req.get("user-agent") ?? null,
+      });
+      if (!device) {
+        return res.status(409).json({ message: "This device is registered to another account" });
       }
 
-      res.json({ success: true, message: `${platform} subscription saved`, platform });
+      res.json({ success: true, message: `${platform} subscription saved`, platform, deviceId: device.id });
     } catch (err) {
       console.error("Unified subscribe error:", err);
       res.status(500).json({ message: "Failed to save subscription" });
@@ -125,12 +215,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
 
-  // ✅ Unsubscribe
-  app.post("/api/notifications/unsubscribe", async (req, res) => {
+  // ✅ Unsubscribe: only this browser when its endpoint is given, otherwise every device of the user
+  app.post("/api/notifications/unsubscribe", requireAuth, async (req, res) => {
     try {
-      const { userId } = req.body;
-      if (!userId) return res.status(400).json({ message: "Missing userId" });
-      await storage.removeNotificationSubscription(userId);
+      const { endpoint } = req.body;
+      if (typeof endpoint === "string" && endpoint) {
+        const device = (await storage.getPushDevices(parseInt(req.userId!))).find(d => d.endpoint === endpoint);
+        if (device) await storage.removePushDevice(device.userId, device.id);
+      } else {
+        await storage.removeNotificationSubscription(req.userId!);
+      }
       res.json({ success: true, message: "Subscription removed" });
     } catch (err) {
       console.error("Unsubscribe error:", err);
@@ -138,15 +232,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/notifications/settings", async (req, res) => {
+  // Devices that receive push for the signed-in user
+  app.get("/api/notifications/devices", requireAuth, async (req, res) => {
+    try {
+      const devices = await storage.getPushDevices(parseInt(req.userId!));
+      res.json(devices.map(({ id, platform, label, os, browser, userAgent, lastSeenAt, createdAt }) => ({
+        id, platform, label, os, browser, userAgent, lastSeenAt, createdAt,
+      })));
+    } catch (error) {
+      console.error("Push devices error:", error);
+      res.status(500).json({ error: "Failed to fetch devices" });
+    }
+  });
+
+  app.delete("/api/notifications/devices/:id", requireAuth, async (req, res) => {
     try {
-      const { userId, enabled } = req.body;
+      const deviceId = parseInt(req.params.id);
+      if (isNaN(deviceId)) {
+        return res.status(400).json({ error: "Invalid device ID" });
+      }
+      const removed = await storage.removePushDevice(parseInt(req.userId!), deviceId);
+      if (!removed) {
+        return res.status(404).json({ error: "Device not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Revoke push device error:", error);
+      res.status(500).json({ error: "Failed to revoke device" });
+    }
+  });
+
+  app.post("/api/notifications/settings", requireAuth, async (req, res) => {
+    try {
+      const { enabled } = req.body;
       
-      if (!userId || typeof enabled !== 'boolean') {
-        return res.status(400).json({ message: "Missing userId or enabled flag" });
+      if (typeof enabled !== 'boolean') {
+        return res.status(400).json({ message: "Missing enabled flag" });
       }
 
-      const updatedUser = await storage.updateNotificationSettings(userId, enabled);
+      const updatedUser = await storage.updateNotificationSettings(req.userId!, enabled);
       
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
@@ -163,12 +287,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Per-type/channel switches, quiet hours and digest mode (applied in sendNotification)
+  app.get("/api/notifications/preferences", requireAuth, async (req, res) => {
+    try {
+      const prefs = await notificationPreferencesService.getPreferences(parseInt(req.userId!));
+      res.json(prefs);
+    } catch (error) {
+      console.error("Notification preferences error:", error);
+      res.status(500).json({ error: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put("/api/notifications/preferences", requireAuth, async (req, res) => {
+    try {
+      const result = notificationPreferencesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid notification preferences", details: result.error.errors });
+      }
+
+      const prefs = await notificationPreferencesService.updatePreferences(parseInt(req.userId!), result.data);
+      res.json(prefs);
+    } catch (error) {
+      console.error("Notification preferences error:", error);
+      res.status(500).json({ error: "Failed to update notification preferences" });
+    }
+  });
+
+  // What was pushed to the current user and whether it landed
+  app.get("/api/notifications/history", requireAuth, async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const history = await notificationOutboxService.getHistory(parseInt(req.userId!), limit);
+      res.json(history);
+    } catch (error) {
+      console.error("Notification history error:", error);
+      res.status(500).json({ error: "Failed to fetch notification history" });
+    }
+  });
+
   // ✅ Test notification
-  app.post("/api/notifications/test", async (req, res) => {
+  app.post("/api/notifications/test", requireAuth, async (req, res) => {
     try {
-      const { userId } = req.body;
-      if (!userId) return res.status(400).json({ message: "Missing userId" });
-      const result = await notificationService.sendToUser(userId, {
+      const result = await notificationService.sendToUser(req.userId!, {
         title: "Favr Test Notification",
         body: "Your notifications are working! 🚀",
         data: { url: "/" },
@@ -225,14 +385,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Add subscription for any user (for manual testing and onboarding)
-  app.post("/api/notifications/subscribe-user", async (req, res) => {
+  // Add a test subscription for the current user (for manual testing and onboarding)
+  app.post("/api/notifications/subscribe-user", requireAuth, async (req, res) => {
     try {
-      const { userId } = req.body;
-      
-      if (!userId) {
-        return res.status(400).json({ message: "Missing userId" });
-      }
+      const userId = req.userId!;
 
       // Create a test subscription for this user
       const testSubscription = {
@@ -279,7 +435,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Complete user onboarding with demographics  
   app.post("/api/auth/complete-onboarding", async (req: any, res) => {
     try {
-      const userId = req.headers['user-id']?.toString();
+      const userId = req.userId;
       const { dateOfBirth, country } = req.body;
       
       if (!userId) {
@@ -383,7 +539,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/user/location", async (req: any, res) => {
     try {
       // Get actual user ID from request header
-      const userId = req.headers['user-id']?.toString();
+      const userId = req.userId;
       const { latitude, longitude } = req.body;
       
       if (!userId) {
@@ -395,7 +551,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       
-      locationNotificationService.updateUserLocation(userId, latitude, longitude);
+      await locationNotificationService.updateUserLocation(userId, latitude, longitude);
       res.json({ success: true, message: "Location updated for notifications" });
     } catch (error) {
       console.error("Error updating user location:", error);
@@ -403,17 +559,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Saved alert areas: new favors inside an area's radius, categories and minimum price trigger a notification
+  app.get("/api/user/alert-areas", requireAuth, async (req, res) => {
+    try {
+      const areas = await locationNotificationService.listAlertAreas(parseInt(req.userId!));
+      res.json(areas);
+    } catch (error) {
+      console.error("Error fetching alert areas:", error);
+      res.status(500).json({ error: "Failed to fetch alert areas" });
+    }
+  });
+
+  app.post("/api/user/alert-areas", requireAuth, async (req, res) => {
+    try {
+      const result = alertAreaSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid alert area", details: result.error.errors });
+      }
+
+      const area = await locationNotificationService.createAlertArea(parseInt(req.userId!), result.data);
+      res.status(201).json(area);
+    } catch (error) {
+      if (error instanceof AlertAreaError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error creating alert area:", error);
+      res.status(500).json({ error: "Failed to create alert area" });
+    }
+  });
+
+  app.patch("/api/user/alert-areas/:id", requireAuth, async (req, res) => {
+    try {
+      const result = alertAreaSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid alert area", details: result.error.errors });
+      }
+
+      const area = await locationNotificationService.updateAlertArea(parseInt(req.userId!), parseInt(req.params.id), result.data);
+      res.json(area);
+    } catch (error) {
+      if (error instanceof AlertAreaError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating alert area:", error);
+      res.status(500).json({ error: "Failed to update alert area" });
+    }
+  });
+
+  app.delete("/api/user/alert-areas/:id", requireAuth, async (req, res) => {
+    try {
+      await locationNotificationService.deleteAlertArea(parseInt(req.userId!), parseInt(req.params.id));
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof AlertAreaError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error deleting alert area:", error);
+      res.status(500).json({ error: "Failed to delete alert area" });
+    }
+  });
+
   // Complete favor endpoint - ONLY the favor requester can mark as complete
   app.post("/api/favors/:id/complete", async (req, res) => {
     try {
       const favorId = parseInt(req.params.id);
-      const completedByUserId = req.headers['user-id']?.toString();
-      const { negotiatedPrice, rating } = req.body;
+      const completedByUserId = req.userId;
+      const { rating, comment } = req.body;
       
       if (!completedByUserId) {
         return res.status(401).json({ error: "User not authenticated" });
       }
-      
+
       // Get the favor to check who posted it
       const favor = await storage.getFavor(favorId);
       if (!favor) {
@@ -425,18 +641,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Only the favor requester can mark it as complete" });
       }
       
-      const completedFavor = await storage.completeFavor(favorId, parseInt(completedByUserId), negotiatedPrice);
-      if (!completedFavor) {
-        return res.status(404).json({ error: "Favor not found" });
+      // Optional review of the helper, submitted together with completion
+      let review: { rating: number; comment?: string | null } | undefined;
+      if (rating !== undefined && favor.helperId) {
+        const parsed = insertRatingSchema.pick({ rating: true, comment: true }).safeParse({ rating, comment });
+        if (!parsed.success) {
+          return res.status(400).json({ error: "Invalid rating", details: parsed.error.issues });
+        }
+        review = parsed.data;
+      }
+      
+      const completedFavor = await storage.completeFavor(favorId, parseInt(completedByUserId), review);
+      
+      // Held funds release automatically after the dispute window
+      try {
+        await paymentService.onFavorCompleted(favorId);
+      } catch (error) {
+        console.error("Error scheduling escrow release:", error);
       }
       
-      res.json({ success: true, favor: completedFavor });
+      res.json({ success: true, favor: presentFavor(completedFavor, viewerId(req)) });
     } catch (error) {
+      if (error instanceof FavorTransitionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Error completing favor:", error);
       res.status(500).json({ error: "Failed to complete favor" });
     }
   });
 
+  // Review the other participant of a completed favor (helper → requester, or requester if skipped at completion)
+  app.post("/api/favors/:id/reviews", requireAuth, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      const raterId = parseInt(req.userId!);
+
+      const favor = await storage.getFavor(favorId);
+      if (!favor) {
+        return res.status(404).json({ error: "Favor not found" });
+      }
+
+      if (favor.status !== "completed") {
+        return res.status(400).json({ error: "Only completed favors can be reviewed" });
+      }
+
+      const posterId = parseInt(favor.posterId);
+      if (raterId !== posterId && raterId !== favor.helperId) {
+        return res.status(403).json({ error: "Only participants can review this favor" });
+      }
+
+      const ratedUserId = raterId === posterId ? favor.helperId : posterId;
+      if (!ratedUserId) {
+        return res.status(400).json({ error: "This favor has no one to review" });
+      }
+
+      const existing = await storage.getFavorRatings(favorId);
+      if (existing.some(r => r.raterId === raterId)) {
+        return res.status(409).json({ error: "You have already reviewed this favor" });
+      }
+
+      const result = insertRatingSchema.safeParse({
+        favorId,
+        raterId,
+        ratedUserId,
+        rating: req.body.rating,
+        comment: req.body.comment,
+      });
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid review", details: result.error.issues });
+      }
+
+      // The check above can race a concurrent submit; the unique index settles it
+      const review = await storage.createRating(result.data);
+      if (!review) {
+        return res.status(409).json({ error: "You have already reviewed this favor" });
+      }
+      res.status(201).json(review);
+    } catch (error) {
+      console.error("Error submitting review:", error);
+      res.status(500).json({ error: "Failed to submit review" });
+    }
+  });
+
+  // Reviews left on a favor (used to know who still has to review)
+  app.get("/api/favors/:id/reviews", async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      const reviews = await storage.getFavorRatings(favorId);
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching favor reviews:", error);
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  // Favr points: level, ledger history and milestone unlocks for the profile
+  app.get("/api/users/:userId/points", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const history = await storage.getPointsHistory(userId);
+      const level = gamificationService.getUserLevel(user.favrPoints);
+
+      res.json({
+        points: user.favrPoints,
+        level: level.level,
+        title: level.title,
+        nextLevelPoints: level.nextLevelPoints,
+        progress: level.progress,
+        summary: gamificationService.generatePointSummary(history),
+        milestones: gamificationService.getMilestoneUnlocks(history),
+        achievements: gamificationService.getUserAchievements(user),
+        history: history
+          .slice()
+          .reverse()
+          .slice(0, 50)
+          .map(entry => ({ ...entry, description: gamificationService.describeReason(entry.reason) })),
+      });
+    } catch (error) {
+      console.error("Error fetching user points:", error);
+      res.status(500).json({ error: "Failed to fetch points" });
+    }
+  });
+
+  // Reviews a user has received
+  app.get("/api/users/:userId/reviews", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid user ID" });
+      }
+      const reviews = await storage.getUserReviews(userId);
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching user reviews:", error);
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
   // Get user completion stats
   app.get("/api/users/:userId/stats", async (req, res) => {
     try {
@@ -449,33 +799,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get nearby favor notifications
-  app.get("/api/notifications/nearby", async (req: any, res) => {
+  // Nearby-favor alerts from the in-app inbox
+  app.get("/api/notifications/nearby", requireAuth, async (req, res) => {
     try {
-      // For now, return empty array - notifications are sent in real-time via WebSocket
-      // when new favors are posted within 10km radius
-      res.json([]);
+      const nearby = await inAppNotificationService.list(parseInt(req.userId!), { limit: 100, dataType: "new_favor" });
+      res.json(nearby);
     } catch (error) {
       console.error("Error fetching nearby notifications:", error);
       res.status(500).json({ error: "Failed to fetch notifications" });
     }
   });
 
+  // In-app inbox, newest first: ?limit=&before=<id>&unread=1
+  app.get("/api/notifications/inbox", requireAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.userId!);
+      const notifications = await inAppNotificationService.list(userId, {
+        limit: parseInt(req.query.limit as string) || undefined,
+        before: parseInt(req.query.before as string) || undefined,
+        unreadOnly: req.query.unread === "1" || req.query.unread === "true",
+      });
+      const unreadCount = await inAppNotificationService.getUnreadCount(userId);
+      res.json({ notifications, unreadCount });
+    } catch (error) {
+      console.error("Error fetching notification inbox:", error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post("/api/notifications/inbox/read-all", requireAuth, async (req, res) => {
+    try {
+      const updated = await inAppNotificationService.markAllRead(parseInt(req.userId!));
+      res.json({ success: true, updated });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ error: "Failed to mark notifications as read" });
+    }
+  });
+
+  app.post("/api/notifications/inbox/:id/read", requireAuth, async (req, res) => {
+    try {
+      const found = await inAppNotificationService.markRead(parseInt(req.userId!), parseInt(req.params.id));
+      if (!found) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ error: "Failed to mark notification as read" });
+    }
+  });
+
 
   // ========= CHAT ROUTES (unified with WebSocket + REST) =========
 
-  // Get chat messages by favor (also returns chatRoomId & otherUserId for the UI to resolve)
-  app.get("/api/chat/:favorId/messages", async (req, res) => {
+  // Get a page of chat messages by room (also returns the favor & other participant for the UI to resolve)
+  // Query: ?before=<messageId> for older, ?after=<messageId> for newer, &limit=; the latest page without either
+  app.get("/api/chat/rooms/:chatRoomId/messages", async (req, res) => {
     try {
-      const favorId = Number(req.params.favorId);
-      if (!Number.isFinite(favorId)) {
-        return res.status(400).json({ error: "Invalid favorId" });
+      const chatRoomId = Number(req.params.chatRoomId);
+      if (!Number.isFinite(chatRoomId)) {
+        return res.status(400).json({ error: "Invalid chatRoomId" });
       }
-      const userId = req.headers["user-id"]?.toString();
+      const query = chatHistoryQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid history query", details: query.error.issues });
+      }
+      const userId = req.userId;
       if (!userId) return res.status(401).json({ error: "Unauthorized" });
 
-      const room = await databaseChatService.getChatRoomByFavorId(favorId);
-      if (!room) return res.json({ chatRoomId: null, otherUserId: null, messages: [] });
+      const room = await databaseChatService.getChatRoomById(chatRoomId);
+      if (!room) return res.status(404).json({ error: "Chat room not found" });
 
       // authorization
       if (userId !== room.requesterId && userId !== room.helperId) {
@@ -485,23 +879,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const otherUserId = userId === room.requesterId ? room.helperId : room.requesterId;
       const otherUserOnline = databaseChatService.isUserOnline(otherUserId);
 
-      const messages = await databaseChatService.getChatMessages(room.id);
-      const formatted = messages.map((m) => ({
-        id: String(m.id),
-        content: String(m.content || ""),
-        senderId: String(m.senderId),
-        recipientId: String(m.recipientId),
-        timestamp: (m.createdAt ?? new Date()).toISOString(),
-        status: (m.status as "sent" | "delivered" | "seen") || "sent",
-        type: (m.messageType as "text" | "system") || "text",
+      const page = await databaseChatService.getChatMessagePage(room.id, query.data);
+      if (!page) return res.status(400).json({ error: "Unknown message cursor" });
+      const formatted = page.messages.map((m) => ({
+        ...databaseChatService.toPayload(m),
         isMe: String(m.senderId) === String(userId),
       }));
 
       res.json({
         chatRoomId: room.id,
+        favorId: room.favorId,
+        isActive: Boolean(room.isActive),
         otherUserId,
+        otherUserName: await databaseChatService.getUserDisplayName(otherUserId),
         otherUserOnline,
         messages: formatted,
+        hasMore: page.hasMore,
       });
     } catch (err) {
       console.error("Error fetching chat messages:", err);
@@ -509,62 +902,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Conversations list for a user
-  // routes.ts (your existing endpoint, just enriched)
+  // Conversations list for a user: last message and unread count come from one query
   app.get("/api/chat/conversations", async (req, res) => {
     try {
-      const userId = req.headers["user-id"]?.toString();
+      const userId = req.userId;
       if (!userId) return res.status(401).json({ error: "Unauthorized" });
 
-      const rooms = await databaseChatService.getUserChatRooms(userId);
-
-      // simple caches to avoid duplicate lookups across rooms
-      const nameCache = new Map<string, string>();
-      const titleCache = new Map<number, string>();
-
-      const conversations = await Promise.all(
-        rooms.map(async (room) => {
-          const msgs = await databaseChatService.getChatMessages(room.id);
-          const lastMsg = msgs[msgs.length - 1];
-
-          const otherUserId =
-            room.requesterId === userId ? room.helperId : room.requesterId;
-
-          const otherUserOnline = databaseChatService.isUserOnline(otherUserId);
-
-          const unreadCount = msgs.filter(
-            (m) => String(m.recipientId) === String(userId) && m.status !== "seen"
-          ).length;
-
-          // 🧠 favor title
-          let favorTitle = titleCache.get(room.favorId);
-          if (!favorTitle) {
-            favorTitle = await databaseChatService.getFavorTitle(room.favorId);
-            titleCache.set(room.favorId, favorTitle);
-          }
-
-          // 🧠 other user display name
-          let otherUserName = nameCache.get(otherUserId);
-          if (!otherUserName) {
-            otherUserName = await databaseChatService.getUserDisplayName(otherUserId);
-            nameCache.set(otherUserId, otherUserName);
-          }
-
-          return {
-            chatRoomId: room.id,
-            favorId: room.favorId,
-            favorTitle,             // ✅ now present
-            otherUserId,
-            otherUserName,          // ✅ now present
-            otherUserOnline,
-            lastMessage: lastMsg ? String(lastMsg.content || "") : "Start your conversation",
-            lastMessageTime: lastMsg?.createdAt
-              ? lastMsg.createdAt.toISOString()
-              : null,
-            unreadCount,
-          };
-        })
-      );
+      const rows = await databaseChatService.getConversations(userId);
+      const conversations = rows.map(({ lastMessage, lastMessageAt, ...row }) => ({
+        ...row,
+        otherUserOnline: databaseChatService.isUserOnline(row.otherUserId),
+        lastMessage: lastMessage ?? "Start your conversation",
+        lastMessageTime: lastMessageAt ? lastMessageAt.toISOString() : null,
+      }));
 
       res.json(conversations);
     } catch (err) {
@@ -575,22 +925,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
 
-  // ✅ NEW: Send message by favorId (REST fallback)
-  // Body: { favorId, content }
-  // ✅ NEW: Send message by favorId (REST fallback)
-  app.post("/api/chat/send", async (req: any, res) => {
+  // Send message by chat room (REST fallback)
+  // Body: { chatRoomId, content }
+  app.post("/api/chat/send", requireAuth, async (req: any, res) => {
     try {
-      const userId = req.headers["user-id"]?.toString();
-      const { favorId, content } = req.body;
+      const userId = req.userId;
+      const { chatRoomId, content } = req.body;
 
       if (!userId) return res.status(401).json({ error: "Unauthorized" });
-      if (!favorId || !content?.trim())
-        return res.status(400).json({ error: "favorId and content required" });
+      if (!chatRoomId || !content?.trim())
+        return res.status(400).json({ error: "chatRoomId and content required" });
 
-      const room = await databaseChatService.getChatRoomByFavorId(Number(favorId));
+      const room = await databaseChatService.getChatRoomById(Number(chatRoomId));
       if (!room) return res.status(404).json({ error: "Chat room not found" });
       if (userId !== room.requesterId && userId !== room.helperId)
         return res.status(403).json({ error: "Unauthorized to post in this chat" });
+      if (!room.isActive) return res.status(409).json({ error: "Chat is no longer active" });
+
+      const moderation = await databaseChatService.moderate(room, userId, content.trim());
+      if (!moderation.isAppropriate) {
+        return res.status(400).json({
+          error: "Content not appropriate",
+          reason: moderation.issues.join(", "),
+          suggestion: moderation.suggestion
+        });
+      }
 
       const recipientId = userId === room.requesterId ? room.helperId : room.requesterId;
 
@@ -620,7 +979,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             chatId: room.id,
             favorId: room.favorId,
             icon: "/icons/chat.png",
-            url: `/chat/${room.favorId}`, // 👈 deep link to the favor’s chat
+            url: `/chat/${room.id}`,
           }
         );
       }
@@ -632,12 +991,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Propose a price in a chat; replaces any counter-offer still open in the room
+  app.post("/api/chat/rooms/:chatRoomId/counter-offers", requireAuth, async (req, res) => {
+    try {
+      const parsed = counterOfferSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid counter-offer", details: parsed.error.issues });
+      }
+
+      const message = await counterOfferService.propose(parseInt(req.params.chatRoomId), req.userId!, parsed.data);
+      res.status(201).json({ success: true, message });
+    } catch (error) {
+      if (error instanceof CounterOfferError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error proposing counter-offer:", error);
+      res.status(500).json({ error: "Failed to propose counter-offer" });
+    }
+  });
+
+  // Send an image in a chat (multipart field "image", optional "caption")
+  app.post("/api/chat/rooms/:chatRoomId/images", requireAuth, acceptUpload(upload.single("image")), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No image uploaded" });
+      }
+      const caption = typeof req.body.caption === "string" ? req.body.caption.trim() : "";
+      if (caption.length > 1000) {
+        return res.status(400).json({ error: "Caption is too long" });
+      }
+
+      const message = await attachmentService.sendChatImage(parseInt(req.params.chatRoomId), req.userId!, req.file, caption);
+      res.status(201).json({ success: true, message });
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error sending chat image:", error);
+      res.status(500).json({ error: "Failed to send image" });
+    }
+  });
+
+  // A chat image or its thumbnail, only for the room's participants (the session cookie rides along on <img>)
+  app.get("/api/chat/rooms/:chatRoomId/attachments/:file", requireAuth, async (req, res) => {
+    try {
+      const image = await attachmentService.readChatImage(parseInt(req.params.chatRoomId), req.params.file, req.userId!);
+      // Never in a shared cache; the browser may keep it, as the file behind a name never changes
+      res.set("Cache-Control", "private, max-age=86400").type("image/webp").send(image);
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error reading chat image:", error);
+      res.status(500).json({ error: "Failed to load image" });
+    }
+  });
+
+  // Accept a counter-offer message; its amount becomes the agreed price
+  app.post("/api/chat/messages/:id/accept", requireAuth, async (req, res) => {
+    try {
+      const counterOffer = await counterOfferService.respond(req.params.id, req.userId!, "accept");
+      res.json({ success: true, counterOffer });
+    } catch (error) {
+      if (error instanceof CounterOfferError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error accepting counter-offer:", error);
+      res.status(500).json({ error: "Failed to accept counter-offer" });
+    }
+  });
+
+  // Decline a counter-offer message
+  app.post("/api/chat/messages/:id/decline", requireAuth, async (req, res) => {
+    try {
+      const counterOffer = await counterOfferService.respond(req.params.id, req.userId!, "decline");
+      res.json({ success: true, counterOffer });
+    } catch (error) {
+      if (error instanceof CounterOfferError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error declining counter-offer:", error);
+      res.status(500).json({ error: "Failed to decline counter-offer" });
+    }
+  });
+
 
   // ✅ Mark delivered
-  app.post("/api/chat/messages/:id/delivered", async (req, res) => {
+  app.post("/api/chat/messages/:id/delivered", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      await databaseChatService.markMessageDelivered(id);
+      if (!(await databaseChatService.markMessageDelivered(id, req.userId!))) {
+        return res.status(404).json({ error: "Message not found" });
+      }
       res.json({ success: true });
     } catch (err) {
       console.error("Error marking message delivered:", err);
@@ -646,13 +1091,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ✅ Mark seen
-  app.post("/api/chat/messages/:id/seen", async (req, res) => {
+  app.post("/api/chat/messages/:id/seen", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const userId = req.headers["user-id"]?.toString();
-      if (!userId) return res.status(401).json({ error: "Unauthorized" });
-
-      await databaseChatService.markMessageSeen(id, userId);
+      if (!(await databaseChatService.markMessageSeen(id, req.userId!))) {
+        return res.status(404).json({ error: "Message not found" });
+      }
       res.json({ success: true });
     } catch (err) {
       console.error("Error marking message seen:", err);
@@ -667,46 +1111,170 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/favors", async (req, res) => {
     try {
       const favors = await storage.getFavors();
-      res.json(favors);
+      res.json(presentFavors(favors, viewerId(req)));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch favors" });
     }
   });
 
-  // Get favor by ID
-  app.get("/api/favors/:id", async (req, res) => {
+  // Search favors: full-text ?q= with filters, sorts and cursor pagination (see favorSearchSchema)
+  app.get("/api/favors/search", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const favor = await storage.getFavor(id);
-      
+      const result = favorSearchSchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid search", details: result.error.issues });
+      }
+
+      const { cursor, ...query } = result.data;
+      const after = cursor ? decodeSearchCursor(cursor, query.sort) : undefined;
+      if (after === null) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+
+      const page = await storage.searchFavors({ ...query, after, participantId: viewerId(req) });
+      res.json({ ...page, favors: presentFavors(page.favors, viewerId(req)) });
+    } catch (error) {
+      console.error("Error searching favors:", error);
+      res.status(500).json({ error: "Failed to search favors" });
+    }
+  });
+
+  // Get favor by ID
+  app.get("/api/favors/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const favor = await storage.getFavor(id);
+      
       if (!favor) {
         return res.status(404).json({ error: "Favor not found" });
       }
       
-      res.json(favor);
+      res.json(presentFavor(favor, viewerId(req)));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch favor" });
     }
   });
 
-  // Get nearby favors
+  // Photos of a favor in display order; the first one is also the favor's imageUrl
+  app.get("/api/favors/:id/images", async (req, res) => {
+    try {
+      res.json(await attachmentService.listFavorImages(parseInt(req.params.id)));
+    } catch (error) {
+      console.error("Error fetching favor images:", error);
+      res.status(500).json({ error: "Failed to fetch favor images" });
+    }
+  });
+
+  // Add photos to your favor (multipart field "images"), up to MAX_FAVOR_IMAGES in total
+  app.post("/api/favors/:id/images", requireAuth, acceptUpload(upload.array("images", MAX_FAVOR_IMAGES)), async (req, res) => {
+    try {
+      const files = Array.isArray(req.files) ? req.files : [];
+      const images = await attachmentService.addFavorImages(parseInt(req.params.id), req.userId!, files);
+      res.status(201).json(images);
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error adding favor images:", error);
+      res.status(500).json({ error: "Failed to add favor images" });
+    }
+  });
+
+  // Remove a photo from your favor
+  app.delete("/api/favors/:id/images/:imageId", requireAuth, async (req, res) => {
+    try {
+      await attachmentService.removeFavorImage(parseInt(req.params.id), parseInt(req.params.imageId), req.userId!);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error removing favor image:", error);
+      res.status(500).json({ error: "Failed to remove favor image" });
+    }
+  });
+
+  // Get nearby favors, closest first: ?radiusKm=&category=&limit=&cursor=
   app.get("/api/favors/nearby/:lat/:lng", async (req, res) => {
     try {
       const lat = parseFloat(req.params.lat);
       const lng = parseFloat(req.params.lng);
-      const radius = parseFloat(req.query.radius as string) || 5; // Default 5km radius
+      // `radius` is the pre-pagination name of the parameter
+      const radiusKm = parseFloat((req.query.radiusKm ?? req.query.radius) as string) || 5; // Default 5km radius
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const category = typeof req.query.category === "string" && req.query.category ? req.query.category : undefined;
       
-      if (isNaN(lat) || isNaN(lng)) {
+      if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
         return res.status(400).json({ error: "Invalid coordinates" });
       }
+      if (radiusKm <= 0 || radiusKm > 100) {
+        return res.status(400).json({ error: "radiusKm must be between 0 and 100" });
+      }
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        return res.status(400).json({ error: "limit must be a positive integer" });
+      }
+
+      const after = typeof req.query.cursor === "string" ? decodeNearbyCursor(req.query.cursor) : undefined;
+      if (after === null) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
       
-      const favors = await storage.getFavorsNearby(lat, lng, radius);
-      res.json(favors);
+      const page = await storage.getFavorsNearby(lat, lng, { radiusKm, category, limit, after });
+      res.json({ ...page, favors: presentFavors(page.favors, viewerId(req)) });
     } catch (error) {
+      console.error("Error fetching nearby favors:", error);
       res.status(500).json({ error: "Failed to fetch nearby favors" });
     }
   });
 
+  // Address search for the post-favor form: ?q=&lat=&lng=&limit=&mode=autocomplete|forward
+  // Luxembourg results are ranked first, as it is where most favors are posted
+  app.get("/api/geocode", requireAuth, async (req, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      const mode = req.query.mode === "forward" ? "forward" : "autocomplete";
+      const lat = parseFloat(req.query.lat as string);
+      const lng = parseFloat(req.query.lng as string);
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+      if (query.length < 2 || query.length > 200) {
+        return res.status(400).json({ error: "q must be between 2 and 200 characters" });
+      }
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 10)) {
+        return res.status(400).json({ error: "limit must be between 1 and 10" });
+      }
+
+      const options: GeocodeOptions = {
+        limit,
+        preferCountry: typeof req.query.country === "string" ? req.query.country.toLowerCase() : "lu",
+        near: Number.isFinite(lat) && Number.isFinite(lng) ? { latitude: lat, longitude: lng } : undefined,
+      };
+      const results = mode === "forward"
+        ? await geocoder.forward(query, options)
+        : await geocoder.autocomplete(query, options);
+      res.json({ results });
+    } catch (error) {
+      console.error("Geocoding error:", error);
+      res.status(502).json({ error: "Address search is unavailable" });
+    }
+  });
+
+  app.get("/api/geocode/reverse", requireAuth, async (req, res) => {
+    try {
+      const lat = parseFloat(req.query.lat as string);
+      const lng = parseFloat(req.query.lng as string);
+      if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        return res.status(400).json({ error: "Invalid coordinates" });
+      }
+
+      const place = await reverseGeocode(lat, lng);
+      res.json({ place });
+    } catch (error) {
+      console.error("Reverse geocoding error:", error);
+      res.status(502).json({ error: "Reverse geocoding is unavailable" });
+    }
+  });
+
   // Get user profile by ID
   app.get("/api/users/:userId", async (req, res) => {
     try {
@@ -730,7 +1298,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.params.userId;
       const favors = await storage.getFavorsByPoster(userId);
-      res.json(favors);
+      res.json(presentFavors(favors, viewerId(req)));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch user favors" });
     }
@@ -741,17 +1309,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.params.userId;
       const favors = await storage.getCompletedFavorsByUser(userId);
-      res.json(favors);
+      res.json(presentFavors(favors, viewerId(req)));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch completed favors" });
     }
   });
 
   // Update user profile (edit functionality)
-  app.patch("/api/users/:userId", async (req: any, res) => {
+  app.patch("/api/users/:userId", requireAuth, async (req: any, res) => {
     try {
       const userId = parseInt(req.params.userId);
-      const requestorId = req.headers['user-id']?.toString();
+      const requestorId = req.userId;
       
       if (!requestorId) {
         return res.status(401).json({ error: "User not authenticated" });
@@ -772,6 +1340,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       delete updateData.totalRatings;
       delete updateData.memberSince;
       delete updateData.isVerified;
+      delete updateData.password;
+      delete updateData.isAdmin;
       
       const updatedUser = await storage.updateUser(userId, updateData);
       if (!updatedUser) {
@@ -791,7 +1361,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/users/:userId", async (req: any, res) => {
     try {
       const userId = parseInt(req.params.userId);
-      const requestorId = req.headers['user-id']?.toString();
+      const requestorId = req.userId;
       
       if (!requestorId) {
         return res.status(401).json({ error: "User not authenticated" });
@@ -814,39 +1384,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get favors by category
+  // Category taxonomy, limited to a country (?country=lu, or the one at ?lat=&lng=)
+  app.get("/api/categories", async (req, res) => {
+    try {
+      let country = typeof req.query.country === "string" ? req.query.country.trim().toLowerCase() : null;
+      const lat = parseFloat(req.query.lat as string);
+      const lng = parseFloat(req.query.lng as string);
+      if (!country && Number.isFinite(lat) && Number.isFinite(lng)) {
+        country = offlineGeocoder.locate(lat, lng)?.countryCode ?? null;
+      }
+      res.json(await categoryService.list(country));
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      res.status(500).json({ error: "Failed to fetch categories" });
+    }
+  });
+
+  // Get favors by category (slug or name)
   app.get("/api/favors/category/:category", async (req, res) => {
     try {
-      const category = req.params.category;
-      const favors = await storage.getFavorsByCategory(category);
-      res.json(favors);
+      const category = await categoryService.find(req.params.category);
+      if (!category) {
+        return res.status(404).json({ error: "Unknown category" });
+      }
+      const favors = await storage.getFavorsByCategory(category.name);
+      res.json(presentFavors(favors, viewerId(req)));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch favors by category" });
     }
   });
 
   // Delete favor endpoint
-  app.delete("/api/favors/:id", async (req: any, res) => {
+  // Open or expired favors are deleted; one a helper has taken on is cancelled instead (refunding its escrow)
+  app.delete("/api/favors/:id", requireAuth, async (req, res) => {
     try {
       const favorId = parseInt(req.params.id);
-      const userId = req.headers['user-id']?.toString();
-      
-      if (!userId) {
-        return res.status(401).json({ error: "User not authenticated" });
-      }
+      const userId = req.userId!;
       
       if (isNaN(favorId)) {
         return res.status(400).json({ error: "Invalid favor ID" });
       }
+
+      const favor = await storage.getFavor(favorId);
+      if (!favor || favor.posterId !== userId) {
+        return res.status(403).json({ error: "You can only delete your own favors" });
+      }
+
+      if (!DELETABLE_STATUSES.includes(favor.status as FavorStatus)) {
+        const cancelled = await paymentService.cancelWith(favorId, (tx) =>
+          storage.cancelFavor(favorId, parseInt(userId), "Deleted by the poster", tx)
+        );
+        return res.json({ message: "Favor cancelled", cancelled: true, favor: presentFavor(cancelled, viewerId(req)) });
+      }
       
+      const images = await attachmentService.listFavorImages(favorId);
       const deleted = await storage.deleteFavor(favorId, userId);
       
       if (!deleted) {
         return res.status(403).json({ error: "You can only delete your own favors" });
       }
+      // The rows went with the favor; the files have to be removed separately
+      await attachmentService.discard(images);
       
-      res.json({ message: "Favor deleted successfully" });
+      res.json({ message: "Favor deleted successfully", cancelled: false });
     } catch (error) {
+      if (error instanceof FavorTransitionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Error deleting favor:", error);
       res.status(500).json({ error: "Failed to delete favor" });
     }
@@ -863,8 +1467,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       ]);
       
       res.json({
-        posted: postedFavors,
-        completed: completedFavors
+        posted: presentFavors(postedFavors, viewerId(req)),
+        completed: presentFavors(completedFavors, viewerId(req))
       });
     } catch (error) {
       console.error("Error fetching user favors:", error);
@@ -873,9 +1477,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new favor
-  app.post("/api/favors", upload.single('image'), async (req, res) => {
+  app.post("/api/favors", requireAuth, async (req, res) => {
     try {
-      const userId = req.headers['user-id']?.toString();
+      const userId = req.userId;
       
       if (!userId) {
         return res.status(401).json({ error: "User not authenticated" });
@@ -885,10 +1489,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         posterId: userId
       };
-      
-      // If image was uploaded, you would handle it here
-      // For now, we'll use the imageUrl from the request body
-      
+
       console.log('Creating favor:', favorData.title);
       const result = insertFavorSchema.safeParse(favorData);
       if (!result.success) {
@@ -899,12 +1500,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // One lookup labels the favor's area for other viewers, decides which categories apply and fills in the poster's country
+      const place = await reverseGeocode(parseFloat(result.data.latitude), parseFloat(result.data.longitude));
+      const categorized = insertFavorSchemaFor(await categoryService.list(place?.countryCode)).safeParse(result.data);
+      if (!categorized.success) {
+        return res.status(400).json({
+          error: "Invalid favor category",
+          details: categorized.error.issues
+        });
+      }
+
+      const currency = categorized.data.currency ?? currencyForCountry(place?.countryCode);
+
       // AI content validation
       const moderation = await aiModerationService.validateFavorPost(
         favorData.title,
         favorData.description, 
         favorData.category,
-        favorData.price
+        { cents: categorized.data.priceCents, currency },
+        req.userId
       );
 
       if (!moderation.isAppropriate) {
@@ -916,132 +1530,439 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const favor = await storage.createFavor(result.data);
+      const favor = await storage.createFavor(
+        { ...categorized.data, currency },
+        { areaLabel: areaLabel(place), countryCode: place?.countryCode }
+      );
       
       // Update user's country based on favor location (if not already set)
       try {
         const currentUser = await storage.getUser(parseInt(favor.posterId));
-        if (currentUser && !currentUser.country) {
-          const country = await getCountryFromCoordinates(
-            parseFloat(favor.latitude),
-            parseFloat(favor.longitude)
-          );
-          if (country) {
-            await storage.updateUserCountry(parseInt(favor.posterId), country);
-          }
+        if (currentUser && !currentUser.country && place?.country) {
+          await storage.updateUserCountry(parseInt(favor.posterId), place.country);
         }
       } catch (error) {
         console.error('Error updating user country:', error);
       }
       
-      // Send location-based notifications to users within 10km
+      // Send notifications to users whose saved alert areas match the favor
       try {
-        const favorLat = parseFloat(favor.latitude);
-        const favorLng = parseFloat(favor.longitude);
-        
         console.log(`Sending notifications for favor ${favor.id} posted by user ${favor.posterId}`);
         
-        await locationNotificationService.notifyNearbyUsers(
-          favor.id,
-          favor.title,
-          favorLat,
-          favorLng,
-          favor.posterId.toString()
-        );
+        await locationNotificationService.notifyNearbyUsers(favor);
       } catch (error) {
         console.error('Failed to send location-based notifications:', error);
       }
       
-      res.status(201).json(favor);
+      res.status(201).json(presentFavor(favor, viewerId(req)));
     } catch (error: any) {
       console.error("Error creating favor:", error);
       res.status(500).json({ message: "Failed to create favor" });
     }
   });
 
-  // Accept favor and create chat room
-  app.post("/api/favors/:id/accept", async (req, res) => {
+  // Accept favor at its listed price and create chat room; any pending offers are declined
+  app.post("/api/favors/:id/accept", requireAuth, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+
+      // Only an available favor can be accepted (awards the helper's accept points)
+      const { favor, chatRoomId, escrow } = await offerService.acceptAtListedPrice(favorId, parseInt(req.userId!));
+
+      res.json({ success: true, favor: presentFavor(favor, viewerId(req)), chatRoomId, escrow });
+    } catch (error) {
+      if (error instanceof OfferError || error instanceof FavorTransitionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error accepting favor:", error);
+      res.status(500).json({ error: "Failed to accept favor" });
+    }
+  });
+
+  // ========= OFFER ROUTES =========
+
+  // Make or revise an offer (price, ETA, note); each helper gets their own chat room with the poster
+  app.post("/api/favors/:id/offers", requireAuth, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      const parsed = submitOfferSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid offer", details: parsed.error.issues });
+      }
+
+      const offer = await offerService.submitOffer(favorId, parseInt(req.userId!), parsed.data);
+      res.status(201).json(offer);
+    } catch (error) {
+      if (error instanceof OfferError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error submitting offer:", error);
+      res.status(500).json({ error: "Failed to submit offer" });
+    }
+  });
+
+  // Offers on a favor: all of them for the poster, a helper's own for everyone else
+  app.get("/api/favors/:id/offers", requireAuth, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      res.json(await offerService.listOffers(favorId, parseInt(req.userId!)));
+    } catch (error) {
+      if (error instanceof OfferError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching offers:", error);
+      res.status(500).json({ error: "Failed to fetch offers" });
+    }
+  });
+
+  // The poster accepts one offer: runs the accept flow at the offered price and declines the rest
+  app.post("/api/favors/:id/offers/:offerId/accept", requireAuth, async (req, res) => {
     try {
       const favorId = parseInt(req.params.id);
-      const helperId = req.headers['user-id']?.toString();
+      const offerId = parseInt(req.params.offerId);
+
+      const { favor, chatRoomId, escrow } = await offerService.acceptOffer(favorId, offerId, parseInt(req.userId!));
+      res.json({ success: true, favor: presentFavor(favor, viewerId(req)), chatRoomId, escrow });
+    } catch (error) {
+      if (error instanceof OfferError || error instanceof FavorTransitionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error accepting offer:", error);
+      res.status(500).json({ error: "Failed to accept offer" });
+    }
+  });
+
+  // Update favor status (cancel, dispute, expire, repost) - validated by the favor state machine
+  app.patch("/api/favors/:id/status", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { status, note } = req.body;
+      const actorId = parseInt(req.userId!);
       
-      if (!helperId) {
-        return res.status(401).json({ error: "User not authenticated" });
+      if (!isFavorStatus(status)) {
+        return res.status(400).json({ error: "Invalid status" });
+      }
+
+      // These carry their own side effects (helper, chat room, escrow, points, expiry)
+      const dedicatedRoutes: Record<string, string> = { accepted: "accept", completed: "complete", available: "repost", disputed: "dispute" };
+      if (dedicatedRoutes[status]) {
+        return res.status(400).json({ error: `Use /api/favors/:id/${dedicatedRoutes[status]} instead` });
       }
       
+      // A cancel refunds the escrow in the same transaction
+      const updatedFavor = status === "cancelled"
+        ? await paymentService.cancelWith(id, (tx) => storage.cancelFavor(id, actorId, note, tx))
+        : await storage.transitionFavor(id, status, actorId, note);
+      
+      res.json(presentFavor(updatedFavor, viewerId(req)));
+    } catch (error) {
+      if (error instanceof FavorTransitionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating favor status:", error);
+      res.status(500).json({ error: "Failed to update favor status" });
+    }
+  });
+
+  // Repost an expired favor (the one-tap action from the expiry notification)
+  app.post("/api/favors/:id/repost", requireAuth, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      const { timeframe } = req.body ?? {};
+
+      if (timeframe !== undefined && typeof timeframe !== "string") {
+        return res.status(400).json({ error: "Invalid timeframe" });
+      }
+
+      const favor = await storage.repostFavor(favorId, parseInt(req.userId!), timeframe);
+      res.json(presentFavor(favor, viewerId(req)));
+    } catch (error) {
+      if (error instanceof FavorTransitionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error reposting favor:", error);
+      res.status(500).json({ error: "Failed to repost favor" });
+    }
+  });
+
+  // Status history of a favor (participants and admins)
+  app.get("/api/favors/:id/history", requireAuth, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      const userId = parseInt(req.userId!);
+
       const favor = await storage.getFavor(favorId);
       if (!favor) {
         return res.status(404).json({ error: "Favor not found" });
       }
-      
-      if (favor.posterId === parseInt(helperId)) {
-        return res.status(400).json({ error: "Cannot accept your own favor" });
+
+      if (favor.posterId !== req.userId && favor.helperId !== userId) {
+        const user = await storage.getUser(userId);
+        if (!user?.isAdmin) {
+          return res.status(403).json({ error: "Only participants can view this favor's history" });
+        }
       }
-      
-      // Update favor status to accepted
-      const updatedFavor = await storage.updateFavor(favorId, { 
-        status: 'accepted',
-        helperId: parseInt(helperId)
-      });
-      
-      // Create chat room for requester and helper - ensure string IDs
-      await databaseChatService.createChatRoom(favorId, favor.posterId.toString(), helperId.toString());
-      
-      res.json({ success: true, favor: updatedFavor });
+
+      const events = await storage.getFavorEvents(favorId);
+      res.json(events);
     } catch (error) {
-      console.error("Error accepting favor:", error);
-      res.status(500).json({ error: "Failed to accept favor" });
+      console.error("Error fetching favor history:", error);
+      res.status(500).json({ error: "Failed to fetch favor history" });
     }
   });
 
-  // Negotiate favor and create chat room
-  app.post("/api/favors/:id/negotiate", async (req, res) => {
+  // ========= DISPUTE ROUTES =========
+
+  // Open a dispute: freezes the favor and its escrow until an admin resolves it
+  app.post("/api/favors/:id/dispute", requireAuth, async (req, res) => {
     try {
       const favorId = parseInt(req.params.id);
-      const helperId = req.headers['user-id']?.toString();
-      
-      if (!helperId) {
-        return res.status(401).json({ error: "User not authenticated" });
+      const parsed = openDisputeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid dispute", details: parsed.error.issues });
       }
-      
+
+      const dispute = await disputeService.openDispute(favorId, parseInt(req.userId!), parsed.data.reason, parsed.data.statement);
+      res.status(201).json(disputeService.toParticipantView(dispute));
+    } catch (error) {
+      if (error instanceof DisputeError || error instanceof FavorTransitionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error opening dispute:", error);
+      res.status(500).json({ error: "Failed to open dispute" });
+    }
+  });
+
+  // The other party's side of the story
+  app.post("/api/favors/:id/dispute/statement", requireAuth, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      const parsed = disputeStatementSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid statement", details: parsed.error.issues });
+      }
+
+      const dispute = await disputeService.addStatement(favorId, parseInt(req.userId!), parsed.data.statement);
+      res.json(disputeService.toParticipantView(dispute));
+    } catch (error) {
+      if (error instanceof DisputeError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error adding dispute statement:", error);
+      res.status(500).json({ error: "Failed to add statement" });
+    }
+  });
+
+  // Dispute status for participants (admins also get the transcript and AI analysis)
+  app.get("/api/favors/:id/dispute", requireAuth, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      const userId = parseInt(req.userId!);
+
       const favor = await storage.getFavor(favorId);
       if (!favor) {
         return res.status(404).json({ error: "Favor not found" });
       }
-      
-      if (favor.posterId === parseInt(helperId)) {
-        return res.status(400).json({ error: "Cannot negotiate on your own favor" });
+
+      const dispute = await disputeService.getDispute(favorId);
+      if (!dispute) {
+        return res.status(404).json({ error: "No dispute found for this favor" });
       }
-      
-      // Create chat room for requester and helper - ensure string IDs
-      await databaseChatService.createChatRoom(favorId, favor.posterId.toString(), helperId.toString());
-      
-      res.json({ success: true, message: "Chat room created for negotiation" });
+
+      const user = await storage.getUser(userId);
+      if (user?.isAdmin) {
+        return res.json(dispute);
+      }
+      if (favor.posterId !== req.userId && favor.helperId !== userId) {
+        return res.status(403).json({ error: "Only participants can view this dispute" });
+      }
+      res.json(disputeService.toParticipantView(dispute));
     } catch (error) {
-      console.error("Error negotiating favor:", error);
-      res.status(500).json({ error: "Failed to start negotiation" });
+      console.error("Error fetching dispute:", error);
+      res.status(500).json({ error: "Failed to fetch dispute" });
     }
   });
 
-  // Update favor status
-  app.patch("/api/favors/:id/status", async (req, res) => {
+  // Admin queue of disputes
+  app.get("/api/admin/disputes", requireAdmin, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const { status } = req.body;
-      
-      if (!status) {
-        return res.status(400).json({ error: "Status is required" });
+      const status = req.query.status === "resolved" ? "resolved" : "open";
+      const list = await disputeService.listDisputes(status);
+      res.json(list);
+    } catch (error) {
+      console.error("Error fetching disputes:", error);
+      res.status(500).json({ error: "Failed to fetch disputes" });
+    }
+  });
+
+  // Admin decision: complete (pay the helper) or cancel (refund the requester)
+  app.post("/api/favors/:id/dispute/resolve", requireAdmin, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      const parsed = resolveDisputeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid resolution", details: parsed.error.issues });
       }
-      
-      const updatedFavor = await storage.updateFavor(id, { status });
-      
-      if (!updatedFavor) {
+
+      const dispute = await disputeService.resolveDispute(favorId, parseInt(req.userId!), parsed.data.resolution, parsed.data.note);
+      res.json(dispute);
+    } catch (error) {
+      if (error instanceof DisputeError || error instanceof FavorTransitionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error resolving dispute:", error);
+      res.status(500).json({ error: "Failed to resolve dispute" });
+    }
+  });
+
+  // ========= ESCROW PAYMENT ROUTES =========
+
+  // Escrow state for a favor (participants only)
+  app.get("/api/favors/:id/escrow", requireAuth, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      const favor = await storage.getFavor(favorId);
+      if (!favor) {
         return res.status(404).json({ error: "Favor not found" });
       }
-      
-      res.json(updatedFavor);
+      if (req.userId !== favor.posterId && req.userId !== favor.helperId?.toString()) {
+        return res.status(403).json({ error: "Only participants can view this payment" });
+      }
+
+      const escrow = await paymentService.getEscrowForFavor(favorId);
+      res.json(escrow ?? null);
     } catch (error) {
-      res.status(500).json({ error: "Failed to update favor status" });
+      console.error("Error fetching escrow:", error);
+      res.status(500).json({ error: "Failed to fetch payment" });
+    }
+  });
+
+  // Create the escrow for an accepted favor (normally done on accept)
+  app.post("/api/favors/:id/escrow", requireAuth, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      const favor = await storage.getFavor(favorId);
+      if (!favor) {
+        return res.status(404).json({ error: "Favor not found" });
+      }
+      if (req.userId !== favor.posterId) {
+        return res.status(403).json({ error: "Only the favor requester can create the payment" });
+      }
+      if (favor.status !== "accepted" || !favor.helperId) {
+        return res.status(400).json({ error: "Favor must be accepted before payment" });
+      }
+
+      const escrow = await paymentService.onFavorAccepted(favor);
+      if (!escrow) {
+        return res.status(400).json({ error: "Favor has no payable price" });
+      }
+      res.status(201).json(escrow);
+    } catch (error) {
+      console.error("Error creating escrow:", error);
+      res.status(500).json({ error: "Failed to create payment" });
+    }
+  });
+
+  // Requester funds the escrow
+  app.post("/api/favors/:id/escrow/hold", requireAuth, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      const escrow = await paymentService.getEscrowForFavor(favorId);
+      if (!escrow) {
+        return res.status(404).json({ error: "Payment not found" });
+      }
+      if (req.userId !== escrow.requesterId.toString()) {
+        return res.status(403).json({ error: "Only the favor requester can pay" });
+      }
+
+      const held = await paymentService.holdPayment(escrow.id);
+      if (!held) {
+        return res.status(409).json({ error: `Payment is already ${escrow.status}` });
+      }
+      res.json(await paymentService.getEscrowPayment(escrow.id));
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error holding escrow:", error);
+      res.status(502).json({ error: "Payment provider rejected the charge" });
+    }
+  });
+
+  // Requester releases early, before the dispute window elapses
+  app.post("/api/favors/:id/escrow/release", requireAuth, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      const favor = await storage.getFavor(favorId);
+      const escrow = await paymentService.getEscrowForFavor(favorId);
+      if (!favor || !escrow) {
+        return res.status(404).json({ error: "Payment not found" });
+      }
+      if (req.userId !== escrow.requesterId.toString()) {
+        return res.status(403).json({ error: "Only the favor requester can release payment" });
+      }
+      if (favor.status !== "completed") {
+        return res.status(400).json({ error: "Favor must be completed before release" });
+      }
+
+      const released = await paymentService.releasePayment(escrow.id, "requester");
+      if (!released) {
+        return res.status(409).json({ error: `Payment is ${escrow.status}` });
+      }
+      res.json(await paymentService.getEscrowPayment(escrow.id));
+    } catch (error) {
+      console.error("Error releasing escrow:", error);
+      res.status(502).json({ error: "Payment provider failed to release funds" });
+    }
+  });
+
+  // Refund the requester: the helper can always give the money back, the requester only before completion.
+  // Before completion the refund cancels the favor with it, so nobody keeps working on an unfunded favor
+  app.post("/api/favors/:id/escrow/refund", requireAuth, async (req, res) => {
+    try {
+      const favorId = parseInt(req.params.id);
+      const favor = await storage.getFavor(favorId);
+      const escrow = await paymentService.getEscrowForFavor(favorId);
+      if (!favor || !escrow) {
+        return res.status(404).json({ error: "Payment not found" });
+      }
+
+      const isHelper = req.userId === escrow.helperId.toString();
+      const isRequester = req.userId === escrow.requesterId.toString();
+      if (!isHelper && !(isRequester && favor.status !== "completed")) {
+        return res.status(403).json({ error: "You cannot refund this payment" });
+      }
+
+      const refunded = favor.status === "completed"
+        ? await paymentService.refundPayment(escrow.id)
+        : await paymentService.refundWith(escrow.id, (tx) =>
+            storage.cancelFavor(favorId, parseInt(req.userId!), "Payment refunded", tx)
+          );
+      if (!refunded) {
+        return res.status(409).json({ error: `Payment is ${escrow.status}` });
+      }
+      res.json(await paymentService.getEscrowPayment(escrow.id));
+    } catch (error) {
+      if (error instanceof FavorTransitionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error refunding escrow:", error);
+      res.status(502).json({ error: "Payment provider failed to refund" });
+    }
+  });
+
+  // Caller's wallet balances (one per currency) and recent ledger entries
+  app.get("/api/wallet", requireAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.userId!);
+      const [wallets, ledger] = await Promise.all([
+        paymentService.getUserWallets(userId),
+        paymentService.getWalletLedger(userId),
+      ]);
+      res.json({ wallets, ledger });
+    } catch (error) {
+      console.error("Error fetching wallet:", error);
+      res.status(500).json({ error: "Failed to fetch wallet" });
     }
   });
 
@@ -1083,11 +2004,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   // OneSignal test notification (optimized for Apple devices) ✅ OneSignal test → now routed through unified system
-  app.post("/api/notifications/onesignal-test", async (req, res) => {
+  app.post("/api/notifications/onesignal-test", requireAuth, async (req, res) => {
     try {
-      const { userId } = req.body;
-      if (!userId) return res.status(400).json({ message: "Missing userId" });
-      const result = await notificationService.sendNotification(userId, {
+      const result = await notificationService.sendNotification(req.userId!, {
         title: "🍎 Favr Notifications Active!",
         body: "OneSignal is working perfectly on your device.",
         data: { type: "test", url: "/" },
@@ -1102,7 +2021,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get all notification subscriptions (for debugging)
   app.get("/api/notifications/subscriptions", async (req, res) => {
     try {
-      const userId = req.headers['user-id']?.toString();
+      const userId = req.userId;
       if (!userId) {
         return res.status(401).json({ error: "User not authenticated" });
       }
@@ -1118,14 +2037,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Notify favor updates (triggered when favor status changes)
-  app.post("/api/notifications/favor-update", async (req, res) => {
+  // Notify favor updates (triggered when favor status changes); only to the signed-in participant
+  app.post("/api/notifications/favor-update", requireAuth, async (req, res) => {
     try {
-      const { userId, favorId, type } = req.body;
-      if (!userId || !favorId || !type) {
+      const { favorId, type } = req.body;
+      if (!favorId || !["accepted", "completed", "cancelled", "new_message"].includes(type)) {
         return res.status(400).json({ message: "Missing required fields" });
       }
-      const success = await notificationService.notifyFavorUpdate(userId, favorId, type);
+      const favor = await storage.getFavor(parseInt(favorId));
+      if (!favor || (favor.posterId !== req.userId && favor.helperId !== parseInt(req.userId!))) {
+        return res.status(404).json({ message: "Favor not found" });
+      }
+      const success = await notificationService.notifyFavorUpdate(req.userId!, favor.id, type);
       res.json({ success });
     } catch (err) {
       console.error("Favor update error:", err);
@@ -1133,16 +2056,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // AI Moderation reporting endpoint
-  app.get("/api/moderation/report", async (req, res) => {
+  // AI Moderation reporting endpoint (admins; same filters as the event list)
+  app.get("/api/moderation/report", requireAdmin, async (req, res) => {
     try {
-      // Generate demo data if no events exist
-      const currentReport = moderationReporter.getReport();
-      if (currentReport.totalEvents === 0) {
-        getDemoModerationResults();
-      }
-      
-      const report = moderationReporter.getReport();
+      const report = await moderationReporter.getReport(parseModerationFilters(req.query));
       res.json(report);
     } catch (error) {
       console.error("Error generating moderation report:", error);
@@ -1150,6 +2067,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Moderation events filtered by userId, favorId, type, severity, reviewStatus, from/to (ISO dates)
+  app.get("/api/admin/moderation/events", requireAdmin, async (req, res) => {
+    try {
+      const events = await moderationReporter.listEvents(parseModerationFilters(req.query));
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching moderation events:", error);
+      res.status(500).json({ error: "Failed to fetch moderation events" });
+    }
+  });
+
+  // Blocks waiting for an admin to confirm or overturn them
+  app.get("/api/admin/moderation/queue", requireAdmin, async (req, res) => {
+    try {
+      const limit = parseInt(String(req.query.limit ?? "50")) || 50;
+      const queue = await moderationReporter.getReviewQueue(limit);
+      res.json(queue);
+    } catch (error) {
+      console.error("Error fetching moderation queue:", error);
+      res.status(500).json({ error: "Failed to fetch moderation queue" });
+    }
+  });
+
+  // Confirm or overturn a block; overturned blocks no longer count as strikes
+  app.post("/api/admin/moderation/events/:id/review", requireAdmin, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      const parsed = reviewModerationEventSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid review", details: parsed.error.issues });
+      }
+
+      const event = await moderationReporter.reviewEvent(eventId, parseInt(req.userId!), parsed.data.decision, parsed.data.note);
+      if (!event) {
+        return res.status(404).json({ error: "Moderation event not found" });
+      }
+      res.json(event);
+    } catch (error) {
+      console.error("Error reviewing moderation event:", error);
+      res.status(500).json({ error: "Failed to review moderation event" });
+    }
+  });
+
+  app.get("/api/admin/users/:userId/strikes", requireAdmin, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const strikes = await moderationReporter.getStrikeCount(userId);
+      const events = await moderationReporter.getUserEvents(userId);
+      res.json({ userId, strikes, events });
+    } catch (error) {
+      console.error("Error fetching user strikes:", error);
+      res.status(500).json({ error: "Failed to fetch user strikes" });
+    }
+  });
+
   // Demo: Show test scenarios
   app.get("/api/moderation/demo-scenarios", async (req, res) => {
     try {
@@ -1160,7 +2132,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Test AI moderation endpoints for demonstration
-  app.post("/api/moderation/test-message", async (req, res) => {
+  app.post("/api/moderation/test-message", requireAdmin, async (req, res) => {
     try {
       const { message } = req.body;
       const result = await aiModerationService.moderateMessage(message);
@@ -1170,10 +2142,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/moderation/test-favor", async (req, res) => {
+  app.post("/api/moderation/test-favor", requireAdmin, async (req, res) => {
     try {
-      const { title, description, category, price } = req.body;
-      const result = await aiModerationService.validateFavorPost(title, description, category, price);
+      const { title, description, category, price, currency } = req.body;
+      const cents = parseMoney(price);
+      const result = await aiModerationService.validateFavorPost(
+        title,
+        description,
+        category,
+        cents === null ? null : { cents, currency: isCurrency(currency) ? currency : "EUR" }
+      );
       res.json(result);
     } catch (error) {
       res.status(500).json({ error: "Favor validation test failed" });
@@ -1,14 +1,117 @@
-import { users, favors, notificationSubscriptions, type User, type InsertUser, type Favor, type InsertFavor } from "@shared/schema";
+import { users, favors, disputes, type FavorSearchInput, type FavorSearchSort, ratings, favrPointsHistory, favorEvents, notificationSubscriptions, pushDevices, type User, type InsertUser, type Favor, type InsertFavor, type Rating, type InsertRating, type ReviewWithRater, type FavrPointsHistory, type FavorEvent, type PushDevice } from "@shared/schema";
+import { assertTransition, resolveFavorActors, isOpenStatus, OPEN_STATUSES, FavorTransitionError, type FavorActor, type FavorStatus } from "@shared/favorStateMachine";
+import { computeFavorExpiresAt, isFavorExpired } from "@shared/favorTimeframe";
+import { approxEuroRates, currencyForCountry, parseMoney } from "@shared/money";
+import { gamificationService } from "./gamification";
+import { distanceKmSql, boundingBox } from "./geo";
+import { approximateLocation } from "./locationPrivacy";
+import { areaLabel, offlineGeocoder, reverseGeocode } from "./geocoding";
 import { db, pool } from "./db";
-import { eq, desc, and, or, gt, sql } from "drizzle-orm";
+import { eq, desc, and, or, gt, gte, lte, inArray, isNull, sql, avg, count, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 
 // Extended favor type with poster information
 export type FavorWithPoster = Favor & {
   posterName?: string;
   posterFirstName?: string | null;
   posterLastName?: string | null;
+  posterRating?: string | null;
 };
 
+export type NearbyFavor = FavorWithPoster & { distanceKm: number };
+
+export interface NearbyFavorsQuery {
+  radiusKm: number;
+  category?: string;
+  limit?: number;
+  /** Keyset position from a previous page (see decodeNearbyCursor) */
+  after?: NearbyCursor;
+}
+
+export interface NearbyFavorsPage {
+  favors: NearbyFavor[];
+  nextCursor: string | null;
+}
+
+/** What the client reports about the device it subscribes from (see client deviceDetection.ts) */
+export interface PushDeviceDetails {
+  os?: string | null;
+  browser?: string | null;
+  userAgent?: string | null;
+}
+
+const OS_NAMES: Record<string, string> = { ios: "iOS", android: "Android", macos: "macOS", windows: "Windows", linux: "Linux" };
+
+/** "Chrome on Android", "Safari on iOS", ... */
+export function describePushDevice(details: PushDeviceDetails): string {
+  const os = details.os ? OS_NAMES[details.os] : undefined;
+  const browser = details.browser && details.browser !== "unknown"
+    ? details.browser.charAt(0).toUpperCase() + details.browser.slice(1)
+    : undefined;
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? "Unknown device";
+}
+
+// Results are ordered by (distance, id), so that pair is the page boundary
+type NearbyCursor = { distanceKm: number; id: number };
+
+function encodeNearbyCursor(cursor: NearbyCursor): string {
+  return Buffer.from(`${cursor.distanceKm}:${cursor.id}`).toString("base64url");
+}
+
+export function decodeNearbyCursor(cursor: string): NearbyCursor | null {
+  const [distanceKm, id] = Buffer.from(cursor, "base64url").toString().split(":").map(Number);
+  return Number.isFinite(distanceKm) && Number.isInteger(id) ? { distanceKm, id } : null;
+}
+
+/** What reverse geocoding the favor's location found (see server/geocoding.ts) */
+export interface FavorLocationDetails {
+  areaLabel?: string | null;
+  countryCode?: string | null;
+}
+
+export type SearchedFavor = FavorWithPoster & { distanceKm: number | null };
+
+export type FavorSearchQuery = Omit<FavorSearchInput, "cursor"> & {
+  /** Keyset position from a previous page (see decodeSearchCursor) */
+  after?: SearchCursor;
+  /** The signed-in caller; favors past the open statuses only match when they posted or took them */
+  participantId?: number | null;
+};
+
+export interface FavorSearchPage {
+  favors: SearchedFavor[];
+  nextCursor: string | null;
+}
+
+// Every sort orders by (key, id); the cursor carries the sort so it can't be replayed against another one
+type SearchCursor = { sort: FavorSearchSort; value: number; id: number };
+
+function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(`${cursor.sort}:${cursor.value}:${cursor.id}`).toString("base64url");
+}
+
+export function decodeSearchCursor(cursor: string, sort: FavorSearchSort): SearchCursor | null {
+  const [cursorSort, value, id] = Buffer.from(cursor, "base64url").toString().split(":");
+  const parsed = { sort, value: Number(value), id: Number(id) };
+  return cursorSort === sort && Number.isFinite(parsed.value) && Number.isInteger(parsed.id) ? parsed : null;
+}
+
+// Same expression as the favors_search_idx index, so full-text matches can use it
+const favorSearchDocument = sql`to_tsvector('simple', ${favors.title} || ' ' || ${favors.description})`;
+
+/** "dog walk" → 'dog:* & walk:*', so results show up while typing; anything but letters and digits (tsquery syntax included) splits words */
+function prefixTsQuery(text: string): string | null {
+  const words = text.toLowerCase().split(/[^0-9a-z\u00c0-\u024f]+/).filter(Boolean);
+  return words.length > 0 ? words.map(word => `${word}:*`).join(" & ") : null;
+}
+
+// Search filters and sorts prices in EUR across currencies, at the rough rates of shared/money.ts
+const priceEurosSql = sql<number>`(${favors.priceCents} * (case ${favors.currency} ${sql.join(
+  approxEuroRates().map(([currency, rate]) => sql`when ${currency} then ${sql.raw(String(rate))}`),
+  sql` `,
+)} else 1 end) / 100.0)`;
+
 
 
 export interface IStorage {
@@ -19,19 +122,37 @@ export interface IStorage {
   
   getFavors(): Promise<FavorWithPoster[]>;
   getFavor(id: number): Promise<FavorWithPoster | undefined>;
-  getFavorsNearby(lat: number, lng: number, radiusKm: number): Promise<FavorWithPoster[]>;
+  getFavorsNearby(lat: number, lng: number, query: NearbyFavorsQuery): Promise<NearbyFavorsPage>;
+  searchFavors(query: FavorSearchQuery): Promise<FavorSearchPage>;
   getFavorsByCategory(category: string): Promise<FavorWithPoster[]>;
   getFavorsByPoster(posterId: string): Promise<FavorWithPoster[]>;
   getCompletedFavorsByUser(userId: string): Promise<FavorWithPoster[]>;
-  createFavor(favor: InsertFavor): Promise<Favor>;
+  createFavor(favor: InsertFavor, location?: FavorLocationDetails): Promise<Favor>;
   updateFavor(id: number, updates: Partial<Favor>): Promise<Favor | undefined>;
+  backfillPublicLocations(): Promise<number>;
+  backfillStructuredPrices(): Promise<number>;
   deleteFavor(id: number, userId: string): Promise<boolean>;
   updateUserCountry(userId: number, country: string): Promise<void>;
   
   // Completion tracking methods
-  acceptFavor(favorId: number, helperId: number): Promise<Favor | undefined>;
-  completeFavor(favorId: number, completedByUserId: number, negotiatedPrice?: string): Promise<Favor | undefined>;
+  // Status changes are validated by shared/favorStateMachine and throw FavorTransitionError.
+  // Given `outer`, they run inside that transaction (as a savepoint) so callers can commit related rows with them
+  acceptFavor(favorId: number, helperId: number, agreedPriceCents?: number, outer?: Transaction): Promise<Favor>;
+  completeFavor(favorId: number, completedByUserId: number, review?: { rating: number; comment?: string | null }, outer?: Transaction): Promise<Favor>;
+  cancelFavor(favorId: number, cancelledByUserId: number, note?: string, outer?: Transaction): Promise<Favor>;
+  repostFavor(favorId: number, posterId: number, timeframe?: string): Promise<Favor>;
+  transitionFavor(favorId: number, to: FavorStatus, actorUserId: number | null, note?: string, outer?: Transaction): Promise<Favor>;
+  getFavorEvents(favorId: number): Promise<FavorEvent[]>;
   getUserCompletionStats(userId: number): Promise<{ completed: number; posted: number; rating: number }>;
+
+  // Ratings & reviews
+  /** null when the rater already reviewed this favor */
+  createRating(rating: InsertRating): Promise<Rating | null>;
+  getFavorRatings(favorId: number): Promise<Rating[]>;
+  getUserReviews(userId: number): Promise<ReviewWithRater[]>;
+
+  // Favr points ledger
+  getPointsHistory(userId: number): Promise<FavrPointsHistory[]>;
   
   // Analytics methods
   getUserDemographics(): Promise<{
@@ -49,13 +170,23 @@ export interface IStorage {
   updateNotificationSettings(userId: string, enabled: boolean): Promise<User | undefined>;
   
   // Unified notification methods for iPhone/Android compatibility
-  saveUnifiedNotificationSubscription(userId: string, platform: 'webpush' | 'onesignal', subscriptionData: any): Promise<void>;
+  saveUnifiedNotificationSubscription(userId: string, platform: 'webpush' | 'onesignal', subscriptionData: any, details?: PushDeviceDetails): Promise<PushDevice | null>;
   getUnifiedNotificationSubscription(userId: string): Promise<{ platform: 'webpush' | 'onesignal', subscriptionData: any } | null>;
 
+  // Per-device push subscriptions
+  savePushDevice(userId: number, platform: 'webpush' | 'onesignal', subscriptionData: any, details?: PushDeviceDetails): Promise<PushDevice | null>;
+  getPushDevices(userId: number): Promise<PushDevice[]>;
+  removePushDevice(userId: number, deviceId: number): Promise<boolean>;
+  removePushDeviceByEndpoint(endpoint: string): Promise<void>;
+
 }
 
 
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const DELETABLE_STATUSES: FavorStatus[] = ['available', 'expired'];
+
 // module-scope helper so class methods can see it
 function normalizeWebPushSub(raw: any):
   | { endpoint: string; keys: { p256dh: string; auth: string } }
@@ -150,12 +281,19 @@ export class DatabaseStorage implements IStorage {
           title: favors.title,
           description: favors.description,
           category: favors.category,
-          price: favors.price,
+          subcategory: favors.subcategory,
+          priceCents: favors.priceCents,
+          currency: favors.currency,
+          legacyPrice: favors.legacyPrice,
           isNegotiable: favors.isNegotiable,
           imageUrl: favors.imageUrl,
           latitude: favors.latitude,
           longitude: favors.longitude,
           address: favors.address,
+          approxLatitude: favors.approxLatitude,
+          approxLongitude: favors.approxLongitude,
+          areaLabel: favors.areaLabel,
+          countryCode: favors.countryCode,
           timeframe: favors.timeframe,
           status: favors.status,
           posterId: favors.posterId,
@@ -163,56 +301,23 @@ export class DatabaseStorage implements IStorage {
           acceptedAt: favors.acceptedAt,
           completedAt: favors.completedAt,
           rating: favors.rating,
+          expiresAt: favors.expiresAt,
           createdAt: favors.createdAt,
           completedByUserId: favors.completedByUserId,
-          negotiatedPrice: favors.negotiatedPrice,
+          negotiatedPriceCents: favors.negotiatedPriceCents,
+          legacyNegotiatedPrice: favors.legacyNegotiatedPrice,
           posterFirstName: users.firstName,
           posterLastName: users.lastName,
+          posterRating: users.averageRating,
         })
         .from(favors)
         .leftJoin(users, sql`${favors.posterId}::integer = ${users.id}`);
       
-      // Filter out completed/cancelled favors and expired favors for public view
-      const activeFavors = result.filter(favor => {
-        if (favor.status !== "available" && favor.status !== "accepted") {
-          return false;
-        }
-        
-        // Check if favor has expired based on timeframe
-        if (favor.createdAt) {
-          const createdTime = new Date(favor.createdAt).getTime();
-          const now = Date.now();
-          const hoursElapsed = (now - createdTime) / (1000 * 60 * 60);
-          
-          // Set expiration based on timeframe
-          let expirationHours = 72; // Default 3 days
-          
-          if (favor.timeframe) {
-            const timeframe = favor.timeframe.toLowerCase();
-            if (timeframe.includes('flexible') || timeframe.includes('anytime')) {
-              expirationHours = 14 * 24; // 14 days for flexible
-            } else if (timeframe.includes('week') || timeframe.includes('this week')) {
-              expirationHours = 7 * 24; // 7 days for weekly
-            } else if (timeframe.includes('today') || timeframe.includes('urgent')) {
-              expirationHours = 24; // 1 day for urgent
-            } else if (timeframe.includes('month') || 
-                      timeframe.includes('january') || timeframe.includes('february') || 
-                      timeframe.includes('march') || timeframe.includes('april') || 
-                      timeframe.includes('may') || timeframe.includes('june') || 
-                      timeframe.includes('july') || timeframe.includes('august') || 
-                      timeframe.includes('september') || timeframe.includes('october') || 
-                      timeframe.includes('november') || timeframe.includes('december')) {
-              expirationHours = 30 * 24; // 30 days for monthly/specific dates
-            }
-          }
-          
-          if (hoursElapsed >= expirationHours) {
-            return false; // Hide expired favors
-          }
-        }
-        
-        return true;
-      });
+      // Public view: open favors whose timeframe hasn't run out (the sweeper marks them expired)
+      const now = new Date();
+      const activeFavors = result.filter(favor =>
+        isOpenStatus(favor.status) && !isFavorExpired(favor.expiresAt, now)
+      );
       
       // Add display name for each favor
       const favorsWithNames = activeFavors.map(favor => ({
@@ -232,23 +337,10 @@ export class DatabaseStorage implements IStorage {
       // Fallback to basic query without user join if there's an issue
       const basicResult = await db.select().from(favors);
       
-      const activeFavors = basicResult.filter(favor => {
-        if (favor.status !== "available" && favor.status !== "accepted") {
-          return false;
-        }
-        
-        if (favor.createdAt) {
-          const createdTime = new Date(favor.createdAt).getTime();
-          const now = Date.now();
-          const hoursElapsed = (now - createdTime) / (1000 * 60 * 60);
-          
-          if (hoursElapsed >= 72) {
-            return false;
-          }
-        }
-        
-        return true;
-      });
+      const now = new Date();
+      const activeFavors = basicResult.filter(favor =>
+        isOpenStatus(favor.status) && !isFavorExpired(favor.expiresAt, now)
+      );
       
       return activeFavors.map(favor => ({
         ...favor,
@@ -271,12 +363,19 @@ export class DatabaseStorage implements IStorage {
         title: favors.title,
         description: favors.description,
         category: favors.category,
-        price: favors.price,
+        subcategory: favors.subcategory,
+        priceCents: favors.priceCents,
+        currency: favors.currency,
+        legacyPrice: favors.legacyPrice,
         isNegotiable: favors.isNegotiable,
         imageUrl: favors.imageUrl,
         latitude: favors.latitude,
         longitude: favors.longitude,
         address: favors.address,
+        approxLatitude: favors.approxLatitude,
+        approxLongitude: favors.approxLongitude,
+        areaLabel: favors.areaLabel,
+        countryCode: favors.countryCode,
         timeframe: favors.timeframe,
         status: favors.status,
         posterId: favors.posterId,
@@ -284,9 +383,11 @@ export class DatabaseStorage implements IStorage {
         acceptedAt: favors.acceptedAt,
         completedAt: favors.completedAt,
         rating: favors.rating,
+        expiresAt: favors.expiresAt,
         createdAt: favors.createdAt,
         posterFirstName: users.firstName,
         posterLastName: users.lastName,
+        posterRating: users.averageRating,
       })
       .from(favors)
       .leftJoin(users, sql`${favors.posterId}::integer = ${users.id}`)
@@ -326,15 +427,205 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getFavorsNearby(lat: number, lng: number, radiusKm: number): Promise<FavorWithPoster[]> {
-    const allFavors = await this.getFavors();
-    
-    return allFavors.filter(favor => {
-      const favorLat = parseFloat(favor.latitude);
-      const favorLng = parseFloat(favor.longitude);
-      const distance = this.calculateDistance(lat, lng, favorLat, favorLng);
-      return distance <= radiusKm;
-    });
+  async getFavorsNearby(lat: number, lng: number, query: NearbyFavorsQuery): Promise<NearbyFavorsPage> {
+    const limit = Math.min(Math.max(query.limit ?? 20, 1), 100);
+    // Distances, order and cursors use the public pin only, so paging can't be used to trilaterate the exact spot
+    const distance = distanceKmSql(favors.approxLatitude, favors.approxLongitude, lat, lng);
+
+    // Cheap indexed bounding box first, exact great-circle distance second
+    const box = boundingBox(lat, lng, query.radiusKm);
+    const conditions: SQL[] = [
+      inArray(favors.status, OPEN_STATUSES),
+      or(isNull(favors.expiresAt), gt(favors.expiresAt, new Date()))!,
+      gte(favors.approxLatitude, String(box.minLat)),
+      lte(favors.approxLatitude, String(box.maxLat)),
+      sql`${distance} <= ${query.radiusKm}`,
+    ];
+    if (box.lng) {
+      conditions.push(gte(favors.approxLongitude, String(box.lng.min)), lte(favors.approxLongitude, String(box.lng.max)));
+    }
+    if (query.category) {
+      conditions.push(eq(favors.category, query.category));
+    }
+    if (query.after) {
+      conditions.push(sql`(${distance}, ${favors.id}) > (${query.after.distanceKm}, ${query.after.id})`);
+    }
+
+    const rows = await db
+      .select({
+        id: favors.id,
+        title: favors.title,
+        description: favors.description,
+        category: favors.category,
+        subcategory: favors.subcategory,
+        priceCents: favors.priceCents,
+        currency: favors.currency,
+        legacyPrice: favors.legacyPrice,
+        isNegotiable: favors.isNegotiable,
+        imageUrl: favors.imageUrl,
+        latitude: favors.latitude,
+        longitude: favors.longitude,
+        address: favors.address,
+        approxLatitude: favors.approxLatitude,
+        approxLongitude: favors.approxLongitude,
+        areaLabel: favors.areaLabel,
+        countryCode: favors.countryCode,
+        timeframe: favors.timeframe,
+        status: favors.status,
+        posterId: favors.posterId,
+        helperId: favors.helperId,
+        acceptedAt: favors.acceptedAt,
+        completedAt: favors.completedAt,
+        rating: favors.rating,
+        expiresAt: favors.expiresAt,
+        createdAt: favors.createdAt,
+        completedByUserId: favors.completedByUserId,
+        negotiatedPriceCents: favors.negotiatedPriceCents,
+        legacyNegotiatedPrice: favors.legacyNegotiatedPrice,
+        posterFirstName: users.firstName,
+        posterLastName: users.lastName,
+        posterRating: users.averageRating,
+        distanceKm: distance,
+      })
+      .from(favors)
+      .leftJoin(users, sql`${favors.posterId}::integer = ${users.id}`)
+      .where(and(...conditions))
+      .orderBy(distance, favors.id)
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit).map(favor => ({
+      ...favor,
+      posterName: favor.posterFirstName && favor.posterLastName
+        ? `${favor.posterFirstName} ${favor.posterLastName.charAt(0)}.`
+        : "User"
+    }));
+    const last = page[page.length - 1];
+
+    return {
+      favors: page,
+      nextCursor: rows.length > limit && last ? encodeNearbyCursor({ distanceKm: last.distanceKm, id: last.id }) : null,
+    };
+  }
+
+  async searchFavors(query: FavorSearchQuery): Promise<FavorSearchPage> {
+    const limit = query.limit ?? 20;
+    const point = query.lat !== undefined && query.lng !== undefined ? { lat: query.lat, lng: query.lng } : null;
+    // Like the nearby search, distances only ever use the public pin
+    const distance = point ? distanceKmSql(favors.approxLatitude, favors.approxLongitude, point.lat, point.lng) : null;
+    const tsQuery = query.q ? prefixTsQuery(query.q) : null;
+
+    const statuses = query.status ?? OPEN_STATUSES;
+    const openStatuses = statuses.filter(isOpenStatus);
+    const closedStatuses = statuses.filter(status => !isOpenStatus(status));
+    const visible: SQL[] = [];
+    if (openStatuses.length > 0) visible.push(inArray(favors.status, openStatuses));
+    if (closedStatuses.length > 0 && query.participantId) {
+      visible.push(and(
+        inArray(favors.status, closedStatuses),
+        or(eq(favors.posterId, String(query.participantId)), eq(favors.helperId, query.participantId))
+      )!);
+    }
+    const conditions: SQL[] = [visible.length > 0 ? or(...visible)! : sql`false`];
+    if (statuses.every(isOpenStatus)) {
+      // Open favors past their expiry are waiting for the sweep, not open anymore
+      conditions.push(or(isNull(favors.expiresAt), gt(favors.expiresAt, new Date()))!);
+    }
+    if (tsQuery) {
+      conditions.push(sql`${favorSearchDocument} @@ to_tsquery('simple', ${tsQuery})`);
+    }
+    if (query.category) conditions.push(eq(favors.category, query.category));
+    if (query.subcategory) conditions.push(eq(favors.subcategory, query.subcategory));
+    if (query.minPrice !== undefined) conditions.push(sql`${priceEurosSql} >= ${query.minPrice}`);
+    if (query.maxPrice !== undefined) conditions.push(sql`${priceEurosSql} <= ${query.maxPrice}`);
+    if (query.negotiable !== undefined) conditions.push(eq(favors.isNegotiable, query.negotiable));
+    if (query.minRating !== undefined) conditions.push(gte(users.averageRating, String(query.minRating)));
+    if (query.endingWithinHours !== undefined) {
+      conditions.push(lte(favors.expiresAt, new Date(Date.now() + query.endingWithinHours * 60 * 60 * 1000)));
+    }
+    if (point && distance && query.radiusKm !== undefined) {
+      const box = boundingBox(point.lat, point.lng, query.radiusKm);
+      conditions.push(
+        gte(favors.approxLatitude, String(box.minLat)),
+        lte(favors.approxLatitude, String(box.maxLat)),
+        sql`${distance} <= ${query.radiusKm}`,
+      );
+      if (box.lng) {
+        conditions.push(gte(favors.approxLongitude, String(box.lng.min)), lte(favors.approxLongitude, String(box.lng.max)));
+      }
+    }
+
+    // Sort key as a float8 so it survives the trip through the cursor; favors without a value go last
+    const sortKeys: Record<FavorSearchSort, { key: SQL<number>; descending: boolean }> = {
+      relevance: { key: sql<number>`ts_rank(${favorSearchDocument}, to_tsquery('simple', ${tsQuery ?? ""}))::float8`, descending: true },
+      newest: { key: sql<number>`extract(epoch from coalesce(${favors.createdAt}, 'epoch'))::float8`, descending: true },
+      nearest: { key: distance ?? sql<number>`0::float8`, descending: false },
+      price_asc: { key: sql<number>`${priceEurosSql}::float8`, descending: false },
+      price_desc: { key: sql<number>`${priceEurosSql}::float8`, descending: true },
+      ending_soon: { key: sql<number>`coalesce(extract(epoch from ${favors.expiresAt}), 1e12)::float8`, descending: false },
+    };
+    const { key, descending } = sortKeys[query.sort];
+    const sortKey = key.mapWith(Number);
+    if (query.after) {
+      conditions.push(descending
+        ? sql`(${sortKey}, ${favors.id}) < (${query.after.value}, ${query.after.id})`
+        : sql`(${sortKey}, ${favors.id}) > (${query.after.value}, ${query.after.id})`);
+    }
+
+    const rows = await db
+      .select({
+        id: favors.id,
+        title: favors.title,
+        description: favors.description,
+        category: favors.category,
+        subcategory: favors.subcategory,
+        priceCents: favors.priceCents,
+        currency: favors.currency,
+        legacyPrice: favors.legacyPrice,
+        isNegotiable: favors.isNegotiable,
+        imageUrl: favors.imageUrl,
+        latitude: favors.latitude,
+        longitude: favors.longitude,
+        address: favors.address,
+        approxLatitude: favors.approxLatitude,
+        approxLongitude: favors.approxLongitude,
+        areaLabel: favors.areaLabel,
+        countryCode: favors.countryCode,
+        timeframe: favors.timeframe,
+        status: favors.status,
+        posterId: favors.posterId,
+        helperId: favors.helperId,
+        acceptedAt: favors.acceptedAt,
+        completedAt: favors.completedAt,
+        rating: favors.rating,
+        expiresAt: favors.expiresAt,
+        createdAt: favors.createdAt,
+        completedByUserId: favors.completedByUserId,
+        negotiatedPriceCents: favors.negotiatedPriceCents,
+        legacyNegotiatedPrice: favors.legacyNegotiatedPrice,
+        posterFirstName: users.firstName,
+        posterLastName: users.lastName,
+        posterRating: users.averageRating,
+        distanceKm: distance ?? sql<number | null>`null`,
+        sortKey,
+      })
+      .from(favors)
+      .leftJoin(users, sql`${favors.posterId}::integer = ${users.id}`)
+      .where(and(...conditions))
+      .orderBy(descending ? desc(sortKey) : sortKey, descending ? desc(favors.id) : favors.id)
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit).map(({ sortKey: _sortKey, ...favor }) => ({
+      ...favor,
+      posterName: favor.posterFirstName && favor.posterLastName
+        ? `${favor.posterFirstName} ${favor.posterLastName.charAt(0)}.`
+        : "User"
+    }));
+    const last = rows[Math.min(rows.length, limit) - 1];
+
+    return {
+      favors: page,
+      nextCursor: rows.length > limit && last ? encodeSearchCursor({ sort: query.sort, value: last.sortKey, id: last.id }) : null,
+    };
   }
 
   async getFavorsByCategory(category: string): Promise<FavorWithPoster[]> {
@@ -344,12 +635,19 @@ export class DatabaseStorage implements IStorage {
         title: favors.title,
         description: favors.description,
         category: favors.category,
-        price: favors.price,
+        subcategory: favors.subcategory,
+        priceCents: favors.priceCents,
+        currency: favors.currency,
+        legacyPrice: favors.legacyPrice,
         isNegotiable: favors.isNegotiable,
         imageUrl: favors.imageUrl,
         latitude: favors.latitude,
         longitude: favors.longitude,
         address: favors.address,
+        approxLatitude: favors.approxLatitude,
+        approxLongitude: favors.approxLongitude,
+        areaLabel: favors.areaLabel,
+        countryCode: favors.countryCode,
         timeframe: favors.timeframe,
         status: favors.status,
         posterId: favors.posterId,
@@ -357,19 +655,23 @@ export class DatabaseStorage implements IStorage {
         acceptedAt: favors.acceptedAt,
         completedAt: favors.completedAt,
         rating: favors.rating,
+        expiresAt: favors.expiresAt,
         createdAt: favors.createdAt,
         completedByUserId: favors.completedByUserId,
-        negotiatedPrice: favors.negotiatedPrice,
+        negotiatedPriceCents: favors.negotiatedPriceCents,
+        legacyNegotiatedPrice: favors.legacyNegotiatedPrice,
         posterFirstName: users.firstName,
         posterLastName: users.lastName,
+        posterRating: users.averageRating,
       })
       .from(favors)
       .leftJoin(users, sql`${favors.posterId}::integer = ${users.id}`)
       .where(eq(favors.category, category));
     
-    // Filter out completed/cancelled favors and add poster names
+    // Filter out closed and expired favors and add poster names
+    const now = new Date();
     const activeFavors = result.filter(favor => 
-      favor.status === "available" || favor.status === "accepted"
+      isOpenStatus(favor.status) && !isFavorExpired(favor.expiresAt, now)
     );
     
     return activeFavors.map(favor => ({
@@ -388,12 +690,19 @@ export class DatabaseStorage implements IStorage {
         title: favors.title,
         description: favors.description,
         category: favors.category,
-        price: favors.price,
+        subcategory: favors.subcategory,
+        priceCents: favors.priceCents,
+        currency: favors.currency,
+        legacyPrice: favors.legacyPrice,
         isNegotiable: favors.isNegotiable,
         imageUrl: favors.imageUrl,
         latitude: favors.latitude,
         longitude: favors.longitude,
         address: favors.address,
+        approxLatitude: favors.approxLatitude,
+        approxLongitude: favors.approxLongitude,
+        areaLabel: favors.areaLabel,
+        countryCode: favors.countryCode,
         timeframe: favors.timeframe,
         status: favors.status,
         posterId: favors.posterId,
@@ -401,11 +710,14 @@ export class DatabaseStorage implements IStorage {
         acceptedAt: favors.acceptedAt,
         completedAt: favors.completedAt,
         rating: favors.rating,
+        expiresAt: favors.expiresAt,
         createdAt: favors.createdAt,
         completedByUserId: favors.completedByUserId,
-        negotiatedPrice: favors.negotiatedPrice,
+        negotiatedPriceCents: favors.negotiatedPriceCents,
+        legacyNegotiatedPrice: favors.legacyNegotiatedPrice,
         posterFirstName: users.firstName,
         posterLastName: users.lastName,
+        posterRating: users.averageRating,
       })
       .from(favors)
       .leftJoin(users, sql`${favors.posterId}::integer = ${users.id}`)
@@ -425,18 +737,115 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
-  async createFavor(favor: InsertFavor): Promise<Favor> {
-    const [newFavor] = await db
-      .insert(favors)
-      .values(favor)
-      .returning();
-    return newFavor;
+  async createFavor(favor: InsertFavor, location: FavorLocationDetails = {}): Promise<Favor> {
+    return await db.transaction(async (tx) => {
+      const [newFavor] = await tx
+        .insert(favors)
+        .values({
+          ...favor,
+          currency: favor.currency ?? currencyForCountry(location.countryCode),
+          ...approximateLocation(favor.latitude, favor.longitude),
+          areaLabel: location.areaLabel ?? null,
+          countryCode: location.countryCode ?? null,
+          expiresAt: computeFavorExpiresAt(favor.timeframe),
+        })
+        .returning();
+
+      await tx.insert(favorEvents).values({
+        favorId: newFavor.id,
+        fromStatus: null,
+        toStatus: newFavor.status,
+        actorId: parseInt(newFavor.posterId),
+        actorRole: 'poster',
+      });
+
+      await this.recordPoints(tx, parseInt(newFavor.posterId), gamificationService.getPointsEntry('FAVOR_POSTED'), newFavor.id);
+      return newFavor;
+    });
+  }
+
+  /**
+   * Gives favors posted before location privacy a public pin and an area label (from the offline
+   * dataset); until then they are missing from the nearby search
+   */
+  async backfillPublicLocations(): Promise<number> {
+    const missing = await db
+      .select({ id: favors.id, latitude: favors.latitude, longitude: favors.longitude, areaLabel: favors.areaLabel, countryCode: favors.countryCode })
+      .from(favors)
+      .where(or(isNull(favors.approxLatitude), isNull(favors.areaLabel), isNull(favors.countryCode)));
+
+    for (const favor of missing) {
+      const place = offlineGeocoder.locate(Number(favor.latitude), Number(favor.longitude));
+      await db
+        .update(favors)
+        .set({
+          ...approximateLocation(favor.latitude, favor.longitude),
+          areaLabel: favor.areaLabel ?? areaLabel(place),
+          countryCode: favor.countryCode ?? place?.countryCode ?? null,
+        })
+        .where(eq(favors.id, favor.id));
+    }
+    return missing.length;
   }
 
+  /**
+   * Moves free-text prices from before structured pricing into priceCents/currency and
+   * negotiatedPriceCents. A text that doesn't parse is left untouched - nothing is written in its
+   * place - and logged on every run until someone fixes it by hand.
+   */
+  async backfillStructuredPrices(): Promise<number> {
+    const legacy = await db
+      .select({ id: favors.id, price: favors.legacyPrice, negotiatedPrice: favors.legacyNegotiatedPrice, countryCode: favors.countryCode })
+      .from(favors)
+      .where(sql`${favors.legacyPrice} is not null or ${favors.legacyNegotiatedPrice} is not null`);
+
+    let migrated = 0;
+    const unparseable: number[] = [];
+    for (const favor of legacy) {
+      const priceCents = parseMoney(favor.price);
+      const negotiatedPriceCents = parseMoney(favor.negotiatedPrice);
+      const badPrice = favor.price !== null && priceCents === null;
+      const badNegotiatedPrice = favor.negotiatedPrice !== null && negotiatedPriceCents === null;
+      if (badPrice) console.warn(`Favor ${favor.id} keeps its unparseable price "${favor.price}"`);
+      if (badNegotiatedPrice) console.warn(`Favor ${favor.id} keeps its unparseable negotiated price "${favor.negotiatedPrice}"`);
+      if (badPrice || badNegotiatedPrice) unparseable.push(favor.id);
+      if (priceCents === null && negotiatedPriceCents === null) continue;
+
+      // Each text is cleared only together with the amount that replaces it
+      await db
+        .update(favors)
+        .set({
+          ...(priceCents !== null && { priceCents, currency: currencyForCountry(favor.countryCode), legacyPrice: null }),
+          ...(negotiatedPriceCents !== null && { negotiatedPriceCents, legacyNegotiatedPrice: null }),
+        })
+        .where(eq(favors.id, favor.id));
+      migrated++;
+    }
+    if (unparseable.length > 0) {
+      console.warn(`${unparseable.length} favor(s) need their price fixed by hand: ${unparseable.join(", ")}`);
+    }
+    return migrated;
+  }
+
+  // Field edits only: status changes go through transitionInTx
   async updateFavor(id: number, updates: Partial<Favor>): Promise<Favor | undefined> {
+    const { status: _status, approxLatitude: _lat, approxLongitude: _lng, areaLabel: _area, ...fields } = updates;
+    // A moved favor gets the public pin and area label of its new location
+    let location: Partial<Favor> = {};
+    if (fields.latitude !== undefined || fields.longitude !== undefined) {
+      const [current] = await db
+        .select({ latitude: favors.latitude, longitude: favors.longitude })
+        .from(favors)
+        .where(eq(favors.id, id));
+      if (!current) return undefined;
+      const latitude = fields.latitude ?? current.latitude;
+      const longitude = fields.longitude ?? current.longitude;
+      const place = await reverseGeocode(Number(latitude), Number(longitude));
+      location = { ...approximateLocation(latitude, longitude), areaLabel: areaLabel(place) };
+    }
     const [updatedFavor] = await db
       .update(favors)
-      .set(updates)
+      .set({ ...fields, ...location })
       .where(eq(favors.id, id))
       .returning();
     return updatedFavor || undefined;
@@ -450,12 +859,19 @@ export class DatabaseStorage implements IStorage {
         title: favors.title,
         description: favors.description,
         category: favors.category,
-        price: favors.price,
+        subcategory: favors.subcategory,
+        priceCents: favors.priceCents,
+        currency: favors.currency,
+        legacyPrice: favors.legacyPrice,
         isNegotiable: favors.isNegotiable,
         imageUrl: favors.imageUrl,
         latitude: favors.latitude,
         longitude: favors.longitude,
         address: favors.address,
+        approxLatitude: favors.approxLatitude,
+        approxLongitude: favors.approxLongitude,
+        areaLabel: favors.areaLabel,
+        countryCode: favors.countryCode,
         timeframe: favors.timeframe,
         status: favors.status,
         posterId: favors.posterId,
@@ -463,11 +879,14 @@ export class DatabaseStorage implements IStorage {
         acceptedAt: favors.acceptedAt,
         completedAt: favors.completedAt,
         rating: favors.rating,
+        expiresAt: favors.expiresAt,
         createdAt: favors.createdAt,
         completedByUserId: favors.completedByUserId,
-        negotiatedPrice: favors.negotiatedPrice,
+        negotiatedPriceCents: favors.negotiatedPriceCents,
+        legacyNegotiatedPrice: favors.legacyNegotiatedPrice,
         posterFirstName: users.firstName,
         posterLastName: users.lastName,
+        posterRating: users.averageRating,
       })
       .from(favors)
       .leftJoin(users, sql`${favors.posterId}::integer = ${users.id}`);
@@ -485,24 +904,21 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Only favors nobody took on can be deleted: the delete cascades to escrow, disputes and history
   async deleteFavor(id: number, userId: string): Promise<boolean> {
     await this.init();
-    try {
-      // Check if the favor belongs to the user
-      const [favor] = await db.select().from(favors).where(eq(favors.id, id));
-      
-
-      
+    return await db.transaction(async (tx) => {
+      const [favor] = await tx.select().from(favors).where(eq(favors.id, id)).for('update');
       if (!favor || favor.posterId !== userId) {
         return false;
       }
-      
-      await db.delete(favors).where(eq(favors.id, id));
+      if (!(DELETABLE_STATUSES as string[]).includes(favor.status)) {
+        throw new FavorTransitionError(`A favor that is ${favor.status} can't be deleted`, 409);
+      }
+
+      await tx.delete(favors).where(eq(favors.id, id));
       return true;
-    } catch (error) {
-      console.error("Error deleting favor:", error);
-      return false;
-    }
+    });
   }
 
   async updateUserCountry(userId: number, country: string): Promise<void> {
@@ -517,46 +933,272 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async acceptFavor(favorId: number, helperId: number): Promise<Favor | undefined> {
+  async acceptFavor(favorId: number, helperId: number, agreedPriceCents?: number, outer?: Transaction): Promise<Favor> {
     await this.init();
-    const [updatedFavor] = await db
-      .update(favors)
-      .set({ 
-        status: 'accepted',
-        helperId: helperId,
-        acceptedAt: new Date()
-      })
-      .where(eq(favors.id, favorId))
-      .returning();
-    return updatedFavor || undefined;
+    return await this.inTransaction(outer, async (tx) => {
+      const { favor } = await this.transitionInTx(tx, favorId, 'accepted', helperId, {
+        helperId,
+        acceptedAt: new Date(),
+        // An offer at a different price is what the escrow holds
+        ...(agreedPriceCents !== undefined && { negotiatedPriceCents: agreedPriceCents })
+      });
+
+      await this.recordPoints(tx, helperId, gamificationService.getPointsEntry('FAVOR_ACCEPTED'), favorId);
+      return favor;
+    });
+  }
+
+  async cancelFavor(favorId: number, cancelledByUserId: number, note?: string, outer?: Transaction): Promise<Favor> {
+    await this.init();
+    return await this.inTransaction(outer, async (tx) => {
+      const { favor, from, actor } = await this.transitionInTx(tx, favorId, 'cancelled', cancelledByUserId, {}, note);
+
+      // Backing out of an accepted favor costs the canceller points (admins resolving disputes are exempt)
+      if (from === 'accepted' && actor !== 'admin') {
+        await this.recordPoints(tx, cancelledByUserId, gamificationService.getPointsEntry('FAVOR_CANCELLED'), favorId);
+      }
+      return favor;
+    });
   }
 
-  async completeFavor(favorId: number, completedByUserId: number, negotiatedPrice?: string): Promise<Favor | undefined> {
+  async completeFavor(
+    favorId: number,
+    completedByUserId: number,
+    review?: { rating: number; comment?: string | null },
+    outer?: Transaction
+  ): Promise<Favor> {
     await this.init();
     
-    // Update favor status to completed
-    const [updatedFavor] = await db
-      .update(favors)
-      .set({ 
-        status: 'completed',
+    return await this.inTransaction(outer, async (tx) => {
+      const { favor: updatedFavor } = await this.transitionInTx(tx, favorId, 'completed', completedByUserId, {
         completedAt: new Date(),
         completedByUserId: completedByUserId,
-        ...(negotiatedPrice && { negotiatedPrice })
+        ...(review && { rating: review.rating.toFixed(1) })
+      });
+
+      if (updatedFavor.helperId) {
+        // Update helper's completion count
+        const [helper] = await tx
+          .update(users)
+          .set({ 
+            completedFavrs: sql`${users.completedFavrs} + 1`
+          })
+          .where(eq(users.id, updatedFavor.helperId))
+          .returning({ completedFavrs: users.completedFavrs });
+
+        await this.recordPoints(tx, updatedFavor.helperId, gamificationService.getPointsEntry('FAVOR_COMPLETED'), favorId);
+        if (helper?.completedFavrs === 1) {
+          await this.recordPoints(tx, updatedFavor.helperId, gamificationService.getPointsEntry('FIRST_FAVOR'), favorId);
+        }
+
+        // The requester's rating of the helper travels with the completion
+        if (review) {
+          await this.insertRatingAndRecompute(tx, {
+            favorId,
+            raterId: completedByUserId,
+            ratedUserId: updatedFavor.helperId,
+            rating: review.rating,
+            comment: review.comment ?? null,
+          });
+        }
+      }
+
+      return updatedFavor;
+    });
+  }
+
+  // Put an expired favor back on the board with a fresh expiry (optionally a new timeframe)
+  async repostFavor(favorId: number, posterId: number, timeframe?: string): Promise<Favor> {
+    await this.init();
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select({ timeframe: favors.timeframe }).from(favors).where(eq(favors.id, favorId));
+      const nextTimeframe = timeframe?.trim() || current?.timeframe || "";
+
+      const { favor } = await this.transitionInTx(tx, favorId, 'available', posterId, {
+        timeframe: nextTimeframe,
+        expiresAt: computeFavorExpiresAt(nextTimeframe),
+      }, 'Reposted');
+      return favor;
+    });
+  }
+
+  // Status changes with no side effects beyond the audit trail (dispute, expiry, repost)
+  async transitionFavor(favorId: number, to: FavorStatus, actorUserId: number | null, note?: string, outer?: Transaction): Promise<Favor> {
+    await this.init();
+    return await this.inTransaction(outer, async (tx) => {
+      const { favor } = await this.transitionInTx(tx, favorId, to, actorUserId, {}, note);
+      return favor;
+    });
+  }
+
+  private inTransaction<T>(outer: Transaction | undefined, run: (tx: Transaction) => Promise<T>): Promise<T> {
+    return outer ? outer.transaction(run) : db.transaction(run);
+  }
+
+  async getFavorEvents(favorId: number): Promise<FavorEvent[]> {
+    await this.init();
+    return await db
+      .select()
+      .from(favorEvents)
+      .where(eq(favorEvents.favorId, favorId))
+      .orderBy(favorEvents.createdAt, favorEvents.id);
+  }
+
+  /**
+   * The single path for favor status changes: locks the row, checks the state machine
+   * for the acting user's roles, applies the update and appends a favor_events row.
+   * A null actor is a background job.
+   */
+  private async transitionInTx(
+    tx: Transaction,
+    favorId: number,
+    to: FavorStatus,
+    actorUserId: number | null,
+    changes: Partial<Favor> = {},
+    note?: string
+  ): Promise<{ favor: Favor; from: string; actor: FavorActor }> {
+    const [current] = await tx.select().from(favors).where(eq(favors.id, favorId)).for('update');
+    if (!current) {
+      throw new FavorTransitionError("Favor not found", 404);
+    }
+
+    let isAdmin = false;
+    if (actorUserId !== null) {
+      const [actorUser] = await tx.select({ isAdmin: users.isAdmin }).from(users).where(eq(users.id, actorUserId));
+      isAdmin = !!actorUser?.isAdmin;
+    }
+
+    const actor = assertTransition(current.status, to, resolveFavorActors(current, actorUserId, isAdmin));
+
+    // Only resolving the dispute settles a disputed favor: it closes the dispute row first, in the same transaction,
+    // and settles the frozen escrow with it
+    if (current.status === 'disputed') {
+      const [open] = await tx
+        .select({ id: disputes.id })
+        .from(disputes)
+        .where(and(eq(disputes.favorId, favorId), eq(disputes.status, 'open')));
+      if (open) {
+        throw new FavorTransitionError("This favor is under dispute; resolve the dispute instead", 409);
+      }
+    }
+
+    const [favor] = await tx
+      .update(favors)
+      .set({ ...changes, status: to })
+      .where(and(eq(favors.id, favorId), eq(favors.status, current.status)))
+      .returning();
+    if (!favor) {
+      throw new FavorTransitionError("Favor was updated by someone else, please retry", 409);
+    }
+
+    await tx.insert(favorEvents).values({
+      favorId,
+      fromStatus: current.status,
+      toStatus: to,
+      actorId: actorUserId,
+      actorRole: actor,
+      note: note ?? null,
+    });
+
+    return { favor, from: current.status, actor };
+  }
+
+  async createRating(rating: InsertRating): Promise<Rating | null> {
+    await this.init();
+    return await db.transaction((tx) => this.insertRatingAndRecompute(tx, rating));
+  }
+
+  async getFavorRatings(favorId: number): Promise<Rating[]> {
+    return await db
+      .select()
+      .from(ratings)
+      .where(eq(ratings.favorId, favorId))
+      .orderBy(desc(ratings.createdAt));
+  }
+
+  async getUserReviews(userId: number): Promise<ReviewWithRater[]> {
+    const raters = alias(users, "raters");
+    const rows = await db
+      .select({
+        rating: ratings,
+        raterFirstName: raters.firstName,
+        raterLastName: raters.lastName,
+        favorTitle: favors.title,
       })
-      .where(eq(favors.id, favorId))
+      .from(ratings)
+      .leftJoin(raters, eq(ratings.raterId, raters.id))
+      .leftJoin(favors, eq(ratings.favorId, favors.id))
+      .where(eq(ratings.ratedUserId, userId))
+      .orderBy(desc(ratings.createdAt));
+
+    return rows.map(row => ({
+      ...row.rating,
+      raterName: row.raterFirstName && row.raterLastName
+        ? `${row.raterFirstName} ${row.raterLastName.charAt(0)}.`
+        : "User",
+      favorTitle: row.favorTitle ?? null,
+    }));
+  }
+
+  // Insert a rating and refresh the rated user's averageRating/totalRatings in the same transaction;
+  // a second review by the same rater (ratings_favor_rater_idx) inserts nothing and returns null
+  private async insertRatingAndRecompute(tx: Transaction, rating: InsertRating): Promise<Rating | null> {
+    const [created] = await tx
+      .insert(ratings)
+      .values(rating)
+      .onConflictDoNothing({ target: [ratings.favorId, ratings.raterId] })
       .returning();
+    if (!created) return null;
 
-    if (updatedFavor && updatedFavor.helperId) {
-      // Update helper's completion count
-      await db
-        .update(users)
-        .set({ 
-          completedFavrs: sql`${users.completedFavrs} + 1`
-        })
-        .where(eq(users.id, updatedFavor.helperId));
+    const [aggregate] = await tx
+      .select({ average: avg(ratings.rating), total: count() })
+      .from(ratings)
+      .where(eq(ratings.ratedUserId, rating.ratedUserId));
+
+    await tx
+      .update(users)
+      .set({
+        averageRating: Number(aggregate?.average ?? 0).toFixed(2),
+        totalRatings: Number(aggregate?.total ?? 0),
+      })
+      .where(eq(users.id, rating.ratedUserId));
+
+    const ratingPoints = gamificationService.getRatingPointsEntry(rating.rating);
+    if (ratingPoints) {
+      await this.recordPoints(tx, rating.ratedUserId, ratingPoints, rating.favorId);
     }
 
-    return updatedFavor || undefined;
+    return created;
+  }
+
+  async getPointsHistory(userId: number): Promise<FavrPointsHistory[]> {
+    return await db
+      .select()
+      .from(favrPointsHistory)
+      .where(eq(favrPointsHistory.userId, userId))
+      .orderBy(favrPointsHistory.createdAt, favrPointsHistory.id);
+  }
+
+  // Append to the points ledger and keep users.favrPoints in step (never below zero)
+  private async recordPoints(
+    tx: Transaction,
+    userId: number,
+    entry: { points: number; reason: string },
+    favorId?: number
+  ): Promise<void> {
+    if (!Number.isFinite(userId) || entry.points === 0) return;
+
+    await tx.insert(favrPointsHistory).values({
+      userId,
+      points: entry.points,
+      reason: entry.reason,
+      favorId: favorId ?? null,
+    });
+
+    await tx
+      .update(users)
+      .set({ favrPoints: sql`GREATEST(0, ${users.favrPoints} + ${entry.points})` })
+      .where(eq(users.id, userId));
   }
 
   async getUserCompletionStats(userId: number): Promise<{ completed: number; posted: number; rating: number }> {
@@ -664,7 +1306,7 @@ export class DatabaseStorage implements IStorage {
         title: "Dog walking",
         description: "Please walk my dog.",
         category: "Pet Care",
-        price: "25",
+        priceCents: 2500,
         isNegotiable: true,
         latitude: "49.594191098381366",
         longitude: "6.140027641256729",
@@ -676,7 +1318,7 @@ export class DatabaseStorage implements IStorage {
         title: "Need help building a cabinet for my room",
         description: "I need someone skilled in woodworking to help me build a custom cabinet for my bedroom. Materials will be provided.",
         category: "Handyman",
-        price: "55.00",
+        priceCents: 5500,
         isNegotiable: false,
         imageUrl: "https://images.unsplash.com/photo-1586023492125-27b2c045efd7?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&h=300",
         latitude: "49.6116",
@@ -689,7 +1331,7 @@ export class DatabaseStorage implements IStorage {
         title: "Need a ride to the airport",
         description: "Looking for someone to drive me to Luxembourg Airport early Friday morning.",
         category: "Ride",
-        price: "35.00",
+        priceCents: 3500,
         isNegotiable: false,
         imageUrl: "https://images.unsplash.com/photo-1449824913935-59a10b8d2000?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&h=300",
         latitude: "49.6200",
@@ -704,29 +1346,12 @@ export class DatabaseStorage implements IStorage {
     await db.insert(favors).values(sampleFavors);
   }
 
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 6371; // Radius of the Earth in km
-    const dLat = this.deg2rad(lat2 - lat1);
-    const dLng = this.deg2rad(lng2 - lng1);
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(this.deg2rad(lat1)) * Math.cos(this.deg2rad(lat2)) * 
-      Math.sin(dLng/2) * Math.sin(dLng/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    const d = R * c; // Distance in km
-    return d;
-  }
-
-  private deg2rad(deg: number): number {
-    return deg * (Math.PI/180);
-  }
-
   // Notification subscription methods
   async saveNotificationSubscription(userId: string, subscription: any): Promise<void> {
     await this.init();
     try {
-      // Remove existing subscription for this user
-      await db.delete(notificationSubscriptions).where(eq(notificationSubscriptions.userId, userId));
+      // Replace an earlier row for the same browser; the user's other devices stay subscribed
+      await db.delete(notificationSubscriptions).where(eq(notificationSubscriptions.endpoint, subscription.endpoint));
       
       // Insert new subscription
       await db.insert(notificationSubscriptions).values({
@@ -772,13 +1397,17 @@ export class DatabaseStorage implements IStorage {
   
 
   // Unified notification subscription methods for iPhone/Android compatibility
-  // Upsert unified (best-effort), mirror to legacy for webpush
+  // Registers the device, and keeps the per-user unified row (best-effort) for older readers.
+  // Null when the device is registered to another user (see savePushDevice)
   async saveUnifiedNotificationSubscription(
     userId: string,
     platform: "webpush" | "onesignal",
-    subscriptionData: any
-  ): Promise<void> {
-    // 1) Unified table (ignore if it doesn't exist)
+    subscriptionData: any,
+    details: PushDeviceDetails = {}
+  ): Promise<PushDevice | null> {
+    const device = await this.savePushDevice(parseInt(userId), platform, subscriptionData, details);
+    if (!device) return null;
+
     try {
       const json = typeof subscriptionData === "string" ? subscriptionData : JSON.stringify(subscriptionData);
       await pool.query(
@@ -798,26 +1427,85 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    // 2) Mirror WEB PUSH into legacy table so sendWebPush() can work
-    if (platform.toLowerCase() === "webpush") {
-  const parsed = normalizeWebPushSub(subscriptionData);
-  if (!parsed) {
-    throw new Error("Invalid web push subscription payload (cannot extract endpoint/keys)");
+    return device;
   }
 
-  // wipe existing row for this user, then insert fresh using your column names
-  await pool.query(
-    `DELETE FROM notification_subscriptions WHERE user_id = $1`,
-    [userId]
-  );
+  /**
+   * Upsert by endpoint: subscribing again from the same browser refreshes its keys and last-seen time.
+   * An endpoint registered to another user is never moved over (that would hand them this user's pushes);
+   * null then, and the owner has to unsubscribe it first
+   */
+  async savePushDevice(
+    userId: number,
+    platform: "webpush" | "onesignal",
+    subscriptionData: any,
+    details: PushDeviceDetails = {}
+  ): Promise<PushDevice | null> {
+    await this.init();
+    let endpoint: string;
+    let keys: { p256dh: string; auth: string } | null = null;
 
-  await pool.query(
-    `INSERT INTO notification_subscriptions (user_id, endpoint, p256dh_key, auth_key, created_at)
-     VALUES ($1, $2, $3, $4, NOW())`,
-    [userId, parsed.endpoint, parsed.keys.p256dh, parsed.keys.auth]
-  );
-}
-}
+    if (platform === "webpush") {
+      const parsed = normalizeWebPushSub(subscriptionData);
+      if (!parsed) {
+        throw new Error("Invalid web push subscription payload (cannot extract endpoint/keys)");
+      }
+      endpoint = parsed.endpoint;
+      keys = parsed.keys;
+    } else {
+      // OneSignal registers the bare subscription id
+      endpoint = typeof subscriptionData === "string" ? subscriptionData : subscriptionData?.subscriptionId;
+      if (!endpoint) throw new Error("Invalid OneSignal subscription payload (missing subscription id)");
+    }
+
+    const values = {
+      userId,
+      platform,
+      p256dhKey: keys?.p256dh ?? null,
+      authKey: keys?.auth ?? null,
+      label: describePushDevice(details),
+      os: details.os ?? null,
+      browser: details.browser ?? null,
+      userAgent: details.userAgent ?? null,
+      lastSeenAt: new Date(),
+    };
+
+    const [device] = await db
+      .insert(pushDevices)
+      .values({ endpoint, ...values })
+      .onConflictDoUpdate({ target: pushDevices.endpoint, set: values, setWhere: eq(pushDevices.userId, userId) })
+      .returning();
+    return device ?? null;
+  }
+
+  async getPushDevices(userId: number): Promise<PushDevice[]> {
+    await this.init();
+    return await db
+      .select()
+      .from(pushDevices)
+      .where(eq(pushDevices.userId, userId))
+      .orderBy(desc(pushDevices.lastSeenAt));
+  }
+
+  /** Returns false when the device does not exist or belongs to someone else */
+  async removePushDevice(userId: number, deviceId: number): Promise<boolean> {
+    await this.init();
+    const removed = await db
+      .delete(pushDevices)
+      .where(and(eq(pushDevices.id, deviceId), eq(pushDevices.userId, userId)))
+      .returning({ endpoint: pushDevices.endpoint });
+    if (removed.length === 0) return false;
+
+    // Also drop the legacy copy so the fallback path in sendWebPush cannot resurrect it
+    await db.delete(notificationSubscriptions).where(eq(notificationSubscriptions.endpoint, removed[0].endpoint));
+    return true;
+  }
+
+  async removePushDeviceByEndpoint(endpoint: string): Promise<void> {
+    await this.init();
+    await db.delete(pushDevices).where(eq(pushDevices.endpoint, endpoint));
+    await db.delete(notificationSubscriptions).where(eq(notificationSubscriptions.endpoint, endpoint));
+  }
 
 
   async getUnifiedNotificationSubscription(userId: string): Promise<{ platform: 'webpush' | 'onesignal', subscriptionData: any } | null> {
@@ -854,7 +1542,8 @@ export class DatabaseStorage implements IStorage {
     await this.init();
     try {
       await db.delete(notificationSubscriptions).where(eq(notificationSubscriptions.userId, userId));
-      console.log(`Removed notification subscription for user ${userId}`);
+      await db.delete(pushDevices).where(eq(pushDevices.userId, parseInt(userId)));
+      console.log(`Removed notification subscriptions for user ${userId}`);
     } catch (error) {
       console.error("Error removing notification subscription:", error);
       throw error;
@@ -1,10 +1,10 @@
 import {
-    sendOneSignalPush,
     sendOneSignalBroadcast,
     sendOneSignalLocationPush,
 } from "./oneSignalService";
-import { sendWebPush } from "./webPushService";
-import { storage } from "./storage";
+import { notificationPreferencesService } from "./notificationPreferences";
+import { notificationOutboxService } from "./notificationOutbox";
+import { inAppNotificationService } from "./inAppNotifications";
 
 export interface UnifiedNotificationPayload {
     type: "system" | "chat" | "favor";
@@ -51,7 +51,9 @@ function normalizePayload(payload: UnifiedNotificationPayload) {
 }
 
 /**
- * Core notification sender
+ * Core notification sender. For "users" targets every notification also lands in the in-app
+ * inbox, and per-user preferences (type/channel switches, quiet hours, digests) are applied
+ * here; broadcasts go out unfiltered.
  */
 export async function sendNotification(
     target: Target,
@@ -60,8 +62,23 @@ export async function sendNotification(
     const normalized = normalizePayload(payload);
 
     switch (target.type) {
-        case "users":
-            return await sendToUsers(target.userIds, normalized);
+        case "users": {
+            const { deliver, digest, deferred, inApp } = await notificationPreferencesService.route(target.userIds, payload);
+            // A digest push summarizes alerts that are already in the inbox
+            if (payload.data?.type !== "favor_digest") {
+                await inAppNotificationService.store(inApp, { ...payload, url: normalized.url });
+            }
+            if (digest.length > 0) {
+                await notificationPreferencesService.enqueueDigest(digest, payload);
+            }
+            // Durable: written to the outbox and delivered (with retries) by its worker; pushes that
+            // arrive during someone's quiet hours wait in it until those end
+            const entries = await notificationOutboxService.enqueue(deliver, normalized);
+            for (const { userId, notBefore } of deferred) {
+                entries.push(...await notificationOutboxService.enqueue([userId], normalized, notBefore));
+            }
+            return entries;
+        }
 
         case "all":
             return await sendOneSignalBroadcast(normalized);
@@ -78,34 +95,3 @@ export async function sendNotification(
             throw new Error("Unsupported notification target");
     }
 }
-
-/**
- * Send notification to specific users
- */
-async function sendToUsers(userIds: string[], payload: UnifiedNotificationPayload) {
-    const results: boolean[] = [];
-
-    for (const userId of userIds) {
-        try {
-            const subscription = await storage.getUnifiedNotificationSubscription(userId);
-
-            if (!subscription) {
-                console.log(`⚠️ No subscription for user ${userId}`);
-                continue;
-            }
-
-            if (subscription.platform === "onesignal") {
-                await sendOneSignalPush(userId, payload);
-                results.push(true);
-            } else if (subscription.platform === "webpush") {
-                await sendWebPush(userId, payload);
-                results.push(true);
-            }
-        } catch (err) {
-            console.error(`❌ Failed to notify user ${userId}:`, err);
-            results.push(false);
-        }
-    }
-
-    return results;
-}
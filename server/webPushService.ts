@@ -3,6 +3,7 @@ import webPush from "web-push";
 import { pool } from "./db";
 import { storage } from "./storage";
 import { UnifiedNotificationPayload } from "./unifiedNotificationService";
+import { PushDeliveryError, isTransientStatus, type PushResult } from "./pushDelivery";
 
 const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY!;
 const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY!;
@@ -53,9 +54,27 @@ function extractSubscriptionFromJSON(
     return null;
 }
 
-export async function sendWebPush(userId: string, payload: UnifiedNotificationPayload) {
-    try {
-        // 1) Try unified subscription first
+/**
+ * Deliver to every web push device of the user. Resolves when at least one device got it;
+ * subscriptions the push service reports gone (404/410) are deleted. Throws PushDeliveryError otherwise.
+ */
+export async function sendWebPush(userId: string, payload: UnifiedNotificationPayload): Promise<PushResult> {
+    const candidateSubscriptions: Array<{ endpoint: string; keys: { p256dh: string; auth: string }; unified: boolean }> = [];
+
+    // 1) Registered devices (push_devices), one per browser the user subscribed from
+    const devices = await storage.getPushDevices(parseInt(userId));
+    for (const device of devices) {
+        if (device.platform === "webpush" && device.p256dhKey && device.authKey) {
+            candidateSubscriptions.push({
+                endpoint: device.endpoint,
+                keys: { p256dh: device.p256dhKey, auth: device.authKey },
+                unified: false,
+            });
+        }
+    }
+
+    // 2) Subscriptions saved before devices were tracked: the unified record, else legacy rows
+    if (candidateSubscriptions.length === 0) {
         let unifiedSub: any = null;
         try {
             unifiedSub = await storage.getUnifiedNotificationSubscription?.(userId);
@@ -63,82 +82,104 @@ export async function sendWebPush(userId: string, payload: UnifiedNotificationPa
             // ignore if storage doesn’t expose it in this build
         }
 
-        const candidateSubscriptions: Array<{ endpoint: string; keys: { p256dh: string; auth: string } }> = [];
-
         if (unifiedSub && (unifiedSub.platform === "webpush" || unifiedSub.platform === "WEBPUSH")) {
             const parsed = extractSubscriptionFromJSON(
                 unifiedSub.subscriptionData ?? unifiedSub.subscription_data ?? unifiedSub.subscription
             );
-            if (parsed) candidateSubscriptions.push(parsed);
+            if (parsed) candidateSubscriptions.push({ ...parsed, unified: true });
         }
+    }
 
-        // 2) Fallback to legacy table rows (notification_subscriptions)
-        if (candidateSubscriptions.length === 0) {
-            const { rows } = await pool.query(
-                `SELECT endpoint, p256dh_key AS p256dh, auth_key AS auth
+    if (candidateSubscriptions.length === 0) {
+        const { rows } = await pool.query(
+            `SELECT endpoint, p256dh_key AS p256dh, auth_key AS auth
      FROM notification_subscriptions
     WHERE user_id = $1`,
-                [userId]
-            );
-
-            for (const row of rows) {
-                if (row.endpoint && row.p256dh && row.auth) {
-                    candidateSubscriptions.push({
-                        endpoint: row.endpoint,
-                        keys: { p256dh: row.p256dh, auth: row.auth },
-                    });
-                }
+            [userId]
+        );
+
+        for (const row of rows) {
+            if (row.endpoint && row.p256dh && row.auth) {
+                candidateSubscriptions.push({
+                    endpoint: row.endpoint,
+                    keys: { p256dh: row.p256dh, auth: row.auth },
+                    unified: false,
+                });
             }
         }
+    }
 
-        if (candidateSubscriptions.length === 0) {
-            console.warn(`No Web Push subscription for user ${userId}`);
-            return;
-        }
+    if (candidateSubscriptions.length === 0) {
+        console.warn(`No Web Push subscription for user ${userId}`);
+        return "no_subscription";
+    }
 
-        // Build payload (with sensible URL fallbacks)
-        const urlFromType =
-            payload.url ??
-            (payload.type === "chat" && payload.favorId
-                ? `/chat/${payload.favorId}`
-                : payload.type === "favor" && payload.favorId
-                    ? `/favor/${payload.favorId}`
-                    : "/explore?new=true");
-
-        const notificationPayload = JSON.stringify({
-            title: payload.title,
-            body: payload.message,
-            icon: payload.icon || "/icon-192x192.png",
-            badge: payload.badge || "/badge.png",
-            data: {
-                ...(payload.data || {}),
-                url: urlFromType,
-                favorId: payload.favorId,
-                chatId: payload.chatId,
-                type: payload.type,
-            },
-        });
-
-        for (const sub of candidateSubscriptions) {
-            const subscription = { endpoint: sub.endpoint, keys: sub.keys };
-
-            try {
-                await webPush.sendNotification(subscription, notificationPayload);
-                console.log(`✅ Web Push sent to user ${userId}`);
-            } catch (err: any) {
-                console.error("❌ Web Push failed:", err?.message || err);
-
-                // Clean up expired legacy entries
-                if ((err?.statusCode === 410 || err?.statusCode === 404) && sub.endpoint) {
-                    try {
-                        await pool.query(`DELETE FROM notification_subscriptions WHERE endpoint = $1`, [sub.endpoint]);
-                    } catch (_) {
-                        /* ignore */
-                    }
-                }
+    // Build payload (with sensible URL fallbacks)
+    const urlFromType =
+        payload.url ??
+        (payload.type === "chat" && payload.chatId
+            ? `/chat/${payload.chatId}`
+            : payload.type === "favor" && payload.favorId
+                ? `/favor/${payload.favorId}`
+                : "/explore?new=true");
+
+    const notificationPayload = JSON.stringify({
+        title: payload.title,
+        body: payload.message,
+        icon: payload.icon || "/icon-192x192.png",
+        badge: payload.badge || "/badge.png",
+        data: {
+            ...(payload.data || {}),
+            url: urlFromType,
+            favorId: payload.favorId,
+            chatId: payload.chatId,
+            type: payload.type,
+        },
+    });
+
+    let delivered = 0;
+    let pruned = 0;
+    let lastError: PushDeliveryError | null = null;
+
+    for (const sub of candidateSubscriptions) {
+        const subscription = { endpoint: sub.endpoint, keys: sub.keys };
+
+        try {
+            await webPush.sendNotification(subscription, notificationPayload);
+            delivered++;
+            console.log(`✅ Web Push sent to user ${userId}`);
+        } catch (err: any) {
+            console.error("❌ Web Push failed:", err?.message || err);
+
+            // The browser unsubscribed or the subscription expired: it will never work again
+            if (err?.statusCode === 410 || err?.statusCode === 404) {
+                await pruneSubscription(userId, sub);
+                pruned++;
+            } else {
+                lastError = new PushDeliveryError(
+                    `Web Push ${err?.statusCode ?? "error"}: ${err?.body || err?.message || err}`,
+                    !isTransientStatus(err?.statusCode)
+                );
             }
         }
+    }
+
+    if (delivered > 0) return "delivered";
+    if (pruned === candidateSubscriptions.length) return "no_subscription";
+    throw lastError ?? new PushDeliveryError("Web Push failed");
+}
+
+async function pruneSubscription(userId: string, sub: { endpoint: string; unified: boolean }) {
+    try {
+        await storage.removePushDeviceByEndpoint(sub.endpoint);
+        if (sub.unified) {
+            await pool.query(
+                `DELETE FROM unified_notification_subscriptions WHERE user_id = $1 AND platform = 'webpush'`,
+                [userId]
+            );
+        }
+        console.log(`🧹 Pruned dead Web Push subscription for user ${userId}`);
     } catch (err) {
-        console.error(`❌ Error in sendWebPush for user ${userId}:`, err);
+        console.error(`Failed to prune Web Push subscription for user ${userId}:`, err);
     }
 }
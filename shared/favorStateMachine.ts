@@ -0,0 +1,95 @@
+// Favor lifecycle: the only place that decides which status changes are allowed and by whom
+
+export const FAVOR_STATUSES = ["available", "accepted", "completed", "cancelled", "disputed", "expired"] as const;
+export type FavorStatus = typeof FAVOR_STATUSES[number];
+
+/**
+ * Who is acting on a favor:
+ * - poster: the requester who posted it
+ * - helper: the accepted helper
+ * - user: any other signed-in user
+ * - admin: platform staff
+ * - system: background jobs (expiry sweeper, escrow)
+ */
+export type FavorActor = "poster" | "helper" | "user" | "admin" | "system";
+
+export const FAVOR_TRANSITIONS: Record<FavorStatus, Partial<Record<FavorStatus, FavorActor[]>>> = {
+  available: {
+    accepted: ["user"],
+    cancelled: ["poster", "admin"],
+    expired: ["system", "admin"],
+  },
+  accepted: {
+    completed: ["poster", "admin"],
+    cancelled: ["poster", "helper", "admin"],
+    disputed: ["poster", "helper"],
+  },
+  completed: {
+    // Either side can object while the escrow dispute window is open
+    disputed: ["poster", "helper"],
+  },
+  disputed: {
+    // Only through resolving the dispute, which closes it and settles the frozen escrow (server/disputes.ts)
+    completed: ["admin", "system"],
+    cancelled: ["admin", "system"],
+  },
+  expired: {
+    available: ["poster"],
+  },
+  cancelled: {},
+};
+
+export class FavorTransitionError extends Error {
+  constructor(message: string, public readonly status: 403 | 404 | 409 = 409) {
+    super(message);
+    this.name = "FavorTransitionError";
+  }
+}
+
+export function isFavorStatus(value: unknown): value is FavorStatus {
+  return typeof value === "string" && (FAVOR_STATUSES as readonly string[]).includes(value);
+}
+
+/** Favors still visible on the public board */
+export const OPEN_STATUSES: FavorStatus[] = ["available", "accepted"];
+
+export function isOpenStatus(status: string): boolean {
+  return (OPEN_STATUSES as string[]).includes(status);
+}
+
+/** All roles the given user holds on the favor (an admin who posted it is both) */
+export function resolveFavorActors(
+  favor: { posterId: string; helperId: number | null },
+  userId: number | null,
+  isAdmin = false
+): FavorActor[] {
+  if (userId === null) return ["system"];
+
+  const actors: FavorActor[] = [];
+  if (favor.posterId === String(userId)) actors.push("poster");
+  else if (favor.helperId === userId) actors.push("helper");
+  else actors.push("user");
+  if (isAdmin) actors.push("admin");
+  return actors;
+}
+
+export function canTransition(from: string, to: FavorStatus, actors: FavorActor[]): boolean {
+  const allowed = isFavorStatus(from) ? FAVOR_TRANSITIONS[from][to] : undefined;
+  return !!allowed && actors.some(actor => allowed.includes(actor));
+}
+
+/**
+ * Returns the role that authorizes the change, or throws a FavorTransitionError
+ * (409 for an impossible change, 403 for the wrong actor)
+ */
+export function assertTransition(from: string, to: FavorStatus, actors: FavorActor[]): FavorActor {
+  const allowed = isFavorStatus(from) ? FAVOR_TRANSITIONS[from][to] : undefined;
+  if (!allowed) {
+    throw new FavorTransitionError(`Cannot move a favor from ${from} to ${to}`, 409);
+  }
+  const actor = actors.find(a => allowed.includes(a));
+  if (!actor) {
+    throw new FavorTransitionError(`You are not allowed to move this favor from ${from} to ${to}`, 403);
+  }
+  return actor;
+}
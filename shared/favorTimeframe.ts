@@ -0,0 +1,75 @@
+// Free-text favor timeframes ("ASAP", "This weekend", "August 31st, 2025") → a concrete expiry.
+// Evaluated once when a favor is posted (or reposted); everything else reads favors.expiresAt.
+
+export type UrgencyLevel = "high" | "medium" | "low";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_EXPIRY_HOURS = 72;
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// First match wins, so the more specific phrases come first
+const RELATIVE_RULES: Array<{ test: (t: string) => boolean; hours: number }> = [
+  { test: t => /\b(in )?(1|one|next) hour\b/.test(t), hours: 2 },
+  { test: t => t.includes("asap") || t.includes("urgent") || /\bnow\b/.test(t), hours: 24 },
+  { test: t => /\b(today|tonight|this (morning|afternoon|evening))\b/.test(t), hours: 12 },
+  { test: t => t.includes("tomorrow"), hours: 24 },
+  { test: t => t.includes("this week") && !t.includes("weekend"), hours: 120 },
+  { test: t => t.includes("week"), hours: 168 },
+  { test: t => t.includes("month"), hours: 720 },
+  { test: t => t.includes("flexible") || t.includes("anytime"), hours: 336 },
+];
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+/** When a favor posted at `postedAt` with this timeframe stops being shown */
+export function computeFavorExpiresAt(timeframe: string, postedAt: Date = new Date()): Date {
+  const t = timeframe.trim().toLowerCase();
+
+  // Specific dates, e.g. "August 31st, 2025" or "July 16 2025": valid until the end of that day
+  const dateMatch = t.match(/([a-z]+)\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/);
+  if (dateMatch && MONTHS.includes(dateMatch[1])) {
+    const [, month, day, year] = dateMatch;
+    return endOfDay(new Date(parseInt(year), MONTHS.indexOf(month), parseInt(day)));
+  }
+
+  const rule = RELATIVE_RULES.find(r => r.test(t));
+  if (rule) {
+    return new Date(postedAt.getTime() + rule.hours * HOUR_MS);
+  }
+
+  // A weekday ("Friday", "Friday morning"): the end of its next occurrence
+  const weekday = WEEKDAYS.findIndex(day => t.includes(day));
+  if (weekday >= 0) {
+    const target = new Date(postedAt);
+    target.setDate(target.getDate() + ((weekday - target.getDay() + 7) % 7));
+    return endOfDay(target);
+  }
+
+  // A bare month name ("in September"): about a month
+  if (MONTHS.some(month => t.includes(month))) {
+    return new Date(postedAt.getTime() + 720 * HOUR_MS);
+  }
+
+  return new Date(postedAt.getTime() + DEFAULT_EXPIRY_HOURS * HOUR_MS);
+}
+
+export function isFavorExpired(expiresAt: Date | string | null | undefined, now: Date = new Date()): boolean {
+  return !!expiresAt && new Date(expiresAt).getTime() <= now.getTime();
+}
+
+/** Urgency from the time left: under a day is high, under a week medium */
+export function getUrgencyLevel(expiresAt: Date | string, now: Date = new Date()): UrgencyLevel {
+  const remaining = new Date(expiresAt).getTime() - now.getTime();
+  if (remaining < 24 * HOUR_MS) return "high";
+  if (remaining < 7 * 24 * HOUR_MS) return "medium";
+  return "low";
+}
@@ -0,0 +1,73 @@
+// Money is an integer amount in minor units (cents, öre) plus an ISO 4217 currency code.
+// Shared so the client formats and the server validates amounts the same way.
+
+export const CURRENCIES = ["EUR", "SEK"] as const;
+export type Currency = typeof CURRENCIES[number];
+
+/** Upper bound for a single favor price, in minor units */
+export const MAX_PRICE_MINOR = 10_000_000;
+
+// Rough EUR value of one unit of each currency. Only for comparing prices across currencies in
+// search ranking and moderation heuristics - never for moving money.
+const APPROX_EUR_RATE: Record<Currency, number> = {
+  EUR: 1,
+  SEK: 0.087,
+};
+
+const COUNTRY_CURRENCIES: Record<string, Currency> = {
+  se: "SEK",
+  sweden: "SEK",
+};
+
+/** Currency favors are priced in for a country code ("se") or name ("Sweden"); EUR everywhere else */
+export function currencyForCountry(country?: string | null): Currency {
+  return (country && COUNTRY_CURRENCIES[country.trim().toLowerCase()]) || "EUR";
+}
+
+export function isCurrency(value: unknown): value is Currency {
+  return typeof value === "string" && (CURRENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Amount typed by a user ("25", "25.5", "25,50", "€ 25") in minor units.
+ * Null for anything that isn't a positive number with at most two decimals.
+ */
+export function parseMoney(input: string | number | null | undefined): number | null {
+  if (input === null || input === undefined) return null;
+  const text = String(input).trim().replace(/^(€|eur|sek|kr)\s*/i, "").replace(/\s*(€|eur|sek|kr|:-)$/i, "");
+  const match = text.match(/^(\d+)(?:[.,](\d{1,2}))?$/);
+  if (!match) return null;
+  const minor = parseInt(match[1], 10) * 100 + parseInt((match[2] ?? "0").padEnd(2, "0"), 10);
+  return minor > 0 ? minor : null;
+}
+
+/** Minor units as a plain decimal for form inputs: 2550 → "25.50", 2500 → "25" */
+export function toMajorUnits(minor: number): string {
+  return minor % 100 === 0 ? String(minor / 100) : (minor / 100).toFixed(2);
+}
+
+/** "€25", "€25.50", "250 kr" */
+export function formatMoney(minor: number, currency: string, locale?: string): string {
+  const wholeUnits = minor % 100 === 0;
+  try {
+    return new Intl.NumberFormat(locale ?? (currency === "SEK" ? "sv-SE" : "en-IE"), {
+      style: "currency",
+      currency,
+      minimumFractionDigits: wholeUnits ? 0 : 2,
+      maximumFractionDigits: 2,
+    }).format(minor / 100);
+  } catch {
+    // Unknown currency code
+    return `${toMajorUnits(minor)} ${currency}`;
+  }
+}
+
+/** Rough EUR cents of an amount, see APPROX_EUR_RATE */
+export function approxEuroCents(minor: number, currency: string): number {
+  return Math.round(minor * (isCurrency(currency) ? APPROX_EUR_RATE[currency] : 1));
+}
+
+/** The rate table as (currency, rate) pairs, for converting in SQL */
+export function approxEuroRates(): Array<[Currency, number]> {
+  return CURRENCIES.map(currency => [currency, APPROX_EUR_RATE[currency]]);
+}
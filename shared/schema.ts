@@ -1,7 +1,9 @@
-import { pgTable, text, serial, integer, boolean, decimal, timestamp, varchar, date } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, decimal, timestamp, varchar, date, uniqueIndex, index, json, jsonb, real, primaryKey } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { FAVOR_STATUSES } from "./favorStateMachine";
+import { CURRENCIES, MAX_PRICE_MINOR, type Currency } from "./money";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -21,30 +23,80 @@ export const users = pgTable("users", {
   memberSince: timestamp("member_since").defaultNow().notNull(),
   isVerified: boolean("is_verified").default(false).notNull(),
   notificationsEnabled: boolean("notifications_enabled").default(true).notNull(),
+  isAdmin: boolean("is_admin").default(false).notNull(), // platform staff: dispute and moderation actions
 });
 
+// Express sessions (server/auth.ts). connect-pg-simple reads and writes the rows; the table is declared
+// here so db:push keeps it instead of dropping it as unknown
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").notNull(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  primaryKey({ name: "session_pkey", columns: [table.sid] }),
+  index("IDX_session_expire").on(table.expire),
+]);
+
 export const favors = pgTable("favors", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   description: text("description").notNull(),
-  category: text("category").notNull(),
-  price: text("price").notNull(),
+  category: text("category").notNull(), // name of a top-level row in categories
+  subcategory: text("subcategory"), // name of one of its children, optional
+  // Amounts in minor units of `currency` (see shared/money.ts)
+  priceCents: integer("price_cents").notNull().default(0), // 0 only on rows waiting for backfillStructuredPrices
+  currency: varchar("currency", { length: 3 }).$type<Currency>().notNull().default("EUR"),
+  // Free-text prices from before structured pricing; cleared once backfilled
+  legacyPrice: text("price"),
   isNegotiable: boolean("is_negotiable").default(false),
   imageUrl: text("image_url"),
-  latitude: text("latitude").notNull(),
-  longitude: text("longitude").notNull(),
+  // numeric(9,6) is ~10cm precision; Drizzle maps it to string, so the API shape is unchanged
+  latitude: decimal("latitude", { precision: 9, scale: 6 }).notNull(),
+  longitude: decimal("longitude", { precision: 9, scale: 6 }).notNull(),
   address: text("address").notNull(),
+  // Public pin shown to everyone but the poster and accepted helper (see server/locationPrivacy.ts)
+  approxLatitude: decimal("approx_latitude", { precision: 9, scale: 6 }),
+  approxLongitude: decimal("approx_longitude", { precision: 9, scale: 6 }),
+  areaLabel: text("area_label"), // neighborhood/city shown instead of the address, from server/geocoding.ts
+  countryCode: varchar("country_code", { length: 2 }), // ISO alpha-2 of the favor's location; picks the fee rule
   timeframe: text("timeframe").notNull(),
-  status: text("status").notNull().default("available"), // available, accepted, completed, cancelled
+  status: text("status").notNull().default("available"), // see shared/favorStateMachine.ts
   posterId: text("poster_id").notNull(),
   helperId: integer("helper_id"),
   acceptedAt: timestamp("accepted_at"),
   completedAt: timestamp("completed_at"),
   completedByUserId: integer("completed_by_user_id"), // Who marked it complete
-  negotiatedPrice: text("negotiated_price"), // Final agreed price if different from original
-  rating: decimal("rating", { precision: 2, scale: 1 }).default("4.8"),
+  negotiatedPriceCents: integer("negotiated_price_cents"), // Final agreed price if different from original
+  legacyNegotiatedPrice: text("negotiated_price"),
+  rating: decimal("rating", { precision: 2, scale: 1 }), // Rating the requester gave the helper on completion
+  expiresAt: timestamp("expires_at"), // derived from timeframe at post time (shared/favorTimeframe.ts)
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("favors_status_expires_idx").on(table.status, table.expiresAt),
+  // Bounding-box prefilter for getFavorsNearby, which only ever sees the public pin
+  index("favors_approx_lat_lng_idx").on(table.approxLatitude, table.approxLongitude),
+  // Full-text search over title and description (the same expression as favorSearchDocument in server/storage.ts)
+  index("favors_search_idx").using("gin", sql`to_tsvector('simple', ${table.title} || ' ' || ${table.description})`),
+]);
+
+// Favor category taxonomy, seeded from server/categories.ts and editable in the database
+export const categories = pgTable("categories", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(), // "pet-care", used in URLs
+  name: text("name").notNull(), // "Pet Care", what favors store
+  parentSlug: text("parent_slug"), // null for top-level categories
+  icon: text("icon").notNull().default("tag"), // lucide icon name, mapped in client/src/lib/categoryIcons.ts
+  color: text("color").notNull().default("#6b7280"),
+  // Suggested price range in EUR cents; moderation flags prices far outside it
+  minPriceCents: integer("min_price_cents"),
+  maxPriceCents: integer("max_price_cents"),
+  countries: jsonb("countries").$type<string[]>().notNull().default([]), // ISO alpha-2; empty means everywhere
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("categories_parent_idx").on(table.parentSlug),
+]);
 
 export const ratings = pgTable("ratings", {
   id: serial("id").primaryKey(),
@@ -54,7 +106,10 @@ export const ratings = pgTable("ratings", {
   rating: integer("rating").notNull(), // 1-5 stars
   comment: text("comment"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // One review per participant per favor
+  uniqueIndex("ratings_favor_rater_idx").on(table.favorId, table.raterId),
+]);
 
 export const favrPointsHistory = pgTable("favr_points_history", {
   id: serial("id").primaryKey(),
@@ -79,7 +134,146 @@ export const likes = pgTable("likes", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Audit trail of every favor status change
+export const favorEvents = pgTable("favor_events", {
+  id: serial("id").primaryKey(),
+  favorId: integer("favor_id").notNull().references(() => favors.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status"), // null for the creation event
+  toStatus: text("to_status").notNull(),
+  actorId: integer("actor_id"), // null when a background job made the change
+  actorRole: varchar("actor_role").notNull(), // poster, helper, user, admin, system
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("favor_events_favor_idx").on(table.favorId),
+]);
+
+// Uploaded images are re-encoded without their metadata (EXIF, GPS) before storage, see server/attachments.ts
+export const IMAGE_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp"] as const;
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_FAVOR_IMAGES = 3;
+
+/** A stored image and its thumbnail; the keys are the file storage's, the URLs what clients load */
+export interface StoredImage {
+  url: string;
+  thumbnailUrl: string;
+  storageKey: string;
+  thumbnailKey: string;
+  width: number;
+  height: number;
+}
+
+// Photos on a favor post in display order; the first one is mirrored to favors.imageUrl as the cover
+export const favorImages = pgTable("favor_images", {
+  id: serial("id").primaryKey(),
+  favorId: integer("favor_id").notNull().references(() => favors.id, { onDelete: "cascade" }),
+  position: integer("position").notNull().default(0),
+  url: text("url").notNull(),
+  thumbnailUrl: text("thumbnail_url").notNull(),
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("favor_images_favor_idx").on(table.favorId, table.position),
+]);
+
+
+
+// Escrow payments: one per favor, amounts in minor units (cents)
+export const escrowPayments = pgTable("escrow_payments", {
+  id: serial("id").primaryKey(),
+  favorId: integer("favor_id").notNull().references(() => favors.id, { onDelete: "cascade" }),
+  requesterId: integer("requester_id").notNull(),
+  helperId: integer("helper_id").notNull(),
+  amountCents: integer("amount_cents").notNull(),
+  serviceFeeCents: integer("service_fee_cents").notNull(),
+  totalCents: integer("total_cents").notNull(),
+  currency: varchar("currency", { length: 3 }).default("EUR").notNull(),
+  status: varchar("status").default("pending").notNull(), // pending, held, releasing, released, refunding, refunded, cancelled, disputed (frozen)
+  provider: varchar("provider").notNull(),
+  providerReference: text("provider_reference"),
+  autoReleaseAt: timestamp("auto_release_at"), // set once the favor is completed
+  heldAt: timestamp("held_at"),
+  releasedAt: timestamp("released_at"),
+  refundedAt: timestamp("refunded_at"),
+  claimedAt: timestamp("claimed_at"), // when it went releasing/refunding; stale claims are finished by the recovery sweep
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("escrow_payments_favor_idx").on(table.favorId),
+]);
+
+// One wallet per user and currency
+export const userWallets = pgTable("user_wallets", {
+  userId: integer("user_id").notNull(),
+  balanceCents: integer("balance_cents").default(0).notNull(),
+  pendingCents: integer("pending_cents").default(0).notNull(), // held in escrow for this helper
+  currency: varchar("currency", { length: 3 }).default("EUR").notNull(),
+  kycStatus: varchar("kyc_status").default("pending").notNull(), // pending, verified, rejected
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.currency] }),
+]);
+
+// Append-only record of every money movement
+export const walletLedger = pgTable("wallet_ledger", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  escrowId: integer("escrow_id").references(() => escrowPayments.id, { onDelete: "set null" }),
+  type: varchar("type").notNull(), // escrow_hold, escrow_release, escrow_refund, service_fee
+  amountCents: integer("amount_cents").notNull(), // signed, from the user's point of view
+  currency: varchar("currency", { length: 3 }).default("EUR").notNull(),
+  providerReference: text("provider_reference"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One dispute per favor; the favor and its escrow stay frozen until an admin resolves it
+export const disputes = pgTable("disputes", {
+  id: serial("id").primaryKey(),
+  favorId: integer("favor_id").notNull().references(() => favors.id, { onDelete: "cascade" }),
+  openedBy: integer("opened_by").notNull(),
+  reason: text("reason").notNull(),
+  requesterStatement: text("requester_statement"),
+  helperStatement: text("helper_statement"),
+  previousStatus: text("previous_status").notNull(), // favor status when the dispute was opened
+  transcript: jsonb("transcript").$type<DisputeTranscriptEntry[]>().default([]).notNull(),
+  aiRecommendation: varchar("ai_recommendation"), // complete, cancel, needs_human_review
+  aiReasoning: text("ai_reasoning"),
+  aiConfidence: real("ai_confidence"),
+  aiEvidence: jsonb("ai_evidence").$type<string[]>(),
+  status: varchar("status").default("open").notNull(), // open, resolved
+  resolution: varchar("resolution"), // complete, cancel
+  resolutionNote: text("resolution_note"),
+  resolvedBy: integer("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("disputes_favor_idx").on(table.favorId),
+]);
+
+// Every moderation decision; blocks stay "pending" until an admin confirms or overturns them
+export const moderationEvents = pgTable("moderation_events", {
+  id: serial("id").primaryKey(),
+  type: varchar("type").notNull(), // chat_blocked, favor_blocked, dispute_analyzed, suggestion_given, image_unchecked
+  severity: varchar("severity").notNull(), // low, medium, high
+  userId: integer("user_id"),
+  favorId: integer("favor_id"),
+  content: text("content").notNull(),
+  issues: jsonb("issues").$type<string[]>().default([]).notNull(),
+  action: text("action").notNull(),
+  confidence: real("confidence").notNull(),
+  reviewStatus: varchar("review_status").default("pending").notNull(), // pending, confirmed, overturned
+  reviewedBy: integer("reviewed_by"),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("moderation_events_user_idx").on(table.userId, table.createdAt),
+  index("moderation_events_review_idx").on(table.reviewStatus, table.createdAt),
+]);
 
+export type DisputeTranscriptEntry = { sender: string; message: string; timestamp: string };
 
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -90,9 +284,13 @@ export const insertUserSchema = createInsertSchema(users).omit({
   totalRatings: true,
   responseTimeAvg: true,
   isVerified: true,
+  isAdmin: true,
 });
 
-export const insertFavorSchema = createInsertSchema(favors).omit({
+export const insertFavorSchema = createInsertSchema(favors, {
+  latitude: (schema) => schema.refine(value => value.trim() !== "" && Math.abs(Number(value)) <= 90, "Latitude must be between -90 and 90"),
+  longitude: (schema) => schema.refine(value => value.trim() !== "" && Math.abs(Number(value)) <= 180, "Longitude must be between -180 and 180"),
+}).omit({
   id: true,
   createdAt: true,
   status: true,
@@ -101,12 +299,48 @@ export const insertFavorSchema = createInsertSchema(favors).omit({
   acceptedAt: true,
   completedAt: true,
   completedByUserId: true,
-  negotiatedPrice: true,
+  negotiatedPriceCents: true,
+  legacyPrice: true,
+  legacyNegotiatedPrice: true,
+  expiresAt: true,
+  approxLatitude: true,
+  approxLongitude: true,
+  areaLabel: true,
+  countryCode: true,
+}).extend({
+  priceCents: z.number({ invalid_type_error: "Price must be a number" })
+    .int("Price must be in whole cents")
+    .positive("Price must be above zero")
+    .max(MAX_PRICE_MINOR, "Price is too high"),
+  // Left out, it follows the favor's country
+  currency: z.enum(CURRENCIES).optional(),
+  category: z.string().trim().min(1, "Category is required"),
+  subcategory: z.string().trim().min(1).nullish(),
 });
 
+/**
+ * insertFavorSchema checked against the categories available where the favor is posted:
+ * the category must be a top-level one and the subcategory one of its children
+ */
+export function insertFavorSchemaFor(available: CategoryWithSubcategories[]) {
+  return insertFavorSchema.superRefine((favor, ctx) => {
+    const category = available.find(c => c.name === favor.category);
+    if (!category) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["category"], message: `"${favor.category}" is not available here` });
+      return;
+    }
+    if (favor.subcategory && !category.subcategories.some(sub => sub.name === favor.subcategory)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["subcategory"], message: `"${favor.subcategory}" is not a ${category.name} subcategory` });
+    }
+  });
+}
+
 export const insertRatingSchema = createInsertSchema(ratings).omit({
   id: true,
   createdAt: true,
+}).extend({
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(1000).nullish(),
 });
 
 export const insertFavrPointsSchema = createInsertSchema(favrPointsHistory).omit({
@@ -114,6 +348,121 @@ export const insertFavrPointsSchema = createInsertSchema(favrPointsHistory).omit
   createdAt: true,
 });
 
+export const submitOfferSchema = z.object({
+  priceCents: insertFavorSchema.shape.priceCents,
+  etaMinutes: z.number().int().positive().max(7 * 24 * 60).nullish(),
+  note: z.string().trim().max(500).nullish(),
+});
+
+export const counterOfferSchema = z.object({
+  amountCents: insertFavorSchema.shape.priceCents,
+  expiresInMinutes: z.number().int().min(5).max(7 * 24 * 60).default(24 * 60),
+});
+
+export const openDisputeSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+  statement: z.string().trim().max(5000).optional(),
+});
+
+export const disputeStatementSchema = z.object({
+  statement: z.string().trim().min(1).max(5000),
+});
+
+export const resolveDisputeSchema = z.object({
+  resolution: z.enum(["complete", "cancel"]),
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const reviewModerationEventSchema = z.object({
+  decision: z.enum(["confirmed", "overturned"]),
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const alertAreaSchema = z.object({
+  label: z.string().trim().min(1).max(40),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  radiusKm: z.number().min(0.5).max(100),
+  categories: z.array(z.string().trim().min(1)).max(20).default([]),
+  minPriceCents: z.number().int().min(0).nullable().default(null),
+});
+
+export const FAVOR_SEARCH_SORTS = ["relevance", "newest", "nearest", "price_asc", "price_desc", "ending_soon"] as const;
+export type FavorSearchSort = typeof FAVOR_SEARCH_SORTS[number];
+
+const optionalNumber = (schema: z.ZodNumber) => z.preprocess(value => (value === "" ? undefined : value), z.coerce.number().pipe(schema).optional());
+
+// Query string of GET /api/favors/search; prices in EUR, the sort defaults to relevance, nearest or newest
+export const favorSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  category: z.string().trim().min(1).optional(),
+  subcategory: z.string().trim().min(1).optional(),
+  minPrice: optionalNumber(z.number().min(0)),
+  maxPrice: optionalNumber(z.number().min(0)),
+  lat: optionalNumber(z.number().min(-90).max(90)),
+  lng: optionalNumber(z.number().min(-180).max(180)),
+  radiusKm: optionalNumber(z.number().gt(0).max(100)),
+  endingWithinHours: optionalNumber(z.number().int().min(1).max(24 * 90)),
+  negotiable: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  status: z.preprocess(
+    value => (typeof value === "string" ? value.split(",").filter(Boolean) : value),
+    z.array(z.enum(FAVOR_STATUSES)).min(1).optional(),
+  ),
+  minRating: optionalNumber(z.number().min(0).max(5)),
+  sort: z.enum(FAVOR_SEARCH_SORTS).optional(),
+  limit: optionalNumber(z.number().int().min(1).max(100)),
+  cursor: z.string().optional(),
+}).superRefine((query, ctx) => {
+  const hasPoint = query.lat !== undefined && query.lng !== undefined;
+  if ((query.lat === undefined) !== (query.lng === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lat"], message: "lat and lng go together" });
+  }
+  if (!hasPoint && (query.radiusKm !== undefined || query.sort === "nearest")) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lat"], message: "Distance filters and sorting need lat and lng" });
+  }
+  if (!query.q && query.sort === "relevance") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["sort"], message: "Sorting by relevance needs a search query" });
+  }
+  if (query.minPrice !== undefined && query.maxPrice !== undefined && query.minPrice > query.maxPrice) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["minPrice"], message: "minPrice must not exceed maxPrice" });
+  }
+}).transform(query => ({
+  ...query,
+  sort: query.sort ?? (query.q ? "relevance" : query.lat !== undefined ? "nearest" : "newest") as FavorSearchSort,
+}));
+
+export const CHAT_PAGE_SIZE = 50;
+
+// Query string of GET /api/chat/rooms/:id/messages; without a cursor it returns the latest page
+export const chatHistoryQuerySchema = z.object({
+  before: z.string().min(1).optional(),
+  after: z.string().min(1).optional(),
+  limit: optionalNumber(z.number().int().min(1).max(100)),
+}).refine(query => !(query.before && query.after), { message: "Use either before or after", path: ["before"] });
+
+const localTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+
+export const notificationPreferencesSchema = z.object({
+  channels: z.object({
+    chat: z.object({ push: z.boolean(), in_app: z.boolean() }).partial(),
+    favor: z.object({ push: z.boolean(), in_app: z.boolean() }).partial(),
+    system: z.object({ push: z.boolean(), in_app: z.boolean() }).partial(),
+  }).partial(),
+  quietHours: z.object({ start: localTimeSchema, end: localTimeSchema }).nullable(),
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone"),
+  digestMode: z.enum(["off", "hourly", "daily"]),
+  digestHour: z.number().int().min(0).max(23),
+}).partial();
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertFavor = z.infer<typeof insertFavorSchema>;
@@ -122,6 +471,10 @@ export type InsertRating = z.infer<typeof insertRatingSchema>;
 export type Rating = typeof ratings.$inferSelect;
 export type InsertFavrPoints = z.infer<typeof insertFavrPointsSchema>;
 export type FavrPointsHistory = typeof favrPointsHistory.$inferSelect;
+export type FavorEvent = typeof favorEvents.$inferSelect;
+export type FavorImage = typeof favorImages.$inferSelect;
+export type Category = typeof categories.$inferSelect;
+export type CategoryWithSubcategories = Category & { subcategories: Category[] };
 
 // Extended favor type with poster information
 // Chat rooms table for persistent chat storage
@@ -132,7 +485,25 @@ export const chatRooms = pgTable("chat_rooms", {
   helperId: varchar("helper_id").notNull(),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // One conversation per helper on a favor; competing offers each get their own
+  uniqueIndex("chat_rooms_favor_helper_idx").on(table.favorId, table.helperId),
+]);
+
+export const CHAT_MESSAGE_TYPES = ["text", "system", "counter_offer", "image"] as const;
+export type ChatMessageType = typeof CHAT_MESSAGE_TYPES[number];
+
+export const COUNTER_OFFER_STATUSES = ["pending", "accepted", "declined", "superseded"] as const;
+export type CounterOfferStatus = typeof COUNTER_OFFER_STATUSES[number];
+
+/** Payload of a counter_offer message; a pending one past expiresAt can no longer be accepted */
+export interface CounterOfferDetails {
+  amountCents: number;
+  currency: string;
+  expiresAt: string; // ISO
+  status: CounterOfferStatus;
+  respondedAt?: string;
+}
 
 // Chat messages table for persistent message storage
 export const chatMessages = pgTable("chat_messages", {
@@ -141,10 +512,16 @@ export const chatMessages = pgTable("chat_messages", {
   senderId: varchar("sender_id").notNull(),
   recipientId: varchar("recipient_id").notNull(),
   content: text("content").notNull(),
-  messageType: varchar("message_type").default("text"), // 'text' or 'system'
+  messageType: varchar("message_type").$type<ChatMessageType>().default("text"),
   status: varchar("status").default("sent"), // 'sent', 'delivered', 'seen'
+  counterOffer: jsonb("counter_offer").$type<CounterOfferDetails>(), // set on counter_offer messages only
+  attachment: jsonb("attachment").$type<StoredImage>(), // set on image messages only; content is the caption
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // History pages and the conversations list's last message walk this
+  index("chat_messages_room_created_idx").on(table.chatRoomId, table.createdAt, table.id),
+  index("chat_messages_recipient_status_idx").on(table.recipientId, table.status),
+]);
 
 // Relations for chat tables
 export const chatRoomsRelations = relations(chatRooms, ({ one, many }) => ({
@@ -162,6 +539,28 @@ export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
   }),
 }));
 
+export const OFFER_STATUSES = ["pending", "accepted", "declined"] as const;
+export type OfferStatus = typeof OFFER_STATUSES[number];
+
+// A helper's terms for a favor; the poster accepts one and the rest are declined
+export const favorOffers = pgTable("favor_offers", {
+  id: serial("id").primaryKey(),
+  favorId: integer("favor_id").notNull().references(() => favors.id, { onDelete: "cascade" }),
+  helperId: integer("helper_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  chatRoomId: integer("chat_room_id").notNull().references(() => chatRooms.id, { onDelete: "cascade" }),
+  priceCents: integer("price_cents").notNull(), // in the favor's currency
+  etaMinutes: integer("eta_minutes"), // how soon the helper can start
+  note: text("note"),
+  status: varchar("status").$type<OfferStatus>().default("pending").notNull(),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  // Submitting again revises the helper's offer instead of adding another
+  uniqueIndex("favor_offers_favor_helper_idx").on(table.favorId, table.helperId),
+  index("favor_offers_status_idx").on(table.favorId, table.status),
+]);
+
 // Notification subscriptions table for push notifications
 export const notificationSubscriptions = pgTable("notification_subscriptions", {
   id: serial("id").primaryKey(),
@@ -172,21 +571,175 @@ export const notificationSubscriptions = pgTable("notification_subscriptions", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// One row per browser/app install that can receive push; a user may have several
+export const pushDevices = pgTable("push_devices", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  platform: text("platform").$type<"webpush" | "onesignal">().notNull(),
+  // Web push endpoint URL, or the OneSignal subscription id
+  endpoint: text("endpoint").notNull(),
+  p256dhKey: text("p256dh_key"), // web push only
+  authKey: text("auth_key"), // web push only
+  label: text("label").notNull(), // "Chrome on Android", ...
+  os: text("os"), // deviceDetection platform: ios, android, macos, windows, linux, unknown
+  browser: text("browser"),
+  userAgent: text("user_agent"),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("push_devices_endpoint_idx").on(table.endpoint),
+  index("push_devices_user_idx").on(table.userId),
+]);
+
+// Areas a user wants new-favor alerts for; the device's current location is kept as one auto-updated area
+export const alertAreas = pgTable("alert_areas", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  label: text("label").notNull(), // "Home", "Work", ...
+  latitude: decimal("latitude", { precision: 9, scale: 6 }).notNull(),
+  longitude: decimal("longitude", { precision: 9, scale: 6 }).notNull(),
+  radiusKm: real("radius_km").notNull(),
+  categories: jsonb("categories").$type<string[]>().default([]).notNull(), // empty = every category
+  minPriceCents: integer("min_price_cents"), // EUR cents; favors in other currencies are compared at a rough rate
+  isCurrentLocation: boolean("is_current_location").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("alert_areas_lat_lng_idx").on(table.latitude, table.longitude),
+  index("alert_areas_user_idx").on(table.userId),
+]);
+
+export const NOTIFICATION_TYPES = ["chat", "favor", "system"] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+export const NOTIFICATION_CHANNELS = ["push", "in_app"] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+export type NotificationChannelPreferences = Record<NotificationType, Record<NotificationChannel, boolean>>;
+
+// Per-user delivery rules enforced by sendNotification; users without a row get the defaults (everything on)
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  channels: jsonb("channels").$type<NotificationChannelPreferences>().notNull(),
+  quietHoursStart: varchar("quiet_hours_start"), // "HH:MM" in the user's timezone; null = no quiet hours
+  quietHoursEnd: varchar("quiet_hours_end"),
+  timezone: varchar("timezone").default("Europe/Luxembourg").notNull(), // IANA name
+  digestMode: varchar("digest_mode").default("off").notNull(), // off, hourly, daily: batches nearby-favor alerts
+  digestHour: integer("digest_hour").default(18).notNull(), // local hour of the daily digest
+  lastDigestAt: timestamp("last_digest_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Nearby-favor alerts held back for a digest or until quiet hours end
+export const notificationDigestItems = pgTable("notification_digest_items", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  favorId: integer("favor_id"),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("notification_digest_items_user_idx").on(table.userId, table.createdAt),
+]);
+
+// Stored form of a push; mirrors UnifiedNotificationPayload in server/unifiedNotificationService.ts
+export type OutboxNotificationPayload = {
+  type: NotificationType;
+  title: string;
+  message: string;
+  url?: string;
+  favorId?: number;
+  chatId?: number;
+  data?: Record<string, any>;
+  icon?: string;
+  badge?: string;
+};
+
+// One row per recipient per notification; the delivery worker retries pending rows with backoff
+export const notificationOutbox = pgTable("notification_outbox", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  type: varchar("type").notNull(), // chat, favor, system
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  payload: jsonb("payload").$type<OutboxNotificationPayload>().notNull(),
+  status: varchar("status").default("pending").notNull(), // pending, sent, failed, no_subscription
+  platform: varchar("platform"), // providers tried on the last attempt: "webpush", "onesignal" or "webpush,onesignal"
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+}, (table) => [
+  index("notification_outbox_due_idx").on(table.status, table.nextAttemptAt),
+  index("notification_outbox_user_idx").on(table.userId, table.createdAt),
+]);
+
+// The in-app inbox: every notification a user is sent, independent of push delivery
+export const inAppNotifications = pgTable("in_app_notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: varchar("type").notNull(), // chat, favor, system
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  url: text("url"),
+  favorId: integer("favor_id"),
+  chatId: integer("chat_id"),
+  data: jsonb("data").$type<Record<string, any>>(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("in_app_notifications_user_idx").on(table.userId, table.createdAt),
+  index("in_app_notifications_unread_idx").on(table.userId, table.readAt),
+]);
+
 export type FavorWithPoster = Favor & {
   posterName?: string;
+  posterRating?: string | null;
   posterFirstName?: string | null;
   posterLastName?: string | null;
   helperName?: string | null;
   helperFirstName?: string | null;
   helperLastName?: string | null;
+  locationApproximate?: boolean; // set by the API: latitude/longitude/address are the public pin and area label
+};
+
+export type ReviewWithRater = Rating & {
+  raterName: string;
+  favorTitle: string | null;
 };
 
+// Payment types
+export type EscrowPayment = typeof escrowPayments.$inferSelect;
+export type InsertEscrowPayment = typeof escrowPayments.$inferInsert;
+export type UserWallet = typeof userWallets.$inferSelect;
+export type WalletLedgerEntry = typeof walletLedger.$inferSelect;
+export type Dispute = typeof disputes.$inferSelect;
+export type ModerationEventRecord = typeof moderationEvents.$inferSelect;
+
 // Chat types
 export type ChatRoom = typeof chatRooms.$inferSelect;
 export type InsertChatRoom = typeof chatRooms.$inferInsert;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 export type InsertChatMessage = typeof chatMessages.$inferInsert;
+export type FavorOffer = typeof favorOffers.$inferSelect;
+export type SubmitOfferInput = z.infer<typeof submitOfferSchema>;
+export type CounterOfferInput = z.infer<typeof counterOfferSchema>;
+export type FavorOfferWithHelper = FavorOffer & {
+  helperName: string;
+  helperRating: string | null;
+  helperCompletedFavrs: number;
+};
 
 // Notification types
 export type NotificationSubscription = typeof notificationSubscriptions.$inferSelect;
 export type InsertNotificationSubscription = typeof notificationSubscriptions.$inferInsert;
+export type PushDevice = typeof pushDevices.$inferSelect;
+export type InsertPushDevice = typeof pushDevices.$inferInsert;
+export type AlertArea = typeof alertAreas.$inferSelect;
+export type AlertAreaInput = z.infer<typeof alertAreaSchema>;
+export type FavorSearchInput = z.infer<typeof favorSearchSchema>;
+export type ChatHistoryQuery = z.infer<typeof chatHistoryQuerySchema>;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>;
+export type NotificationDigestItem = typeof notificationDigestItems.$inferSelect;
+export type NotificationOutboxEntry = typeof notificationOutbox.$inferSelect;
+export type InAppNotification = typeof inAppNotifications.$inferSelect;